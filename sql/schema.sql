@@ -22,6 +22,54 @@ CREATE TABLE warn_severities (
 INSERT IGNORE INTO warn_severities (id, name) VALUES
   (1,'minor'), (2,'major'), (3,'critical');
 
+CREATE TABLE notification_statuses (
+  id TINYINT UNSIGNED PRIMARY KEY AUTO_INCREMENT,
+  name VARCHAR(16) NOT NULL UNIQUE
+) ENGINE=InnoDB;
+
+INSERT IGNORE INTO notification_statuses (id, name) VALUES
+  (1,'PENDING'),(2,'SENT'),(3,'DEAD');
+
+CREATE TABLE leaderboard_periods (
+  id TINYINT UNSIGNED PRIMARY KEY AUTO_INCREMENT,
+  name VARCHAR(16) NOT NULL UNIQUE
+) ENGINE=InnoDB;
+
+INSERT IGNORE INTO leaderboard_periods (id, name) VALUES
+  (1,'WEEK'),(2,'MONTH'),(3,'ALL');
+
+CREATE TABLE warn_sanction_actions (
+  id TINYINT UNSIGNED PRIMARY KEY AUTO_INCREMENT,
+  name VARCHAR(16) NOT NULL UNIQUE
+) ENGINE=InnoDB;
+
+INSERT IGNORE INTO warn_sanction_actions (id, name) VALUES
+  (1,'TIMEOUT_1H'),(2,'TIMEOUT_24H'),(3,'BAN');
+
+CREATE TABLE warn_sanction_statuses (
+  id TINYINT UNSIGNED PRIMARY KEY AUTO_INCREMENT,
+  name VARCHAR(16) NOT NULL UNIQUE
+) ENGINE=InnoDB;
+
+INSERT IGNORE INTO warn_sanction_statuses (id, name) VALUES
+  (1,'PENDING'),(2,'APPLIED'),(3,'DISMISSED'),(4,'FAILED');
+
+CREATE TABLE warn_appeal_statuses (
+  id TINYINT UNSIGNED PRIMARY KEY AUTO_INCREMENT,
+  name VARCHAR(16) NOT NULL UNIQUE
+) ENGINE=InnoDB;
+
+INSERT IGNORE INTO warn_appeal_statuses (id, name) VALUES
+  (1,'PENDING'),(2,'ACCEPTED'),(3,'REJECTED');
+
+CREATE TABLE warn_enforcement_modes (
+  id TINYINT UNSIGNED PRIMARY KEY AUTO_INCREMENT,
+  name VARCHAR(16) NOT NULL UNIQUE
+) ENGINE=InnoDB;
+
+INSERT IGNORE INTO warn_enforcement_modes (id, name) VALUES
+  (1,'AUTO'),(2,'CONFIRM');
+
 CREATE TABLE ticket_types (
   id TINYINT UNSIGNED PRIMARY KEY AUTO_INCREMENT,
   name VARCHAR(32) NOT NULL UNIQUE
@@ -38,6 +86,14 @@ CREATE TABLE ticket_statuses (
 INSERT IGNORE INTO ticket_statuses (id, name) VALUES
   (1,'OPEN'),(2,'CONFIRMED'),(3,'CLAIMED'),(4,'CLOSED');
 
+CREATE TABLE ticket_reminder_kinds (
+  id TINYINT UNSIGNED PRIMARY KEY AUTO_INCREMENT,
+  name VARCHAR(32) NOT NULL UNIQUE
+) ENGINE=InnoDB;
+
+INSERT IGNORE INTO ticket_reminder_kinds (id, name) VALUES
+  (1,'MIDDLEMAN_PING'),(2,'STAFF_ESCALATION'),(3,'AUTO_CLOSE');
+
 -- =========================================
 -- Usuarios (Discord y Roblox)
 -- =========================================
@@ -59,12 +115,67 @@ CREATE TABLE warns (
   severity_id TINYINT UNSIGNED NOT NULL,
   reason TEXT,
   created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  expired_at TIMESTAMP NULL,
   INDEX idx_warns_user_created (user_id, created_at DESC),
+  INDEX idx_warns_expired_created (expired_at, created_at),
   CONSTRAINT fk_warns_user FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
   CONSTRAINT fk_warns_mod FOREIGN KEY (moderator_id) REFERENCES users(id) ON DELETE SET NULL,
   CONSTRAINT fk_warns_sev FOREIGN KEY (severity_id) REFERENCES warn_severities(id)
 ) ENGINE=InnoDB;
 
+CREATE TABLE warn_sanctions (
+  id INT UNSIGNED AUTO_INCREMENT PRIMARY KEY,
+  warn_id INT UNSIGNED NOT NULL,
+  guild_id BIGINT UNSIGNED NOT NULL,
+  user_id BIGINT UNSIGNED NOT NULL,
+  action_id TINYINT UNSIGNED NOT NULL,
+  status_id TINYINT UNSIGNED NOT NULL DEFAULT 1,
+  message_id BIGINT UNSIGNED NULL UNIQUE,
+  resolved_by_id BIGINT UNSIGNED NULL,
+  failure VARCHAR(255) NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  resolved_at TIMESTAMP NULL,
+  INDEX idx_sanctions_guild_user (guild_id, user_id),
+  CONSTRAINT fk_sanctions_warn FOREIGN KEY (warn_id) REFERENCES warns(id) ON DELETE CASCADE,
+  CONSTRAINT fk_sanctions_action FOREIGN KEY (action_id) REFERENCES warn_sanction_actions(id),
+  CONSTRAINT fk_sanctions_status FOREIGN KEY (status_id) REFERENCES warn_sanction_statuses(id)
+) ENGINE=InnoDB;
+
+-- Sin FK a warns: aceptar la apelación elimina la advertencia pero el registro se conserva.
+CREATE TABLE warn_appeals (
+  id INT UNSIGNED AUTO_INCREMENT PRIMARY KEY,
+  warn_id INT UNSIGNED NOT NULL,
+  guild_id BIGINT UNSIGNED NOT NULL,
+  user_id BIGINT UNSIGNED NOT NULL,
+  justification TEXT NOT NULL,
+  status_id TINYINT UNSIGNED NOT NULL DEFAULT 1,
+  message_id BIGINT UNSIGNED NULL UNIQUE,
+  reviewer_id BIGINT UNSIGNED NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  resolved_at TIMESTAMP NULL,
+  INDEX idx_appeals_warn (warn_id),
+  INDEX idx_appeals_user_created (user_id, created_at DESC),
+  CONSTRAINT fk_appeals_status FOREIGN KEY (status_id) REFERENCES warn_appeal_statuses(id)
+) ENGINE=InnoDB;
+
+-- =========================================
+-- Configuración por servidor
+-- =========================================
+
+CREATE TABLE guild_settings (
+  guild_id BIGINT UNSIGNED PRIMARY KEY,
+  warn_enforcement_mode_id TINYINT UNSIGNED NOT NULL DEFAULT 2,
+  welcome_dm_enabled TINYINT(1) NOT NULL DEFAULT 1,
+  welcome_channel_id BIGINT UNSIGNED NULL,
+  welcome_template TEXT NULL,
+  leaderboard_channel_id BIGINT UNSIGNED NULL,
+  leaderboard_message_id BIGINT UNSIGNED NULL,
+  leaderboard_period_id TINYINT UNSIGNED NOT NULL DEFAULT 1,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+  CONSTRAINT fk_guild_settings_mode FOREIGN KEY (warn_enforcement_mode_id) REFERENCES warn_enforcement_modes(id),
+  CONSTRAINT fk_guild_settings_leaderboard_period FOREIGN KEY (leaderboard_period_id) REFERENCES leaderboard_periods(id)
+) ENGINE=InnoDB;
+
 -- =========================================
 -- Tickets
 -- =========================================
@@ -79,14 +190,38 @@ CREATE TABLE tickets (
 
   created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
   closed_at TIMESTAMP NULL,
+  unclaimed_since TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
   INDEX idx_tickets_owner_status (owner_id, status_id),
   INDEX idx_tickets_channel (channel_id),
   INDEX idx_tickets_guild_created (guild_id, created_at DESC),
+  INDEX idx_tickets_guild_unclaimed (guild_id, unclaimed_since),
   CONSTRAINT fk_tickets_owner FOREIGN KEY (owner_id) REFERENCES users(id) ON DELETE CASCADE,
   CONSTRAINT fk_tickets_type FOREIGN KEY (type_id) REFERENCES ticket_types(id),
   CONSTRAINT fk_tickets_status FOREIGN KEY (status_id) REFERENCES ticket_statuses(id)
 ) ENGINE=InnoDB;
 
+CREATE TABLE ticket_channel_schedules (
+  ticket_id INT UNSIGNED PRIMARY KEY,
+  channel_id BIGINT UNSIGNED NOT NULL,
+  archive_at TIMESTAMP NOT NULL,
+  delete_at TIMESTAMP NOT NULL,
+  archived_at TIMESTAMP NULL,
+  deleted_at TIMESTAMP NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  INDEX idx_channel_schedules_archive (archived_at, archive_at),
+  INDEX idx_channel_schedules_delete (deleted_at, delete_at),
+  CONSTRAINT fk_channel_schedules_ticket FOREIGN KEY (ticket_id) REFERENCES tickets(id) ON DELETE CASCADE
+) ENGINE=InnoDB;
+
+CREATE TABLE ticket_reminders (
+  ticket_id INT UNSIGNED NOT NULL,
+  kind_id TINYINT UNSIGNED NOT NULL,
+  sent_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (ticket_id, kind_id),
+  CONSTRAINT fk_reminders_ticket FOREIGN KEY (ticket_id) REFERENCES tickets(id) ON DELETE CASCADE,
+  CONSTRAINT fk_reminders_kind FOREIGN KEY (kind_id) REFERENCES ticket_reminder_kinds(id)
+) ENGINE=InnoDB;
+
 CREATE TABLE ticket_participants (
   ticket_id INT UNSIGNED NOT NULL,
   user_id BIGINT UNSIGNED NOT NULL,
@@ -147,7 +282,7 @@ CREATE TABLE mm_trade_items (
 
 CREATE TABLE mm_claims (
   ticket_id INT UNSIGNED PRIMARY KEY,
-  middleman_id BIGINT UNSIGNED NOT NULL,
+  middleman_id BIGINT UNSIGNED NULL, -- NULL mientras el ticket no ha sido reclamado
   claimed_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
   review_requested_at TIMESTAMP NULL,
   closed_at TIMESTAMP NULL,
@@ -162,6 +297,17 @@ CREATE TABLE mm_claims (
   CONSTRAINT fk_claim_middleman FOREIGN KEY (middleman_id) REFERENCES middlemen(user_id) ON DELETE CASCADE
 ) ENGINE=InnoDB;
 
+CREATE TABLE mm_claim_transfers (
+  id INT UNSIGNED AUTO_INCREMENT PRIMARY KEY,
+  ticket_id INT UNSIGNED NOT NULL,
+  from_middleman_id BIGINT UNSIGNED NULL,
+  to_middleman_id BIGINT UNSIGNED NULL, -- NULL cuando el middleman libera el ticket
+  actor_id BIGINT UNSIGNED NOT NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  INDEX idx_claim_transfers_ticket (ticket_id, created_at DESC),
+  CONSTRAINT fk_claim_transfers_ticket FOREIGN KEY (ticket_id) REFERENCES tickets(id) ON DELETE CASCADE
+) ENGINE=InnoDB;
+
 CREATE TABLE mm_reviews (
   id INT UNSIGNED AUTO_INCREMENT PRIMARY KEY,
   ticket_id INT UNSIGNED NOT NULL,
@@ -170,6 +316,13 @@ CREATE TABLE mm_reviews (
   stars TINYINT NOT NULL CHECK (stars BETWEEN 0 AND 5),
   review_text TEXT,
   created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  channel_id BIGINT UNSIGNED NULL,
+  message_id BIGINT UNSIGNED NULL,
+  edited_at TIMESTAMP NULL,
+  hidden_at TIMESTAMP NULL,
+  hidden_by BIGINT UNSIGNED NULL,
+  hidden_reason VARCHAR(255) NULL,
+  deleted_at TIMESTAMP NULL,
   UNIQUE KEY uniq_ticket_reviewer (ticket_id, reviewer_id),
   INDEX idx_reviews_mm (middleman_id, created_at DESC),
   CONSTRAINT fk_reviews_ticket FOREIGN KEY (ticket_id) REFERENCES tickets(id) ON DELETE CASCADE,
@@ -177,6 +330,26 @@ CREATE TABLE mm_reviews (
   CONSTRAINT fk_reviews_middleman FOREIGN KEY (middleman_id) REFERENCES middlemen(user_id) ON DELETE CASCADE
 ) ENGINE=InnoDB;
 
+CREATE TABLE review_invites (
+  message_id BIGINT UNSIGNED PRIMARY KEY,
+  ticket_id INT UNSIGNED NOT NULL,
+  middleman_id BIGINT UNSIGNED NOT NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  expires_at TIMESTAMP NOT NULL,
+  INDEX idx_review_invites_ticket (ticket_id),
+  INDEX idx_review_invites_expiry (expires_at),
+  CONSTRAINT fk_review_invites_ticket FOREIGN KEY (ticket_id) REFERENCES tickets(id) ON DELETE CASCADE
+) ENGINE=InnoDB;
+
+CREATE TABLE review_reminders (
+  ticket_id INT UNSIGNED NOT NULL,
+  user_id BIGINT UNSIGNED NOT NULL,
+  reminders_sent TINYINT UNSIGNED NOT NULL DEFAULT 0,
+  last_sent_at TIMESTAMP NOT NULL,
+  PRIMARY KEY (ticket_id, user_id),
+  CONSTRAINT fk_review_reminders_ticket FOREIGN KEY (ticket_id) REFERENCES tickets(id) ON DELETE CASCADE
+) ENGINE=InnoDB;
+
 CREATE TABLE mm_trade_finalizations (
   ticket_id INT UNSIGNED NOT NULL,
   user_id BIGINT UNSIGNED NOT NULL,
@@ -187,13 +360,16 @@ CREATE TABLE mm_trade_finalizations (
 ) ENGINE=InnoDB;
 
 -- =========================================
--- Estadísticas de miembros (solo acumulado)
+-- Estadísticas de miembros y middlemans (solo acumulado)
 -- =========================================
 
 CREATE TABLE member_trade_stats (
   user_id BIGINT UNSIGNED PRIMARY KEY,
   trades_completed INT NOT NULL DEFAULT 0,
   last_trade_at TIMESTAMP NULL,
+  roblox_username VARCHAR(191) NULL,
+  roblox_user_id BIGINT UNSIGNED NULL,
+  partner_tag VARCHAR(191) NULL,
   updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
   CONSTRAINT fk_mts_user FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
 ) ENGINE=InnoDB;
@@ -207,15 +383,40 @@ CREATE TABLE IF NOT EXISTS mm_trade_finalizations (
   CONSTRAINT fk_mtf_user FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
 ) ENGINE=InnoDB;
 
-
-CREATE TABLE IF NOT EXISTS member_trade_stats (
-  discord_user_id VARCHAR(20) PRIMARY KEY,
-  roblox_username VARCHAR(255) NULL,
-  roblox_user_id BIGINT NULL,
-  partner_roblox_username VARCHAR(255) NULL,
-  partner_roblox_user_id BIGINT NULL,
-  trades_completed INT NOT NULL DEFAULT 0,
-  last_trade_at TIMESTAMP NULL,
+CREATE TABLE mm_stats (
+  middleman_id BIGINT UNSIGNED PRIMARY KEY,
+  claims_handled INT NOT NULL DEFAULT 0,
+  forced_closes INT NOT NULL DEFAULT 0,
+  total_close_seconds BIGINT UNSIGNED NOT NULL DEFAULT 0,
+  last_closed_at TIMESTAMP NULL,
   updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
-  INDEX idx_member_trades_count (trades_completed DESC)
+  CONSTRAINT fk_mm_stats_middleman FOREIGN KEY (middleman_id) REFERENCES middlemen(user_id) ON DELETE CASCADE
+) ENGINE=InnoDB;
+
+-- =========================================
+-- Cola de mensajes directos
+-- =========================================
+
+CREATE TABLE notification_queue (
+  id INT UNSIGNED AUTO_INCREMENT PRIMARY KEY,
+  user_id BIGINT UNSIGNED NOT NULL,
+  kind VARCHAR(32) NOT NULL,
+  payload JSON NOT NULL,
+  status_id TINYINT UNSIGNED NOT NULL DEFAULT 1,
+  attempts INT NOT NULL DEFAULT 0,
+  available_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  last_error VARCHAR(255) NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  sent_at TIMESTAMP NULL,
+  INDEX idx_notifications_status_available (status_id, available_at),
+  INDEX idx_notifications_user_status (user_id, status_id),
+  CONSTRAINT fk_notifications_status FOREIGN KEY (status_id) REFERENCES notification_statuses(id)
+) ENGINE=InnoDB;
+
+-- Usuarios con los DMs cerrados (error 50007): no se les encolan mensajes hasta blocked_until.
+CREATE TABLE dm_dead_letters (
+  user_id BIGINT UNSIGNED PRIMARY KEY,
+  reason VARCHAR(255) NOT NULL,
+  blocked_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  blocked_until TIMESTAMP NOT NULL
 ) ENGINE=InnoDB;
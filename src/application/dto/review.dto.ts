@@ -13,3 +13,21 @@ export const SubmitReviewSchema = z.object({
 });
 
 export type SubmitReviewDTO = z.infer<typeof SubmitReviewSchema>;
+
+export const EditReviewSchema = z.object({
+  reviewId: z.number().int().positive(),
+  reviewerId: z.string().regex(/^\d+$/u, 'Invalid Discord ID'),
+  rating: z.number().int().min(1).max(5),
+  comment: z.string().trim().max(500).optional(),
+});
+
+export type EditReviewDTO = z.input<typeof EditReviewSchema>;
+
+export const ModerateReviewSchema = z.object({
+  reviewId: z.number().int().positive(),
+  moderatorId: z.string().regex(/^\d+$/u, 'Invalid Discord ID'),
+  action: z.enum(['hide', 'delete']),
+  reason: z.string().trim().min(3).max(255),
+});
+
+export type ModerateReviewDTO = z.input<typeof ModerateReviewSchema>;
@@ -24,3 +24,45 @@ export const ClaimTicketSchema = z.object({
 });
 
 export type ClaimTicketDTO = z.infer<typeof ClaimTicketSchema>;
+
+export const ReopenTicketSchema = z.object({
+  ticketId: z.number().int().positive(),
+  actorId: z.string().regex(/^\d+$/u, 'Invalid Discord ID'),
+  reason: z.string().trim().min(3).max(500),
+  isStaff: z.boolean(),
+  categoryId: z.string().regex(/^\d+$/u, 'Invalid category ID').optional(),
+});
+
+export type ReopenTicketDTO = z.infer<typeof ReopenTicketSchema>;
+
+export const CreateTicketSchema = z.object({
+  userId: z.string().regex(/^\d+$/u, 'Invalid Discord ID'),
+  guildId: z.string().regex(/^\d+$/u, 'Invalid guild ID'),
+  type: z.enum(['BUY', 'SELL', 'ROBUX', 'NITRO', 'DECOR']),
+  answers: z
+    .array(
+      z.object({
+        question: z.string().min(1).max(45),
+        answer: z.string().trim().max(1000),
+      }),
+    )
+    .min(1)
+    .max(5),
+  categoryId: z.string().regex(/^\d+$/u, 'Invalid category ID').optional(),
+  staffRoleId: z.string().regex(/^\d+$/u, 'Invalid role ID').optional(),
+});
+
+export type CreateTicketDTO = z.infer<typeof CreateTicketSchema>;
+
+export const OpenTicketSchema = z.discriminatedUnion('type', [CreateMiddlemanTicketSchema, CreateTicketSchema]);
+
+export type OpenTicketDTO = z.infer<typeof OpenTicketSchema>;
+
+export const CloseTicketSchema = z.object({
+  ticketId: z.number().int().positive(),
+  actorId: z.string().regex(/^\d+$/u, 'Invalid Discord ID'),
+  reason: z.string().trim().min(3).max(500).optional(),
+  isStaff: z.boolean(),
+});
+
+export type CloseTicketDTO = z.infer<typeof CloseTicketSchema>;
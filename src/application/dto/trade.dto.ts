@@ -0,0 +1,54 @@
+// ============================================================================
+// RUTA: src/application/dto/trade.dto.ts
+// ============================================================================
+
+import { z } from 'zod';
+
+import { TRADE_LIMITS } from '@/shared/config/constants';
+
+export const TradeItemSchema = z.object({
+  name: z.string().trim().min(1).max(TRADE_LIMITS.itemName),
+  quantity: z.number().int().min(1).max(TRADE_LIMITS.maxItemQuantity),
+});
+
+export const DeclareTradeSchema = z.object({
+  ticketId: z.number().int().positive(),
+  userId: z.string().regex(/^\d+$/u, 'Invalid Discord ID'),
+  robloxUsername: z.string().trim().min(3).max(50),
+  items: z.array(TradeItemSchema).min(1).max(TRADE_LIMITS.maxItemsPerTrade),
+});
+
+export type DeclareTradeDTO = z.infer<typeof DeclareTradeSchema>;
+
+export const RemoveTradeItemSchema = z.object({
+  ticketId: z.number().int().positive(),
+  userId: z.string().regex(/^\d+$/u, 'Invalid Discord ID'),
+  position: z.number().int().positive(),
+});
+
+export type RemoveTradeItemDTO = z.infer<typeof RemoveTradeItemSchema>;
+
+export const TradeParticipantSchema = z.object({
+  ticketId: z.number().int().positive(),
+  userId: z.string().regex(/^\d+$/u, 'Invalid Discord ID'),
+});
+
+export type TradeParticipantDTO = z.infer<typeof TradeParticipantSchema>;
+
+export const CancelTradeSchema = z.object({
+  ticketId: z.number().int().positive(),
+  actorId: z.string().regex(/^\d+$/u, 'Invalid Discord ID'),
+  reason: z.string().trim().min(3).max(500),
+  isStaff: z.boolean(),
+});
+
+export type CancelTradeDTO = z.infer<typeof CancelTradeSchema>;
+
+export const TransferClaimSchema = z.object({
+  ticketId: z.number().int().positive(),
+  actorId: z.string().regex(/^\d+$/u, 'Invalid Discord ID'),
+  targetId: z.string().regex(/^\d+$/u, 'Invalid Discord ID').nullable(),
+  isStaff: z.boolean(),
+});
+
+export type TransferClaimDTO = z.infer<typeof TransferClaimSchema>;
@@ -0,0 +1,230 @@
+// =============================================================================
+// RUTA: src/application/services/LeaderboardService.ts
+// =============================================================================
+
+import type { Client, EmbedBuilder } from 'discord.js';
+import type { Logger } from 'pino';
+
+import type { RatingScore, RatingService } from '@/application/services/RatingService';
+import { LeaderboardBoard, LeaderboardPeriod } from '@/domain/entities/types';
+import type {
+  IGuildSettingsRepository,
+  LeaderboardChannelSettings,
+} from '@/domain/repositories/IGuildSettingsRepository';
+import type {
+  ILeaderboardRepository,
+  LeaderboardEntry,
+  MiddlemanRatingSample,
+} from '@/domain/repositories/ILeaderboardRepository';
+import { type EmbedFactory, embedFactory } from '@/presentation/embeds/EmbedFactory';
+import { LEADERBOARD_LIMITS, SCHEDULER_INTERVALS } from '@/shared/config/constants';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const PERIOD_DAYS: Record<LeaderboardPeriod, number | null> = {
+  [LeaderboardPeriod.WEEK]: 7,
+  [LeaderboardPeriod.MONTH]: 30,
+  [LeaderboardPeriod.ALL]: null,
+};
+
+export interface RankedLeaderboardEntry extends LeaderboardEntry {
+  readonly rank: number;
+}
+
+export interface LeaderboardPage {
+  readonly board: LeaderboardBoard;
+  readonly period: LeaderboardPeriod;
+  readonly entries: readonly RankedLeaderboardEntry[];
+  readonly page: number;
+  readonly totalPages: number;
+  readonly generatedAt: Date;
+}
+
+interface CachedBoard {
+  readonly entries: readonly LeaderboardEntry[];
+  readonly generatedAt: Date;
+  readonly expiresAt: number;
+}
+
+export type LeaderboardServiceOptions = Partial<typeof LEADERBOARD_LIMITS>;
+
+/**
+ * Calcula las tablas de clasificación (traders, middlemans y reseñas) por periodo, las mantiene en caché
+ * unos minutos y actualiza periódicamente el mensaje fijo de los servidores que configuraron un canal.
+ */
+export class LeaderboardService {
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private readonly cache = new Map<string, CachedBoard>();
+  private readonly limits: typeof LEADERBOARD_LIMITS;
+
+  public constructor(
+    private readonly repository: ILeaderboardRepository,
+    private readonly settingsRepo: IGuildSettingsRepository,
+    private readonly logger: Logger,
+    private readonly embeds: EmbedFactory = embedFactory,
+    options: LeaderboardServiceOptions = {},
+    private readonly ratings: RatingService,
+  ) {
+    this.limits = { ...LEADERBOARD_LIMITS, ...options };
+  }
+
+  public static periodStart(period: LeaderboardPeriod, now: Date): Date | null {
+    const days = PERIOD_DAYS[period];
+
+    return days === null ? null : new Date(now.getTime() - days * DAY_MS);
+  }
+
+  public async getPage(
+    board: LeaderboardBoard,
+    period: LeaderboardPeriod,
+    page: number,
+    now: Date = new Date(),
+  ): Promise<LeaderboardPage> {
+    const { entries, generatedAt } = await this.getBoard(board, period, now);
+    const { pageSize } = this.limits;
+
+    const totalPages = Math.max(1, Math.ceil(entries.length / pageSize));
+    const current = Math.min(Math.max(1, page), totalPages);
+    const offset = (current - 1) * pageSize;
+
+    return {
+      board,
+      period,
+      entries: entries.slice(offset, offset + pageSize).map((entry, index) => ({ ...entry, rank: offset + index + 1 })),
+      page: current,
+      totalPages,
+      generatedAt,
+    };
+  }
+
+  public start(client: Client): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      void this.refreshChannels(client);
+    }, SCHEDULER_INTERVALS.leaderboardRefresh);
+    this.timer.unref();
+
+    void this.refreshChannels(client);
+  }
+
+  public stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /** Publica o edita la tabla automática en cada servidor con canal configurado. */
+  public async refreshChannels(client: Client, now: Date = new Date()): Promise<void> {
+    let targets: readonly LeaderboardChannelSettings[];
+    try {
+      targets = await this.settingsRepo.listLeaderboardChannels();
+    } catch (error) {
+      this.logger.error({ err: error }, 'No se pudieron cargar los canales de leaderboard.');
+      return;
+    }
+
+    for (const target of targets) {
+      try {
+        await this.publish(client, target, now);
+      } catch (error) {
+        this.logger.warn(
+          { err: error, guildId: target.guildId.toString(), channelId: target.channelId.toString() },
+          'No se pudo actualizar el leaderboard automático.',
+        );
+      }
+    }
+  }
+
+  public async buildSummaryEmbeds(period: LeaderboardPeriod, now: Date = new Date()): Promise<EmbedBuilder[]> {
+    const boards = [LeaderboardBoard.TRADES, LeaderboardBoard.MIDDLEMEN, LeaderboardBoard.REVIEWS];
+    const pages = await Promise.all(boards.map(async (board) => this.getPage(board, period, 1, now)));
+
+    return pages.map((page) => this.embeds.leaderboard({ ...page, paginated: false }));
+  }
+
+  private async publish(client: Client, target: LeaderboardChannelSettings, now: Date): Promise<void> {
+    const channel = await client.channels.fetch(target.channelId.toString()).catch(() => null);
+    if (!channel || !channel.isTextBased() || !('send' in channel)) {
+      this.logger.warn({ guildId: target.guildId.toString() }, 'Canal de leaderboard no válido o inaccesible.');
+      return;
+    }
+
+    const embeds = await this.buildSummaryEmbeds(target.period, now);
+
+    if (target.messageId) {
+      const message = await channel.messages.fetch(target.messageId.toString()).catch(() => null);
+      if (message) {
+        await message.edit({ embeds });
+        return;
+      }
+    }
+
+    // El mensaje se borró (o nunca existió): se publica uno nuevo y se recuerda para las siguientes ediciones.
+    const message = await channel.send({ embeds });
+    await this.settingsRepo.saveLeaderboardMessage(target.guildId, BigInt(message.id));
+  }
+
+  private async getBoard(board: LeaderboardBoard, period: LeaderboardPeriod, now: Date): Promise<CachedBoard> {
+    const key = `${board}:${period}`;
+    const cached = this.cache.get(key);
+    if (cached && cached.expiresAt > now.getTime()) {
+      return cached;
+    }
+
+    const since = LeaderboardService.periodStart(period, now);
+    const entries = await this.query(board, since, now);
+    const fresh: CachedBoard = { entries, generatedAt: now, expiresAt: now.getTime() + this.limits.cacheTtlMs };
+
+    this.cache.set(key, fresh);
+    return fresh;
+  }
+
+  private async query(board: LeaderboardBoard, since: Date | null, now: Date): Promise<readonly LeaderboardEntry[]> {
+    switch (board) {
+      case LeaderboardBoard.TRADES:
+        return this.repository.topTraders(since, this.limits.size);
+      case LeaderboardBoard.MIDDLEMEN:
+        return this.repository.topMiddlemen(since, this.limits.size);
+      case LeaderboardBoard.REVIEWS:
+        return this.rankByRating(since, now);
+    }
+  }
+
+  /** Sin decaimiento la suma y el conteo por middleman salen agrupados de la base de datos. */
+  private async rankByRating(since: Date | null, now: Date): Promise<LeaderboardEntry[]> {
+    const scores = this.ratings.decays
+      ? this.scoreSamples(await this.repository.ratingSamples(since), now)
+      : (await this.repository.ratingTotals(since)).map(
+          (totals): [bigint, RatingScore] => [totals.middlemanId, this.ratings.scoreTotals(totals)],
+        );
+
+    const entries: LeaderboardEntry[] = [];
+    for (const [userId, { raw, weighted, count }] of scores) {
+      if (count < this.limits.minReviews) {
+        continue;
+      }
+
+      entries.push({ userId, score: weighted, count, rawScore: raw ?? 0 });
+    }
+
+    return entries.sort((a, b) => b.score - a.score || b.count - a.count).slice(0, this.limits.size);
+  }
+
+  private scoreSamples(samples: readonly MiddlemanRatingSample[], now: Date): [bigint, RatingScore][] {
+    const byMiddleman = new Map<bigint, MiddlemanRatingSample[]>();
+    for (const sample of samples) {
+      const group = byMiddleman.get(sample.middlemanId);
+      if (group) {
+        group.push(sample);
+      } else {
+        byMiddleman.set(sample.middlemanId, [sample]);
+      }
+    }
+
+    return [...byMiddleman].map(([middlemanId, group]) => [middlemanId, this.ratings.score(group, now)]);
+  }
+}
@@ -0,0 +1,333 @@
+// =============================================================================
+// RUTA: src/application/services/NotificationQueue.ts
+// =============================================================================
+
+import {
+  type ActionRowBuilder,
+  type APIActionRowComponent,
+  type APIComponentInMessageActionRow,
+  type APIEmbed,
+  AttachmentBuilder,
+  type Client,
+  DiscordAPIError,
+  type EmbedBuilder,
+  type MessageActionRowComponentBuilder,
+  RESTJSONErrorCodes,
+} from 'discord.js';
+import type { Logger } from 'pino';
+
+import { NotificationStatus } from '@/domain/entities/types';
+import type {
+  INotificationRepository,
+  NotificationPayload,
+  NotificationRenderedFile,
+  QueuedNotification,
+} from '@/domain/repositories/INotificationRepository';
+import { NOTIFICATION_LIMITS, SCHEDULER_INTERVALS } from '@/shared/config/constants';
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+export interface NotificationMessage {
+  readonly content?: string;
+  readonly embeds?: ReadonlyArray<EmbedBuilder | APIEmbed>;
+  readonly files?: ReadonlyArray<{ readonly name: string; readonly data: Buffer }>;
+  /** Adjuntos pesados (imágenes generadas): se encolan sus datos y se generan al enviar. */
+  readonly renderedFiles?: ReadonlyArray<NotificationRenderedFile>;
+  /** Solo tienen sentido botones con `customId` enrutado por prefijo: el DM puede llegar tras un reinicio. */
+  readonly components?: ReadonlyArray<ActionRowBuilder<MessageActionRowComponentBuilder>>;
+}
+
+export interface EnqueueOptions {
+  /** Retraso antes del primer intento de envío. */
+  readonly delayMs?: number;
+}
+
+export interface NotificationQueueMetrics {
+  readonly pending: number;
+  readonly sent: number;
+  readonly dead: number;
+  readonly sentThisMinute: number;
+  /** Envíos reprogramados con backoff desde el último informe. */
+  readonly retried: number;
+  /** Envíos descartados (reintentos agotados, usuario desconocido o DMs cerrados) desde el último informe. */
+  readonly failed: number;
+}
+
+export type NotificationQueueOptions = Partial<typeof NOTIFICATION_LIMITS>;
+
+export type NotificationFileRenderer = (data: Record<string, unknown>) => Promise<Buffer>;
+
+/**
+ * Cola persistente de mensajes directos. Los envíos se guardan en `notification_queue`, se despachan
+ * respetando un límite global por minuto y un intervalo mínimo por usuario, se reintentan con backoff
+ * exponencial y, si el usuario tiene los DMs cerrados (50007), se manda a `dm_dead_letters`.
+ */
+export class NotificationQueue {
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private running = false;
+  private lastPurgeAt = 0;
+  private lastMetricsAt = 0;
+  private retriedSinceReport = 0;
+  private failedSinceReport = 0;
+  private readonly limits: typeof NOTIFICATION_LIMITS;
+  private readonly sentTimestamps: number[] = [];
+  private readonly lastSentByUser = new Map<string, number>();
+  private readonly fileRenderers = new Map<string, NotificationFileRenderer>();
+
+  public constructor(
+    private readonly repository: INotificationRepository,
+    private readonly logger: Logger,
+    options: NotificationQueueOptions = {},
+  ) {
+    this.limits = { ...NOTIFICATION_LIMITS, ...options };
+  }
+
+  /**
+   * Encola un DM. Devuelve `false` si el usuario está en la lista de DMs cerrados y el mensaje se descartó.
+   */
+  public async enqueue(
+    userId: string,
+    kind: string,
+    message: NotificationMessage,
+    options: EnqueueOptions = {},
+    now: Date = new Date(),
+  ): Promise<boolean> {
+    const recipient = BigInt(userId);
+
+    if (await this.repository.isDeadLettered(recipient, now)) {
+      this.logger.debug({ userId, kind }, 'DM descartado: el usuario tiene los mensajes directos cerrados.');
+      return false;
+    }
+
+    const job = await this.repository.enqueue({
+      userId: recipient,
+      kind,
+      payload: this.serialize(message),
+      availableAt: new Date(now.getTime() + (options.delayMs ?? 0)),
+    });
+
+    this.logger.debug({ notificationId: job.id, userId, kind }, 'DM encolado.');
+    return true;
+  }
+
+  /** Registra cómo generar un adjunto diferido. Registrar de nuevo el mismo nombre lo reemplaza. */
+  public registerFileRenderer(name: string, renderer: NotificationFileRenderer): void {
+    this.fileRenderers.set(name, renderer);
+  }
+
+  public start(client: Client): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      void this.runDue(client);
+    }, SCHEDULER_INTERVALS.notificationQueue);
+    this.timer.unref();
+
+    void this.runDue(client);
+  }
+
+  public stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  public async getMetrics(now: Date = new Date()): Promise<NotificationQueueMetrics> {
+    const counts = await this.repository.countByStatus();
+    this.pruneWindow(now.getTime());
+
+    return {
+      pending: counts[NotificationStatus.PENDING],
+      sent: counts[NotificationStatus.SENT],
+      dead: counts[NotificationStatus.DEAD],
+      sentThisMinute: this.sentTimestamps.length,
+      retried: this.retriedSinceReport,
+      failed: this.failedSinceReport,
+    };
+  }
+
+  public async runDue(client: Client, now: Date = new Date()): Promise<void> {
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    try {
+      const budget = this.remainingGlobalBudget(now.getTime());
+      if (budget > 0) {
+        const leaseUntil = new Date(now.getTime() + this.limits.leaseMs);
+        const batch = await this.repository.claimDue(now, Math.min(budget, this.limits.batchSize), leaseUntil);
+
+        for (const notification of batch) {
+          await this.process(client, notification, now);
+        }
+      }
+
+      await this.purgeFinished(now);
+      await this.reportMetrics(now);
+    } catch (error) {
+      this.logger.error({ err: error }, 'Fallo el ciclo de la cola de DMs.');
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /** Retira las notificaciones resueltas más antiguas que `retentionDays`, como mucho una vez por intervalo. */
+  private async purgeFinished(now: Date): Promise<void> {
+    if (now.getTime() - this.lastPurgeAt < SCHEDULER_INTERVALS.notificationPurge) {
+      return;
+    }
+
+    this.lastPurgeAt = now.getTime();
+    const removed = await this.repository.purgeFinished(new Date(now.getTime() - this.limits.retentionDays * DAY_MS));
+    if (removed > 0) {
+      this.logger.debug({ removed }, 'Notificaciones resueltas eliminadas de la cola de DMs.');
+    }
+  }
+
+  /** Registra la profundidad de la cola y los fallos del periodo, como mucho una vez por intervalo. */
+  private async reportMetrics(now: Date): Promise<void> {
+    if (now.getTime() - this.lastMetricsAt < SCHEDULER_INTERVALS.notificationMetrics) {
+      return;
+    }
+
+    this.lastMetricsAt = now.getTime();
+    const metrics = await this.getMetrics(now);
+    this.retriedSinceReport = 0;
+    this.failedSinceReport = 0;
+
+    this.logger.info(metrics, 'Estado de la cola de DMs.');
+  }
+
+  private async process(client: Client, notification: QueuedNotification, now: Date): Promise<void> {
+    const userId = notification.userId.toString();
+
+    try {
+      const nextSlot = this.nextUserSlot(userId);
+      if (nextSlot > now.getTime() || this.remainingGlobalBudget(now.getTime()) <= 0) {
+        // Sin cupo en este ciclo: se devuelve a la cola sin contar como intento fallido.
+        const retryAt = Math.max(nextSlot, now.getTime() + SCHEDULER_INTERVALS.notificationQueue);
+        await this.repository.reschedule(notification.id, new Date(retryAt), notification.attempts);
+        return;
+      }
+
+      const files = await this.buildFiles(notification.payload);
+      const user = await client.users.fetch(userId);
+      await user.send({
+        content: notification.payload.content,
+        embeds: notification.payload.embeds as APIEmbed[] | undefined,
+        files,
+        components: notification.payload.components as
+          | APIActionRowComponent<APIComponentInMessageActionRow>[]
+          | undefined,
+      });
+
+      this.recordSend(userId, now.getTime());
+      await this.repository.markSent(notification.id, now);
+    } catch (error) {
+      await this.handleFailure(notification, error, now);
+    }
+  }
+
+  private async buildFiles(payload: NotificationPayload): Promise<AttachmentBuilder[] | undefined> {
+    if (!payload.files && !payload.renderedFiles) {
+      return undefined;
+    }
+
+    const files = (payload.files ?? []).map(
+      (file) => new AttachmentBuilder(Buffer.from(file.data, 'base64'), { name: file.name }),
+    );
+
+    for (const file of payload.renderedFiles ?? []) {
+      const renderer = this.fileRenderers.get(file.renderer);
+      if (!renderer) {
+        throw new Error(`No hay un renderer registrado para el adjunto ${file.renderer}.`);
+      }
+
+      files.push(new AttachmentBuilder(await renderer(file.data), { name: file.name }));
+    }
+
+    return files;
+  }
+
+  private async handleFailure(notification: QueuedNotification, error: unknown, now: Date): Promise<void> {
+    const userId = notification.userId.toString();
+    const reason = error instanceof Error ? error.message : String(error);
+
+    try {
+      if (error instanceof DiscordAPIError && error.code === RESTJSONErrorCodes.CannotSendMessagesToThisUser) {
+        const until = new Date(now.getTime() + this.limits.deadLetterDays * DAY_MS);
+        const discarded = await this.repository.deadLetterUser(notification.userId, reason, until);
+        this.failedSinceReport += 1;
+        this.logger.info({ userId, discarded, until }, 'Usuario con DMs cerrados enviado a dead-letter.');
+        return;
+      }
+
+      if (error instanceof DiscordAPIError && error.code === RESTJSONErrorCodes.UnknownUser) {
+        await this.repository.markDead(notification.id, reason);
+        this.failedSinceReport += 1;
+        return;
+      }
+
+      const attempts = notification.attempts + 1;
+      if (attempts >= this.limits.maxAttempts) {
+        await this.repository.markDead(notification.id, reason);
+        this.failedSinceReport += 1;
+        this.logger.warn({ notificationId: notification.id, userId, attempts, err: error }, 'DM descartado tras agotar reintentos.');
+        return;
+      }
+
+      const delay = Math.min(this.limits.baseBackoffMs * 2 ** (attempts - 1), this.limits.maxBackoffMs);
+      await this.repository.reschedule(notification.id, new Date(now.getTime() + delay), attempts, reason);
+      this.retriedSinceReport += 1;
+      this.logger.warn({ notificationId: notification.id, userId, attempts, delay, err: error }, 'Fallo el envío de DM, se reintentará.');
+    } catch (persistError) {
+      this.logger.warn({ err: persistError, notificationId: notification.id }, 'No se pudo actualizar la notificación fallida.');
+    }
+  }
+
+  private remainingGlobalBudget(now: number): number {
+    this.pruneWindow(now);
+
+    return this.limits.globalPerMinute - this.sentTimestamps.length;
+  }
+
+  private pruneWindow(now: number): void {
+    while (this.sentTimestamps.length > 0 && this.sentTimestamps[0]! <= now - MINUTE_MS) {
+      this.sentTimestamps.shift();
+    }
+
+    for (const [userId, sentAt] of this.lastSentByUser) {
+      if (sentAt <= now - this.limits.perUserIntervalMs) {
+        this.lastSentByUser.delete(userId);
+      }
+    }
+  }
+
+  private nextUserSlot(userId: string): number {
+    const lastSent = this.lastSentByUser.get(userId);
+
+    return lastSent === undefined ? 0 : lastSent + this.limits.perUserIntervalMs;
+  }
+
+  private recordSend(userId: string, now: number): void {
+    this.sentTimestamps.push(now);
+    this.lastSentByUser.set(userId, now);
+  }
+
+  private serialize(message: NotificationMessage): NotificationPayload {
+    return {
+      content: message.content,
+      embeds: message.embeds?.map((embed) =>
+        'toJSON' in embed ? (embed.toJSON() as Record<string, unknown>) : (embed as Record<string, unknown>),
+      ),
+      files: message.files?.map((file) => ({ name: file.name, data: file.data.toString('base64') })),
+      renderedFiles: message.renderedFiles,
+      components: message.components?.map((row) => row.toJSON() as unknown as Record<string, unknown>),
+    };
+  }
+}
@@ -0,0 +1,117 @@
+// =============================================================================
+// RUTA: src/application/services/RatingService.ts
+// =============================================================================
+
+import type { Review } from '@/domain/entities/Review';
+import { RATING_DEFAULTS } from '@/shared/config/constants';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface RatingSample {
+  readonly rating: number;
+  readonly createdAt: Date;
+}
+
+/** Suma y número de estrellas; basta para la media cuando todas las reseñas pesan lo mismo. */
+export interface RatingTotals {
+  readonly sum: number;
+  readonly count: number;
+}
+
+/** De dónde sacar las reseñas visibles de un middleman, agregadas o fila a fila según haga falta. */
+export interface RatingSource {
+  ratingTotals(middlemanId: bigint): Promise<RatingTotals>;
+  ratingSamples(middlemanId: bigint): Promise<readonly RatingSample[]>;
+}
+
+export interface RatingScore {
+  /** Media simple de las estrellas; `null` sin reseñas. */
+  readonly raw: number | null;
+  /** Media bayesiana (con decaimiento opcional); sin reseñas coincide con la media del prior. */
+  readonly weighted: number;
+  readonly count: number;
+}
+
+interface RatingOptions {
+  readonly priorMean: number;
+  readonly priorWeight: number;
+  readonly halfLifeDays: number;
+}
+
+export type RatingServiceOptions = Partial<RatingOptions>;
+
+/**
+ * Calcula la valoración de un middleman como media bayesiana: las reseñas se combinan con `priorWeight`
+ * reseñas ficticias de `priorMean`, de modo que pocas reseñas perfectas no superan a un historial largo.
+ * Con `halfLifeDays > 0` cada reseña pierde la mitad de su peso cada ese número de días.
+ */
+export class RatingService {
+  private readonly options: RatingOptions;
+
+  public constructor(options: RatingServiceOptions = {}) {
+    this.options = { ...RATING_DEFAULTS, ...options };
+  }
+
+  /** Sin decaimiento no hace falta la fecha de cada reseña: basta con `scoreTotals`. */
+  public get decays(): boolean {
+    return this.options.halfLifeDays > 0;
+  }
+
+  public score(samples: readonly RatingSample[], now: Date = new Date()): RatingScore {
+    const { priorMean, priorWeight } = this.options;
+
+    let rawSum = 0;
+    let weightedSum = priorMean * priorWeight;
+    let totalWeight = priorWeight;
+
+    for (const sample of samples) {
+      const weight = this.weight(sample.createdAt, now);
+      rawSum += sample.rating;
+      weightedSum += sample.rating * weight;
+      totalWeight += weight;
+    }
+
+    return {
+      raw: samples.length > 0 ? rawSum / samples.length : null,
+      weighted: totalWeight > 0 ? weightedSum / totalWeight : priorMean,
+      count: samples.length,
+    };
+  }
+
+  /** Equivale a `score` cuando no hay decaimiento; con decaimiento ignora la antigüedad de las reseñas. */
+  public scoreTotals(totals: RatingTotals): RatingScore {
+    const { priorMean, priorWeight } = this.options;
+    const totalWeight = priorWeight + totals.count;
+
+    return {
+      raw: totals.count > 0 ? totals.sum / totals.count : null,
+      weighted: totalWeight > 0 ? (priorMean * priorWeight + totals.sum) / totalWeight : priorMean,
+      count: totals.count,
+    };
+  }
+
+  /** Valora a un middleman cargando filas solo si el decaimiento las necesita. */
+  public async scoreMiddleman(source: RatingSource, middlemanId: bigint, now: Date = new Date()): Promise<RatingScore> {
+    return this.decays
+      ? this.score(await source.ratingSamples(middlemanId), now)
+      : this.scoreTotals(await source.ratingTotals(middlemanId));
+  }
+
+  public scoreReviews(reviews: readonly Review[], now: Date = new Date()): RatingScore {
+    return this.score(
+      reviews.map((review) => ({ rating: review.rating.getValue(), createdAt: review.createdAt })),
+      now,
+    );
+  }
+
+  private weight(createdAt: Date, now: Date): number {
+    const { halfLifeDays } = this.options;
+    if (halfLifeDays <= 0) {
+      return 1;
+    }
+
+    const ageDays = Math.max(0, now.getTime() - createdAt.getTime()) / DAY_MS;
+
+    return 0.5 ** (ageDays / halfLifeDays);
+  }
+}
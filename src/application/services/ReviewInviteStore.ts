@@ -2,60 +2,62 @@
 // RUTA: src/application/services/ReviewInviteStore.ts
 // =============================================================================
 
-type TimeoutHandle = ReturnType<typeof setTimeout>;
+import type { Logger } from 'pino';
 
-interface ReviewInviteMetadata {
+import type { IReviewInviteRepository } from '@/domain/repositories/IReviewInviteRepository';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ReviewInviteData {
   readonly ticketId: number;
   readonly middlemanId: string;
-  readonly expiresAt: number;
-  timeoutId: TimeoutHandle;
 }
 
-const TTL_MS = 30 * 60 * 1000; // 30 minutes
-
-class ReviewInviteStore {
-  private readonly invites = new Map<string, ReviewInviteMetadata>();
-
-  public set(messageId: string, data: { ticketId: number; middlemanId: string }): void {
-    this.clear(messageId);
-
-    const timeoutId: TimeoutHandle = setTimeout(() => {
-      this.invites.delete(messageId);
-    }, TTL_MS);
-
-    if (typeof timeoutId === 'object' && timeoutId !== null && 'unref' in timeoutId) {
-      timeoutId.unref();
-    }
-
-    this.invites.set(messageId, {
+/**
+ * Invitaciones de reseña asociadas al mensaje con el botón. Se guardan en base de datos para que sigan
+ * funcionando tras un reinicio del bot y desde cualquier shard, y caducan a los `ttlDays` días.
+ */
+export class ReviewInviteStore {
+  public constructor(
+    private readonly repository: IReviewInviteRepository,
+    private readonly logger: Logger,
+    private readonly ttlDays: number,
+  ) {}
+
+  public async set(messageId: string, data: ReviewInviteData, now: Date = new Date()): Promise<void> {
+    await this.repository.save({
+      messageId: BigInt(messageId),
       ticketId: data.ticketId,
-      middlemanId: data.middlemanId,
-      expiresAt: Date.now() + TTL_MS,
-      timeoutId,
+      middlemanId: BigInt(data.middlemanId),
+      expiresAt: new Date(now.getTime() + this.ttlDays * DAY_MS),
     });
+
+    // La limpieza es oportunista: cada invitación nueva retira las vencidas.
+    try {
+      const removed = await this.repository.deleteExpired(now);
+      if (removed > 0) {
+        this.logger.debug({ removed }, 'Invitaciones de reseña vencidas eliminadas.');
+      }
+    } catch (error) {
+      this.logger.warn({ err: error }, 'No se pudieron eliminar las invitaciones de reseña vencidas.');
+    }
   }
 
-  public get(messageId: string): { ticketId: number; middlemanId: string } | null {
-    const invite = this.invites.get(messageId);
+  public async get(messageId: string, now: Date = new Date()): Promise<ReviewInviteData | null> {
+    const invite = await this.repository.findByMessageId(BigInt(messageId));
     if (!invite) {
       return null;
     }
 
-    if (Date.now() > invite.expiresAt) {
-      this.clear(messageId);
+    if (invite.expiresAt.getTime() <= now.getTime()) {
+      await this.repository.delete(invite.messageId);
       return null;
     }
 
-    return { ticketId: invite.ticketId, middlemanId: invite.middlemanId };
+    return { ticketId: invite.ticketId, middlemanId: invite.middlemanId.toString() };
   }
 
-  public clear(messageId: string): void {
-    const invite = this.invites.get(messageId);
-    if (invite) {
-      clearTimeout(invite.timeoutId);
-      this.invites.delete(messageId);
-    }
+  public async clear(messageId: string): Promise<void> {
+    await this.repository.delete(BigInt(messageId));
   }
 }
-
-export const reviewInviteStore = new ReviewInviteStore();
@@ -0,0 +1,112 @@
+// =============================================================================
+// RUTA: src/application/services/ReviewReminderService.ts
+// =============================================================================
+
+import type { ActionRowBuilder, ButtonBuilder } from 'discord.js';
+import type { Logger } from 'pino';
+
+import type { NotificationQueue } from '@/application/services/NotificationQueue';
+import type { IReviewReminderRepository } from '@/domain/repositories/IReviewReminderRepository';
+import { type EmbedFactory, embedFactory } from '@/presentation/embeds/EmbedFactory';
+import { SCHEDULER_INTERVALS } from '@/shared/config/constants';
+
+const HOUR_MS = 60 * 60 * 1000;
+const BATCH_SIZE = 50;
+
+export interface ReviewReminderOptions {
+  /** Horas desde el cierre (y entre recordatorios) antes de volver a escribir al participante. */
+  readonly delayHours: number;
+  readonly maxReminders: number;
+}
+
+export type ReviewReminderButtonBuilder = (ticketId: number, middlemanId: bigint) => ActionRowBuilder<ButtonBuilder>;
+
+/**
+ * Recuerda por DM a los participantes de tickets cerrados que no dejaron reseña. Los envíos pasan por la
+ * cola de notificaciones y cada recordatorio queda en `review_reminders` para respetar el máximo.
+ */
+export class ReviewReminderService {
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private running = false;
+
+  public constructor(
+    private readonly reminderRepo: IReviewReminderRepository,
+    private readonly notifications: NotificationQueue,
+    private readonly logger: Logger,
+    private readonly options: ReviewReminderOptions,
+    private readonly buildButtonRow: ReviewReminderButtonBuilder,
+    private readonly embeds: EmbedFactory = embedFactory,
+  ) {}
+
+  public start(): void {
+    if (this.timer || this.options.maxReminders <= 0) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      void this.runDue();
+    }, SCHEDULER_INTERVALS.reviewReminders);
+    this.timer.unref();
+
+    void this.runDue();
+  }
+
+  public stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  public async runDue(now: Date = new Date()): Promise<void> {
+    if (this.running || this.options.maxReminders <= 0) {
+      return;
+    }
+
+    this.running = true;
+    try {
+      const delayMs = this.options.delayHours * HOUR_MS;
+      const requestedBefore = new Date(now.getTime() - delayMs);
+      // Pasado el último recordatorio posible (más un margen de un intervalo) el ticket deja de consultarse.
+      const requestedAfter = new Date(now.getTime() - delayMs * (this.options.maxReminders + 1));
+
+      const pending = await this.reminderRepo.findPending({
+        requestedAfter,
+        requestedBefore,
+        remindedBefore: requestedBefore,
+        maxReminders: this.options.maxReminders,
+        limit: BATCH_SIZE,
+      });
+
+      for (const reminder of pending) {
+        try {
+          await this.notifications.enqueue(reminder.userId.toString(), 'review-reminder', {
+            embeds: [
+              this.embeds.reviewRequest({
+                middlemanTag: `<@${reminder.middlemanId}>`,
+                tradeSummary: `Tu ticket #${reminder.ticketId} se cerró y todavía no dejaste tu reseña. Pulsa el botón para calificar al middleman; solo te llevará un minuto.`,
+              }),
+            ],
+            components: [this.buildButtonRow(reminder.ticketId, reminder.middlemanId)],
+          });
+
+          // Se registra aunque el usuario tenga los DMs cerrados: así cuenta para el máximo y no se reintenta.
+          await this.reminderRepo.record(reminder.ticketId, reminder.userId, now);
+        } catch (error) {
+          this.logger.warn(
+            { err: error, ticketId: reminder.ticketId, userId: reminder.userId.toString() },
+            'No se pudo encolar el recordatorio de reseña.',
+          );
+        }
+      }
+
+      if (pending.length > 0) {
+        this.logger.info({ reminders: pending.length }, 'Recordatorios de reseña encolados.');
+      }
+    } catch (error) {
+      this.logger.error({ err: error }, 'Fallo el ciclo de recordatorios de reseña.');
+    } finally {
+      this.running = false;
+    }
+  }
+}
@@ -0,0 +1,147 @@
+// =============================================================================
+// RUTA: src/application/services/TicketChannelLifecycleService.ts
+// =============================================================================
+
+import { ChannelType, type Client, OverwriteType, type TextChannel } from 'discord.js';
+import type { Logger } from 'pino';
+
+import type { IReviewInviteRepository } from '@/domain/repositories/IReviewInviteRepository';
+import type {
+  ITicketChannelScheduleRepository,
+  TicketChannelSchedule,
+} from '@/domain/repositories/ITicketChannelScheduleRepository';
+import type { ITicketRepository } from '@/domain/repositories/ITicketRepository';
+import { SCHEDULER_INTERVALS } from '@/shared/config/constants';
+
+const HOUR_MS = 60 * 60 * 1000;
+const BATCH_SIZE = 25;
+
+export interface TicketChannelLifecycleOptions {
+  readonly archiveAfterHours: number;
+  readonly deleteAfterHours: number;
+  readonly archiveCategoryId?: string;
+}
+
+/**
+ * Archiva y elimina los canales de tickets cerrados. La programación vive en
+ * `ticket_channel_schedules`, así que un reinicio solo retrasa las tareas pendientes hasta el
+ * siguiente ciclo del job. Al eliminar el canal se retiran también sus invitaciones de reseña, cuyo
+ * botón desaparece con él.
+ */
+export class TicketChannelLifecycleService {
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private running = false;
+
+  public constructor(
+    private readonly scheduleRepo: ITicketChannelScheduleRepository,
+    private readonly ticketRepo: ITicketRepository,
+    private readonly reviewInviteRepo: IReviewInviteRepository,
+    private readonly logger: Logger,
+    private readonly options: TicketChannelLifecycleOptions,
+  ) {}
+
+  public async schedule(ticketId: number, channelId: bigint, closedAt: Date = new Date()): Promise<void> {
+    const archiveAt = new Date(closedAt.getTime() + this.options.archiveAfterHours * HOUR_MS);
+    const deleteAt = new Date(closedAt.getTime() + this.options.deleteAfterHours * HOUR_MS);
+
+    await this.scheduleRepo.upsert({ ticketId, channelId, archiveAt, deleteAt });
+    this.logger.debug({ ticketId, archiveAt, deleteAt }, 'Archivado de canal programado.');
+  }
+
+  public async cancel(ticketId: number): Promise<void> {
+    await this.scheduleRepo.remove(ticketId);
+  }
+
+  public start(client: Client): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      void this.runDue(client);
+    }, SCHEDULER_INTERVALS.channelLifecycle);
+    this.timer.unref();
+
+    void this.runDue(client);
+  }
+
+  public stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  public async runDue(client: Client, now: Date = new Date()): Promise<void> {
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    try {
+      for (const entry of await this.scheduleRepo.findDueForArchive(now, BATCH_SIZE)) {
+        await this.process(entry, () => this.archive(client, entry, now));
+      }
+
+      for (const entry of await this.scheduleRepo.findDueForDeletion(now, BATCH_SIZE)) {
+        await this.process(entry, () => this.delete(client, entry, now));
+      }
+    } catch (error) {
+      this.logger.error({ err: error }, 'Fallo el ciclo de archivado de canales de tickets.');
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async process(entry: TicketChannelSchedule, action: () => Promise<void>): Promise<void> {
+    try {
+      const ticket = await this.ticketRepo.findById(entry.ticketId);
+      if (!ticket || !ticket.isClosed()) {
+        await this.scheduleRepo.remove(entry.ticketId);
+        return;
+      }
+
+      await action();
+    } catch (error) {
+      this.logger.warn({ err: error, ticketId: entry.ticketId }, 'No se pudo procesar el canal programado.');
+    }
+  }
+
+  private async archive(client: Client, entry: TicketChannelSchedule, now: Date): Promise<void> {
+    const channel = await this.fetchChannel(client, entry.channelId);
+
+    if (channel) {
+      const botId = client.user?.id;
+
+      for (const overwrite of channel.permissionOverwrites.cache.values()) {
+        if (overwrite.type !== OverwriteType.Member || overwrite.id === botId) {
+          continue;
+        }
+
+        await channel.permissionOverwrites.edit(overwrite.id, { SendMessages: false });
+      }
+
+      if (this.options.archiveCategoryId && channel.parentId !== this.options.archiveCategoryId) {
+        await channel.setParent(this.options.archiveCategoryId, { lockPermissions: false });
+      }
+    }
+
+    await this.scheduleRepo.markArchived(entry.ticketId, now);
+    this.logger.info({ ticketId: entry.ticketId, channelId: entry.channelId.toString() }, 'Canal de ticket archivado.');
+  }
+
+  private async delete(client: Client, entry: TicketChannelSchedule, now: Date): Promise<void> {
+    const channel = await this.fetchChannel(client, entry.channelId);
+    await channel?.delete(`Ticket #${entry.ticketId} cerrado: eliminación programada.`);
+    await this.reviewInviteRepo.deleteByTicket(entry.ticketId);
+
+    await this.scheduleRepo.markDeleted(entry.ticketId, now);
+    this.logger.info({ ticketId: entry.ticketId, channelId: entry.channelId.toString() }, 'Canal de ticket eliminado.');
+  }
+
+  private async fetchChannel(client: Client, channelId: bigint): Promise<TextChannel | null> {
+    const channel = await client.channels.fetch(channelId.toString()).catch(() => null);
+
+    return channel?.type === ChannelType.GuildText ? channel : null;
+  }
+}
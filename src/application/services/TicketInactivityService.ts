@@ -0,0 +1,202 @@
+// =============================================================================
+// RUTA: src/application/services/TicketInactivityService.ts
+// =============================================================================
+
+import { ChannelType, type Client, type TextChannel } from 'discord.js';
+import type { Logger } from 'pino';
+
+import type { TicketChannelLifecycleService } from '@/application/services/TicketChannelLifecycleService';
+import type { TradePanelService } from '@/application/services/TradePanelService';
+import type { TranscriptService } from '@/application/services/TranscriptService';
+import type { CancelTradeUseCase } from '@/application/usecases/middleman/CancelTradeUseCase';
+import { TicketReminderKind } from '@/domain/entities/types';
+import type { ITicketReminderRepository, PendingReminder } from '@/domain/repositories/ITicketReminderRepository';
+import type { ITicketRepository } from '@/domain/repositories/ITicketRepository';
+import type { EmbedFactory } from '@/presentation/embeds/EmbedFactory';
+import { embedFactory } from '@/presentation/embeds/EmbedFactory';
+import { SCHEDULER_INTERVALS } from '@/shared/config/constants';
+
+const MINUTE_MS = 60 * 1000;
+const BATCH_SIZE = 25;
+const HISTORY_SCAN_LIMIT = 100;
+
+export interface TicketInactivityOptions {
+  readonly reminderMinutes: number;
+  readonly escalationMinutes: number;
+  readonly autoCloseHours: number;
+  readonly middlemanRoleId?: string;
+  readonly staffRoleId?: string;
+}
+
+/**
+ * Vigila los tickets sin reclamar: avisa al rol de middlemen, escala al staff y cierra los tickets
+ * en los que ningún participante escribió. Cada aviso queda en `ticket_reminders` para no repetirlo
+ * tras un reinicio.
+ */
+export class TicketInactivityService {
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private running = false;
+
+  public constructor(
+    private readonly reminderRepo: ITicketReminderRepository,
+    private readonly ticketRepo: ITicketRepository,
+    private readonly cancelUseCase: CancelTradeUseCase,
+    private readonly panels: TradePanelService,
+    private readonly transcripts: TranscriptService,
+    private readonly channelLifecycle: TicketChannelLifecycleService,
+    private readonly logger: Logger,
+    private readonly options: TicketInactivityOptions,
+    private readonly embeds: EmbedFactory = embedFactory,
+  ) {}
+
+  public start(client: Client): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      void this.runDue(client);
+    }, SCHEDULER_INTERVALS.ticketInactivity);
+    this.timer.unref();
+
+    void this.runDue(client);
+  }
+
+  public stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  public async runDue(client: Client, now: Date = new Date()): Promise<void> {
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    try {
+      for (const guildId of client.guilds.cache.keys()) {
+        await this.processKind(client, BigInt(guildId), TicketReminderKind.MIDDLEMAN_PING, now);
+        await this.processKind(client, BigInt(guildId), TicketReminderKind.STAFF_ESCALATION, now);
+        await this.processKind(client, BigInt(guildId), TicketReminderKind.AUTO_CLOSE, now);
+      }
+    } catch (error) {
+      this.logger.error({ err: error }, 'Fallo el ciclo de recordatorios de tickets sin reclamar.');
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async processKind(client: Client, guildId: bigint, kind: TicketReminderKind, now: Date): Promise<void> {
+    const pending = await this.reminderRepo.findPending(
+      guildId,
+      kind,
+      new Date(now.getTime() - this.thresholdMs(kind)),
+      BATCH_SIZE,
+    );
+
+    for (const ticket of pending) {
+      try {
+        const channel = await this.fetchChannel(client, ticket.channelId);
+
+        if (channel) {
+          await this.handle(client, kind, ticket, channel);
+        }
+
+        await this.reminderRepo.record(ticket.ticketId, kind, now);
+      } catch (error) {
+        this.logger.warn({ err: error, ticketId: ticket.ticketId, kind }, 'No se pudo procesar el recordatorio del ticket.');
+      }
+    }
+  }
+
+  private async handle(
+    client: Client,
+    kind: TicketReminderKind,
+    ticket: PendingReminder,
+    channel: TextChannel,
+  ): Promise<void> {
+    switch (kind) {
+      case TicketReminderKind.MIDDLEMAN_PING:
+        await this.notifyRole(channel, this.options.middlemanRoleId, {
+          title: 'Ticket esperando middleman',
+          description: `Este ticket lleva más de ${this.options.reminderMinutes} minutos sin reclamar. Usa \`/middleman claim\` para atenderlo.`,
+        });
+        return;
+      case TicketReminderKind.STAFF_ESCALATION:
+        await this.notifyRole(channel, this.options.staffRoleId, {
+          title: 'Ticket escalado al staff',
+          description: `Ningún middleman reclamó este ticket en ${this.options.escalationMinutes} minutos.`,
+        });
+        return;
+      case TicketReminderKind.AUTO_CLOSE:
+        await this.autoClose(client, ticket, channel);
+        return;
+      default:
+        return;
+    }
+  }
+
+  /**
+   * Solo se cierran tickets en los que ningún participante escribió. Si hubo conversación, el
+   * recordatorio se registra igualmente y el ticket queda en manos del staff.
+   */
+  private async autoClose(client: Client, ticket: PendingReminder, channel: TextChannel): Promise<void> {
+    const participants = await this.ticketRepo.listParticipants(ticket.ticketId);
+    const participantIds = new Set(participants.map((participant) => participant.userId.toString()));
+    const history = await channel.messages.fetch({ limit: HISTORY_SCAN_LIMIT });
+
+    if (history.some((message) => participantIds.has(message.author.id))) {
+      this.logger.debug({ ticketId: ticket.ticketId }, 'Ticket inactivo con mensajes de participantes; no se cierra.');
+      return;
+    }
+
+    await this.cancelUseCase.execute(
+      {
+        ticketId: ticket.ticketId,
+        actorId: client.user?.id ?? ticket.ownerId.toString(),
+        reason: `Cierre automático: sin actividad de los participantes en ${this.options.autoCloseHours} horas.`,
+        isStaff: true,
+      },
+      channel,
+    );
+    // Igual que en la cancelación manual: el panel pasa a mostrar el ticket cerrado y sin botones activos.
+    await this.panels.refresh(ticket.ticketId, channel);
+    await this.transcripts.archive(ticket.ticketId, channel);
+    await this.channelLifecycle.schedule(ticket.ticketId, ticket.channelId);
+
+    this.logger.info({ ticketId: ticket.ticketId }, 'Ticket sin reclamar cerrado por inactividad.');
+  }
+
+  private async notifyRole(
+    channel: TextChannel,
+    roleId: string | undefined,
+    embed: { title: string; description: string },
+  ): Promise<void> {
+    await channel.send({
+      content: roleId ? `<@&${roleId}>` : undefined,
+      embeds: [this.embeds.warning(embed)],
+      allowedMentions: { roles: roleId ? [roleId] : [] },
+    });
+  }
+
+  private thresholdMs(kind: TicketReminderKind): number {
+    switch (kind) {
+      case TicketReminderKind.MIDDLEMAN_PING:
+        return this.options.reminderMinutes * MINUTE_MS;
+      case TicketReminderKind.STAFF_ESCALATION:
+        return this.options.escalationMinutes * MINUTE_MS;
+      case TicketReminderKind.AUTO_CLOSE:
+        return this.options.autoCloseHours * 60 * MINUTE_MS;
+      default:
+        return Number.POSITIVE_INFINITY;
+    }
+  }
+
+  private async fetchChannel(client: Client, channelId: bigint): Promise<TextChannel | null> {
+    const channel = await client.channels.fetch(channelId.toString()).catch(() => null);
+
+    return channel?.type === ChannelType.GuildText ? channel : null;
+  }
+}
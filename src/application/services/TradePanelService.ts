@@ -0,0 +1,110 @@
+// =============================================================================
+// RUTA: src/application/services/TradePanelService.ts
+// =============================================================================
+
+import type { ActionRowBuilder, ButtonBuilder, EmbedBuilder, Message, TextChannel } from 'discord.js';
+import type { Logger } from 'pino';
+
+import { TicketStatus } from '@/domain/entities/types';
+import type { IMiddlemanRepository, MiddlemanClaim } from '@/domain/repositories/IMiddlemanRepository';
+import type { ITicketRepository } from '@/domain/repositories/ITicketRepository';
+import type { ITradeRepository } from '@/domain/repositories/ITradeRepository';
+import type { EmbedFactory } from '@/presentation/embeds/EmbedFactory';
+import { embedFactory } from '@/presentation/embeds/EmbedFactory';
+import { TicketNotFoundError } from '@/shared/errors/domain.errors';
+
+const STATUS_LABELS: Record<TicketStatus, string> = {
+  [TicketStatus.OPEN]: '🟢 Abierto — esperando middleman',
+  [TicketStatus.CONFIRMED]: '🔵 Confirmado por los participantes',
+  [TicketStatus.CLAIMED]: '🟠 En curso con middleman',
+  [TicketStatus.CLOSED]: '⚫ Cerrado',
+};
+
+interface PanelPayload {
+  readonly embeds: EmbedBuilder[];
+  readonly components: ActionRowBuilder<ButtonBuilder>[];
+}
+
+/** Recibe `true` cuando el ticket está cerrado y los botones deben mostrarse deshabilitados. */
+export type TradePanelButtonBuilder = (disabled: boolean) => ActionRowBuilder<ButtonBuilder>;
+
+/**
+ * Mantiene un único mensaje de panel por ticket. El identificador del mensaje vive en
+ * `mm_claims.panel_message_id`, por lo que el panel se recupera tras un reinicio sin cachés locales.
+ * Si el mensaje no existe (primer render o borrado manual) se publica uno nuevo.
+ */
+export class TradePanelService {
+  public constructor(
+    private readonly ticketRepo: ITicketRepository,
+    private readonly tradeRepo: ITradeRepository,
+    private readonly middlemanRepo: IMiddlemanRepository,
+    private readonly logger: Logger,
+    private readonly buildButtonRow: TradePanelButtonBuilder,
+    private readonly embeds: EmbedFactory = embedFactory,
+  ) {}
+
+  public async refresh(ticketId: number, channel: TextChannel): Promise<void> {
+    try {
+      const claim = await this.middlemanRepo.getClaimByTicket(ticketId);
+      const payload = await this.render(ticketId, claim);
+      const message = claim?.panelMessageId
+        ? await this.fetchPanelMessage(channel, claim.panelMessageId)
+        : null;
+
+      if (message) {
+        await message.edit(payload);
+        return;
+      }
+
+      const created = await channel.send(payload);
+      await this.middlemanRepo.savePanelMessage(ticketId, BigInt(created.id));
+      this.logger.info({ ticketId, messageId: created.id }, 'Panel de middleman recreado.');
+    } catch (error) {
+      this.logger.warn({ err: error, ticketId, channelId: channel.id }, 'No se pudo actualizar el panel de middleman.');
+    }
+  }
+
+  private async render(ticketId: number, claim: MiddlemanClaim | null): Promise<PanelPayload> {
+    const ticket = await this.ticketRepo.findById(ticketId);
+    if (!ticket) {
+      throw new TicketNotFoundError(String(ticketId));
+    }
+
+    const [trades, participants, finalized] = await Promise.all([
+      this.tradeRepo.findByTicketId(ticketId),
+      this.ticketRepo.listParticipants(ticketId),
+      this.middlemanRepo.listFinalizations(ticketId),
+    ]);
+
+    const partner = participants.find((participant) => participant.role === 'PARTNER');
+    const notes = ticket.isClosed()
+      ? 'Este ticket está cerrado. El panel se conserva como registro de la transacción.'
+      : claim?.finalizationMessageId
+        ? `Ítems entregados por el middleman. Recepción confirmada: **${finalized.length}/${participants.length}**.`
+        : 'Declara tus ítems con **Agregar ítems** y pulsa **Confirmar** cuando estés de acuerdo.';
+
+    return {
+      embeds: [
+        this.embeds.middlemanPanel({
+          ticketId,
+          buyerTag: `<@${ticket.ownerId}>`,
+          sellerTag: partner ? `<@${partner.userId}>` : 'Sin asignar',
+          status: STATUS_LABELS[ticket.status],
+          middlemanTag: ticket.assignedMiddlemanId ? `<@${ticket.assignedMiddlemanId}>` : undefined,
+          trades,
+          notes,
+        }),
+      ],
+      components: [this.buildButtonRow(ticket.isClosed())],
+    };
+  }
+
+  private async fetchPanelMessage(channel: TextChannel, messageId: bigint): Promise<Message<true> | null> {
+    try {
+      return await channel.messages.fetch(messageId.toString());
+    } catch (error) {
+      this.logger.debug({ err: error, channelId: channel.id, messageId: messageId.toString() }, 'Panel previo no encontrado.');
+      return null;
+    }
+  }
+}
@@ -0,0 +1,147 @@
+// =============================================================================
+// RUTA: src/application/services/TranscriptService.ts
+// =============================================================================
+
+import { AttachmentBuilder, type Collection, type Message, type TextChannel } from 'discord.js';
+import type { Logger } from 'pino';
+
+import type {
+  ITranscriptRepository,
+  StoredTranscript,
+  TranscriptDocument,
+  TranscriptMessage,
+} from '@/domain/repositories/ITranscriptRepository';
+import type { EmbedFactory } from '@/presentation/embeds/EmbedFactory';
+import { embedFactory } from '@/presentation/embeds/EmbedFactory';
+import { TRANSCRIPT_LIMITS } from '@/shared/config/constants';
+import { TranscriptNotFoundError } from '@/shared/errors/domain.errors';
+
+const PAGE_SIZE = 100;
+
+export type TranscriptHtmlRenderer = (document: TranscriptDocument) => string;
+
+/**
+ * Genera el transcript de un canal de ticket (HTML autocontenido + JSON), lo guarda en disco y lo
+ * publica en el canal de logs del staff. Los fallos se registran sin interrumpir el cierre del ticket.
+ */
+export class TranscriptService {
+  public constructor(
+    private readonly transcriptRepo: ITranscriptRepository,
+    private readonly logger: Logger,
+    private readonly renderHtml: TranscriptHtmlRenderer,
+    private readonly logChannelId?: string,
+    private readonly embeds: EmbedFactory = embedFactory,
+  ) {}
+
+  public async archive(ticketId: number, channel: TextChannel): Promise<void> {
+    try {
+      const transcript = await this.capture(ticketId, channel);
+      await this.transcriptRepo.save(ticketId, transcript);
+      await this.publish(ticketId, channel, transcript);
+    } catch (error) {
+      this.logger.warn({ err: error, ticketId, channelId: channel.id }, 'No se pudo generar el transcript del ticket.');
+    }
+  }
+
+  public async load(ticketId: number): Promise<StoredTranscript> {
+    const transcript = await this.transcriptRepo.find(ticketId);
+    if (!transcript) {
+      throw new TranscriptNotFoundError(ticketId);
+    }
+
+    return transcript;
+  }
+
+  public buildAttachments(ticketId: number, transcript: StoredTranscript): AttachmentBuilder[] {
+    return [
+      new AttachmentBuilder(Buffer.from(transcript.html, 'utf8'), { name: `ticket-${ticketId}.html` }),
+      new AttachmentBuilder(Buffer.from(transcript.json, 'utf8'), { name: `ticket-${ticketId}.json` }),
+    ];
+  }
+
+  private async capture(ticketId: number, channel: TextChannel): Promise<StoredTranscript> {
+    const messages = await this.fetchHistory(channel);
+    const document: TranscriptDocument = {
+      ticketId,
+      guildId: channel.guildId,
+      channelId: channel.id,
+      channelName: channel.name,
+      generatedAt: new Date().toISOString(),
+      messages: messages.map((message) => this.toTranscriptMessage(message)),
+    };
+
+    this.logger.info({ ticketId, messageCount: document.messages.length }, 'Transcript de ticket generado.');
+
+    return {
+      html: this.renderHtml(document),
+      json: JSON.stringify(document, null, 2),
+    };
+  }
+
+  private async fetchHistory(channel: TextChannel): Promise<Message[]> {
+    const messages: Message[] = [];
+    let before: string | undefined;
+
+    while (messages.length < TRANSCRIPT_LIMITS.maxMessages) {
+      const page: Collection<string, Message> = await channel.messages.fetch({ limit: PAGE_SIZE, before });
+      messages.push(...page.values());
+
+      if (page.size < PAGE_SIZE) {
+        break;
+      }
+
+      before = page.lastKey();
+    }
+
+    return messages.sort((a, b) => a.createdTimestamp - b.createdTimestamp);
+  }
+
+  private toTranscriptMessage(message: Message): TranscriptMessage {
+    return {
+      id: message.id,
+      authorId: message.author.id,
+      authorTag: message.author.tag,
+      authorAvatarUrl: message.author.displayAvatarURL({ size: 64 }),
+      bot: message.author.bot,
+      content: message.content,
+      createdAt: message.createdAt.toISOString(),
+      editedAt: message.editedAt?.toISOString() ?? null,
+      attachments: message.attachments.map((attachment) => ({
+        name: attachment.name,
+        url: attachment.url,
+        size: attachment.size,
+      })),
+      embeds: message.embeds.map((embed) => ({
+        title: embed.title,
+        description: embed.description,
+        url: embed.url,
+        color: embed.color,
+        fields: embed.fields.map((field) => ({ name: field.name, value: field.value, inline: field.inline ?? false })),
+        footer: embed.footer?.text ?? null,
+        imageUrl: embed.image?.url ?? null,
+      })),
+    };
+  }
+
+  private async publish(ticketId: number, channel: TextChannel, transcript: StoredTranscript): Promise<void> {
+    if (!this.logChannelId) {
+      return;
+    }
+
+    const logChannel = await channel.guild.channels.fetch(this.logChannelId).catch(() => null);
+    if (!logChannel?.isTextBased()) {
+      this.logger.warn({ ticketId, logChannelId: this.logChannelId }, 'Canal de logs de staff no disponible.');
+      return;
+    }
+
+    await logChannel.send({
+      embeds: [
+        this.embeds.info({
+          title: `Transcript · Ticket #${ticketId}`,
+          description: `Historial del canal #${channel.name} archivado al cerrar el ticket.`,
+        }),
+      ],
+      files: this.buildAttachments(ticketId, transcript),
+    });
+  }
+}
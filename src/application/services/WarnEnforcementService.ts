@@ -0,0 +1,204 @@
+// =============================================================================
+// RUTA: src/application/services/WarnEnforcementService.ts
+// =============================================================================
+
+import { DiscordAPIError, type EmbedBuilder, type Guild, PermissionFlagsBits, RESTJSONErrorCodes } from 'discord.js';
+import type { Logger } from 'pino';
+
+import type { WarnSummary } from '@/application/usecases/warn/AddWarnUseCase';
+import { type Warn, WarnEnforcementMode, WarnSanctionAction, WarnSanctionStatus } from '@/domain/entities/Warn';
+import type { IGuildSettingsRepository } from '@/domain/repositories/IGuildSettingsRepository';
+import type { IWarnSanctionRepository, WarnSanction } from '@/domain/repositories/IWarnSanctionRepository';
+import { type EmbedFactory, embedFactory } from '@/presentation/embeds/EmbedFactory';
+import { WARN_TIMEOUT_DURATIONS } from '@/shared/config/constants';
+import { WarnSanctionAlreadyResolvedError, WarnSanctionNotFoundError } from '@/shared/errors/domain.errors';
+
+export interface EnforceWarnInput {
+  readonly warn: Warn;
+  readonly summary: WarnSummary;
+  readonly moderatorId: string;
+}
+
+export type WarnEnforcementOutcome =
+  | { readonly kind: 'none' }
+  | { readonly kind: 'pending' | 'applied' | 'failed'; readonly sanction: WarnSanction; readonly embed: EmbedBuilder };
+
+const FAILURE_MESSAGES = Object.freeze({
+  missingBanPermission: 'El bot no tiene el permiso **Banear miembros** en este servidor.',
+  missingTimeoutPermission: 'El bot no tiene el permiso **Aislar temporalmente a miembros** en este servidor.',
+  hierarchy: 'El rol más alto del miembro está por encima o al nivel del rol del bot, o es el propietario del servidor.',
+  memberLeft: 'El miembro ya no está en el servidor, no se puede aplicar un timeout.',
+  forbidden: 'Discord rechazó la acción por falta de permisos. Revisa los permisos y la jerarquía de roles del bot.',
+  unexpected: 'Discord devolvió un error inesperado al aplicar la sanción. Revisa los logs del bot.',
+});
+
+/**
+ * Aplica (o sugiere, según la configuración del servidor) la sanción recomendada tras registrar una
+ * advertencia. Cada sanción queda guardada en `warn_sanctions` con su resultado final.
+ */
+export class WarnEnforcementService {
+  public constructor(
+    private readonly sanctionRepo: IWarnSanctionRepository,
+    private readonly settingsRepo: IGuildSettingsRepository,
+    private readonly logger: Logger,
+    private readonly embeds: EmbedFactory = embedFactory,
+  ) {}
+
+  public async enforce(guild: Guild, input: EnforceWarnInput): Promise<WarnEnforcementOutcome> {
+    const { recommendedAction } = input.summary;
+    if (recommendedAction === 'NONE') {
+      return { kind: 'none' };
+    }
+
+    const guildId = BigInt(guild.id);
+    const sanction = await this.sanctionRepo.create({
+      warnId: input.warn.id,
+      guildId,
+      userId: input.warn.userId.toBigInt(),
+      action: WarnSanctionAction[recommendedAction],
+    });
+
+    const mode = await this.settingsRepo.getWarnEnforcementMode(guildId);
+    if (mode === WarnEnforcementMode.CONFIRM) {
+      return { kind: 'pending', sanction, embed: this.buildEmbed(sanction, WarnSanctionStatus.PENDING) };
+    }
+
+    return this.applyAndResolve(guild, sanction, input.moderatorId, this.buildAuditReason(input.warn));
+  }
+
+  public async bindMessage(sanctionId: number, messageId: string): Promise<void> {
+    await this.sanctionRepo.attachMessage(sanctionId, BigInt(messageId));
+  }
+
+  public async confirm(guild: Guild, messageId: string, actorId: string): Promise<WarnEnforcementOutcome> {
+    const sanction = await this.findPending(messageId);
+
+    return this.applyAndResolve(guild, sanction, actorId, `Sanción por advertencia #${sanction.warnId}`);
+  }
+
+  public async dismiss(messageId: string, actorId: string): Promise<EmbedBuilder> {
+    const sanction = await this.findPending(messageId);
+
+    const resolved = await this.sanctionRepo.resolve(sanction.id, {
+      status: WarnSanctionStatus.DISMISSED,
+      resolvedById: BigInt(actorId),
+    });
+    if (!resolved) {
+      throw new WarnSanctionAlreadyResolvedError(sanction.id);
+    }
+
+    this.logger.info({ sanctionId: sanction.id, actorId }, 'Sanción sugerida descartada por el staff.');
+
+    return this.buildEmbed(sanction, WarnSanctionStatus.DISMISSED, { actorId });
+  }
+
+  private async findPending(messageId: string): Promise<WarnSanction> {
+    const sanction = await this.sanctionRepo.findByMessageId(BigInt(messageId));
+    if (!sanction) {
+      throw new WarnSanctionNotFoundError(messageId);
+    }
+
+    if (sanction.status !== WarnSanctionStatus.PENDING) {
+      throw new WarnSanctionAlreadyResolvedError(sanction.id);
+    }
+
+    return sanction;
+  }
+
+  private async applyAndResolve(
+    guild: Guild,
+    sanction: WarnSanction,
+    actorId: string,
+    auditReason: string,
+  ): Promise<WarnEnforcementOutcome> {
+    const failure = await this.apply(guild, sanction, auditReason);
+    const status = failure ? WarnSanctionStatus.FAILED : WarnSanctionStatus.APPLIED;
+
+    const resolved = await this.sanctionRepo.resolve(sanction.id, {
+      status,
+      resolvedById: BigInt(actorId),
+      failure,
+    });
+    if (!resolved) {
+      throw new WarnSanctionAlreadyResolvedError(sanction.id);
+    }
+
+    if (failure) {
+      this.logger.warn({ sanctionId: sanction.id, action: sanction.action, failure }, 'No se pudo aplicar la sanción.');
+    } else {
+      this.logger.info(
+        { sanctionId: sanction.id, action: sanction.action, userId: sanction.userId.toString() },
+        'Sanción aplicada.',
+      );
+    }
+
+    return {
+      kind: failure ? 'failed' : 'applied',
+      sanction,
+      embed: this.buildEmbed(sanction, status, { actorId, failure }),
+    };
+  }
+
+  /**
+   * Ejecuta la sanción en Discord. Devuelve el motivo legible si no pudo aplicarse.
+   */
+  private async apply(guild: Guild, sanction: WarnSanction, auditReason: string): Promise<string | null> {
+    const userId = sanction.userId.toString();
+    const isBan = sanction.action === WarnSanctionAction.BAN;
+
+    try {
+      const me = guild.members.me ?? (await guild.members.fetchMe());
+      if (!me.permissions.has(isBan ? PermissionFlagsBits.BanMembers : PermissionFlagsBits.ModerateMembers)) {
+        return isBan ? FAILURE_MESSAGES.missingBanPermission : FAILURE_MESSAGES.missingTimeoutPermission;
+      }
+
+      const member = await guild.members.fetch(userId).catch(() => null);
+
+      if (isBan) {
+        if (member && !member.bannable) {
+          return FAILURE_MESSAGES.hierarchy;
+        }
+
+        await guild.members.ban(userId, { reason: auditReason });
+        return null;
+      }
+
+      if (!member) {
+        return FAILURE_MESSAGES.memberLeft;
+      }
+
+      if (!member.moderatable) {
+        return FAILURE_MESSAGES.hierarchy;
+      }
+
+      await member.timeout(WARN_TIMEOUT_DURATIONS[sanction.action], auditReason);
+      return null;
+    } catch (error) {
+      if (error instanceof DiscordAPIError && error.code === RESTJSONErrorCodes.MissingPermissions) {
+        return FAILURE_MESSAGES.forbidden;
+      }
+
+      this.logger.error({ err: error, sanctionId: sanction.id }, 'Error inesperado aplicando sanción.');
+      return FAILURE_MESSAGES.unexpected;
+    }
+  }
+
+  private buildAuditReason(warn: Warn): string {
+    return warn.reason ? `Advertencia #${warn.id}: ${warn.reason}` : `Advertencia #${warn.id}`;
+  }
+
+  private buildEmbed(
+    sanction: WarnSanction,
+    status: WarnSanctionStatus,
+    extra: { readonly actorId?: string; readonly failure?: string | null } = {},
+  ): EmbedBuilder {
+    return this.embeds.warnSanction({
+      warnId: sanction.warnId,
+      userId: sanction.userId.toString(),
+      action: sanction.action,
+      status,
+      actorId: extra.actorId,
+      failure: extra.failure ?? null,
+    });
+  }
+}
@@ -0,0 +1,85 @@
+// =============================================================================
+// RUTA: src/application/services/WarnExpiryService.ts
+// =============================================================================
+
+import type { Logger } from 'pino';
+
+import type { IWarnRepository } from '@/domain/repositories/IWarnRepository';
+import type { WarnExpiryPolicy } from '@/domain/value-objects/WarnExpiryPolicy';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface WarnExpiryOptions {
+  readonly runHourUtc: number;
+}
+
+/**
+ * Job nocturno que marca `expired_at` en las advertencias fuera de su ventana de vigencia. Los totales
+ * de puntos ya ignoran las advertencias vencidas; la marca deja constancia para auditoría y listados.
+ */
+export class WarnExpiryService {
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private running = false;
+
+  public constructor(
+    private readonly warnRepo: IWarnRepository,
+    private readonly policy: WarnExpiryPolicy,
+    private readonly logger: Logger,
+    private readonly options: WarnExpiryOptions,
+  ) {}
+
+  public start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.scheduleNext();
+  }
+
+  public stop(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  public async runDue(now: Date = new Date()): Promise<void> {
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    try {
+      const expired = await this.warnRepo.markExpired(this.policy.windows(now), now);
+      this.logger.info({ expired }, 'Advertencias expiradas marcadas.');
+    } catch (error) {
+      this.logger.error({ err: error }, 'Fallo el ciclo de expiración de advertencias.');
+    } finally {
+      this.running = false;
+    }
+  }
+
+  public nextRunAt(now: Date = new Date()): Date {
+    const next = new Date(now);
+    next.setUTCHours(this.options.runHourUtc, 0, 0, 0);
+
+    if (next.getTime() <= now.getTime()) {
+      next.setTime(next.getTime() + DAY_MS);
+    }
+
+    return next;
+  }
+
+  private scheduleNext(): void {
+    const delay = this.nextRunAt().getTime() - Date.now();
+
+    this.timer = setTimeout(() => {
+      void this.runDue().finally(() => {
+        if (this.timer) {
+          this.scheduleNext();
+        }
+      });
+    }, delay);
+    this.timer.unref();
+  }
+}
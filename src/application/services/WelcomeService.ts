@@ -0,0 +1,166 @@
+// =============================================================================
+// RUTA: src/application/services/WelcomeService.ts
+// =============================================================================
+
+import { AttachmentBuilder, type GuildMember } from 'discord.js';
+import type { Logger } from 'pino';
+
+import type { NotificationQueue } from '@/application/services/NotificationQueue';
+import type { IGuildSettingsRepository, WelcomeSettings } from '@/domain/repositories/IGuildSettingsRepository';
+import { WELCOME_DEFAULTS } from '@/shared/config/constants';
+
+export interface WelcomeTemplateValues {
+  readonly user: string;
+  readonly username: string;
+  readonly server: string;
+  readonly memberCount: number;
+}
+
+/** Datos de la tarjeta. Son serializables para poder encolarlos y generar la imagen al enviar el DM. */
+export interface WelcomeCardData {
+  readonly username: string;
+  readonly guildName: string;
+  readonly memberCount: number;
+  readonly avatarUrl: string;
+}
+
+export interface WelcomeMessage {
+  readonly content: string;
+  readonly card: WelcomeCardData;
+}
+
+export interface WelcomeOutcome {
+  readonly dmQueued: boolean;
+  readonly channelPosted: boolean;
+}
+
+export type WelcomeCardRenderer = (data: {
+  readonly username: string;
+  readonly guildName: string;
+  readonly memberCount: number;
+  readonly avatar: Buffer | null;
+}) => Promise<Buffer>;
+
+export type AvatarFetcher = (url: string) => Promise<Buffer | null>;
+
+/** Nombre con el que la tarjeta se registra como adjunto diferido en la cola de DMs. */
+export const WELCOME_CARD_RENDERER = 'welcome-card';
+
+const PLACEHOLDER_PATTERN = /\{(user|username|server|memberCount)\}/gu;
+
+/**
+ * Sustituye `{user}`, `{username}`, `{server}` y `{memberCount}` en la plantilla. Cualquier otra llave se deja
+ * tal cual para que un error de tipeo se note en la vista previa en lugar de desaparecer.
+ */
+export const formatWelcomeTemplate = (template: string, values: WelcomeTemplateValues): string =>
+  template.replace(PLACEHOLDER_PATTERN, (_match, key: keyof WelcomeTemplateValues) =>
+    key === 'memberCount' ? values.memberCount.toLocaleString('es-ES') : values[key],
+  );
+
+/**
+ * Da la bienvenida a los nuevos miembros: envía la tarjeta por DM a través de la cola de notificaciones y,
+ * si el servidor configuró un canal, la publica también allí. En la cola solo se guardan los datos de la
+ * tarjeta; la imagen se genera al enviar el DM.
+ */
+export class WelcomeService {
+  public constructor(
+    private readonly settingsRepo: IGuildSettingsRepository,
+    private readonly notifications: NotificationQueue,
+    private readonly logger: Logger,
+    private readonly renderCardImage: WelcomeCardRenderer,
+    private readonly fetchAvatar: AvatarFetcher,
+  ) {
+    this.notifications.registerFileRenderer(WELCOME_CARD_RENDERER, async (data) =>
+      this.renderCard(data as unknown as WelcomeCardData),
+    );
+  }
+
+  public async greet(member: GuildMember): Promise<WelcomeOutcome> {
+    if (member.user.bot) {
+      return { dmQueued: false, channelPosted: false };
+    }
+
+    const settings = await this.settingsRepo.getWelcomeSettings(BigInt(member.guild.id));
+    if (!settings.dmEnabled && !settings.channelId) {
+      return { dmQueued: false, channelPosted: false };
+    }
+
+    const message = this.buildMessage(member, settings.template);
+
+    const dmQueued = settings.dmEnabled
+      ? await this.notifications.enqueue(member.id, 'welcome', {
+          content: message.content,
+          renderedFiles: [
+            {
+              name: WELCOME_DEFAULTS.cardFileName,
+              renderer: WELCOME_CARD_RENDERER,
+              data: { ...message.card },
+            },
+          ],
+        })
+      : false;
+
+    const channelPosted = await this.postToChannel(member, settings, message);
+
+    this.logger.info(
+      { guildId: member.guild.id, userId: member.id, dmQueued, channelPosted },
+      'Bienvenida enviada a nuevo miembro.',
+    );
+
+    return { dmQueued, channelPosted };
+  }
+
+  /** Prepara el mensaje con la plantilla indicada, o la por defecto si no se pasa ninguna. */
+  public buildMessage(member: GuildMember, template: string | null): WelcomeMessage {
+    const values: WelcomeTemplateValues = {
+      user: member.toString(),
+      username: member.displayName,
+      server: member.guild.name,
+      memberCount: member.guild.memberCount,
+    };
+
+    return {
+      content: formatWelcomeTemplate(template ?? WELCOME_DEFAULTS.template, values),
+      card: {
+        username: values.username,
+        guildName: values.server,
+        memberCount: values.memberCount,
+        avatarUrl: member.displayAvatarURL({ extension: 'png', size: 256 }),
+      },
+    };
+  }
+
+  public async renderCard(card: WelcomeCardData): Promise<Buffer> {
+    return this.renderCardImage({
+      username: card.username,
+      guildName: card.guildName,
+      memberCount: card.memberCount,
+      avatar: await this.fetchAvatar(card.avatarUrl),
+    });
+  }
+
+  private async postToChannel(member: GuildMember, settings: WelcomeSettings, message: WelcomeMessage): Promise<boolean> {
+    if (!settings.channelId) {
+      return false;
+    }
+
+    try {
+      const channel = await member.guild.channels.fetch(settings.channelId.toString());
+      if (!channel || !channel.isTextBased()) {
+        this.logger.warn({ guildId: member.guild.id, channelId: settings.channelId.toString() }, 'Canal de bienvenida no válido.');
+        return false;
+      }
+
+      await channel.send({
+        content: message.content,
+        files: [new AttachmentBuilder(await this.renderCard(message.card), { name: WELCOME_DEFAULTS.cardFileName })],
+        allowedMentions: { users: [member.id] },
+      });
+
+      return true;
+    } catch (error) {
+      this.logger.warn({ err: error, guildId: member.guild.id }, 'No se pudo publicar la bienvenida en el canal configurado.');
+      return false;
+    }
+  }
+}
@@ -0,0 +1,100 @@
+// ============================================================================
+// RUTA: src/application/usecases/middleman/CancelTradeUseCase.ts
+// ============================================================================
+
+import type { TextChannel } from 'discord.js';
+import type { Logger } from 'pino';
+
+import { type CancelTradeDTO, CancelTradeSchema } from '@/application/dto/trade.dto';
+import { TicketType } from '@/domain/entities/types';
+import type { IMiddlemanRepository } from '@/domain/repositories/IMiddlemanRepository';
+import type { ITicketRepository } from '@/domain/repositories/ITicketRepository';
+import type { ITradeRepository } from '@/domain/repositories/ITradeRepository';
+import { TradeStatus } from '@/domain/value-objects/TradeStatus';
+import type { EmbedFactory } from '@/presentation/embeds/EmbedFactory';
+import { embedFactory } from '@/presentation/embeds/EmbedFactory';
+import {
+  NotMiddlemanTicketError,
+  TicketClosedError,
+  TicketNotFoundError,
+  UnauthorizedActionError,
+} from '@/shared/errors/domain.errors';
+
+interface TransactionProvider {
+  $transaction<T>(fn: (context: unknown) => Promise<T>): Promise<T>;
+}
+
+/**
+ * Cierre forzado de un ticket abandonado o fallido: cancela los trades, marca el claim como
+ * `forcedClose` y omite estadísticas e invitaciones de reseña.
+ */
+export class CancelTradeUseCase {
+  public constructor(
+    private readonly ticketRepo: ITicketRepository,
+    private readonly tradeRepo: ITradeRepository,
+    private readonly middlemanRepo: IMiddlemanRepository,
+    private readonly transactions: TransactionProvider,
+    private readonly logger: Logger,
+    private readonly embeds: EmbedFactory = embedFactory,
+  ) {}
+
+  public async execute(dto: CancelTradeDTO, channel: TextChannel): Promise<void> {
+    const payload = CancelTradeSchema.parse(dto);
+    const ticket = await this.ticketRepo.findById(payload.ticketId);
+
+    if (!ticket) {
+      throw new TicketNotFoundError(String(payload.ticketId));
+    }
+
+    if (ticket.type !== TicketType.MM) {
+      throw new NotMiddlemanTicketError(ticket.id, ticket.type);
+    }
+
+    if (ticket.isClosed()) {
+      throw new TicketClosedError(ticket.id);
+    }
+
+    const actorId = BigInt(payload.actorId);
+    const claim = await this.middlemanRepo.getClaimByTicket(ticket.id);
+    if (!payload.isStaff && claim?.middlemanId !== actorId) {
+      throw new UnauthorizedActionError('middleman:cancel');
+    }
+
+    const trades = await this.tradeRepo.findByTicketId(ticket.id);
+    const cancelledAt = new Date();
+
+    await this.transactions.$transaction(async (tx) => {
+      const transactionalTicketRepo = this.ticketRepo.withTransaction(tx);
+      const transactionalTradeRepo = this.tradeRepo.withTransaction(tx);
+      const transactionalMiddlemanRepo = this.middlemanRepo.withTransaction(tx);
+
+      for (const trade of trades) {
+        if (trade.status === TradeStatus.CANCELLED) {
+          continue;
+        }
+
+        trade.cancel();
+        await transactionalTradeRepo.update(trade);
+      }
+
+      ticket.cancel(cancelledAt);
+      await transactionalTicketRepo.update(ticket);
+      await transactionalMiddlemanRepo.markClosed(ticket.id, { closedAt: cancelledAt, forcedClose: true });
+    });
+
+    await channel.send({
+      embeds: [
+        this.embeds.tradeCancelled({
+          ticketId: ticket.id,
+          actorTag: `<@${payload.actorId}>`,
+          reason: payload.reason,
+        }),
+      ],
+    });
+
+    this.logger.info(
+      { ticketId: ticket.id, actorId: payload.actorId, isStaff: payload.isStaff, tradeCount: trades.length },
+      'Ticket de middleman cancelado.',
+    );
+  }
+}
@@ -11,6 +11,7 @@ import type { IMiddlemanRepository } from '@/domain/repositories/IMiddlemanRepos
 import type { ITicketRepository } from '@/domain/repositories/ITicketRepository';
 import type { EmbedFactory } from '@/presentation/embeds/EmbedFactory';
 import { embedFactory } from '@/presentation/embeds/EmbedFactory';
+import { MIDDLEMAN_CHANNEL_PERMISSIONS } from '@/shared/config/constants';
 import {
   TicketAlreadyClaimedError,
   TicketNotFoundError,
@@ -44,7 +45,7 @@ export class ClaimTradeUseCase {
     }
 
     const existingClaim = await this.middlemanRepo.getClaimByTicket(ticket.id);
-    if (existingClaim) {
+    if (existingClaim?.middlemanId) {
       throw new TicketAlreadyClaimedError(ticket.id);
     }
 
@@ -53,13 +54,7 @@ export class ClaimTradeUseCase {
     await this.middlemanRepo.createClaim(ticket.id, middlemanId);
     await this.ticketRepo.update(ticket);
 
-    await channel.permissionOverwrites.edit(payload.middlemanId, {
-      ViewChannel: true,
-      SendMessages: true,
-      ReadMessageHistory: true,
-      ManageMessages: false,
-      ManageChannels: false,
-    });
+    await channel.permissionOverwrites.edit(payload.middlemanId, MIDDLEMAN_CHANNEL_PERMISSIONS);
 
     await channel.send({
       content: `<@${payload.middlemanId}> ha reclamado este ticket.`,
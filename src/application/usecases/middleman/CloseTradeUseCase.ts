@@ -8,6 +8,7 @@ import type { Logger } from 'pino';
 
 import type { IMemberStatsRepository } from '@/domain/repositories/IMemberStatsRepository';
 import type { IMiddlemanRepository } from '@/domain/repositories/IMiddlemanRepository';
+import type { IMiddlemanStatsRepository } from '@/domain/repositories/IMiddlemanStatsRepository';
 import type { ITicketRepository } from '@/domain/repositories/ITicketRepository';
 import type { ITradeRepository } from '@/domain/repositories/ITradeRepository';
 import { TradeStatus } from '@/domain/value-objects/TradeStatus';
@@ -17,14 +18,21 @@ import {
   TicketClosedError,
   TicketNotFoundError,
   TradesNotConfirmedError,
+  TradesNotFinalizedError,
   UnauthorizedActionError,
 } from '@/shared/errors/domain.errors';
 
+export interface CloseTradeOptions {
+  /** Permite al middleman cerrar sin que todos los participantes confirmen la recepción. */
+  readonly force?: boolean;
+}
+
 export class CloseTradeUseCase {
   public constructor(
     private readonly ticketRepo: ITicketRepository,
     private readonly tradeRepo: ITradeRepository,
     private readonly statsRepo: IMemberStatsRepository,
+    private readonly middlemanStatsRepo: IMiddlemanStatsRepository,
     private readonly middlemanRepo: IMiddlemanRepository,
     private readonly prisma: PrismaClient,
     private readonly logger: Logger,
@@ -35,6 +43,7 @@ export class CloseTradeUseCase {
     ticketId: number,
     middlemanId: bigint,
     channel: TextChannel,
+    options: CloseTradeOptions = {},
   ): Promise<void> {
     const ticket = await this.ticketRepo.findById(ticketId);
 
@@ -56,6 +65,22 @@ export class CloseTradeUseCase {
       throw new TradesNotConfirmedError(ticketId);
     }
 
+    const forcedClose = options.force ?? false;
+    if (!forcedClose) {
+      const [participants, finalized] = await Promise.all([
+        this.ticketRepo.listParticipants(ticketId),
+        this.middlemanRepo.listFinalizations(ticketId),
+      ]);
+
+      const pending = participants
+        .map((participant) => participant.userId)
+        .filter((participantId) => !finalized.includes(participantId));
+
+      if (pending.length > 0) {
+        throw new TradesNotFinalizedError(ticketId, pending.map(String));
+      }
+    }
+
     const completedAt = new Date();
 
     await this.prisma.$transaction(async (tx: Prisma.TransactionClient) => {
@@ -63,6 +88,7 @@ export class CloseTradeUseCase {
       const transactionalTradeRepo = this.tradeRepo.withTransaction(tx);
       const transactionalStatsRepo = this.statsRepo.withTransaction(tx);
       const transactionalMiddlemanRepo = this.middlemanRepo.withTransaction(tx);
+      const transactionalMiddlemanStatsRepo = this.middlemanStatsRepo.withTransaction(tx);
 
       for (const trade of trades) {
         if (trade.status === TradeStatus.PENDING) {
@@ -79,8 +105,28 @@ export class CloseTradeUseCase {
 
       ticket.close();
       await transactionalTicketRepo.update(ticket);
-      await transactionalMiddlemanRepo.markClosed(ticketId, { closedAt: completedAt });
-      await transactionalStatsRepo.recordCompletedTrade(middlemanId, completedAt);
+      await transactionalMiddlemanRepo.markClosed(ticketId, { closedAt: completedAt, forcedClose });
+
+      // Cada participante suma el trade con su identidad de Roblox y la de su contraparte.
+      for (const trade of trades) {
+        const partners = trades.filter((other) => other.userId !== trade.userId).map((other) => other.robloxUsername);
+
+        await transactionalStatsRepo.recordCompletedTrade({
+          userId: trade.userId,
+          completedAt,
+          robloxUsername: trade.robloxUsername,
+          robloxUserId: trade.robloxUserId,
+          partnerTag: partners.length > 0 ? partners.join(', ') : null,
+        });
+      }
+
+      await transactionalMiddlemanStatsRepo.recordClosedClaim({
+        ticketId,
+        middlemanId,
+        closeDurationMs: completedAt.getTime() - claim.claimedAt.getTime(),
+        forced: forcedClose,
+        closedAt: completedAt,
+      });
     });
 
     await this.middlemanRepo.markReviewRequested(ticketId, completedAt);
@@ -100,7 +146,7 @@ export class CloseTradeUseCase {
     });
 
     this.logger.info(
-      { ticketId, middlemanId: middlemanId.toString(), channelId: channel.id },
+      { ticketId, middlemanId: middlemanId.toString(), channelId: channel.id, forcedClose },
       'Ticket de middleman cerrado correctamente.',
     );
   }
@@ -0,0 +1,65 @@
+// ============================================================================
+// RUTA: src/application/usecases/middleman/ConfirmTradeUseCase.ts
+// ============================================================================
+
+import type { Logger } from 'pino';
+
+import { type TradeParticipantDTO, TradeParticipantSchema } from '@/application/dto/trade.dto';
+import type { Trade } from '@/domain/entities/Trade';
+import type { ITicketRepository } from '@/domain/repositories/ITicketRepository';
+import type { ITradeRepository } from '@/domain/repositories/ITradeRepository';
+import {
+  TicketClosedError,
+  TicketNotFoundError,
+  ValidationFailedError,
+} from '@/shared/errors/domain.errors';
+
+export interface ConfirmTradeResult {
+  readonly trade: Trade;
+  readonly allConfirmed: boolean;
+}
+
+export class ConfirmTradeUseCase {
+  public constructor(
+    private readonly ticketRepo: ITicketRepository,
+    private readonly tradeRepo: ITradeRepository,
+    private readonly logger: Logger,
+  ) {}
+
+  public async execute(dto: TradeParticipantDTO): Promise<ConfirmTradeResult> {
+    const payload = TradeParticipantSchema.parse(dto);
+    const ticket = await this.ticketRepo.findById(payload.ticketId);
+
+    if (!ticket) {
+      throw new TicketNotFoundError(String(payload.ticketId));
+    }
+
+    if (ticket.isClosed()) {
+      throw new TicketClosedError(ticket.id);
+    }
+
+    const trade = await this.tradeRepo.findByTicketAndUser(ticket.id, BigInt(payload.userId));
+    if (!trade) {
+      throw new ValidationFailedError({ trade: 'Debes declarar tus ítems antes de confirmar.' });
+    }
+
+    trade.confirm();
+    await this.tradeRepo.update(trade);
+
+    const [trades, participants] = await Promise.all([
+      this.tradeRepo.findByTicketId(ticket.id),
+      this.ticketRepo.listParticipants(ticket.id),
+    ]);
+
+    const allConfirmed = participants.every((participant) =>
+      trades.some((candidate) => candidate.userId === participant.userId && candidate.confirmed),
+    );
+
+    this.logger.info(
+      { ticketId: ticket.id, userId: payload.userId, tradeId: trade.id, allConfirmed },
+      'Trade confirmado por participante.',
+    );
+
+    return { trade, allConfirmed };
+  }
+}
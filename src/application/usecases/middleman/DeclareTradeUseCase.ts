@@ -0,0 +1,103 @@
+// ============================================================================
+// RUTA: src/application/usecases/middleman/DeclareTradeUseCase.ts
+// ============================================================================
+
+import type { Logger } from 'pino';
+
+import { type DeclareTradeDTO, DeclareTradeSchema } from '@/application/dto/trade.dto';
+import type { Trade } from '@/domain/entities/Trade';
+import { TicketType } from '@/domain/entities/types';
+import type { ITicketRepository } from '@/domain/repositories/ITicketRepository';
+import type { ITradeRepository } from '@/domain/repositories/ITradeRepository';
+import { TradeStatus } from '@/domain/value-objects/TradeStatus';
+import { TRADE_LIMITS } from '@/shared/config/constants';
+import {
+  InvalidTradeStateError,
+  TicketClosedError,
+  TicketNotFoundError,
+  TooManyTradeItemsError,
+  TradeAlreadyExistsError,
+  UnauthorizedActionError,
+} from '@/shared/errors/domain.errors';
+
+interface TransactionProvider {
+  $transaction<T>(fn: (context: unknown) => Promise<T>): Promise<T>;
+}
+
+export class DeclareTradeUseCase {
+  public constructor(
+    private readonly ticketRepo: ITicketRepository,
+    private readonly tradeRepo: ITradeRepository,
+    private readonly transactions: TransactionProvider,
+    private readonly logger: Logger,
+  ) {}
+
+  public async execute(dto: DeclareTradeDTO): Promise<Trade> {
+    const payload = DeclareTradeSchema.parse(dto);
+    const ticket = await this.ticketRepo.findById(payload.ticketId);
+
+    if (!ticket || ticket.type !== TicketType.MM) {
+      throw new TicketNotFoundError(String(payload.ticketId));
+    }
+
+    if (ticket.isClosed()) {
+      throw new TicketClosedError(ticket.id);
+    }
+
+    const userId = BigInt(payload.userId);
+    const isParticipant = await this.ticketRepo.isParticipant(ticket.id, userId);
+    if (!isParticipant && !ticket.isOwnedBy(userId)) {
+      throw new UnauthorizedActionError('middleman:trade:declare');
+    }
+
+    let trade: Trade;
+    try {
+      trade = await this.declare(ticket.id, userId, payload);
+    } catch (error) {
+      if (!(error instanceof TradeAlreadyExistsError)) {
+        throw error;
+      }
+
+      // La lectura previa no bloquea: otra declaración simultánea creó el trade entre la búsqueda y el
+      // insert. Al repetir, la fila ya existe y los ítems se añaden a ella.
+      trade = await this.declare(ticket.id, userId, payload);
+    }
+
+    this.logger.info(
+      { ticketId: ticket.id, userId: payload.userId, tradeId: trade.id, itemCount: trade.items.length },
+      'Ítems de trade declarados correctamente.',
+    );
+
+    return trade;
+  }
+
+  private async declare(ticketId: number, userId: bigint, payload: DeclareTradeDTO): Promise<Trade> {
+    return this.transactions.$transaction(async (tx) => {
+      const transactionalTradeRepo = this.tradeRepo.withTransaction(tx);
+      const existing = await transactionalTradeRepo.findByTicketAndUser(ticketId, userId);
+
+      if (existing && !existing.isEditable()) {
+        throw new InvalidTradeStateError(existing.status, TradeStatus.PENDING);
+      }
+
+      if (existing && existing.items.length + payload.items.length > TRADE_LIMITS.maxItemsPerTrade) {
+        throw new TooManyTradeItemsError(TRADE_LIMITS.maxItemsPerTrade);
+      }
+
+      if (!existing) {
+        return transactionalTradeRepo.create({
+          ticketId,
+          userId,
+          robloxUsername: payload.robloxUsername,
+          items: payload.items,
+        });
+      }
+
+      existing.robloxUsername = payload.robloxUsername;
+      await transactionalTradeRepo.update(existing);
+      await transactionalTradeRepo.addItems(existing.id, payload.items);
+
+      return (await transactionalTradeRepo.findByTicketAndUser(ticketId, userId)) ?? existing;
+    });
+  }
+}
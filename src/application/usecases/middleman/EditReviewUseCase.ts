@@ -0,0 +1,109 @@
+// ============================================================================
+// RUTA: src/application/usecases/middleman/EditReviewUseCase.ts
+// ============================================================================
+
+import type { Client } from 'discord.js';
+import type { Logger } from 'pino';
+import { type z, ZodError } from 'zod';
+
+import { type EditReviewDTO, EditReviewSchema } from '@/application/dto/review.dto';
+import type { RatingService } from '@/application/services/RatingService';
+import type { Review } from '@/domain/entities/Review';
+import type { IReviewRepository } from '@/domain/repositories/IReviewRepository';
+import { Rating } from '@/domain/value-objects/Rating';
+import { type EmbedFactory, embedFactory } from '@/presentation/embeds/EmbedFactory';
+import { REVIEW_LIMITS } from '@/shared/config/constants';
+import {
+  ReviewEditWindowExpiredError,
+  ReviewNotFoundError,
+  UnauthorizedActionError,
+  ValidationFailedError,
+} from '@/shared/errors/domain.errors';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export class EditReviewUseCase {
+  public constructor(
+    private readonly reviewRepo: IReviewRepository,
+    private readonly logger: Logger,
+    private readonly editWindowMs: number = REVIEW_LIMITS.editWindowMs,
+    private readonly embeds: EmbedFactory = embedFactory,
+    private readonly ratings: RatingService,
+  ) {}
+
+  public async execute(dto: EditReviewDTO, client: Client, now: Date = new Date()): Promise<Review> {
+    let payload: z.infer<typeof EditReviewSchema>;
+    try {
+      payload = EditReviewSchema.parse(dto);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        throw new ValidationFailedError(error.flatten().fieldErrors);
+      }
+
+      throw error;
+    }
+
+    const review = await this.reviewRepo.findById(payload.reviewId);
+    if (!review || review.isHidden()) {
+      throw new ReviewNotFoundError(payload.reviewId);
+    }
+
+    if (!review.isAuthoredBy(BigInt(payload.reviewerId))) {
+      throw new UnauthorizedActionError('review:edit');
+    }
+
+    if (!review.isWithinEditWindow(now, this.editWindowMs)) {
+      throw new ReviewEditWindowExpiredError(review.id, Math.round(this.editWindowMs / HOUR_MS));
+    }
+
+    const updated = await this.reviewRepo.update(review.id, {
+      rating: Rating.create(payload.rating).unwrap(),
+      comment: payload.comment && payload.comment.length > 0 ? payload.comment : null,
+      editedAt: now,
+    });
+
+    await this.refreshPublication(client, updated);
+
+    this.logger.info(
+      { reviewId: review.id, reviewerId: payload.reviewerId, rating: payload.rating },
+      'Reseña editada por su autor.',
+    );
+
+    return updated;
+  }
+
+  private async refreshPublication(client: Client, review: Review): Promise<void> {
+    if (!review.channelId || !review.messageId) {
+      return;
+    }
+
+    try {
+      const channel = await client.channels.fetch(review.channelId.toString());
+      if (!channel?.isTextBased()) {
+        return;
+      }
+
+      const message = await channel.messages.fetch(review.messageId.toString());
+      const middlemanRating = await this.ratings.scoreMiddleman(this.reviewRepo, review.middlemanId);
+
+      await message.edit({
+        embeds: [
+          this.embeds.reviewPublished({
+            reviewId: review.id,
+            ticketId: review.ticketId,
+            middlemanTag: `<@${review.middlemanId}>`,
+            reviewerTag: `<@${review.reviewerId}>`,
+            rating: review.rating.getValue(),
+            comment: review.comment,
+            averageRating: middlemanRating.raw ?? review.rating.getValue(),
+            weightedRating: middlemanRating.weighted,
+            edited: true,
+          }),
+        ],
+      });
+    } catch (error) {
+      // La edición ya quedó guardada; si el mensaje publicado desapareció no hay nada más que actualizar.
+      this.logger.warn({ err: error, reviewId: review.id }, 'No se pudo actualizar el mensaje de la reseña.');
+    }
+  }
+}
@@ -0,0 +1,70 @@
+// ============================================================================
+// RUTA: src/application/usecases/middleman/FinalizeTradeUseCase.ts
+// ============================================================================
+
+import type { Logger } from 'pino';
+
+import { type TradeParticipantDTO, TradeParticipantSchema } from '@/application/dto/trade.dto';
+import type { IMiddlemanRepository } from '@/domain/repositories/IMiddlemanRepository';
+import type { ITicketRepository } from '@/domain/repositories/ITicketRepository';
+import {
+  InvalidTradeStateError,
+  TicketClosedError,
+  TicketNotFoundError,
+  UnauthorizedActionError,
+} from '@/shared/errors/domain.errors';
+
+export interface FinalizeTradeResult {
+  readonly pending: readonly bigint[];
+  readonly completed: boolean;
+}
+
+export class FinalizeTradeUseCase {
+  public constructor(
+    private readonly ticketRepo: ITicketRepository,
+    private readonly middlemanRepo: IMiddlemanRepository,
+    private readonly logger: Logger,
+  ) {}
+
+  public async execute(dto: TradeParticipantDTO): Promise<FinalizeTradeResult> {
+    const payload = TradeParticipantSchema.parse(dto);
+    const ticket = await this.ticketRepo.findById(payload.ticketId);
+
+    if (!ticket) {
+      throw new TicketNotFoundError(String(payload.ticketId));
+    }
+
+    if (ticket.isClosed()) {
+      throw new TicketClosedError(ticket.id);
+    }
+
+    const userId = BigInt(payload.userId);
+    const isParticipant = await this.ticketRepo.isParticipant(ticket.id, userId);
+    if (!isParticipant) {
+      throw new UnauthorizedActionError('middleman:finalize');
+    }
+
+    const claim = await this.middlemanRepo.getClaimByTicket(ticket.id);
+    if (!claim?.finalizationMessageId) {
+      throw new InvalidTradeStateError('AWAITING_DELIVERY', 'DELIVERED');
+    }
+
+    await this.middlemanRepo.recordFinalization(ticket.id, userId);
+
+    const [participants, finalized] = await Promise.all([
+      this.ticketRepo.listParticipants(ticket.id),
+      this.middlemanRepo.listFinalizations(ticket.id),
+    ]);
+
+    const pending = participants
+      .map((participant) => participant.userId)
+      .filter((participantId) => !finalized.includes(participantId));
+
+    this.logger.info(
+      { ticketId: ticket.id, userId: payload.userId, pending: pending.map(String) },
+      'Recepción de ítems confirmada por participante.',
+    );
+
+    return { pending, completed: pending.length === 0 };
+  }
+}
@@ -0,0 +1,121 @@
+// ============================================================================
+// RUTA: src/application/usecases/middleman/GetMiddlemanProfileUseCase.ts
+// ============================================================================
+
+import { z, ZodError } from 'zod';
+
+import type { RatingService } from '@/application/services/RatingService';
+import type { Review } from '@/domain/entities/Review';
+import type { IMiddlemanRepository } from '@/domain/repositories/IMiddlemanRepository';
+import type { IMiddlemanStatsRepository } from '@/domain/repositories/IMiddlemanStatsRepository';
+import type { IReviewRepository } from '@/domain/repositories/IReviewRepository';
+import { MIDDLEMAN_PROFILE_LIMITS } from '@/shared/config/constants';
+import { MiddlemanNotFoundError, ValidationFailedError } from '@/shared/errors/domain.errors';
+
+const GetMiddlemanProfileSchema = z.object({
+  middlemanId: z.string().regex(/^\d+$/u, 'ID de usuario inválido'),
+  page: z.number().int().min(1).default(1),
+});
+
+export type GetMiddlemanProfileDTO = z.input<typeof GetMiddlemanProfileSchema>;
+
+/** Cantidad de reseñas por número de estrellas (índice 0 = 1 estrella). */
+export type RatingDistribution = readonly [number, number, number, number, number];
+
+export interface MiddlemanProfile {
+  readonly middlemanId: bigint;
+  /** `null` si el middleman todavía no recibió reseñas. */
+  readonly averageRating: number | null;
+  /** Media bayesiana de `RatingService`; sin reseñas equivale a la media del prior. */
+  readonly weightedRating: number;
+  readonly totalReviews: number;
+  readonly distribution: RatingDistribution;
+  /** Claims cerrados (completados o forzados); los abiertos y los cancelados no cuentan. */
+  readonly closedClaims: number;
+  readonly completedClaims: number;
+  readonly forcedCloses: number;
+  /** Proporción de claims completados sin forzar sobre los cerrados; `null` sin claims cerrados. */
+  readonly completionRate: number | null;
+  /** Mediana entre el claim y el cierre de los claims completados; `null` sin claims completados. */
+  readonly medianCloseMs: number | null;
+  readonly reviews: readonly Review[];
+  readonly page: number;
+  readonly totalPages: number;
+}
+
+const median = (values: readonly number[]): number | null => {
+  if (values.length === 0) {
+    return null;
+  }
+
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+
+  return sorted.length % 2 === 0 ? (sorted[middle - 1]! + sorted[middle]!) / 2 : sorted[middle]!;
+};
+
+export class GetMiddlemanProfileUseCase {
+  public constructor(
+    private readonly middlemanRepo: IMiddlemanRepository,
+    private readonly middlemanStatsRepo: IMiddlemanStatsRepository,
+    private readonly reviewRepo: IReviewRepository,
+    private readonly pageSize: number = MIDDLEMAN_PROFILE_LIMITS.reviewsPerPage,
+    private readonly ratings: RatingService,
+  ) {}
+
+  public async execute(dto: GetMiddlemanProfileDTO, now: Date = new Date()): Promise<MiddlemanProfile> {
+    let payload: z.infer<typeof GetMiddlemanProfileSchema>;
+    try {
+      payload = GetMiddlemanProfileSchema.parse(dto);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        throw new ValidationFailedError(error.flatten().fieldErrors);
+      }
+
+      throw error;
+    }
+
+    const middlemanId = BigInt(payload.middlemanId);
+    if (!(await this.middlemanRepo.isMiddleman(middlemanId))) {
+      throw new MiddlemanNotFoundError(payload.middlemanId);
+    }
+
+    const [reviews, stats, completed] = await Promise.all([
+      this.reviewRepo.findByMiddlemanId(middlemanId),
+      this.middlemanStatsRepo.getByMiddleman(middlemanId),
+      this.middlemanRepo.listCompletedClaims(middlemanId),
+    ]);
+
+    const distribution: [number, number, number, number, number] = [0, 0, 0, 0, 0];
+    for (const review of reviews) {
+      distribution[review.rating.getValue() - 1]! += 1;
+    }
+
+    const rating = this.ratings.scoreReviews(reviews, now);
+
+    const completedClaims = stats.claimsHandled - stats.forcedCloses;
+    const closeDurations = completed.flatMap((claim) =>
+      claim.closedAt ? [claim.closedAt.getTime() - claim.claimedAt.getTime()] : [],
+    );
+
+    const totalPages = Math.max(1, Math.ceil(reviews.length / this.pageSize));
+    // Si la página pedida queda fuera de rango se muestra la última disponible.
+    const page = Math.min(payload.page, totalPages);
+
+    return {
+      middlemanId,
+      averageRating: rating.raw,
+      weightedRating: rating.weighted,
+      totalReviews: reviews.length,
+      distribution,
+      closedClaims: stats.claimsHandled,
+      completedClaims,
+      forcedCloses: stats.forcedCloses,
+      completionRate: stats.claimsHandled > 0 ? completedClaims / stats.claimsHandled : null,
+      medianCloseMs: median(closeDurations),
+      reviews: reviews.slice((page - 1) * this.pageSize, page * this.pageSize),
+      page,
+      totalPages,
+    };
+  }
+}
@@ -0,0 +1,82 @@
+// ============================================================================
+// RUTA: src/application/usecases/middleman/ModerateReviewUseCase.ts
+// ============================================================================
+
+import type { Client } from 'discord.js';
+import type { Logger } from 'pino';
+import { type z, ZodError } from 'zod';
+
+import { type ModerateReviewDTO, ModerateReviewSchema } from '@/application/dto/review.dto';
+import type { Review } from '@/domain/entities/Review';
+import type { IReviewRepository } from '@/domain/repositories/IReviewRepository';
+import { ReviewNotFoundError, ValidationFailedError } from '@/shared/errors/domain.errors';
+
+/**
+ * Permite al staff ocultar (se conserva como registro pero deja de contar en promedios y tablas) o eliminar
+ * una reseña. Eliminar además borra el texto, aunque la fila se mantiene con el moderador y el motivo para
+ * que el autor no pueda volver a reseñar el ticket. En ambos casos se retira el mensaje publicado.
+ */
+export class ModerateReviewUseCase {
+  public constructor(
+    private readonly reviewRepo: IReviewRepository,
+    private readonly logger: Logger,
+  ) {}
+
+  public async execute(dto: ModerateReviewDTO, client: Client, now: Date = new Date()): Promise<Review> {
+    let payload: z.infer<typeof ModerateReviewSchema>;
+    try {
+      payload = ModerateReviewSchema.parse(dto);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        throw new ValidationFailedError(error.flatten().fieldErrors);
+      }
+
+      throw error;
+    }
+
+    const review = await this.reviewRepo.findById(payload.reviewId);
+    if (!review || review.isDeleted() || (payload.action === 'hide' && review.isHidden())) {
+      throw new ReviewNotFoundError(payload.reviewId);
+    }
+
+    const moderation = { hiddenBy: BigInt(payload.moderatorId), reason: payload.reason, hiddenAt: now };
+    if (payload.action === 'hide') {
+      await this.reviewRepo.hide(review.id, moderation);
+    } else {
+      await this.reviewRepo.delete(review.id, moderation);
+    }
+
+    await this.removePublication(client, review);
+
+    this.logger.info(
+      {
+        reviewId: review.id,
+        middlemanId: review.middlemanId.toString(),
+        moderatorId: payload.moderatorId,
+        action: payload.action,
+        reason: payload.reason,
+      },
+      'Reseña moderada por el staff.',
+    );
+
+    return review;
+  }
+
+  private async removePublication(client: Client, review: Review): Promise<void> {
+    if (!review.channelId || !review.messageId) {
+      return;
+    }
+
+    try {
+      const channel = await client.channels.fetch(review.channelId.toString());
+      if (!channel?.isTextBased()) {
+        return;
+      }
+
+      const message = await channel.messages.fetch(review.messageId.toString());
+      await message.delete();
+    } catch (error) {
+      this.logger.warn({ err: error, reviewId: review.id }, 'No se pudo retirar el mensaje de la reseña.');
+    }
+  }
+}
@@ -0,0 +1,67 @@
+// ============================================================================
+// RUTA: src/application/usecases/middleman/RemoveTradeItemUseCase.ts
+// ============================================================================
+
+import type { Logger } from 'pino';
+
+import { type RemoveTradeItemDTO, RemoveTradeItemSchema } from '@/application/dto/trade.dto';
+import type { ITicketRepository } from '@/domain/repositories/ITicketRepository';
+import type { ITradeRepository } from '@/domain/repositories/ITradeRepository';
+import { TradeStatus } from '@/domain/value-objects/TradeStatus';
+import {
+  InvalidTradeStateError,
+  TicketClosedError,
+  TicketNotFoundError,
+  ValidationFailedError,
+} from '@/shared/errors/domain.errors';
+
+export class RemoveTradeItemUseCase {
+  public constructor(
+    private readonly ticketRepo: ITicketRepository,
+    private readonly tradeRepo: ITradeRepository,
+    private readonly logger: Logger,
+  ) {}
+
+  public async execute(dto: RemoveTradeItemDTO): Promise<{ removed: string; remaining: number }> {
+    const payload = RemoveTradeItemSchema.parse(dto);
+    const ticket = await this.ticketRepo.findById(payload.ticketId);
+
+    if (!ticket) {
+      throw new TicketNotFoundError(String(payload.ticketId));
+    }
+
+    if (ticket.isClosed()) {
+      throw new TicketClosedError(ticket.id);
+    }
+
+    const userId = BigInt(payload.userId);
+    const trade = await this.tradeRepo.findByTicketAndUser(ticket.id, userId);
+    if (!trade) {
+      throw new ValidationFailedError({ trade: 'No has declarado ítems en este ticket.' });
+    }
+
+    if (!trade.isEditable()) {
+      throw new InvalidTradeStateError(trade.status, TradeStatus.PENDING);
+    }
+
+    const item = trade.items[payload.position - 1];
+    if (!item || item.id === undefined) {
+      throw new ValidationFailedError({ position: `No existe un ítem en la posición ${payload.position}.` });
+    }
+
+    const remaining = trade.items.length - 1;
+
+    if (remaining === 0) {
+      await this.tradeRepo.delete(trade.id);
+    } else {
+      await this.tradeRepo.removeItem(item.id);
+    }
+
+    this.logger.info(
+      { ticketId: ticket.id, userId: payload.userId, tradeId: trade.id, itemId: item.id, remaining },
+      'Ítem de trade eliminado.',
+    );
+
+    return { removed: item.name, remaining };
+  }
+}
@@ -0,0 +1,238 @@
+// ============================================================================
+// RUTA: src/application/usecases/middleman/ReopenTicketUseCase.ts
+// ============================================================================
+
+import type { Guild, PermissionsString, TextChannel } from 'discord.js';
+import { ChannelType, PermissionFlagsBits } from 'discord.js';
+import type { Logger } from 'pino';
+
+import { type ReopenTicketDTO, ReopenTicketSchema } from '@/application/dto/ticket.dto';
+import type { Ticket } from '@/domain/entities/Ticket';
+import { TicketStatus, TicketType } from '@/domain/entities/types';
+import type { IMemberStatsRepository } from '@/domain/repositories/IMemberStatsRepository';
+import type { IMiddlemanRepository } from '@/domain/repositories/IMiddlemanRepository';
+import type { IMiddlemanStatsRepository } from '@/domain/repositories/IMiddlemanStatsRepository';
+import type { ITicketReminderRepository } from '@/domain/repositories/ITicketReminderRepository';
+import type { ITicketRepository } from '@/domain/repositories/ITicketRepository';
+import type { ITradeRepository } from '@/domain/repositories/ITradeRepository';
+import type { EmbedFactory } from '@/presentation/embeds/EmbedFactory';
+import { embedFactory } from '@/presentation/embeds/EmbedFactory';
+import { PARTICIPANT_CHANNEL_PERMISSIONS } from '@/shared/config/constants';
+import {
+  ChannelCleanupError,
+  ChannelCreationError,
+  InvalidTicketStateError,
+  NotMiddlemanTicketError,
+  ReopenWindowExpiredError,
+  TicketNotFoundError,
+  UnauthorizedActionError,
+} from '@/shared/errors/domain.errors';
+import { sanitizeChannelName } from '@/shared/utils/discord.utils';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/** Los overwrites de un canal nuevo se expresan como lista; salen de los mismos permisos que se editan. */
+const PARTICIPANT_ALLOW = Object.entries(PARTICIPANT_CHANNEL_PERMISSIONS)
+  .filter(([, allowed]) => allowed)
+  .map(([permission]) => permission as PermissionsString);
+
+interface TransactionProvider {
+  $transaction<T>(fn: (context: unknown) => Promise<T>): Promise<T>;
+}
+
+/**
+ * Reabre (solo staff) un ticket cerrado dentro de la ventana de gracia. Si el cierre original
+ * sumó un trade a las estadísticas del middleman, se revierte.
+ */
+export class ReopenTicketUseCase {
+  public constructor(
+    private readonly ticketRepo: ITicketRepository,
+    private readonly tradeRepo: ITradeRepository,
+    private readonly statsRepo: IMemberStatsRepository,
+    private readonly middlemanStatsRepo: IMiddlemanStatsRepository,
+    private readonly middlemanRepo: IMiddlemanRepository,
+    private readonly reminderRepo: ITicketReminderRepository,
+    private readonly transactions: TransactionProvider,
+    private readonly logger: Logger,
+    private readonly reopenWindowHours: number,
+    private readonly embeds: EmbedFactory = embedFactory,
+  ) {}
+
+  public async execute(
+    dto: ReopenTicketDTO,
+    guild: Guild,
+  ): Promise<{ ticket: Ticket; channel: TextChannel; recreated: boolean }> {
+    const payload = ReopenTicketSchema.parse(dto);
+
+    if (!payload.isStaff) {
+      throw new UnauthorizedActionError('middleman:reopen');
+    }
+
+    const ticket = await this.ticketRepo.findById(payload.ticketId);
+    if (!ticket) {
+      throw new TicketNotFoundError(String(payload.ticketId));
+    }
+
+    if (ticket.type !== TicketType.MM) {
+      throw new NotMiddlemanTicketError(ticket.id, ticket.type);
+    }
+
+    if (!ticket.isClosed()) {
+      throw new InvalidTicketStateError(ticket.status, TicketStatus.CLOSED);
+    }
+
+    const closedAt = ticket.closedAt?.getTime() ?? 0;
+    if (Date.now() - closedAt > this.reopenWindowHours * HOUR_MS) {
+      throw new ReopenWindowExpiredError(ticket.id, this.reopenWindowHours);
+    }
+
+    const [claim, trades, participants] = await Promise.all([
+      this.middlemanRepo.getClaimByTicket(ticket.id),
+      this.tradeRepo.findByTicketId(ticket.id),
+      this.ticketRepo.listParticipants(ticket.id),
+    ]);
+    const participantIds = participants.map((participant) => participant.userId.toString());
+    // Solo se revierten estadísticas si el cierre llegó a completarse (se pidió reseña tras cerrar).
+    const closedClaim = claim?.reviewRequestedAt && claim.middlemanId ? claim : null;
+
+    const existing = await this.fetchChannel(guild, ticket.channelId);
+    const channel = existing ?? (await this.recreateChannel(guild, ticket, participantIds, payload.categoryId));
+
+    try {
+      await this.transactions.$transaction(async (tx) => {
+        const transactionalTicketRepo = this.ticketRepo.withTransaction(tx);
+        const transactionalTradeRepo = this.tradeRepo.withTransaction(tx);
+        const transactionalStatsRepo = this.statsRepo.withTransaction(tx);
+        const transactionalMiddlemanRepo = this.middlemanRepo.withTransaction(tx);
+        const transactionalMiddlemanStatsRepo = this.middlemanStatsRepo.withTransaction(tx);
+        const transactionalReminderRepo = this.reminderRepo.withTransaction(tx);
+
+        ticket.reopen();
+        ticket.channelId = BigInt(channel.id);
+        await transactionalTicketRepo.update(ticket);
+
+        for (const trade of trades) {
+          trade.reopen();
+          await transactionalTradeRepo.update(trade);
+        }
+
+        await transactionalMiddlemanRepo.resetClaim(ticket.id);
+        await transactionalReminderRepo.reset(ticket.id, new Date());
+
+        if (closedClaim?.middlemanId) {
+          for (const trade of trades) {
+            await transactionalStatsRepo.revertCompletedTrade(trade.userId);
+          }
+
+          const closedAt = closedClaim.closedAt ?? closedClaim.reviewRequestedAt ?? closedClaim.claimedAt;
+          await transactionalMiddlemanStatsRepo.revertClosedClaim({
+            ticketId: ticket.id,
+            middlemanId: closedClaim.middlemanId,
+            closeDurationMs: closedAt.getTime() - closedClaim.claimedAt.getTime(),
+            forced: closedClaim.forcedClose ?? false,
+          });
+        }
+      });
+    } catch (error) {
+      if (!existing) {
+        await this.cleanupChannel(channel);
+      }
+
+      throw error;
+    }
+
+    if (existing) {
+      for (const participantId of participantIds) {
+        await channel.permissionOverwrites.edit(participantId, PARTICIPANT_CHANNEL_PERMISSIONS);
+      }
+
+      if (claim?.middlemanId) {
+        await channel.permissionOverwrites.delete(claim.middlemanId.toString());
+      }
+
+      if (payload.categoryId && channel.parentId !== payload.categoryId) {
+        await channel.setParent(payload.categoryId, { lockPermissions: false });
+      }
+    }
+
+    await channel.send({
+      content: participantIds.map((participantId) => `<@${participantId}>`).join(' '),
+      embeds: [
+        this.embeds.info({
+          title: 'Ticket reabierto',
+          description: `<@${payload.actorId}> reabrió este ticket. Un middleman debe volver a reclamarlo y los trades deben confirmarse de nuevo.\n\n**Motivo:** ${payload.reason}`,
+        }),
+      ],
+    });
+
+    this.logger.info(
+      {
+        ticketId: ticket.id,
+        actorId: payload.actorId,
+        channelId: channel.id,
+        recreated: !existing,
+        revertedStatsFor: closedClaim?.middlemanId?.toString() ?? null,
+        reason: payload.reason,
+      },
+      'Ticket de middleman reabierto.',
+    );
+
+    return { ticket, channel, recreated: !existing };
+  }
+
+  private async fetchChannel(guild: Guild, channelId: bigint): Promise<TextChannel | null> {
+    const channel = await guild.channels.fetch(channelId.toString()).catch(() => null);
+
+    return channel?.type === ChannelType.GuildText ? channel : null;
+  }
+
+  private async recreateChannel(
+    guild: Guild,
+    ticket: Ticket,
+    participantIds: readonly string[],
+    categoryId?: string,
+  ): Promise<TextChannel> {
+    const botId = guild.members.me?.id;
+    if (!botId) {
+      throw new ChannelCreationError('El bot no está presente en el gremio.');
+    }
+
+    const channelName = sanitizeChannelName(`mm-${ticket.ownerId.toString()}`);
+
+    try {
+      return await guild.channels.create({
+        name: channelName,
+        type: ChannelType.GuildText,
+        parent: categoryId,
+        permissionOverwrites: [
+          {
+            id: guild.roles.everyone.id,
+            deny: [PermissionFlagsBits.ViewChannel],
+          },
+          ...participantIds.map((participantId) => ({ id: participantId, allow: PARTICIPANT_ALLOW })),
+          {
+            id: botId,
+            allow: [
+              PermissionFlagsBits.ViewChannel,
+              PermissionFlagsBits.SendMessages,
+              PermissionFlagsBits.ManageChannels,
+              PermissionFlagsBits.ReadMessageHistory,
+            ],
+          },
+        ],
+      });
+    } catch (error) {
+      this.logger.error({ err: error, channelName, ticketId: ticket.id }, 'Falló la recreación del canal del ticket.');
+      throw new ChannelCreationError((error as Error).message);
+    }
+  }
+
+  private async cleanupChannel(channel: TextChannel): Promise<void> {
+    try {
+      await channel.delete('Error al reabrir el ticket de middleman.');
+    } catch (cleanupError) {
+      this.logger.error({ err: cleanupError, channelId: channel.id }, 'Fallo al limpiar canal tras error.');
+      throw new ChannelCleanupError(channel.id, cleanupError);
+    }
+  }
+}
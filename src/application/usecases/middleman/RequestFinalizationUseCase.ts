@@ -0,0 +1,79 @@
+// ============================================================================
+// RUTA: src/application/usecases/middleman/RequestFinalizationUseCase.ts
+// ============================================================================
+
+import type { ActionRowBuilder, ButtonBuilder, TextChannel } from 'discord.js';
+import type { Logger } from 'pino';
+
+import type { IMiddlemanRepository } from '@/domain/repositories/IMiddlemanRepository';
+import type { ITicketRepository } from '@/domain/repositories/ITicketRepository';
+import type { ITradeRepository } from '@/domain/repositories/ITradeRepository';
+import type { EmbedFactory } from '@/presentation/embeds/EmbedFactory';
+import { embedFactory } from '@/presentation/embeds/EmbedFactory';
+import {
+  TicketClosedError,
+  TicketNotFoundError,
+  TradesNotConfirmedError,
+  UnauthorizedActionError,
+} from '@/shared/errors/domain.errors';
+
+export type FinalizationButtonBuilder = () => ActionRowBuilder<ButtonBuilder>;
+
+/**
+ * El middleman indica que ya entregó los ítems; se publica el mensaje de finalización
+ * donde cada participante confirma la recepción.
+ */
+export class RequestFinalizationUseCase {
+  public constructor(
+    private readonly ticketRepo: ITicketRepository,
+    private readonly tradeRepo: ITradeRepository,
+    private readonly middlemanRepo: IMiddlemanRepository,
+    private readonly logger: Logger,
+    private readonly buildButtonRow: FinalizationButtonBuilder,
+    private readonly embeds: EmbedFactory = embedFactory,
+  ) {}
+
+  public async execute(ticketId: number, middlemanId: bigint, channel: TextChannel): Promise<void> {
+    const ticket = await this.ticketRepo.findById(ticketId);
+
+    if (!ticket) {
+      throw new TicketNotFoundError(String(ticketId));
+    }
+
+    if (ticket.isClosed()) {
+      throw new TicketClosedError(ticketId);
+    }
+
+    const claim = await this.middlemanRepo.getClaimByTicket(ticketId);
+    if (!claim || claim.middlemanId !== middlemanId) {
+      throw new UnauthorizedActionError('middleman:deliver');
+    }
+
+    const trades = await this.tradeRepo.findByTicketId(ticketId);
+    if (trades.length === 0 || trades.some((trade) => !trade.confirmed)) {
+      throw new TradesNotConfirmedError(ticketId);
+    }
+
+    const participants = await this.ticketRepo.listParticipants(ticketId);
+    const mentions = participants.map((participant) => `<@${participant.userId}>`).join(' ');
+
+    const message = await channel.send({
+      content: mentions,
+      embeds: [
+        this.embeds.info({
+          title: 'Ítems entregados',
+          description:
+            'El middleman marcó los ítems como entregados. Cada participante debe pulsar **Recibí mis ítems** una vez verifique su inventario.',
+        }),
+      ],
+      components: [this.buildButtonRow()],
+    });
+
+    await this.middlemanRepo.saveFinalizationMessage(ticketId, BigInt(message.id));
+
+    this.logger.info(
+      { ticketId, middlemanId: middlemanId.toString(), messageId: message.id },
+      'Entrega registrada, esperando confirmación de recepción.',
+    );
+  }
+}
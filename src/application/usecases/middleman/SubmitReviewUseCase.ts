@@ -6,6 +6,7 @@ import type { TextChannel } from 'discord.js';
 import type { Logger } from 'pino';
 
 import { type SubmitReviewDTO,SubmitReviewSchema } from '@/application/dto/review.dto';
+import type { RatingService } from '@/application/services/RatingService';
 import type { IReviewRepository } from '@/domain/repositories/IReviewRepository';
 import type { ITicketRepository } from '@/domain/repositories/ITicketRepository';
 import { Rating } from '@/domain/value-objects/Rating';
@@ -24,6 +25,7 @@ export class SubmitReviewUseCase {
     private readonly ticketRepo: ITicketRepository,
     private readonly embeds: EmbedFactory = embedFactory,
     private readonly logger: Logger,
+    private readonly ratings: RatingService,
   ) {}
 
   public async execute(dto: SubmitReviewDTO, reviewsChannel: TextChannel): Promise<void> {
@@ -70,21 +72,25 @@ export class SubmitReviewUseCase {
       comment: trimmedComment,
     });
 
-    const averageRating = await this.reviewRepo.calculateAverageRating(middlemanId);
+    const middlemanRating = await this.ratings.scoreMiddleman(this.reviewRepo, middlemanId);
 
-    await reviewsChannel.send({
+    const message = await reviewsChannel.send({
       embeds: [
         this.embeds.reviewPublished({
+          reviewId: review.id,
           ticketId: ticket.id,
           middlemanTag: `<@${payload.middlemanId}>`,
           reviewerTag: `<@${payload.reviewerId}>`,
           rating: review.rating.getValue(),
           comment: trimmedComment,
-          averageRating,
+          averageRating: middlemanRating.raw ?? review.rating.getValue(),
+          weightedRating: middlemanRating.weighted,
         }),
       ],
     });
 
+    await this.reviewRepo.savePublication(review.id, BigInt(reviewsChannel.id), BigInt(message.id));
+
     this.logger.info(
       {
         ticketId: ticket.id,
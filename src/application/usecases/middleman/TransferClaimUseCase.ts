@@ -0,0 +1,142 @@
+// ============================================================================
+// RUTA: src/application/usecases/middleman/TransferClaimUseCase.ts
+// ============================================================================
+
+import type { TextChannel } from 'discord.js';
+import type { Logger } from 'pino';
+
+import { type TransferClaimDTO, TransferClaimSchema } from '@/application/dto/trade.dto';
+import { TicketStatus } from '@/domain/entities/types';
+import type { IMiddlemanRepository } from '@/domain/repositories/IMiddlemanRepository';
+import type { ITicketReminderRepository } from '@/domain/repositories/ITicketReminderRepository';
+import type { ITicketRepository } from '@/domain/repositories/ITicketRepository';
+import type { EmbedFactory } from '@/presentation/embeds/EmbedFactory';
+import { embedFactory } from '@/presentation/embeds/EmbedFactory';
+import { MIDDLEMAN_CHANNEL_PERMISSIONS } from '@/shared/config/constants';
+import {
+  InvalidTicketStateError,
+  MiddlemanNotFoundError,
+  TicketClosedError,
+  TicketNotFoundError,
+  UnauthorizedActionError,
+  ValidationFailedError,
+} from '@/shared/errors/domain.errors';
+
+interface TransactionProvider {
+  $transaction<T>(fn: (context: unknown) => Promise<T>): Promise<T>;
+}
+
+/**
+ * Libera (`targetId = null`) o transfiere el claim de un ticket. Solo el middleman asignado o el
+ * staff pueden hacerlo; cada cambio queda registrado en `mm_claim_transfers`.
+ */
+export class TransferClaimUseCase {
+  public constructor(
+    private readonly ticketRepo: ITicketRepository,
+    private readonly middlemanRepo: IMiddlemanRepository,
+    private readonly reminderRepo: ITicketReminderRepository,
+    private readonly transactions: TransactionProvider,
+    private readonly logger: Logger,
+    private readonly embeds: EmbedFactory = embedFactory,
+  ) {}
+
+  public async execute(dto: TransferClaimDTO, channel: TextChannel): Promise<void> {
+    const payload = TransferClaimSchema.parse(dto);
+    const ticket = await this.ticketRepo.findById(payload.ticketId);
+
+    if (!ticket) {
+      throw new TicketNotFoundError(String(payload.ticketId));
+    }
+
+    if (ticket.isClosed()) {
+      throw new TicketClosedError(ticket.id);
+    }
+
+    const claim = await this.middlemanRepo.getClaimByTicket(ticket.id);
+    const currentId = claim?.middlemanId ?? null;
+    if (!currentId) {
+      throw new InvalidTicketStateError(ticket.status, TicketStatus.CLAIMED);
+    }
+
+    const actorId = BigInt(payload.actorId);
+    if (!payload.isStaff && currentId !== actorId) {
+      throw new UnauthorizedActionError(payload.targetId ? 'middleman:transfer' : 'middleman:unclaim');
+    }
+
+    const targetId = payload.targetId ? BigInt(payload.targetId) : null;
+    if (targetId !== null) {
+      if (targetId === currentId) {
+        throw new ValidationFailedError({ targetId: 'El ticket ya está asignado a ese middleman.' });
+      }
+
+      const isParticipant = await this.ticketRepo.isParticipant(ticket.id, targetId);
+      if (isParticipant || ticket.isOwnedBy(targetId)) {
+        throw new ValidationFailedError({ targetId: 'Un participante no puede ser el middleman del ticket.' });
+      }
+
+      const isMiddleman = await this.middlemanRepo.isMiddleman(targetId);
+      if (!isMiddleman) {
+        throw new MiddlemanNotFoundError(payload.targetId ?? '');
+      }
+    }
+
+    await this.transactions.$transaction(async (tx) => {
+      const transactionalTicketRepo = this.ticketRepo.withTransaction(tx);
+      const transactionalMiddlemanRepo = this.middlemanRepo.withTransaction(tx);
+
+      if (targetId === null) {
+        ticket.unclaim();
+        await transactionalMiddlemanRepo.releaseClaim(ticket.id);
+        // Los avisos de inactividad vuelven a contar desde que el ticket quedó otra vez sin middleman.
+        await this.reminderRepo.withTransaction(tx).reset(ticket.id, new Date());
+      } else {
+        ticket.transferTo(targetId);
+        await transactionalMiddlemanRepo.transferClaim(ticket.id, targetId);
+      }
+
+      await transactionalTicketRepo.update(ticket);
+      await transactionalMiddlemanRepo.recordTransfer({
+        ticketId: ticket.id,
+        fromMiddlemanId: currentId,
+        toMiddlemanId: targetId,
+        actorId,
+      });
+    });
+
+    await channel.permissionOverwrites.delete(currentId.toString());
+    if (targetId !== null) {
+      await channel.permissionOverwrites.edit(targetId.toString(), MIDDLEMAN_CHANNEL_PERMISSIONS);
+    }
+
+    await channel.send(
+      targetId === null
+        ? {
+            embeds: [
+              this.embeds.info({
+                title: 'Ticket liberado',
+                description: `<@${currentId}> ya no atiende este ticket. Cualquier middleman disponible puede reclamarlo.`,
+              }),
+            ],
+          }
+        : {
+            content: `<@${targetId}>`,
+            embeds: [
+              this.embeds.info({
+                title: 'Ticket transferido',
+                description: `<@${payload.actorId}> transfirió este ticket de <@${currentId}> a <@${targetId}>.`,
+              }),
+            ],
+          },
+    );
+
+    this.logger.info(
+      {
+        ticketId: ticket.id,
+        actorId: payload.actorId,
+        fromMiddlemanId: currentId.toString(),
+        toMiddlemanId: targetId?.toString() ?? null,
+      },
+      targetId === null ? 'Claim de ticket liberado.' : 'Claim de ticket transferido.',
+    );
+  }
+}
@@ -0,0 +1,74 @@
+// ============================================================================
+// RUTA: src/application/usecases/tickets/CloseTicketUseCase.ts
+// ============================================================================
+
+import type { TextChannel } from 'discord.js';
+import type { Logger } from 'pino';
+
+import { type CloseTicketDTO, CloseTicketSchema } from '@/application/dto/ticket.dto';
+import type { Ticket } from '@/domain/entities/Ticket';
+import { TicketType } from '@/domain/entities/types';
+import type { ITicketRepository } from '@/domain/repositories/ITicketRepository';
+import type { EmbedFactory } from '@/presentation/embeds/EmbedFactory';
+import { embedFactory } from '@/presentation/embeds/EmbedFactory';
+import {
+  MiddlemanFlowRequiredError,
+  TicketClosedError,
+  TicketNotFoundError,
+  UnauthorizedActionError,
+} from '@/shared/errors/domain.errors';
+
+/**
+ * Cierra tickets generales (compra, venta, Robux, Nitro, decoraciones). Los de middleman siguen su
+ * propio flujo de claim, cierre y cancelación.
+ */
+export class CloseTicketUseCase {
+  public constructor(
+    private readonly ticketRepo: ITicketRepository,
+    private readonly logger: Logger,
+    private readonly embeds: EmbedFactory = embedFactory,
+  ) {}
+
+  public async execute(dto: CloseTicketDTO, channel: TextChannel): Promise<Ticket> {
+    const payload = CloseTicketSchema.parse(dto);
+    const ticket = await this.ticketRepo.findById(payload.ticketId);
+
+    if (!ticket) {
+      throw new TicketNotFoundError(String(payload.ticketId));
+    }
+
+    if (ticket.type === TicketType.MM) {
+      throw new MiddlemanFlowRequiredError(ticket.id);
+    }
+
+    if (ticket.isClosed()) {
+      throw new TicketClosedError(ticket.id);
+    }
+
+    if (!payload.isStaff && !ticket.isOwnedBy(BigInt(payload.actorId))) {
+      throw new UnauthorizedActionError('ticket:close');
+    }
+
+    ticket.close();
+    await this.ticketRepo.update(ticket);
+
+    await channel.send({
+      embeds: [
+        this.embeds.info({
+          title: `Ticket #${ticket.id} cerrado`,
+          description: payload.reason
+            ? `Cerrado por <@${payload.actorId}>: ${payload.reason}`
+            : `Cerrado por <@${payload.actorId}>.`,
+        }),
+      ],
+      allowedMentions: { parse: [] },
+    });
+
+    this.logger.info(
+      { ticketId: ticket.id, actorId: payload.actorId, isStaff: payload.isStaff, type: ticket.type },
+      'Ticket general cerrado.',
+    );
+
+    return ticket;
+  }
+}
@@ -0,0 +1,231 @@
+// ============================================================================
+// RUTA: src/application/usecases/tickets/OpenTicketUseCase.ts
+// ============================================================================
+
+import type { Guild, MessageCreateOptions, OverwriteResolvable, TextChannel } from 'discord.js';
+import { ChannelType, PermissionFlagsBits } from 'discord.js';
+import type { Logger } from 'pino';
+
+import {
+  type CreateMiddlemanTicketDTO,
+  type CreateTicketDTO,
+  type OpenTicketDTO,
+  OpenTicketSchema,
+} from '@/application/dto/ticket.dto';
+import type { Ticket } from '@/domain/entities/Ticket';
+import { TicketType } from '@/domain/entities/types';
+import type { ITicketRepository, TicketParticipantInput } from '@/domain/repositories/ITicketRepository';
+import type { EmbedFactory } from '@/presentation/embeds/EmbedFactory';
+import { embedFactory } from '@/presentation/embeds/EmbedFactory';
+import { TICKET_LIMITS } from '@/shared/config/constants';
+import { TICKET_TYPE_DEFINITIONS } from '@/shared/config/ticket-types';
+import {
+  ChannelCleanupError,
+  ChannelCreationError,
+  TooManyOpenTicketsError,
+  ValidationFailedError,
+} from '@/shared/errors/domain.errors';
+import { clampEmbedField, sanitizeChannelName } from '@/shared/utils/discord.utils';
+
+const MEMBER_PERMISSIONS = [
+  PermissionFlagsBits.ViewChannel,
+  PermissionFlagsBits.SendMessages,
+  PermissionFlagsBits.ReadMessageHistory,
+  PermissionFlagsBits.AttachFiles,
+];
+
+const SNOWFLAKE_EXTRACTOR = /\d{17,20}/u;
+
+interface TransactionProvider {
+  $transaction<T>(fn: (context: unknown) => Promise<T>): Promise<T>;
+}
+
+/** Lo que varía entre tipos de ticket: participantes, roles con acceso y mensajes iniciales. */
+interface TicketChannelPlan {
+  readonly type: TicketType;
+  readonly topic: string;
+  readonly participants: readonly TicketParticipantInput[];
+  readonly roleIds: readonly string[];
+  readonly buildMessages: (ticket: Ticket) => MessageCreateOptions[];
+}
+
+const extractSnowflake = (value?: string): bigint | undefined => {
+  if (!value) {
+    return undefined;
+  }
+
+  const match = value.match(SNOWFLAKE_EXTRACTOR);
+  if (!match) {
+    return undefined;
+  }
+
+  return BigInt(match[0]);
+};
+
+/**
+ * Abre cualquier tipo de ticket (middleman o generales). El flujo es común: límite de tickets
+ * abiertos, creación del canal y rollback del canal si falla la persistencia; solo el plan del canal
+ * depende del tipo.
+ */
+export class OpenTicketUseCase {
+  public constructor(
+    private readonly ticketRepo: ITicketRepository,
+    private readonly transactions: TransactionProvider,
+    private readonly logger: Logger,
+    private readonly embeds: EmbedFactory = embedFactory,
+  ) {}
+
+  public async execute(dto: OpenTicketDTO, guild: Guild): Promise<{ ticket: Ticket; channel: TextChannel }> {
+    const payload = OpenTicketSchema.parse(dto);
+    const ownerId = BigInt(payload.userId);
+
+    this.logger.debug({ ownerId: payload.userId }, 'Validando límite de tickets abiertos.');
+    const openTickets = await this.ticketRepo.countOpenByOwner(ownerId);
+    if (openTickets >= TICKET_LIMITS.maxOpenPerUser) {
+      throw new TooManyOpenTicketsError(TICKET_LIMITS.maxOpenPerUser);
+    }
+
+    const botId = guild.members.me?.id;
+    if (!botId) {
+      throw new ChannelCreationError('El bot no está presente en el gremio.');
+    }
+
+    const plan = payload.type === 'MM' ? this.planMiddleman(payload, ownerId) : this.planGeneral(payload, ownerId);
+    const channelName = sanitizeChannelName(`${payload.type}-${payload.userId}`);
+    const permissionOverwrites: OverwriteResolvable[] = [
+      { id: guild.roles.everyone.id, deny: [PermissionFlagsBits.ViewChannel] },
+      ...plan.participants.map((participant) => ({ id: participant.userId.toString(), allow: MEMBER_PERMISSIONS })),
+      ...plan.roleIds.map((roleId) => ({ id: roleId, allow: MEMBER_PERMISSIONS })),
+      { id: botId, allow: [...MEMBER_PERMISSIONS, PermissionFlagsBits.ManageChannels] },
+    ];
+
+    let createdChannel: TextChannel;
+    try {
+      createdChannel = await guild.channels.create({
+        name: channelName,
+        type: ChannelType.GuildText,
+        topic: plan.topic,
+        parent: payload.categoryId,
+        permissionOverwrites,
+      });
+    } catch (error) {
+      this.logger.error({ err: error, channelName, type: payload.type }, 'Falló la creación del canal de ticket.');
+      throw new ChannelCreationError((error as Error).message);
+    }
+
+    try {
+      const ticket = await this.transactions.$transaction(async (tx) =>
+        this.ticketRepo.withTransaction(tx).create({
+          guildId: BigInt(payload.guildId),
+          channelId: BigInt(createdChannel.id),
+          ownerId,
+          type: plan.type,
+          participants: [...plan.participants],
+        }),
+      );
+
+      for (const message of plan.buildMessages(ticket)) {
+        await createdChannel.send(message);
+      }
+
+      this.logger.info(
+        { ticketId: ticket.id, channelId: createdChannel.id, ownerId: payload.userId, type: payload.type },
+        'Ticket creado exitosamente.',
+      );
+
+      return { ticket, channel: createdChannel };
+    } catch (error) {
+      this.logger.error({ err: error, ownerId: payload.userId, type: payload.type }, 'Fallo al persistir el ticket.');
+
+      try {
+        await createdChannel.delete('Error al registrar el ticket.');
+      } catch (cleanupError) {
+        this.logger.error({ err: cleanupError, channelId: createdChannel.id }, 'Fallo al limpiar canal tras error.');
+        throw new ChannelCleanupError(createdChannel.id, cleanupError);
+      }
+
+      throw error;
+    }
+  }
+
+  private planMiddleman(payload: CreateMiddlemanTicketDTO, ownerId: bigint): TicketChannelPlan {
+    const partnerId = extractSnowflake(payload.partnerTag);
+
+    if (!partnerId) {
+      throw new ValidationFailedError({
+        partnerTag: 'Debes mencionar o introducir el ID de la persona con la que harás el trade.',
+      });
+    }
+
+    return {
+      type: TicketType.MM,
+      topic: payload.context.slice(0, 1000),
+      participants: [
+        { userId: ownerId, role: 'OWNER' },
+        { userId: partnerId, role: 'PARTNER' },
+      ],
+      roleIds: [],
+      buildMessages: (ticket) => {
+        const messages: MessageCreateOptions[] = [
+          {
+            content: `<@${payload.userId}> <@${partnerId}>`,
+            embeds: [
+              this.embeds.ticketCreated({
+                ticketId: ticket.id,
+                type: 'Middleman',
+                ownerTag: `<@${payload.userId}>`,
+                description: payload.context,
+              }),
+            ],
+          },
+        ];
+
+        if (payload.robloxUsername) {
+          messages.push({
+            embeds: [
+              this.embeds.info({
+                title: 'Datos Roblox',
+                description: `Nombre proporcionado: **${payload.robloxUsername}**`,
+              }),
+            ],
+          });
+        }
+
+        return messages;
+      },
+    };
+  }
+
+  private planGeneral(payload: CreateTicketDTO, ownerId: bigint): TicketChannelPlan {
+    const definition = TICKET_TYPE_DEFINITIONS[payload.type];
+
+    return {
+      type: TicketType[payload.type],
+      topic: `${definition.label} · ${payload.userId}`,
+      participants: [{ userId: ownerId, role: 'OWNER' }],
+      roleIds: payload.staffRoleId ? [payload.staffRoleId] : [],
+      buildMessages: (ticket) => [
+        {
+          content: payload.staffRoleId ? `<@${payload.userId}> <@&${payload.staffRoleId}>` : `<@${payload.userId}>`,
+          embeds: [
+            this.embeds
+              .ticketCreated({
+                ticketId: ticket.id,
+                type: `${definition.emoji} ${definition.label}`,
+                ownerTag: `<@${payload.userId}>`,
+                description:
+                  'Un miembro del staff te atenderá en breve. Mientras tanto, añade cualquier detalle útil. ' +
+                  'El staff o tú podéis cerrarlo con `/ticket close` cuando esté resuelto.',
+              })
+              .addFields(
+                payload.answers
+                  .filter((entry) => entry.answer.length > 0)
+                  .map((entry) => ({ name: entry.question, value: clampEmbedField(entry.answer) })),
+              ),
+          ],
+          allowedMentions: { users: [payload.userId], roles: payload.staffRoleId ? [payload.staffRoleId] : [] },
+        },
+      ],
+    };
+  }
+}
@@ -5,8 +5,9 @@
 import type { Logger } from 'pino';
 import { z, ZodError } from 'zod';
 
-import { WarnSeverity, warnSeverityWeight } from '@/domain/entities/Warn';
+import { type Warn, WarnSeverity, warnSeverityWeight } from '@/domain/entities/Warn';
 import type { CreateWarnData, IWarnRepository } from '@/domain/repositories/IWarnRepository';
+import { WarnExpiryPolicy } from '@/domain/value-objects/WarnExpiryPolicy';
 import { ValidationFailedError } from '@/shared/errors/domain.errors';
 
 const AddWarnSchema = z.object({
@@ -18,7 +19,7 @@ const AddWarnSchema = z.object({
 
 export type AddWarnDTO = z.infer<typeof AddWarnSchema>;
 
-type RecommendedAction = 'NONE' | 'TIMEOUT_1H' | 'TIMEOUT_24H' | 'BAN';
+export type RecommendedAction = 'NONE' | 'TIMEOUT_1H' | 'TIMEOUT_24H' | 'BAN';
 
 export interface WarnSummary {
   readonly totalPoints: number;
@@ -31,7 +32,11 @@ export interface AddWarnResult {
 }
 
 export class AddWarnUseCase {
-  public constructor(private readonly repository: IWarnRepository, private readonly logger: Logger) {}
+  public constructor(
+    private readonly repository: IWarnRepository,
+    private readonly logger: Logger,
+    private readonly expiryPolicy: WarnExpiryPolicy = WarnExpiryPolicy.never(),
+  ) {}
 
   public async execute(dto: AddWarnDTO): Promise<AddWarnResult> {
     let payload: AddWarnDTO;
@@ -55,9 +60,8 @@ export class AddWarnUseCase {
     this.logger.debug({ userId: payload.userId, severity: payload.severity }, 'Creando advertencia para usuario.');
     const warn = await this.repository.create(creationData);
 
-    const warns = await this.repository.listByUser(BigInt(payload.userId));
-    const totalPoints = warns.reduce((acc, current) => acc + warnSeverityWeight(current.severity), 0);
-    const recommendedAction = determineRecommendedAction(totalPoints);
+    const warns = await this.repository.listActiveByUser(BigInt(payload.userId), this.expiryPolicy.windows());
+    const { totalPoints, recommendedAction } = summarizeWarns(warns);
 
     this.logger.info(
       { userId: payload.userId, warnId: warn.id, totalPoints, recommendedAction },
@@ -74,6 +78,16 @@ export class AddWarnUseCase {
   }
 }
 
+/**
+ * Calcula los puntos acumulados de un conjunto de advertencias y la sanción sugerida. Recibe solo las
+ * advertencias vigentes: las expiradas no suman puntos.
+ */
+export const summarizeWarns = (warns: readonly Warn[]): WarnSummary => {
+  const totalPoints = warns.reduce((acc, current) => acc + warnSeverityWeight(current.severity), 0);
+
+  return { totalPoints, recommendedAction: determineRecommendedAction(totalPoints) };
+};
+
 const determineRecommendedAction = (totalPoints: number): RecommendedAction => {
   if (totalPoints >= 7) {
     return 'BAN';
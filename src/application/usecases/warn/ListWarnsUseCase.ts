@@ -0,0 +1,78 @@
+// =============================================================================
+// RUTA: src/application/usecases/warn/ListWarnsUseCase.ts
+// =============================================================================
+
+import { z, ZodError } from 'zod';
+
+import { summarizeWarns, type WarnSummary } from '@/application/usecases/warn/AddWarnUseCase';
+import type { Warn } from '@/domain/entities/Warn';
+import type { IWarnRepository } from '@/domain/repositories/IWarnRepository';
+import { WarnExpiryPolicy } from '@/domain/value-objects/WarnExpiryPolicy';
+import { WARN_LIMITS } from '@/shared/config/constants';
+import { ValidationFailedError } from '@/shared/errors/domain.errors';
+
+const ListWarnsSchema = z.object({
+  userId: z.string().regex(/^\d+$/u, 'ID de usuario inválido'),
+  page: z.number().int().min(1).default(1),
+});
+
+export type ListWarnsDTO = z.input<typeof ListWarnsSchema>;
+
+export interface ListedWarn {
+  readonly warn: Warn;
+  readonly active: boolean;
+  readonly expiresAt: Date | null;
+}
+
+export interface ListWarnsResult {
+  readonly warns: readonly ListedWarn[];
+  readonly page: number;
+  readonly totalPages: number;
+  readonly totalWarns: number;
+  readonly activeWarns: number;
+  readonly summary: WarnSummary;
+}
+
+export class ListWarnsUseCase {
+  public constructor(
+    private readonly repository: IWarnRepository,
+    private readonly expiryPolicy: WarnExpiryPolicy = WarnExpiryPolicy.never(),
+    private readonly pageSize: number = WARN_LIMITS.pageSize,
+  ) {}
+
+  public async execute(dto: ListWarnsDTO, now: Date = new Date()): Promise<ListWarnsResult> {
+    let payload: z.infer<typeof ListWarnsSchema>;
+    try {
+      payload = ListWarnsSchema.parse(dto);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        throw new ValidationFailedError(error.flatten().fieldErrors);
+      }
+
+      throw error;
+    }
+
+    const allWarns = (await this.repository.listByUser(BigInt(payload.userId))).map((warn) => ({
+      warn,
+      active: this.expiryPolicy.isActive(warn, now),
+      expiresAt: this.expiryPolicy.expiresAt(warn),
+    }));
+    const activeWarns = allWarns.filter((entry) => entry.active).map((entry) => entry.warn);
+
+    const totalWarns = allWarns.length;
+    const totalPages = Math.max(1, Math.ceil(totalWarns / this.pageSize));
+    // Si la página pedida queda fuera de rango se muestra la última disponible.
+    const page = Math.min(payload.page, totalPages);
+
+    const warns = allWarns.slice((page - 1) * this.pageSize, page * this.pageSize);
+
+    return {
+      warns,
+      page,
+      totalPages,
+      totalWarns,
+      activeWarns: activeWarns.length,
+      summary: summarizeWarns(activeWarns),
+    };
+  }
+}
@@ -0,0 +1,68 @@
+// =============================================================================
+// RUTA: src/application/usecases/warn/RemoveWarnUseCase.ts
+// =============================================================================
+
+import type { Logger } from 'pino';
+import { z, ZodError } from 'zod';
+
+import { summarizeWarns, type WarnSummary } from '@/application/usecases/warn/AddWarnUseCase';
+import type { Warn } from '@/domain/entities/Warn';
+import type { IWarnRepository } from '@/domain/repositories/IWarnRepository';
+import { WarnExpiryPolicy } from '@/domain/value-objects/WarnExpiryPolicy';
+import { ValidationFailedError, WarnNotFoundError } from '@/shared/errors/domain.errors';
+
+const RemoveWarnSchema = z.object({
+  warnId: z.number().int().positive(),
+  moderatorId: z.string().regex(/^\d+$/u, 'ID de moderador inválido'),
+});
+
+export type RemoveWarnDTO = z.infer<typeof RemoveWarnSchema>;
+
+export interface RemoveWarnResult {
+  readonly warn: Warn;
+  readonly summary: WarnSummary;
+}
+
+export class RemoveWarnUseCase {
+  public constructor(
+    private readonly repository: IWarnRepository,
+    private readonly logger: Logger,
+    private readonly expiryPolicy: WarnExpiryPolicy = WarnExpiryPolicy.never(),
+  ) {}
+
+  public async execute(dto: RemoveWarnDTO): Promise<RemoveWarnResult> {
+    let payload: RemoveWarnDTO;
+    try {
+      payload = RemoveWarnSchema.parse(dto);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        throw new ValidationFailedError(error.flatten().fieldErrors);
+      }
+
+      throw error;
+    }
+
+    const warn = await this.repository.findById(payload.warnId);
+    if (!warn) {
+      throw new WarnNotFoundError(payload.warnId);
+    }
+
+    await this.repository.delete(warn.id);
+
+    const summary = summarizeWarns(
+      await this.repository.listActiveByUser(warn.userId.toBigInt(), this.expiryPolicy.windows()),
+    );
+
+    this.logger.info(
+      {
+        warnId: warn.id,
+        userId: warn.userId.toString(),
+        moderatorId: payload.moderatorId,
+        totalPoints: summary.totalPoints,
+      },
+      'Advertencia eliminada.',
+    );
+
+    return { warn, summary };
+  }
+}
@@ -0,0 +1,88 @@
+// =============================================================================
+// RUTA: src/application/usecases/warn/ResolveWarnAppealUseCase.ts
+// =============================================================================
+
+import type { Logger } from 'pino';
+
+import { summarizeWarns, type WarnSummary } from '@/application/usecases/warn/AddWarnUseCase';
+import { type Warn, WarnAppealStatus } from '@/domain/entities/Warn';
+import type { IWarnAppealRepository, WarnAppeal } from '@/domain/repositories/IWarnAppealRepository';
+import type { IWarnRepository } from '@/domain/repositories/IWarnRepository';
+import { WarnExpiryPolicy } from '@/domain/value-objects/WarnExpiryPolicy';
+import { WarnAppealAlreadyResolvedError, WarnAppealNotFoundError } from '@/shared/errors/domain.errors';
+
+interface TransactionProvider {
+  $transaction<T>(fn: (context: unknown) => Promise<T>): Promise<T>;
+}
+
+export interface ResolveWarnAppealInput {
+  readonly messageId: string;
+  readonly reviewerId: string;
+  readonly accept: boolean;
+}
+
+export interface ResolveWarnAppealResult {
+  readonly appeal: WarnAppeal;
+  readonly status: WarnAppealStatus.ACCEPTED | WarnAppealStatus.REJECTED;
+  /** Advertencia eliminada al aceptar la apelación (`null` si ya no existía o se rechazó). */
+  readonly removedWarn: Warn | null;
+  readonly summary: WarnSummary;
+}
+
+export class ResolveWarnAppealUseCase {
+  public constructor(
+    private readonly appealRepo: IWarnAppealRepository,
+    private readonly warnRepo: IWarnRepository,
+    private readonly transactions: TransactionProvider,
+    private readonly logger: Logger,
+    private readonly expiryPolicy: WarnExpiryPolicy = WarnExpiryPolicy.never(),
+  ) {}
+
+  public async execute(input: ResolveWarnAppealInput): Promise<ResolveWarnAppealResult> {
+    const appeal = await this.appealRepo.findByMessageId(BigInt(input.messageId));
+    if (!appeal) {
+      throw new WarnAppealNotFoundError(input.messageId);
+    }
+
+    if (appeal.status !== WarnAppealStatus.PENDING) {
+      throw new WarnAppealAlreadyResolvedError(appeal.id);
+    }
+
+    const status = input.accept ? WarnAppealStatus.ACCEPTED : WarnAppealStatus.REJECTED;
+    const reviewerId = BigInt(input.reviewerId);
+
+    const removedWarn = await this.transactions.$transaction(async (tx) => {
+      const resolved = await this.appealRepo.withTransaction(tx).resolve(appeal.id, status, reviewerId);
+      if (!resolved) {
+        throw new WarnAppealAlreadyResolvedError(appeal.id);
+      }
+
+      if (!input.accept) {
+        return null;
+      }
+
+      const warnRepo = this.warnRepo.withTransaction(tx);
+      const warn = await warnRepo.findById(appeal.warnId);
+      if (warn) {
+        await warnRepo.delete(warn.id);
+      }
+
+      return warn;
+    });
+
+    const summary = summarizeWarns(await this.warnRepo.listActiveByUser(appeal.userId, this.expiryPolicy.windows()));
+
+    this.logger.info(
+      {
+        appealId: appeal.id,
+        warnId: appeal.warnId,
+        status,
+        reviewerId: input.reviewerId,
+        totalPoints: summary.totalPoints,
+      },
+      'Apelación de advertencia resuelta.',
+    );
+
+    return { appeal, status, removedWarn, summary };
+  }
+}
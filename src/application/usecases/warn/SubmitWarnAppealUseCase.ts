@@ -0,0 +1,107 @@
+// =============================================================================
+// RUTA: src/application/usecases/warn/SubmitWarnAppealUseCase.ts
+// =============================================================================
+
+import type { ActionRowBuilder, ButtonBuilder, TextChannel } from 'discord.js';
+import type { Logger } from 'pino';
+import { z, ZodError } from 'zod';
+
+import type { Warn } from '@/domain/entities/Warn';
+import type { IWarnAppealRepository, WarnAppeal } from '@/domain/repositories/IWarnAppealRepository';
+import type { IWarnRepository } from '@/domain/repositories/IWarnRepository';
+import { type EmbedFactory, embedFactory } from '@/presentation/embeds/EmbedFactory';
+import {
+  ValidationFailedError,
+  WarnAppealAlreadyExistsError,
+  WarnNotFoundError,
+} from '@/shared/errors/domain.errors';
+
+const SubmitWarnAppealSchema = z.object({
+  warnId: z.number().int().positive(),
+  userId: z.string().regex(/^\d+$/u, 'ID de usuario inválido'),
+  guildId: z.string().regex(/^\d+$/u, 'ID de servidor inválido'),
+  justification: z.string().trim().min(20, 'Explica tu apelación con al menos 20 caracteres').max(1000),
+});
+
+export type SubmitWarnAppealDTO = z.infer<typeof SubmitWarnAppealSchema>;
+
+export type WarnAppealButtonBuilder = () => ActionRowBuilder<ButtonBuilder>;
+
+export class SubmitWarnAppealUseCase {
+  public constructor(
+    private readonly warnRepo: IWarnRepository,
+    private readonly appealRepo: IWarnAppealRepository,
+    private readonly logger: Logger,
+    private readonly buildButtonRow: WarnAppealButtonBuilder,
+    private readonly embeds: EmbedFactory = embedFactory,
+  ) {}
+
+  /**
+   * Comprueba que el miembro puede apelar la advertencia. Se usa antes de mostrar el modal para no
+   * pedir una justificación que luego se rechazaría.
+   */
+  public async assertCanAppeal(warnId: number, userId: string): Promise<Warn> {
+    const warn = await this.warnRepo.findById(warnId);
+
+    // Una advertencia ajena se reporta como inexistente para no revelar sanciones de otros miembros.
+    if (!warn || warn.userId.toString() !== userId) {
+      throw new WarnNotFoundError(warnId);
+    }
+
+    if (await this.appealRepo.existsForWarn(warnId)) {
+      throw new WarnAppealAlreadyExistsError(warnId);
+    }
+
+    return warn;
+  }
+
+  public async execute(dto: SubmitWarnAppealDTO, appealsChannel: TextChannel): Promise<WarnAppeal> {
+    let payload: SubmitWarnAppealDTO;
+    try {
+      payload = SubmitWarnAppealSchema.parse(dto);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        throw new ValidationFailedError(error.flatten().fieldErrors);
+      }
+
+      throw error;
+    }
+
+    const warn = await this.assertCanAppeal(payload.warnId, payload.userId);
+
+    const message = await appealsChannel.send({
+      embeds: [
+        this.embeds.warnAppeal({
+          warnId: warn.id,
+          userId: payload.userId,
+          severity: warn.severity,
+          warnReason: warn.reason,
+          warnedAt: warn.createdAt,
+          justification: payload.justification,
+        }),
+      ],
+      components: [this.buildButtonRow()],
+    });
+
+    try {
+      const appeal = await this.appealRepo.create({
+        warnId: warn.id,
+        guildId: BigInt(payload.guildId),
+        userId: BigInt(payload.userId),
+        justification: payload.justification,
+        messageId: BigInt(message.id),
+      });
+
+      this.logger.info({ appealId: appeal.id, warnId: warn.id, userId: payload.userId }, 'Apelación de advertencia registrada.');
+
+      return appeal;
+    } catch (error) {
+      // Sin registro no hay forma de resolver los botones, así que el mensaje publicado se retira.
+      await message.delete().catch((deleteError: unknown) => {
+        this.logger.warn({ err: deleteError, messageId: message.id }, 'No se pudo retirar el mensaje de apelación huérfano.');
+      });
+
+      throw error;
+    }
+  }
+}
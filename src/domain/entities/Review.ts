@@ -13,8 +13,31 @@ export class Review {
     public readonly rating: Rating,
     public readonly comment: string | null,
     public readonly createdAt: Date,
+    /** Canal y mensaje donde se publicó la reseña; `null` en reseñas anteriores a guardarlos. */
+    public readonly channelId: bigint | null = null,
+    public readonly messageId: bigint | null = null,
+    public readonly editedAt: Date | null = null,
+    public readonly hiddenAt: Date | null = null,
+    /** Las reseñas borradas por el staff también quedan ocultas; la fila impide reseñar de nuevo. */
+    public readonly deletedAt: Date | null = null,
   ) {}
 
+  public isHidden(): boolean {
+    return this.hiddenAt !== null;
+  }
+
+  public isDeleted(): boolean {
+    return this.deletedAt !== null;
+  }
+
+  public isAuthoredBy(userId: bigint): boolean {
+    return this.reviewerId === userId;
+  }
+
+  public isWithinEditWindow(now: Date, windowMs: number): boolean {
+    return now.getTime() - this.createdAt.getTime() <= windowMs;
+  }
+
   public isPositive(): boolean {
     return this.rating.isPositive();
   }
@@ -2,15 +2,14 @@
 // RUTA: src/domain/entities/Ticket.ts
 // ============================================================================
 
-import type { TicketType } from '@/domain/entities/types';
-import { TicketStatus } from '@/domain/entities/types';
+import { TicketStatus, TicketType } from '@/domain/entities/types';
 import { InvalidTicketStateError } from '@/shared/errors/domain.errors';
 
 export class Ticket {
   public constructor(
     public readonly id: number,
     public readonly guildId: bigint,
-    public readonly channelId: bigint,
+    public channelId: bigint,
     public readonly ownerId: bigint,
     public readonly type: TicketType,
     public status: TicketStatus,
@@ -23,7 +22,12 @@ export class Ticket {
     return this.status === TicketStatus.OPEN || this.status === TicketStatus.CONFIRMED;
   }
 
+  /** Los tickets de middleman requieren un claim; los generales se cierran desde cualquier estado abierto. */
   public canBeClosed(): boolean {
+    if (this.type !== TicketType.MM) {
+      return this.isOpen();
+    }
+
     return this.status === TicketStatus.CLAIMED || this.status === TicketStatus.CONFIRMED;
   }
 
@@ -36,13 +40,30 @@ export class Ticket {
     this.assignedMiddlemanId = middlemanId;
   }
 
-  public close(): void {
-    if (!this.canBeClosed()) {
-      throw new InvalidTicketStateError(this.status, TicketStatus.CLOSED);
+  public unclaim(): void {
+    if (this.status !== TicketStatus.CLAIMED) {
+      throw new InvalidTicketStateError(this.status, TicketStatus.OPEN);
     }
 
-    this.status = TicketStatus.CLOSED;
-    this.closedAt = new Date();
+    this.status = TicketStatus.OPEN;
+    this.assignedMiddlemanId = undefined;
+  }
+
+  public transferTo(middlemanId: bigint): void {
+    if (this.status !== TicketStatus.CLAIMED) {
+      throw new InvalidTicketStateError(this.status, TicketStatus.CLAIMED);
+    }
+
+    this.assignedMiddlemanId = middlemanId;
+  }
+
+  public close(closedAt: Date = new Date()): void {
+    this.transitionToClosed(this.canBeClosed(), closedAt);
+  }
+
+  /** Cierre forzado: a diferencia de `close()` se admite desde cualquier estado abierto. */
+  public cancel(closedAt: Date = new Date()): void {
+    this.transitionToClosed(this.isOpen(), closedAt);
   }
 
   public reopen(): void {
@@ -66,4 +87,13 @@ export class Ticket {
   public isClosed(): boolean {
     return this.status === TicketStatus.CLOSED;
   }
+
+  private transitionToClosed(allowed: boolean, closedAt: Date): void {
+    if (!allowed) {
+      throw new InvalidTicketStateError(this.status, TicketStatus.CLOSED);
+    }
+
+    this.status = TicketStatus.CLOSED;
+    this.closedAt = closedAt;
+  }
 }
@@ -13,7 +13,7 @@ export class Trade {
     public readonly id: number,
     public readonly ticketId: number,
     public readonly userId: bigint,
-    public readonly robloxUsername: string,
+    public robloxUsername: string,
     public robloxUserId: bigint | null,
     public status: TradeStatus,
     public confirmed: boolean,
@@ -54,6 +54,11 @@ export class Trade {
     this.status = TradeStatus.CANCELLED;
   }
 
+  public reopen(): void {
+    this.status = TradeStatus.PENDING;
+    this.confirmed = false;
+  }
+
   public addItem(item: TradeItem): void {
     if (this.status === TradeStatus.CANCELLED) {
       throw new InvalidTradeStateError(this.status, this.status);
@@ -62,6 +67,10 @@ export class Trade {
     this.items.push(item);
   }
 
+  public isEditable(): boolean {
+    return !this.confirmed && this.status === TradeStatus.PENDING;
+  }
+
   public canBeCompleted(): boolean {
     return this.confirmed && this.status === TradeStatus.ACTIVE;
   }
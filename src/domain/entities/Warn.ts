@@ -10,6 +10,30 @@ export enum WarnSeverity {
   CRITICAL = 'CRITICAL',
 }
 
+export enum WarnSanctionAction {
+  TIMEOUT_1H = 'TIMEOUT_1H',
+  TIMEOUT_24H = 'TIMEOUT_24H',
+  BAN = 'BAN',
+}
+
+export enum WarnSanctionStatus {
+  PENDING = 'PENDING',
+  APPLIED = 'APPLIED',
+  DISMISSED = 'DISMISSED',
+  FAILED = 'FAILED',
+}
+
+export enum WarnAppealStatus {
+  PENDING = 'PENDING',
+  ACCEPTED = 'ACCEPTED',
+  REJECTED = 'REJECTED',
+}
+
+export enum WarnEnforcementMode {
+  AUTO = 'AUTO',
+  CONFIRM = 'CONFIRM',
+}
+
 const WEIGHT_BY_SEVERITY: Record<WarnSeverity, number> = {
   [WarnSeverity.MINOR]: 1,
   [WarnSeverity.MAJOR]: 2,
@@ -29,6 +53,9 @@ export class Warn {
 
   public readonly createdAt: Date;
 
+  /** Momento en que el job nocturno marcó la advertencia como expirada. */
+  public readonly expiredAt: Date | null;
+
   public constructor(
     id: number,
     userId: bigint,
@@ -36,6 +63,7 @@ export class Warn {
     severity: WarnSeverity,
     reason: string | null,
     createdAt: Date,
+    expiredAt: Date | null = null,
   ) {
     this.id = id;
     this.userId = UserId.fromBigInt(userId);
@@ -43,6 +71,7 @@ export class Warn {
     this.severity = severity;
     this.reason = reason;
     this.createdAt = createdAt;
+    this.expiredAt = expiredAt;
   }
 
   public get weight(): number {
@@ -18,6 +18,30 @@ export enum TicketStatus {
   CLOSED = 'CLOSED',
 }
 
+export enum TicketReminderKind {
+  MIDDLEMAN_PING = 'MIDDLEMAN_PING',
+  STAFF_ESCALATION = 'STAFF_ESCALATION',
+  AUTO_CLOSE = 'AUTO_CLOSE',
+}
+
+export enum NotificationStatus {
+  PENDING = 'PENDING',
+  SENT = 'SENT',
+  DEAD = 'DEAD',
+}
+
+export enum LeaderboardBoard {
+  TRADES = 'TRADES',
+  MIDDLEMEN = 'MIDDLEMEN',
+  REVIEWS = 'REVIEWS',
+}
+
+export enum LeaderboardPeriod {
+  WEEK = 'WEEK',
+  MONTH = 'MONTH',
+  ALL = 'ALL',
+}
+
 export interface TradeItem {
   readonly id?: number;
   readonly name: string;
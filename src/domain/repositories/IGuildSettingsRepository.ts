@@ -0,0 +1,32 @@
+// =============================================================================
+// RUTA: src/domain/repositories/IGuildSettingsRepository.ts
+// =============================================================================
+
+import type { LeaderboardPeriod } from '@/domain/entities/types';
+import type { WarnEnforcementMode } from '@/domain/entities/Warn';
+
+export interface WelcomeSettings {
+  readonly dmEnabled: boolean;
+  readonly channelId: bigint | null;
+  /** Plantilla propia del servidor; `null` usa el mensaje de bienvenida por defecto. */
+  readonly template: string | null;
+}
+
+export interface LeaderboardChannelSettings {
+  readonly guildId: bigint;
+  readonly channelId: bigint;
+  /** Mensaje que se edita en cada actualización; `null` hasta la primera publicación. */
+  readonly messageId: bigint | null;
+  readonly period: LeaderboardPeriod;
+}
+
+export interface IGuildSettingsRepository {
+  getWarnEnforcementMode(guildId: bigint): Promise<WarnEnforcementMode>;
+  setWarnEnforcementMode(guildId: bigint, mode: WarnEnforcementMode): Promise<void>;
+  getWelcomeSettings(guildId: bigint): Promise<WelcomeSettings>;
+  updateWelcomeSettings(guildId: bigint, changes: Partial<WelcomeSettings>): Promise<WelcomeSettings>;
+  listLeaderboardChannels(): Promise<readonly LeaderboardChannelSettings[]>;
+  /** Configura (o con `channelId = null` desactiva) la tabla automática; reinicia el mensaje publicado. */
+  setLeaderboardChannel(guildId: bigint, channelId: bigint | null, period: LeaderboardPeriod): Promise<void>;
+  saveLeaderboardMessage(guildId: bigint, messageId: bigint): Promise<void>;
+}
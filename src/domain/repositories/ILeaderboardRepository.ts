@@ -0,0 +1,35 @@
+// ============================================================================
+// RUTA: src/domain/repositories/ILeaderboardRepository.ts
+// ============================================================================
+
+export interface LeaderboardEntry {
+  readonly userId: bigint;
+  /** Valor por el que se ordena: trades, claims cerrados o valoración ponderada. */
+  readonly score: number;
+  /** Cantidad de registros que respaldan el valor (igual a `score` salvo en reseñas). */
+  readonly count: number;
+  /** Solo en reseñas: media simple de estrellas, sin prior ni decaimiento. */
+  readonly rawScore?: number;
+}
+
+export interface MiddlemanRatingSample {
+  readonly middlemanId: bigint;
+  readonly rating: number;
+  readonly createdAt: Date;
+}
+
+export interface MiddlemanRatingTotals {
+  readonly middlemanId: bigint;
+  readonly sum: number;
+  readonly count: number;
+}
+
+/** `since = null` calcula la tabla histórica completa. */
+export interface ILeaderboardRepository {
+  topTraders(since: Date | null, limit: number): Promise<readonly LeaderboardEntry[]>;
+  topMiddlemen(since: Date | null, limit: number): Promise<readonly LeaderboardEntry[]>;
+  /** Reseñas visibles del periodo; la valoración ponderada se calcula en la capa de aplicación. */
+  ratingSamples(since: Date | null): Promise<readonly MiddlemanRatingSample[]>;
+  /** Suma y número de estrellas visibles del periodo por middleman; basta cuando no hay decaimiento. */
+  ratingTotals(since: Date | null): Promise<readonly MiddlemanRatingTotals[]>;
+}
@@ -4,6 +4,37 @@
 
 import type { Transactional } from '@/domain/repositories/transaction';
 
+export interface ReviewAggregate {
+  readonly count: number;
+  /** Promedio de estrellas; `null` si no hay reseñas. */
+  readonly average: number | null;
+}
+
+export interface MemberStats {
+  readonly userId: bigint;
+  readonly tradesCompleted: number;
+  readonly lastTradeAt: Date | null;
+  readonly robloxUsername: string | null;
+  readonly robloxUserId: bigint | null;
+  readonly partnerTag: string | null;
+  /** Reseñas que el miembro escribió sobre middlemans. */
+  readonly reviewsGiven: ReviewAggregate;
+  /** Reseñas recibidas como middleman. */
+  readonly reviewsReceived: ReviewAggregate;
+}
+
+export interface CompletedTradeRecord {
+  readonly userId: bigint;
+  readonly completedAt: Date;
+  readonly robloxUsername: string;
+  readonly robloxUserId: bigint | null;
+  /** Usuario(s) de Roblox de la contraparte en el trade. */
+  readonly partnerTag: string | null;
+}
+
 export interface IMemberStatsRepository extends Transactional<IMemberStatsRepository> {
-  recordCompletedTrade(userId: bigint, completedAt: Date): Promise<void>;
+  recordCompletedTrade(record: CompletedTradeRecord): Promise<void>;
+  revertCompletedTrade(userId: bigint): Promise<void>;
+  /** Devuelve las estadísticas del miembro; si nunca cerró un trade los contadores vienen en cero. */
+  getByUser(userId: bigint): Promise<MemberStats>;
 }
@@ -6,17 +6,39 @@ import type { Transactional } from '@/domain/repositories/transaction';
 
 export interface MiddlemanClaim {
   readonly ticketId: number;
-  readonly middlemanId: bigint;
+  /** `null` mientras el ticket tiene panel publicado pero ningún middleman lo ha reclamado. */
+  readonly middlemanId: bigint | null;
   readonly claimedAt: Date;
   readonly reviewRequestedAt?: Date | null;
   readonly closedAt?: Date | null;
   readonly forcedClose?: boolean;
+  readonly panelMessageId?: bigint | null;
+  readonly finalizationMessageId?: bigint | null;
+}
+
+export interface ClaimTransferRecord {
+  readonly ticketId: number;
+  readonly fromMiddlemanId: bigint | null;
+  readonly toMiddlemanId: bigint | null;
+  readonly actorId: bigint;
 }
 
 export interface IMiddlemanRepository extends Transactional<IMiddlemanRepository> {
   isMiddleman(userId: bigint): Promise<boolean>;
   getClaimByTicket(ticketId: number): Promise<MiddlemanClaim | null>;
+  /** Claims del middleman cerrados sin forzar y con reseña solicitada: los mismos que cuenta `mm_stats`. */
+  listCompletedClaims(middlemanId: bigint): Promise<readonly MiddlemanClaim[]>;
   createClaim(ticketId: number, middlemanId: bigint): Promise<void>;
+  /** Cambia el middleman asignado conservando `claimedAt`, de modo que la duración cubre todo el claim. */
+  transferClaim(ticketId: number, middlemanId: bigint): Promise<void>;
+  releaseClaim(ticketId: number): Promise<void>;
+  recordTransfer(record: ClaimTransferRecord): Promise<void>;
   markClosed(ticketId: number, payload: { closedAt: Date; forcedClose?: boolean }): Promise<void>;
   markReviewRequested(ticketId: number, requestedAt: Date): Promise<void>;
+  /** Limpia el cierre, el middleman asignado y las confirmaciones de entrega de un ticket reabierto. */
+  resetClaim(ticketId: number): Promise<void>;
+  savePanelMessage(ticketId: number, messageId: bigint): Promise<void>;
+  saveFinalizationMessage(ticketId: number, messageId: bigint): Promise<void>;
+  recordFinalization(ticketId: number, userId: bigint): Promise<void>;
+  listFinalizations(ticketId: number): Promise<readonly bigint[]>;
 }
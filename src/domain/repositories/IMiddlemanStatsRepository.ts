@@ -0,0 +1,30 @@
+// ============================================================================
+// RUTA: src/domain/repositories/IMiddlemanStatsRepository.ts
+// ============================================================================
+
+import type { Transactional } from '@/domain/repositories/transaction';
+
+export interface ClosedClaimRecord {
+  readonly ticketId: number;
+  readonly middlemanId: bigint;
+  /** Tiempo entre el claim (el primero, aunque después se transfiriera) y el cierre del ticket. */
+  readonly closeDurationMs: number;
+  readonly forced: boolean;
+  readonly closedAt: Date;
+}
+
+export interface MiddlemanStats {
+  readonly middlemanId: bigint;
+  readonly claimsHandled: number;
+  readonly forcedCloses: number;
+  /** Promedio de tiempo hasta el cierre; `null` si aún no cerró ningún claim. */
+  readonly averageCloseMs: number | null;
+  readonly lastClosedAt: Date | null;
+}
+
+export interface IMiddlemanStatsRepository extends Transactional<IMiddlemanStatsRepository> {
+  recordClosedClaim(record: ClosedClaimRecord): Promise<void>;
+  /** Deshace un cierre previo al reabrir el ticket y recalcula `lastClosedAt` sin él. */
+  revertClosedClaim(record: Omit<ClosedClaimRecord, 'closedAt'>): Promise<void>;
+  getByMiddleman(middlemanId: bigint): Promise<MiddlemanStats>;
+}
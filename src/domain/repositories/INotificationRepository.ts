@@ -0,0 +1,64 @@
+// ============================================================================
+// RUTA: src/domain/repositories/INotificationRepository.ts
+// ============================================================================
+
+import type { NotificationStatus } from '@/domain/entities/types';
+
+/** Adjunto serializado; `data` va en base64 para poder guardarlo en la columna JSON. */
+export interface NotificationFile {
+  readonly name: string;
+  readonly data: string;
+}
+
+/** Adjunto que se genera al enviar: `renderer` es el nombre registrado en la cola y `data` su entrada. */
+export interface NotificationRenderedFile {
+  readonly name: string;
+  readonly renderer: string;
+  readonly data: Record<string, unknown>;
+}
+
+/** Contenido serializado de un mensaje directo (embeds en formato JSON de la API de Discord). */
+export interface NotificationPayload {
+  readonly content?: string;
+  readonly embeds?: ReadonlyArray<Record<string, unknown>>;
+  readonly files?: ReadonlyArray<NotificationFile>;
+  readonly renderedFiles?: ReadonlyArray<NotificationRenderedFile>;
+  /** Filas de componentes (botones) en formato JSON de la API de Discord. */
+  readonly components?: ReadonlyArray<Record<string, unknown>>;
+}
+
+export interface QueuedNotification {
+  readonly id: number;
+  readonly userId: bigint;
+  readonly kind: string;
+  readonly payload: NotificationPayload;
+  readonly attempts: number;
+  readonly availableAt: Date;
+}
+
+export interface EnqueueNotificationData {
+  readonly userId: bigint;
+  readonly kind: string;
+  readonly payload: NotificationPayload;
+  readonly availableAt: Date;
+}
+
+export interface INotificationRepository {
+  enqueue(data: EnqueueNotificationData): Promise<QueuedNotification>;
+  /**
+   * Devuelve las notificaciones pendientes cuyo turno llegó y las reserva hasta `leaseUntil`, de modo que
+   * un reinicio a mitad de envío solo las retrasa en lugar de perderlas. Solo se devuelven las filas que
+   * esta llamada logró reservar.
+   */
+  claimDue(now: Date, limit: number, leaseUntil: Date): Promise<readonly QueuedNotification[]>;
+  markSent(id: number, sentAt: Date): Promise<void>;
+  /** Reprograma el envío. `attempts` es el total de intentos fallidos acumulados. */
+  reschedule(id: number, availableAt: Date, attempts: number, error?: string | null): Promise<void>;
+  markDead(id: number, error: string): Promise<void>;
+  /** Bloquea los DMs al usuario hasta `until` y descarta sus notificaciones pendientes. */
+  deadLetterUser(userId: bigint, reason: string, until: Date): Promise<number>;
+  isDeadLettered(userId: bigint, now: Date): Promise<boolean>;
+  /** Elimina las notificaciones ya resueltas (enviadas o descartadas) creadas antes de `before`. */
+  purgeFinished(before: Date): Promise<number>;
+  countByStatus(): Promise<Readonly<Record<NotificationStatus, number>>>;
+}
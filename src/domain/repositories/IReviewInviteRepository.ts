@@ -0,0 +1,21 @@
+// ============================================================================
+// RUTA: src/domain/repositories/IReviewInviteRepository.ts
+// ============================================================================
+
+export interface ReviewInvite {
+  readonly messageId: bigint;
+  readonly ticketId: number;
+  readonly middlemanId: bigint;
+  readonly createdAt: Date;
+  readonly expiresAt: Date;
+}
+
+export interface IReviewInviteRepository {
+  save(invite: Omit<ReviewInvite, 'createdAt'>): Promise<void>;
+  findByMessageId(messageId: bigint): Promise<ReviewInvite | null>;
+  delete(messageId: bigint): Promise<void>;
+  /** Elimina las invitaciones de un ticket (por ejemplo, al borrar su canal). */
+  deleteByTicket(ticketId: number): Promise<number>;
+  /** Elimina las invitaciones vencidas y devuelve cuántas se borraron. */
+  deleteExpired(now: Date): Promise<number>;
+}
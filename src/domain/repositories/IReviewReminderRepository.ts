@@ -0,0 +1,29 @@
+// ============================================================================
+// RUTA: src/domain/repositories/IReviewReminderRepository.ts
+// ============================================================================
+
+export interface PendingReviewReminder {
+  readonly ticketId: number;
+  readonly userId: bigint;
+  readonly middlemanId: bigint;
+  readonly remindersSent: number;
+}
+
+export interface PendingReviewReminderQuery {
+  /** Solo tickets cuya reseña se pidió en la ventana `[requestedAfter, requestedBefore]`. */
+  readonly requestedAfter: Date;
+  readonly requestedBefore: Date;
+  /** Participantes cuyo último recordatorio es anterior a esta fecha (o que nunca recibieron uno). */
+  readonly remindedBefore: Date;
+  readonly maxReminders: number;
+  readonly limit: number;
+}
+
+export interface IReviewReminderRepository {
+  /**
+   * Participantes de tickets cerrados (sin contar al middleman) que todavía no dejaron reseña y no
+   * alcanzaron el máximo de recordatorios.
+   */
+  findPending(query: PendingReviewReminderQuery): Promise<readonly PendingReviewReminder[]>;
+  record(ticketId: number, userId: bigint, sentAt: Date): Promise<void>;
+}
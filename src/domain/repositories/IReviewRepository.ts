@@ -14,10 +14,42 @@ export interface CreateReviewData {
   readonly comment?: string | null;
 }
 
+export interface UpdateReviewData {
+  readonly rating: Rating;
+  readonly comment: string | null;
+  readonly editedAt: Date;
+}
+
+export interface HideReviewData {
+  readonly hiddenBy: bigint;
+  readonly reason: string;
+  readonly hiddenAt: Date;
+}
+
+export interface ReviewRatingTotals {
+  readonly sum: number;
+  readonly count: number;
+}
+
+export interface ReviewRatingSample {
+  readonly rating: number;
+  readonly createdAt: Date;
+}
+
 export interface IReviewRepository extends Transactional<IReviewRepository> {
   create(data: CreateReviewData): Promise<Review>;
+  findById(id: number): Promise<Review | null>;
   findByTicketId(ticketId: number): Promise<readonly Review[]>;
+  /** Solo reseñas visibles, de la más reciente a la más antigua. */
   findByMiddlemanId(middlemanId: bigint): Promise<readonly Review[]>;
+  /** Suma y número de estrellas de las reseñas visibles, calculados en la base de datos. */
+  ratingTotals(middlemanId: bigint): Promise<ReviewRatingTotals>;
+  /** Estrellas y fecha de las reseñas visibles; solo hacen falta con decaimiento. */
+  ratingSamples(middlemanId: bigint): Promise<readonly ReviewRatingSample[]>;
   existsForTicketAndReviewer(ticketId: number, reviewerId: bigint): Promise<boolean>;
-  calculateAverageRating(middlemanId: bigint): Promise<number>;
+  savePublication(id: number, channelId: bigint, messageId: bigint): Promise<void>;
+  update(id: number, data: UpdateReviewData): Promise<Review>;
+  hide(id: number, data: HideReviewData): Promise<void>;
+  /** Oculta la reseña y borra su texto, pero conserva la fila para que el autor no pueda volver a enviarla. */
+  delete(id: number, data: HideReviewData): Promise<void>;
 }
@@ -0,0 +1,28 @@
+// ============================================================================
+// RUTA: src/domain/repositories/ITicketChannelScheduleRepository.ts
+// ============================================================================
+
+export interface TicketChannelSchedule {
+  readonly ticketId: number;
+  readonly channelId: bigint;
+  readonly archiveAt: Date;
+  readonly deleteAt: Date;
+  readonly archivedAt: Date | null;
+  readonly deletedAt: Date | null;
+}
+
+export interface ScheduleChannelInput {
+  readonly ticketId: number;
+  readonly channelId: bigint;
+  readonly archiveAt: Date;
+  readonly deleteAt: Date;
+}
+
+export interface ITicketChannelScheduleRepository {
+  upsert(input: ScheduleChannelInput): Promise<void>;
+  remove(ticketId: number): Promise<void>;
+  findDueForArchive(now: Date, limit: number): Promise<readonly TicketChannelSchedule[]>;
+  findDueForDeletion(now: Date, limit: number): Promise<readonly TicketChannelSchedule[]>;
+  markArchived(ticketId: number, archivedAt: Date): Promise<void>;
+  markDeleted(ticketId: number, deletedAt: Date): Promise<void>;
+}
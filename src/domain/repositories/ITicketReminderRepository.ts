@@ -0,0 +1,29 @@
+// ============================================================================
+// RUTA: src/domain/repositories/ITicketReminderRepository.ts
+// ============================================================================
+
+import type { TicketReminderKind } from '@/domain/entities/types';
+import type { Transactional } from '@/domain/repositories/transaction';
+
+export interface PendingReminder {
+  readonly ticketId: number;
+  readonly channelId: bigint;
+  readonly ownerId: bigint;
+  readonly unclaimedSince: Date;
+}
+
+export interface ITicketReminderRepository extends Transactional<ITicketReminderRepository> {
+  /**
+   * Tickets de middleman del gremio que siguen sin reclamar desde antes de `unclaimedBefore` y que todavía
+   * no recibieron el recordatorio indicado en el periodo actual.
+   */
+  findPending(
+    guildId: bigint,
+    kind: TicketReminderKind,
+    unclaimedBefore: Date,
+    limit: number,
+  ): Promise<readonly PendingReminder[]>;
+  record(ticketId: number, kind: TicketReminderKind, sentAt: Date): Promise<void>;
+  /** Inicia un nuevo periodo sin middleman (al liberar el claim o reabrir) y olvida los avisos anteriores. */
+  reset(ticketId: number, unclaimedSince: Date): Promise<void>;
+}
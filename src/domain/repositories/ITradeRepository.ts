@@ -18,10 +18,14 @@ export interface CreateTradeData {
 }
 
 export interface ITradeRepository extends Transactional<ITradeRepository> {
+  /** Lanza `TradeAlreadyExistsError` si el usuario ya tiene un trade en el ticket. */
   create(data: CreateTradeData): Promise<Trade>;
   findById(id: number): Promise<Trade | null>;
   findByTicketId(ticketId: number): Promise<readonly Trade[]>;
   findByUserId(userId: bigint): Promise<readonly Trade[]>;
+  findByTicketAndUser(ticketId: number, userId: bigint): Promise<Trade | null>;
+  addItems(tradeId: number, items: ReadonlyArray<TradeItem>): Promise<void>;
+  removeItem(itemId: number): Promise<void>;
   update(trade: Trade): Promise<void>;
   delete(id: number): Promise<void>;
 }
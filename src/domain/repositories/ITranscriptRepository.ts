@@ -0,0 +1,58 @@
+// ============================================================================
+// RUTA: src/domain/repositories/ITranscriptRepository.ts
+// ============================================================================
+
+export interface TranscriptAttachment {
+  readonly name: string;
+  readonly url: string;
+  readonly size: number;
+}
+
+export interface TranscriptEmbedField {
+  readonly name: string;
+  readonly value: string;
+  readonly inline: boolean;
+}
+
+export interface TranscriptEmbed {
+  readonly title: string | null;
+  readonly description: string | null;
+  readonly url: string | null;
+  readonly color: number | null;
+  readonly fields: readonly TranscriptEmbedField[];
+  readonly footer: string | null;
+  readonly imageUrl: string | null;
+}
+
+export interface TranscriptMessage {
+  readonly id: string;
+  readonly authorId: string;
+  readonly authorTag: string;
+  readonly authorAvatarUrl: string;
+  readonly bot: boolean;
+  readonly content: string;
+  readonly createdAt: string;
+  readonly editedAt: string | null;
+  readonly attachments: readonly TranscriptAttachment[];
+  readonly embeds: readonly TranscriptEmbed[];
+}
+
+export interface TranscriptDocument {
+  readonly ticketId: number;
+  readonly guildId: string;
+  readonly channelId: string;
+  readonly channelName: string;
+  readonly generatedAt: string;
+  readonly messages: readonly TranscriptMessage[];
+}
+
+/** Transcript ya renderizado: `html` autocontenido y `json` con el {@link TranscriptDocument}. */
+export interface StoredTranscript {
+  readonly html: string;
+  readonly json: string;
+}
+
+export interface ITranscriptRepository {
+  save(ticketId: number, transcript: StoredTranscript): Promise<void>;
+  find(ticketId: number): Promise<StoredTranscript | null>;
+}
@@ -0,0 +1,41 @@
+// =============================================================================
+// RUTA: src/domain/repositories/IWarnAppealRepository.ts
+// =============================================================================
+
+import type { WarnAppealStatus } from '@/domain/entities/Warn';
+import type { Transactional } from '@/domain/repositories/transaction';
+
+export interface WarnAppeal {
+  readonly id: number;
+  readonly warnId: number;
+  readonly guildId: bigint;
+  readonly userId: bigint;
+  readonly justification: string;
+  readonly status: WarnAppealStatus;
+  readonly messageId: bigint | null;
+  readonly reviewerId: bigint | null;
+  readonly createdAt: Date;
+  readonly resolvedAt: Date | null;
+}
+
+export interface CreateWarnAppealData {
+  readonly warnId: number;
+  readonly guildId: bigint;
+  readonly userId: bigint;
+  readonly justification: string;
+  readonly messageId: bigint;
+}
+
+export interface IWarnAppealRepository extends Transactional<IWarnAppealRepository> {
+  create(data: CreateWarnAppealData): Promise<WarnAppeal>;
+  existsForWarn(warnId: number): Promise<boolean>;
+  findByMessageId(messageId: bigint): Promise<WarnAppeal | null>;
+  /**
+   * Cierra una apelación pendiente. Devuelve `false` si otra interacción ya la resolvió.
+   */
+  resolve(
+    id: number,
+    status: Exclude<WarnAppealStatus, WarnAppealStatus.PENDING>,
+    reviewerId: bigint,
+  ): Promise<boolean>;
+}
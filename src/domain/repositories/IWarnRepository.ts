@@ -4,6 +4,7 @@
 
 import type { Warn, WarnSeverity } from '@/domain/entities/Warn';
 import type { Transactional } from '@/domain/repositories/transaction';
+import type { WarnActivityWindows } from '@/domain/value-objects/WarnExpiryPolicy';
 
 export interface CreateWarnData {
   readonly userId: bigint;
@@ -14,5 +15,15 @@ export interface CreateWarnData {
 
 export interface IWarnRepository extends Transactional<IWarnRepository> {
   create(data: CreateWarnData): Promise<Warn>;
+  findById(id: number): Promise<Warn | null>;
+  delete(id: number): Promise<void>;
   listByUser(userId: bigint): Promise<readonly Warn[]>;
+  /**
+   * Advertencias del usuario que siguen vigentes según la ventana de cada severidad.
+   */
+  listActiveByUser(userId: bigint, windows: WarnActivityWindows): Promise<readonly Warn[]>;
+  /**
+   * Marca `expired_at` en las advertencias que quedaron fuera de su ventana. Devuelve cuántas se marcaron.
+   */
+  markExpired(windows: WarnActivityWindows, now: Date): Promise<number>;
 }
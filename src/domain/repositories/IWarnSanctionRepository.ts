@@ -0,0 +1,42 @@
+// =============================================================================
+// RUTA: src/domain/repositories/IWarnSanctionRepository.ts
+// =============================================================================
+
+import type { WarnSanctionAction, WarnSanctionStatus } from '@/domain/entities/Warn';
+
+export interface WarnSanction {
+  readonly id: number;
+  readonly warnId: number;
+  readonly guildId: bigint;
+  readonly userId: bigint;
+  readonly action: WarnSanctionAction;
+  readonly status: WarnSanctionStatus;
+  readonly messageId: bigint | null;
+  readonly resolvedById: bigint | null;
+  readonly failure: string | null;
+  readonly createdAt: Date;
+  readonly resolvedAt: Date | null;
+}
+
+export interface CreateWarnSanctionData {
+  readonly warnId: number;
+  readonly guildId: bigint;
+  readonly userId: bigint;
+  readonly action: WarnSanctionAction;
+}
+
+export interface ResolveWarnSanctionData {
+  readonly status: Exclude<WarnSanctionStatus, WarnSanctionStatus.PENDING>;
+  readonly resolvedById?: bigint | null;
+  readonly failure?: string | null;
+}
+
+export interface IWarnSanctionRepository {
+  create(data: CreateWarnSanctionData): Promise<WarnSanction>;
+  findByMessageId(messageId: bigint): Promise<WarnSanction | null>;
+  attachMessage(id: number, messageId: bigint): Promise<void>;
+  /**
+   * Cierra una sanción pendiente. Devuelve `false` si otra interacción ya la resolvió.
+   */
+  resolve(id: number, data: ResolveWarnSanctionData): Promise<boolean>;
+}
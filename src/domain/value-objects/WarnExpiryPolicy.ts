@@ -0,0 +1,61 @@
+// ============================================================================
+// RUTA: src/domain/value-objects/WarnExpiryPolicy.ts
+// ============================================================================
+
+import { type Warn, WarnSeverity } from '@/domain/entities/Warn';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Días de vigencia por severidad. `0` indica que la advertencia nunca expira. */
+export type WarnExpiryDays = Readonly<Record<WarnSeverity, number>>;
+
+/**
+ * Límite inferior de `created_at` a partir del cual una advertencia de cada severidad sigue activa.
+ * `null` significa que no hay límite (la severidad nunca expira).
+ */
+export type WarnActivityWindows = Readonly<Record<WarnSeverity, Date | null>>;
+
+/**
+ * Value object que decide durante cuánto tiempo cuenta una advertencia para el total de puntos.
+ */
+export class WarnExpiryPolicy {
+  private constructor(private readonly days: WarnExpiryDays) {}
+
+  public static create(days: WarnExpiryDays): WarnExpiryPolicy {
+    return new WarnExpiryPolicy({ ...days });
+  }
+
+  public static never(): WarnExpiryPolicy {
+    return new WarnExpiryPolicy({
+      [WarnSeverity.MINOR]: 0,
+      [WarnSeverity.MAJOR]: 0,
+      [WarnSeverity.CRITICAL]: 0,
+    });
+  }
+
+  public expiresAt(warn: Warn): Date | null {
+    const days = this.days[warn.severity];
+
+    return days > 0 ? new Date(warn.createdAt.getTime() + days * DAY_MS) : null;
+  }
+
+  public isActive(warn: Warn, now: Date = new Date()): boolean {
+    const expiresAt = this.expiresAt(warn);
+
+    return expiresAt === null || expiresAt.getTime() > now.getTime();
+  }
+
+  public windows(now: Date = new Date()): WarnActivityWindows {
+    const since = (severity: WarnSeverity): Date | null => {
+      const days = this.days[severity];
+
+      return days > 0 ? new Date(now.getTime() - days * DAY_MS) : null;
+    };
+
+    return {
+      [WarnSeverity.MINOR]: since(WarnSeverity.MINOR),
+      [WarnSeverity.MAJOR]: since(WarnSeverity.MAJOR),
+      [WarnSeverity.CRITICAL]: since(WarnSeverity.CRITICAL),
+    };
+  }
+}
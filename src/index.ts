@@ -11,11 +11,16 @@ import { Client, GatewayIntentBits } from 'discord.js';
 import { disconnectDatabase, ensureDatabaseConnection, prisma } from '@/infrastructure/db/prisma';
 import { commandRegistry } from '@/presentation/commands';
 import { type AnyEventDescriptor, events } from '@/presentation/events';
+import { stopJobs } from '@/presentation/jobs';
 import { env } from '@/shared/config/env';
 import { logger } from '@/shared/logger/pino';
 
 const client = new Client({
-  intents: [GatewayIntentBits.Guilds],
+  // GuildMembers es un intent privilegiado: solo se pide si la bienvenida está activada, y entonces debe
+  // estar habilitado también en el portal de desarrolladores.
+  intents: env.ENABLE_WELCOME
+    ? [GatewayIntentBits.Guilds, GatewayIntentBits.GuildMembers]
+    : [GatewayIntentBits.Guilds],
 });
 
 const registerEvent = (descriptor: AnyEventDescriptor): void => {
@@ -61,6 +66,7 @@ const shutdown = async (signal: NodeJS.Signals) => {
   logger.warn({ signal }, 'Recibida señal de apagado, iniciando cierre controlado.');
 
   try {
+    stopJobs();
     await client.destroy();
     await disconnectDatabase();
     logger.info('Recursos liberados correctamente.');
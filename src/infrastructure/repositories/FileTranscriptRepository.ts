@@ -0,0 +1,48 @@
+// ============================================================================
+// RUTA: src/infrastructure/repositories/FileTranscriptRepository.ts
+// ============================================================================
+
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+
+import type { ITranscriptRepository, StoredTranscript } from '@/domain/repositories/ITranscriptRepository';
+
+const HTML_FILE = 'transcript.html';
+const JSON_FILE = 'transcript.json';
+
+export class FileTranscriptRepository implements ITranscriptRepository {
+  public constructor(private readonly baseDir: string) {}
+
+  public async save(ticketId: number, transcript: StoredTranscript): Promise<void> {
+    const directory = this.resolveDirectory(ticketId);
+
+    await mkdir(directory, { recursive: true });
+    await Promise.all([
+      writeFile(path.join(directory, HTML_FILE), transcript.html, 'utf8'),
+      writeFile(path.join(directory, JSON_FILE), transcript.json, 'utf8'),
+    ]);
+  }
+
+  public async find(ticketId: number): Promise<StoredTranscript | null> {
+    const directory = this.resolveDirectory(ticketId);
+
+    try {
+      const [html, json] = await Promise.all([
+        readFile(path.join(directory, HTML_FILE), 'utf8'),
+        readFile(path.join(directory, JSON_FILE), 'utf8'),
+      ]);
+
+      return { html, json };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+
+      throw error;
+    }
+  }
+
+  private resolveDirectory(ticketId: number): string {
+    return path.resolve(this.baseDir, String(ticketId));
+  }
+}
@@ -0,0 +1,117 @@
+// ============================================================================
+// RUTA: src/infrastructure/repositories/PrismaGuildSettingsRepository.ts
+// ============================================================================
+
+import type { Prisma, PrismaClient } from '@prisma/client';
+
+import type { LeaderboardPeriod } from '@/domain/entities/types';
+import { WarnEnforcementMode } from '@/domain/entities/Warn';
+import type {
+  IGuildSettingsRepository,
+  LeaderboardChannelSettings,
+  WelcomeSettings,
+} from '@/domain/repositories/IGuildSettingsRepository';
+
+type PrismaClientLike = PrismaClient | Prisma.TransactionClient;
+
+// Sin fila propia el servidor mantiene el modo conservador: sugerir y esperar confirmación.
+const DEFAULT_WARN_ENFORCEMENT_MODE = WarnEnforcementMode.CONFIRM;
+
+const DEFAULT_WELCOME_SETTINGS: WelcomeSettings = { dmEnabled: true, channelId: null, template: null };
+
+const WELCOME_SELECT = { welcomeDmEnabled: true, welcomeChannelId: true, welcomeTemplate: true } as const;
+
+const toWelcomeSettings = (row: {
+  welcomeDmEnabled: boolean;
+  welcomeChannelId: bigint | null;
+  welcomeTemplate: string | null;
+}): WelcomeSettings => ({
+  dmEnabled: row.welcomeDmEnabled,
+  channelId: row.welcomeChannelId,
+  template: row.welcomeTemplate,
+});
+
+export class PrismaGuildSettingsRepository implements IGuildSettingsRepository {
+  public constructor(private readonly prisma: PrismaClientLike) {}
+
+  public async getWarnEnforcementMode(guildId: bigint): Promise<WarnEnforcementMode> {
+    const settings = await this.prisma.guildSettings.findUnique({
+      where: { guildId },
+      select: { warnEnforcementMode: true },
+    });
+
+    return (settings?.warnEnforcementMode as WarnEnforcementMode | undefined) ?? DEFAULT_WARN_ENFORCEMENT_MODE;
+  }
+
+  public async setWarnEnforcementMode(guildId: bigint, mode: WarnEnforcementMode): Promise<void> {
+    await this.prisma.guildSettings.upsert({
+      where: { guildId },
+      create: { guildId, warnEnforcementMode: mode },
+      update: { warnEnforcementMode: mode },
+    });
+  }
+
+  public async getWelcomeSettings(guildId: bigint): Promise<WelcomeSettings> {
+    const settings = await this.prisma.guildSettings.findUnique({ where: { guildId }, select: WELCOME_SELECT });
+
+    return settings ? toWelcomeSettings(settings) : DEFAULT_WELCOME_SETTINGS;
+  }
+
+  public async updateWelcomeSettings(guildId: bigint, changes: Partial<WelcomeSettings>): Promise<WelcomeSettings> {
+    const data = {
+      welcomeDmEnabled: changes.dmEnabled,
+      welcomeChannelId: changes.channelId,
+      welcomeTemplate: changes.template,
+    };
+
+    const settings = await this.prisma.guildSettings.upsert({
+      where: { guildId },
+      create: { guildId, ...data },
+      update: data,
+      select: WELCOME_SELECT,
+    });
+
+    return toWelcomeSettings(settings);
+  }
+
+  public async listLeaderboardChannels(): Promise<readonly LeaderboardChannelSettings[]> {
+    const rows = await this.prisma.guildSettings.findMany({
+      where: { leaderboardChannelId: { not: null } },
+      select: { guildId: true, leaderboardChannelId: true, leaderboardMessageId: true, leaderboardPeriod: true },
+    });
+
+    return rows.flatMap((row) =>
+      row.leaderboardChannelId === null
+        ? []
+        : [
+            {
+              guildId: row.guildId,
+              channelId: row.leaderboardChannelId,
+              messageId: row.leaderboardMessageId,
+              period: row.leaderboardPeriod as LeaderboardPeriod,
+            },
+          ],
+    );
+  }
+
+  public async setLeaderboardChannel(
+    guildId: bigint,
+    channelId: bigint | null,
+    period: LeaderboardPeriod,
+  ): Promise<void> {
+    const data = { leaderboardChannelId: channelId, leaderboardMessageId: null, leaderboardPeriod: period };
+
+    await this.prisma.guildSettings.upsert({
+      where: { guildId },
+      create: { guildId, ...data },
+      update: data,
+    });
+  }
+
+  public async saveLeaderboardMessage(guildId: bigint, messageId: bigint): Promise<void> {
+    await this.prisma.guildSettings.update({
+      where: { guildId },
+      data: { leaderboardMessageId: messageId },
+    });
+  }
+}
@@ -0,0 +1,70 @@
+// ============================================================================
+// RUTA: src/infrastructure/repositories/PrismaLeaderboardRepository.ts
+// ============================================================================
+
+import type { PrismaClient } from '@prisma/client';
+
+import type {
+  ILeaderboardRepository,
+  LeaderboardEntry,
+  MiddlemanRatingSample,
+  MiddlemanRatingTotals,
+} from '@/domain/repositories/ILeaderboardRepository';
+import { TradeStatus } from '@/domain/value-objects/TradeStatus';
+
+export class PrismaLeaderboardRepository implements ILeaderboardRepository {
+  public constructor(private readonly prisma: PrismaClient) {}
+
+  public async topTraders(since: Date | null, limit: number): Promise<readonly LeaderboardEntry[]> {
+    // Todas las tablas salen de los trades completados de tickets cerrados sin forzar (como `mm_stats`), de
+    // modo que la histórica y las del periodo cuentan lo mismo.
+    const rows = await this.prisma.middlemanTrade.groupBy({
+      by: ['userId'],
+      where: {
+        status: TradeStatus.COMPLETED,
+        ticket: {
+          middlemanClaim: { is: { forcedClose: false, closedAt: since ? { gte: since } : { not: null } } },
+        },
+      },
+      _count: { userId: true },
+      orderBy: { _count: { userId: 'desc' } },
+      take: limit,
+    });
+
+    return rows.map((row) => ({ userId: row.userId, score: row._count.userId, count: row._count.userId }));
+  }
+
+  public async topMiddlemen(since: Date | null, limit: number): Promise<readonly LeaderboardEntry[]> {
+    const rows = await this.prisma.middlemanClaim.groupBy({
+      by: ['middlemanId'],
+      where: { middlemanId: { not: null }, forcedClose: false, closedAt: since ? { gte: since } : { not: null } },
+      _count: { middlemanId: true },
+      orderBy: { _count: { middlemanId: 'desc' } },
+      take: limit,
+    });
+
+    return rows.flatMap((row) =>
+      row.middlemanId === null
+        ? []
+        : [{ userId: row.middlemanId, score: row._count.middlemanId, count: row._count.middlemanId }],
+    );
+  }
+
+  public async ratingSamples(since: Date | null): Promise<readonly MiddlemanRatingSample[]> {
+    return this.prisma.middlemanReview.findMany({
+      where: since ? { hiddenAt: null, createdAt: { gte: since } } : { hiddenAt: null },
+      select: { middlemanId: true, rating: true, createdAt: true },
+    });
+  }
+
+  public async ratingTotals(since: Date | null): Promise<readonly MiddlemanRatingTotals[]> {
+    const rows = await this.prisma.middlemanReview.groupBy({
+      by: ['middlemanId'],
+      where: since ? { hiddenAt: null, createdAt: { gte: since } } : { hiddenAt: null },
+      _sum: { rating: true },
+      _count: { _all: true },
+    });
+
+    return rows.map((row) => ({ middlemanId: row.middlemanId, sum: row._sum.rating ?? 0, count: row._count._all }));
+  }
+}
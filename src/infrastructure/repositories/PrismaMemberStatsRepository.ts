@@ -4,11 +4,24 @@
 
 import type { Prisma, PrismaClient } from '@prisma/client';
 
-import type { IMemberStatsRepository } from '@/domain/repositories/IMemberStatsRepository';
+import type {
+  CompletedTradeRecord,
+  IMemberStatsRepository,
+  MemberStats,
+  ReviewAggregate,
+} from '@/domain/repositories/IMemberStatsRepository';
 import type { TransactionContext } from '@/domain/repositories/transaction';
 
 type PrismaClientLike = PrismaClient | Prisma.TransactionClient;
 
+// `partner_tag` es VARCHAR(191); con varios participantes la lista de contrapartes se recorta.
+const PARTNER_TAG_MAX_LENGTH = 191;
+
+const toReviewAggregate = (aggregate: { _count: { _all: number }; _avg: { rating: number | null } }): ReviewAggregate => ({
+  count: aggregate._count._all,
+  average: aggregate._avg.rating,
+});
+
 export class PrismaMemberStatsRepository implements IMemberStatsRepository {
   public constructor(private readonly prisma: PrismaClientLike) {}
 
@@ -20,21 +33,62 @@ export class PrismaMemberStatsRepository implements IMemberStatsRepository {
     return new PrismaMemberStatsRepository(context);
   }
 
-  public async recordCompletedTrade(userId: bigint, completedAt: Date): Promise<void> {
+  public async recordCompletedTrade(record: CompletedTradeRecord): Promise<void> {
+    const identity = {
+      lastTradeAt: record.completedAt,
+      robloxUsername: record.robloxUsername,
+      robloxUserId: record.robloxUserId,
+      partnerTag: record.partnerTag?.slice(0, PARTNER_TAG_MAX_LENGTH) ?? null,
+    };
+
     await this.prisma.memberTradeStats.upsert({
-      where: { userId },
+      where: { userId: record.userId },
       create: {
-        userId,
+        userId: record.userId,
         tradesCompleted: 1,
-        lastTradeAt: completedAt,
+        ...identity,
       },
       update: {
         tradesCompleted: { increment: 1 },
-        lastTradeAt: completedAt,
+        ...identity,
       },
     });
   }
 
+  public async revertCompletedTrade(userId: bigint): Promise<void> {
+    await this.prisma.memberTradeStats.updateMany({
+      where: { userId, tradesCompleted: { gt: 0 } },
+      data: { tradesCompleted: { decrement: 1 } },
+    });
+  }
+
+  public async getByUser(userId: bigint): Promise<MemberStats> {
+    const [stats, given, received] = await Promise.all([
+      this.prisma.memberTradeStats.findUnique({ where: { userId } }),
+      this.prisma.middlemanReview.aggregate({
+        where: { reviewerId: userId, hiddenAt: null },
+        _count: { _all: true },
+        _avg: { rating: true },
+      }),
+      this.prisma.middlemanReview.aggregate({
+        where: { middlemanId: userId, hiddenAt: null },
+        _count: { _all: true },
+        _avg: { rating: true },
+      }),
+    ]);
+
+    return {
+      userId,
+      tradesCompleted: stats?.tradesCompleted ?? 0,
+      lastTradeAt: stats?.lastTradeAt ?? null,
+      robloxUsername: stats?.robloxUsername ?? null,
+      robloxUserId: stats?.robloxUserId ?? null,
+      partnerTag: stats?.partnerTag ?? null,
+      reviewsGiven: toReviewAggregate(given),
+      reviewsReceived: toReviewAggregate(received),
+    };
+  }
+
   private static isTransactionClient(value: TransactionContext): value is Prisma.TransactionClient {
     return typeof value === 'object' && value !== null && 'memberTradeStats' in value;
   }
@@ -4,7 +4,11 @@
 
 import type { Prisma, PrismaClient } from '@prisma/client';
 
-import type { IMiddlemanRepository, MiddlemanClaim } from '@/domain/repositories/IMiddlemanRepository';
+import type {
+  ClaimTransferRecord,
+  IMiddlemanRepository,
+  MiddlemanClaim,
+} from '@/domain/repositories/IMiddlemanRepository';
 import type { TransactionContext } from '@/domain/repositories/transaction';
 
 type PrismaClientLike = PrismaClient | Prisma.TransactionClient;
@@ -32,25 +36,67 @@ export class PrismaMiddlemanRepository implements IMiddlemanRepository {
     return claim ? this.toDomain(claim) : null;
   }
 
+  public async listCompletedClaims(middlemanId: bigint): Promise<readonly MiddlemanClaim[]> {
+    const claims = await this.prisma.middlemanClaim.findMany({
+      where: { middlemanId, forcedClose: false, closedAt: { not: null }, reviewRequestedAt: { not: null } },
+      orderBy: { claimedAt: 'desc' },
+    });
+
+    return claims.map((claim) => this.toDomain(claim));
+  }
+
   public async createClaim(ticketId: number, middlemanId: bigint): Promise<void> {
-    await this.prisma.middlemanClaim.create({
-      data: {
+    await this.prisma.middlemanClaim.upsert({
+      where: { ticketId },
+      create: {
         ticketId,
         middlemanId,
       },
+      update: {
+        middlemanId,
+        claimedAt: new Date(),
+      },
     });
   }
 
-  public async markClosed(ticketId: number, payload: { closedAt: Date; forcedClose?: boolean }): Promise<void> {
+  public async transferClaim(ticketId: number, middlemanId: bigint): Promise<void> {
+    await this.prisma.middlemanClaim.update({
+      where: { ticketId },
+      data: { middlemanId },
+    });
+  }
+
+  public async releaseClaim(ticketId: number): Promise<void> {
     await this.prisma.middlemanClaim.update({
       where: { ticketId },
+      data: { middlemanId: null },
+    });
+  }
+
+  public async recordTransfer(record: ClaimTransferRecord): Promise<void> {
+    await this.prisma.middlemanClaimTransfer.create({
       data: {
-        closedAt: payload.closedAt,
-        forcedClose: payload.forcedClose ?? false,
+        ticketId: record.ticketId,
+        fromMiddlemanId: record.fromMiddlemanId,
+        toMiddlemanId: record.toMiddlemanId,
+        actorId: record.actorId,
       },
     });
   }
 
+  public async markClosed(ticketId: number, payload: { closedAt: Date; forcedClose?: boolean }): Promise<void> {
+    const data = {
+      closedAt: payload.closedAt,
+      forcedClose: payload.forcedClose ?? false,
+    };
+
+    await this.prisma.middlemanClaim.upsert({
+      where: { ticketId },
+      create: { ticketId, ...data },
+      update: data,
+    });
+  }
+
   public async markReviewRequested(ticketId: number, requestedAt: Date): Promise<void> {
     await this.prisma.middlemanClaim.update({
       where: { ticketId },
@@ -58,6 +104,52 @@ export class PrismaMiddlemanRepository implements IMiddlemanRepository {
     });
   }
 
+  public async resetClaim(ticketId: number): Promise<void> {
+    await this.prisma.middlemanTradeFinalization.deleteMany({ where: { ticketId } });
+    await this.prisma.middlemanClaim.updateMany({
+      where: { ticketId },
+      data: {
+        middlemanId: null,
+        closedAt: null,
+        reviewRequestedAt: null,
+        forcedClose: false,
+        finalizationMessageId: null,
+      },
+    });
+  }
+
+  public async savePanelMessage(ticketId: number, messageId: bigint): Promise<void> {
+    await this.prisma.middlemanClaim.upsert({
+      where: { ticketId },
+      create: { ticketId, panelMessageId: messageId },
+      update: { panelMessageId: messageId },
+    });
+  }
+
+  public async saveFinalizationMessage(ticketId: number, messageId: bigint): Promise<void> {
+    await this.prisma.middlemanClaim.update({
+      where: { ticketId },
+      data: { finalizationMessageId: messageId },
+    });
+  }
+
+  public async recordFinalization(ticketId: number, userId: bigint): Promise<void> {
+    await this.prisma.middlemanTradeFinalization.upsert({
+      where: { ticketId_userId: { ticketId, userId } },
+      create: { ticketId, userId },
+      update: {},
+    });
+  }
+
+  public async listFinalizations(ticketId: number): Promise<readonly bigint[]> {
+    const finalizations = await this.prisma.middlemanTradeFinalization.findMany({
+      where: { ticketId },
+      orderBy: { confirmedAt: 'asc' },
+    });
+
+    return finalizations.map((finalization) => finalization.userId);
+  }
+
   private toDomain(claim: PrismaClaim): MiddlemanClaim {
     return {
       ticketId: claim.ticketId,
@@ -66,6 +158,8 @@ export class PrismaMiddlemanRepository implements IMiddlemanRepository {
       reviewRequestedAt: claim.reviewRequestedAt ?? undefined,
       closedAt: claim.closedAt ?? undefined,
       forcedClose: claim.forcedClose ?? undefined,
+      panelMessageId: claim.panelMessageId,
+      finalizationMessageId: claim.finalizationMessageId,
     };
   }
 
@@ -0,0 +1,100 @@
+// ============================================================================
+// RUTA: src/infrastructure/repositories/PrismaMiddlemanStatsRepository.ts
+// ============================================================================
+
+import type { Prisma, PrismaClient } from '@prisma/client';
+
+import type {
+  ClosedClaimRecord,
+  IMiddlemanStatsRepository,
+  MiddlemanStats,
+} from '@/domain/repositories/IMiddlemanStatsRepository';
+import type { TransactionContext } from '@/domain/repositories/transaction';
+
+type PrismaClientLike = PrismaClient | Prisma.TransactionClient;
+
+const toSeconds = (durationMs: number): bigint => BigInt(Math.max(0, Math.round(durationMs / 1000)));
+
+export class PrismaMiddlemanStatsRepository implements IMiddlemanStatsRepository {
+  public constructor(private readonly prisma: PrismaClientLike) {}
+
+  public withTransaction(context: TransactionContext): IMiddlemanStatsRepository {
+    if (!PrismaMiddlemanStatsRepository.isTransactionClient(context)) {
+      throw new Error('Invalid Prisma transaction context provided to middleman stats repository.');
+    }
+
+    return new PrismaMiddlemanStatsRepository(context);
+  }
+
+  public async recordClosedClaim(record: ClosedClaimRecord): Promise<void> {
+    const seconds = toSeconds(record.closeDurationMs);
+
+    await this.prisma.middlemanStats.upsert({
+      where: { middlemanId: record.middlemanId },
+      create: {
+        middlemanId: record.middlemanId,
+        claimsHandled: 1,
+        forcedCloses: record.forced ? 1 : 0,
+        totalCloseSeconds: seconds,
+        lastClosedAt: record.closedAt,
+      },
+      update: {
+        claimsHandled: { increment: 1 },
+        forcedCloses: { increment: record.forced ? 1 : 0 },
+        totalCloseSeconds: { increment: seconds },
+        lastClosedAt: record.closedAt,
+      },
+    });
+  }
+
+  public async revertClosedClaim(record: Omit<ClosedClaimRecord, 'closedAt'>): Promise<void> {
+    const stats = await this.prisma.middlemanStats.findUnique({ where: { middlemanId: record.middlemanId } });
+    if (!stats || stats.claimsHandled === 0) {
+      return;
+    }
+
+    const seconds = toSeconds(record.closeDurationMs);
+    // Los tickets cancelados también tienen `closedAt`, pero no piden reseña ni suman estadísticas.
+    const previousClose = await this.prisma.middlemanClaim.findFirst({
+      where: {
+        middlemanId: record.middlemanId,
+        ticketId: { not: record.ticketId },
+        closedAt: { not: null },
+        reviewRequestedAt: { not: null },
+      },
+      orderBy: { closedAt: 'desc' },
+      select: { closedAt: true },
+    });
+
+    await this.prisma.middlemanStats.update({
+      where: { middlemanId: record.middlemanId },
+      data: {
+        claimsHandled: { decrement: 1 },
+        forcedCloses: record.forced && stats.forcedCloses > 0 ? { decrement: 1 } : undefined,
+        totalCloseSeconds: seconds > stats.totalCloseSeconds ? 0n : { decrement: seconds },
+        lastClosedAt: previousClose?.closedAt ?? null,
+      },
+    });
+  }
+
+  public async getByMiddleman(middlemanId: bigint): Promise<MiddlemanStats> {
+    const stats = await this.prisma.middlemanStats.findUnique({ where: { middlemanId } });
+
+    if (!stats) {
+      return { middlemanId, claimsHandled: 0, forcedCloses: 0, averageCloseMs: null, lastClosedAt: null };
+    }
+
+    return {
+      middlemanId,
+      claimsHandled: stats.claimsHandled,
+      forcedCloses: stats.forcedCloses,
+      averageCloseMs:
+        stats.claimsHandled > 0 ? (Number(stats.totalCloseSeconds) / stats.claimsHandled) * 1000 : null,
+      lastClosedAt: stats.lastClosedAt,
+    };
+  }
+
+  private static isTransactionClient(value: TransactionContext): value is Prisma.TransactionClient {
+    return typeof value === 'object' && value !== null && 'middlemanStats' in value;
+  }
+}
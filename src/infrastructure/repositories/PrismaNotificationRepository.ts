@@ -0,0 +1,145 @@
+// ============================================================================
+// RUTA: src/infrastructure/repositories/PrismaNotificationRepository.ts
+// ============================================================================
+
+import type { Prisma, PrismaClient } from '@prisma/client';
+
+import { NotificationStatus } from '@/domain/entities/types';
+import type {
+  EnqueueNotificationData,
+  INotificationRepository,
+  NotificationPayload,
+  QueuedNotification,
+} from '@/domain/repositories/INotificationRepository';
+
+type PrismaClientLike = PrismaClient | Prisma.TransactionClient;
+
+type PrismaNotificationModel = Prisma.NotificationJobGetPayload<Record<string, never>>;
+
+const truncateError = (error: string | null | undefined): string | null => (error ? error.slice(0, 255) : null);
+
+export class PrismaNotificationRepository implements INotificationRepository {
+  public constructor(private readonly prisma: PrismaClientLike) {}
+
+  public async enqueue(data: EnqueueNotificationData): Promise<QueuedNotification> {
+    const job = await this.prisma.notificationJob.create({
+      data: {
+        userId: data.userId,
+        kind: data.kind,
+        payload: data.payload as Prisma.InputJsonValue,
+        availableAt: data.availableAt,
+      },
+    });
+
+    return this.toDomain(job);
+  }
+
+  public async claimDue(now: Date, limit: number, leaseUntil: Date): Promise<readonly QueuedNotification[]> {
+    const candidates = await this.prisma.notificationJob.findMany({
+      where: { status: NotificationStatus.PENDING, availableAt: { lte: now } },
+      orderBy: { availableAt: 'asc' },
+      take: limit,
+    });
+
+    // Cada fila se reserva con un update condicional: si otro proceso la reservó antes, el update no
+    // afecta a ninguna fila y la notificación no se devuelve.
+    const claimed: QueuedNotification[] = [];
+    for (const job of candidates) {
+      const { count } = await this.prisma.notificationJob.updateMany({
+        where: { id: job.id, status: NotificationStatus.PENDING, availableAt: { lte: now } },
+        data: { availableAt: leaseUntil },
+      });
+
+      if (count === 1) {
+        claimed.push(this.toDomain(job));
+      }
+    }
+
+    return claimed;
+  }
+
+  public async markSent(id: number, sentAt: Date): Promise<void> {
+    await this.prisma.notificationJob.update({
+      where: { id },
+      data: { status: NotificationStatus.SENT, sentAt, lastError: null },
+    });
+  }
+
+  public async reschedule(id: number, availableAt: Date, attempts: number, error?: string | null): Promise<void> {
+    await this.prisma.notificationJob.update({
+      where: { id },
+      data: { availableAt, attempts, lastError: truncateError(error) },
+    });
+  }
+
+  public async markDead(id: number, error: string): Promise<void> {
+    await this.prisma.notificationJob.update({
+      where: { id },
+      data: { status: NotificationStatus.DEAD, lastError: truncateError(error) },
+    });
+  }
+
+  public async deadLetterUser(userId: bigint, reason: string, until: Date): Promise<number> {
+    const blockedReason = truncateError(reason) ?? '';
+
+    await this.prisma.dmDeadLetter.upsert({
+      where: { userId },
+      create: { userId, reason: blockedReason, blockedUntil: until },
+      update: { reason: blockedReason, blockedAt: new Date(), blockedUntil: until },
+    });
+
+    const result = await this.prisma.notificationJob.updateMany({
+      where: { userId, status: NotificationStatus.PENDING },
+      data: { status: NotificationStatus.DEAD, lastError: blockedReason },
+    });
+
+    return result.count;
+  }
+
+  public async isDeadLettered(userId: bigint, now: Date): Promise<boolean> {
+    const entry = await this.prisma.dmDeadLetter.findUnique({ where: { userId } });
+
+    return entry !== null && entry.blockedUntil.getTime() > now.getTime();
+  }
+
+  public async purgeFinished(before: Date): Promise<number> {
+    const { count } = await this.prisma.notificationJob.deleteMany({
+      where: {
+        status: { in: [NotificationStatus.SENT, NotificationStatus.DEAD] },
+        createdAt: { lt: before },
+      },
+    });
+
+    return count;
+  }
+
+  public async countByStatus(): Promise<Readonly<Record<NotificationStatus, number>>> {
+    const groups = await this.prisma.notificationJob.groupBy({
+      by: ['status'],
+      _count: { _all: true },
+    });
+
+    const counts: Record<NotificationStatus, number> = {
+      [NotificationStatus.PENDING]: 0,
+      [NotificationStatus.SENT]: 0,
+      [NotificationStatus.DEAD]: 0,
+    };
+
+    for (const group of groups) {
+      counts[group.status as NotificationStatus] = group._count._all;
+    }
+
+    return counts;
+  }
+
+  private toDomain(job: PrismaNotificationModel): QueuedNotification {
+    return {
+      id: job.id,
+      userId: job.userId,
+      kind: job.kind,
+      payload: job.payload as NotificationPayload,
+      attempts: job.attempts,
+      availableAt: job.availableAt,
+    };
+  }
+}
@@ -0,0 +1,50 @@
+// ============================================================================
+// RUTA: src/infrastructure/repositories/PrismaReviewInviteRepository.ts
+// ============================================================================
+
+import type { Prisma, PrismaClient } from '@prisma/client';
+
+import type { IReviewInviteRepository, ReviewInvite } from '@/domain/repositories/IReviewInviteRepository';
+
+type PrismaClientLike = PrismaClient | Prisma.TransactionClient;
+
+export class PrismaReviewInviteRepository implements IReviewInviteRepository {
+  public constructor(private readonly prisma: PrismaClientLike) {}
+
+  public async save(invite: Omit<ReviewInvite, 'createdAt'>): Promise<void> {
+    await this.prisma.reviewInvite.upsert({
+      where: { messageId: invite.messageId },
+      create: {
+        messageId: invite.messageId,
+        ticketId: invite.ticketId,
+        middlemanId: invite.middlemanId,
+        expiresAt: invite.expiresAt,
+      },
+      update: {
+        ticketId: invite.ticketId,
+        middlemanId: invite.middlemanId,
+        expiresAt: invite.expiresAt,
+      },
+    });
+  }
+
+  public async findByMessageId(messageId: bigint): Promise<ReviewInvite | null> {
+    return this.prisma.reviewInvite.findUnique({ where: { messageId } });
+  }
+
+  public async delete(messageId: bigint): Promise<void> {
+    await this.prisma.reviewInvite.deleteMany({ where: { messageId } });
+  }
+
+  public async deleteByTicket(ticketId: number): Promise<number> {
+    const { count } = await this.prisma.reviewInvite.deleteMany({ where: { ticketId } });
+
+    return count;
+  }
+
+  public async deleteExpired(now: Date): Promise<number> {
+    const { count } = await this.prisma.reviewInvite.deleteMany({ where: { expiresAt: { lte: now } } });
+
+    return count;
+  }
+}
@@ -0,0 +1,75 @@
+// ============================================================================
+// RUTA: src/infrastructure/repositories/PrismaReviewReminderRepository.ts
+// ============================================================================
+
+import type { Prisma, PrismaClient } from '@prisma/client';
+
+import { TicketStatus } from '@/domain/entities/types';
+import type {
+  IReviewReminderRepository,
+  PendingReviewReminder,
+  PendingReviewReminderQuery,
+} from '@/domain/repositories/IReviewReminderRepository';
+
+type PrismaClientLike = PrismaClient | Prisma.TransactionClient;
+
+export class PrismaReviewReminderRepository implements IReviewReminderRepository {
+  public constructor(private readonly prisma: PrismaClientLike) {}
+
+  public async findPending(query: PendingReviewReminderQuery): Promise<readonly PendingReviewReminder[]> {
+    const claims = await this.prisma.middlemanClaim.findMany({
+      where: {
+        middlemanId: { not: null },
+        reviewRequestedAt: { gte: query.requestedAfter, lte: query.requestedBefore },
+        ticket: { status: TicketStatus.CLOSED },
+      },
+      select: {
+        ticketId: true,
+        middlemanId: true,
+        ticket: {
+          select: {
+            ownerId: true,
+            participants: { select: { userId: true } },
+            reviews: { select: { reviewerId: true } },
+            reviewReminders: { select: { userId: true, remindersSent: true, lastSentAt: true } },
+          },
+        },
+      },
+      orderBy: { reviewRequestedAt: 'asc' },
+    });
+
+    const pending: PendingReviewReminder[] = [];
+
+    for (const claim of claims) {
+      const middlemanId = claim.middlemanId!;
+      const reviewed = new Set(claim.ticket.reviews.map((review) => review.reviewerId));
+      const reminders = new Map(claim.ticket.reviewReminders.map((reminder) => [reminder.userId, reminder]));
+      const userIds = new Set([claim.ticket.ownerId, ...claim.ticket.participants.map((participant) => participant.userId)]);
+
+      for (const userId of userIds) {
+        const reminder = reminders.get(userId);
+        const due =
+          !reminder || (reminder.remindersSent < query.maxReminders && reminder.lastSentAt <= query.remindedBefore);
+
+        if (userId === middlemanId || reviewed.has(userId) || !due) {
+          continue;
+        }
+
+        pending.push({ ticketId: claim.ticketId, userId, middlemanId, remindersSent: reminder?.remindersSent ?? 0 });
+        if (pending.length >= query.limit) {
+          return pending;
+        }
+      }
+    }
+
+    return pending;
+  }
+
+  public async record(ticketId: number, userId: bigint, sentAt: Date): Promise<void> {
+    await this.prisma.reviewReminder.upsert({
+      where: { ticketId_userId: { ticketId, userId } },
+      create: { ticketId, userId, remindersSent: 1, lastSentAt: sentAt },
+      update: { remindersSent: { increment: 1 }, lastSentAt: sentAt },
+    });
+  }
+}
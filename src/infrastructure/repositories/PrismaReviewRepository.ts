@@ -5,7 +5,14 @@
 import type { Prisma, PrismaClient } from '@prisma/client';
 
 import { Review } from '@/domain/entities/Review';
-import type { CreateReviewData, IReviewRepository } from '@/domain/repositories/IReviewRepository';
+import type {
+  CreateReviewData,
+  HideReviewData,
+  IReviewRepository,
+  ReviewRatingSample,
+  ReviewRatingTotals,
+  UpdateReviewData,
+} from '@/domain/repositories/IReviewRepository';
 import type { TransactionContext } from '@/domain/repositories/transaction';
 import { Rating } from '@/domain/value-objects/Rating';
 
@@ -38,6 +45,12 @@ export class PrismaReviewRepository implements IReviewRepository {
     return this.toDomain(review);
   }
 
+  public async findById(id: number): Promise<Review | null> {
+    const review = await this.prisma.middlemanReview.findUnique({ where: { id } });
+
+    return review ? this.toDomain(review) : null;
+  }
+
   public async findByTicketId(ticketId: number): Promise<readonly Review[]> {
     const reviews = await this.prisma.middlemanReview.findMany({
       where: { ticketId },
@@ -49,13 +62,30 @@ export class PrismaReviewRepository implements IReviewRepository {
 
   public async findByMiddlemanId(middlemanId: bigint): Promise<readonly Review[]> {
     const reviews = await this.prisma.middlemanReview.findMany({
-      where: { middlemanId },
+      where: { middlemanId, hiddenAt: null },
       orderBy: { createdAt: 'desc' },
     });
 
     return reviews.map((review) => this.toDomain(review));
   }
 
+  public async ratingTotals(middlemanId: bigint): Promise<ReviewRatingTotals> {
+    const totals = await this.prisma.middlemanReview.aggregate({
+      where: { middlemanId, hiddenAt: null },
+      _sum: { rating: true },
+      _count: { _all: true },
+    });
+
+    return { sum: totals._sum.rating ?? 0, count: totals._count._all };
+  }
+
+  public async ratingSamples(middlemanId: bigint): Promise<readonly ReviewRatingSample[]> {
+    return this.prisma.middlemanReview.findMany({
+      where: { middlemanId, hiddenAt: null },
+      select: { rating: true, createdAt: true },
+    });
+  }
+
   public async existsForTicketAndReviewer(ticketId: number, reviewerId: bigint): Promise<boolean> {
     const count = await this.prisma.middlemanReview.count({
       where: {
@@ -67,13 +97,44 @@ export class PrismaReviewRepository implements IReviewRepository {
     return count > 0;
   }
 
-  public async calculateAverageRating(middlemanId: bigint): Promise<number> {
-    const result = await this.prisma.middlemanReview.aggregate({
-      where: { middlemanId },
-      _avg: { rating: true },
+  public async savePublication(id: number, channelId: bigint, messageId: bigint): Promise<void> {
+    await this.prisma.middlemanReview.update({
+      where: { id },
+      data: { channelId, messageId },
     });
+  }
 
-    return result._avg.rating ?? 0;
+  public async update(id: number, data: UpdateReviewData): Promise<Review> {
+    const review = await this.prisma.middlemanReview.update({
+      where: { id },
+      data: {
+        rating: data.rating.getValue(),
+        reviewText: data.comment,
+        editedAt: data.editedAt,
+      },
+    });
+
+    return this.toDomain(review);
+  }
+
+  public async hide(id: number, data: HideReviewData): Promise<void> {
+    await this.prisma.middlemanReview.update({
+      where: { id },
+      data: { hiddenAt: data.hiddenAt, hiddenBy: data.hiddenBy, hiddenReason: data.reason },
+    });
+  }
+
+  public async delete(id: number, data: HideReviewData): Promise<void> {
+    await this.prisma.middlemanReview.update({
+      where: { id },
+      data: {
+        hiddenAt: data.hiddenAt,
+        hiddenBy: data.hiddenBy,
+        hiddenReason: data.reason,
+        deletedAt: data.hiddenAt,
+        reviewText: null,
+      },
+    });
   }
 
   private toDomain(review: PrismaReviewModel): Review {
@@ -92,6 +153,11 @@ export class PrismaReviewRepository implements IReviewRepository {
       rating,
       review.reviewText ?? null,
       review.createdAt,
+      review.channelId,
+      review.messageId,
+      review.editedAt,
+      review.hiddenAt,
+      review.deletedAt,
     );
   }
 
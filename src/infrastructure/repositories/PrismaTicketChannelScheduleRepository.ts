@@ -0,0 +1,61 @@
+// ============================================================================
+// RUTA: src/infrastructure/repositories/PrismaTicketChannelScheduleRepository.ts
+// ============================================================================
+
+import type { Prisma, PrismaClient } from '@prisma/client';
+
+import type {
+  ITicketChannelScheduleRepository,
+  ScheduleChannelInput,
+  TicketChannelSchedule,
+} from '@/domain/repositories/ITicketChannelScheduleRepository';
+
+type PrismaClientLike = PrismaClient | Prisma.TransactionClient;
+
+export class PrismaTicketChannelScheduleRepository implements ITicketChannelScheduleRepository {
+  public constructor(private readonly prisma: PrismaClientLike) {}
+
+  public async upsert(input: ScheduleChannelInput): Promise<void> {
+    const data = {
+      channelId: input.channelId,
+      archiveAt: input.archiveAt,
+      deleteAt: input.deleteAt,
+      archivedAt: null,
+      deletedAt: null,
+    };
+
+    await this.prisma.ticketChannelSchedule.upsert({
+      where: { ticketId: input.ticketId },
+      create: { ticketId: input.ticketId, ...data },
+      update: data,
+    });
+  }
+
+  public async remove(ticketId: number): Promise<void> {
+    await this.prisma.ticketChannelSchedule.deleteMany({ where: { ticketId } });
+  }
+
+  public async findDueForArchive(now: Date, limit: number): Promise<readonly TicketChannelSchedule[]> {
+    return this.prisma.ticketChannelSchedule.findMany({
+      where: { archivedAt: null, deletedAt: null, archiveAt: { lte: now } },
+      orderBy: { archiveAt: 'asc' },
+      take: limit,
+    });
+  }
+
+  public async findDueForDeletion(now: Date, limit: number): Promise<readonly TicketChannelSchedule[]> {
+    return this.prisma.ticketChannelSchedule.findMany({
+      where: { deletedAt: null, deleteAt: { lte: now } },
+      orderBy: { deleteAt: 'asc' },
+      take: limit,
+    });
+  }
+
+  public async markArchived(ticketId: number, archivedAt: Date): Promise<void> {
+    await this.prisma.ticketChannelSchedule.update({ where: { ticketId }, data: { archivedAt } });
+  }
+
+  public async markDeleted(ticketId: number, deletedAt: Date): Promise<void> {
+    await this.prisma.ticketChannelSchedule.update({ where: { ticketId }, data: { deletedAt } });
+  }
+}
@@ -0,0 +1,69 @@
+// ============================================================================
+// RUTA: src/infrastructure/repositories/PrismaTicketReminderRepository.ts
+// ============================================================================
+
+import type { Prisma, PrismaClient } from '@prisma/client';
+
+import { type TicketReminderKind, TicketStatus, TicketType } from '@/domain/entities/types';
+import type { ITicketReminderRepository, PendingReminder } from '@/domain/repositories/ITicketReminderRepository';
+import type { TransactionContext } from '@/domain/repositories/transaction';
+
+type PrismaClientLike = PrismaClient | Prisma.TransactionClient;
+
+const UNCLAIMED_STATUSES = [TicketStatus.OPEN, TicketStatus.CONFIRMED];
+
+export class PrismaTicketReminderRepository implements ITicketReminderRepository {
+  public constructor(private readonly prisma: PrismaClientLike) {}
+
+  public withTransaction(context: TransactionContext): ITicketReminderRepository {
+    if (!PrismaTicketReminderRepository.isTransactionClient(context)) {
+      throw new Error('Invalid Prisma transaction context provided to ticket reminder repository.');
+    }
+
+    return new PrismaTicketReminderRepository(context);
+  }
+
+  public async findPending(
+    guildId: bigint,
+    kind: TicketReminderKind,
+    unclaimedBefore: Date,
+    limit: number,
+  ): Promise<readonly PendingReminder[]> {
+    const tickets = await this.prisma.ticket.findMany({
+      where: {
+        guildId,
+        type: TicketType.MM,
+        unclaimedSince: { lte: unclaimedBefore },
+        status: { in: UNCLAIMED_STATUSES },
+        reminders: { none: { kind } },
+      },
+      select: { id: true, channelId: true, ownerId: true, unclaimedSince: true },
+      orderBy: { unclaimedSince: 'asc' },
+      take: limit,
+    });
+
+    return tickets.map((ticket) => ({
+      ticketId: ticket.id,
+      channelId: ticket.channelId,
+      ownerId: ticket.ownerId,
+      unclaimedSince: ticket.unclaimedSince,
+    }));
+  }
+
+  public async record(ticketId: number, kind: TicketReminderKind, sentAt: Date): Promise<void> {
+    await this.prisma.ticketReminder.upsert({
+      where: { ticketId_kind: { ticketId, kind } },
+      create: { ticketId, kind, sentAt },
+      update: { sentAt },
+    });
+  }
+
+  public async reset(ticketId: number, unclaimedSince: Date): Promise<void> {
+    await this.prisma.ticketReminder.deleteMany({ where: { ticketId } });
+    await this.prisma.ticket.update({ where: { id: ticketId }, data: { unclaimedSince } });
+  }
+
+  private static isTransactionClient(value: TransactionContext): value is Prisma.TransactionClient {
+    return typeof value === 'object' && value !== null && 'ticketReminder' in value;
+  }
+}
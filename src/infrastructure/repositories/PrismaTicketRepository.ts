@@ -99,6 +99,7 @@ export class PrismaTicketRepository implements ITicketRepository {
     await this.prisma.ticket.update({
       where: { id: ticket.id },
       data: {
+        channelId: ticket.channelId,
         status: ticket.status,
         closedAt: ticket.closedAt ?? null,
       },
@@ -9,6 +9,7 @@ import type { TradeItem } from '@/domain/entities/types';
 import type { CreateTradeData, ITradeRepository } from '@/domain/repositories/ITradeRepository';
 import type { TransactionContext } from '@/domain/repositories/transaction';
 import { TradeStatus } from '@/domain/value-objects/TradeStatus';
+import { TradeAlreadyExistsError } from '@/shared/errors/domain.errors';
 
 type PrismaClientLike = PrismaClient | Prisma.TransactionClient;
 
@@ -47,24 +48,33 @@ export class PrismaTradeRepository implements ITradeRepository {
   }
 
   public async create(data: CreateTradeData): Promise<Trade> {
-    const trade = await this.prisma.middlemanTrade.create({
-      data: {
-        ticketId: data.ticketId,
-        userId: data.userId,
-        robloxUsername: data.robloxUsername,
-        robloxUserId: data.robloxUserId ?? null,
-        status: data.status ?? TradeStatus.PENDING,
-        confirmed: data.confirmed ?? false,
-        items: data.items
-          ? {
-              create: data.items.map(mapItemToPrisma),
-            }
-          : undefined,
-      },
-      include: { items: true },
-    });
-
-    return this.toDomain(trade);
+    try {
+      const trade = await this.prisma.middlemanTrade.create({
+        data: {
+          ticketId: data.ticketId,
+          userId: data.userId,
+          robloxUsername: data.robloxUsername,
+          robloxUserId: data.robloxUserId ?? null,
+          status: data.status ?? TradeStatus.PENDING,
+          confirmed: data.confirmed ?? false,
+          items: data.items
+            ? {
+                create: data.items.map(mapItemToPrisma),
+              }
+            : undefined,
+        },
+        include: { items: true },
+      });
+
+      return this.toDomain(trade);
+    } catch (error) {
+      // Índice único (ticket_id, user_id): otra declaración simultánea insertó la fila primero.
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw new TradeAlreadyExistsError(data.ticketId, data.userId);
+      }
+
+      throw error;
+    }
   }
 
   public async findById(id: number): Promise<Trade | null> {
@@ -79,7 +89,8 @@ export class PrismaTradeRepository implements ITradeRepository {
   public async findByTicketId(ticketId: number): Promise<readonly Trade[]> {
     const trades = await this.prisma.middlemanTrade.findMany({
       where: { ticketId },
-      include: { items: true },
+      include: { items: { orderBy: { id: 'asc' } } },
+      orderBy: { createdAt: 'asc' },
     });
 
     return trades.map((trade) => this.toDomain(trade));
@@ -94,10 +105,34 @@ export class PrismaTradeRepository implements ITradeRepository {
     return trades.map((trade) => this.toDomain(trade));
   }
 
+  public async findByTicketAndUser(ticketId: number, userId: bigint): Promise<Trade | null> {
+    const trade = await this.prisma.middlemanTrade.findUnique({
+      where: { ticketId_userId: { ticketId, userId } },
+      include: { items: { orderBy: { id: 'asc' } } },
+    });
+
+    return trade ? this.toDomain(trade) : null;
+  }
+
+  public async addItems(tradeId: number, items: ReadonlyArray<TradeItem>): Promise<void> {
+    if (items.length === 0) {
+      return;
+    }
+
+    await this.prisma.middlemanTradeItem.createMany({
+      data: items.map((item) => ({ tradeId, ...mapItemToPrisma(item) })),
+    });
+  }
+
+  public async removeItem(itemId: number): Promise<void> {
+    await this.prisma.middlemanTradeItem.delete({ where: { id: itemId } });
+  }
+
   public async update(trade: Trade): Promise<void> {
     await this.prisma.middlemanTrade.update({
       where: { id: trade.id },
       data: {
+        robloxUsername: trade.robloxUsername,
         status: trade.status,
         confirmed: trade.confirmed,
         robloxUserId: trade.robloxUserId,
@@ -0,0 +1,87 @@
+// ============================================================================
+// RUTA: src/infrastructure/repositories/PrismaWarnAppealRepository.ts
+// ============================================================================
+
+import type { Prisma, PrismaClient } from '@prisma/client';
+
+import { WarnAppealStatus } from '@/domain/entities/Warn';
+import type {
+  CreateWarnAppealData,
+  IWarnAppealRepository,
+  WarnAppeal,
+} from '@/domain/repositories/IWarnAppealRepository';
+import type { TransactionContext } from '@/domain/repositories/transaction';
+
+type PrismaClientLike = PrismaClient | Prisma.TransactionClient;
+
+type PrismaWarnAppealModel = Prisma.WarnAppealGetPayload<Record<string, never>>;
+
+export class PrismaWarnAppealRepository implements IWarnAppealRepository {
+  public constructor(private readonly prisma: PrismaClientLike) {}
+
+  public withTransaction(context: TransactionContext): IWarnAppealRepository {
+    if (!PrismaWarnAppealRepository.isTransactionClient(context)) {
+      throw new Error('Invalid Prisma transaction context provided to warn appeal repository.');
+    }
+
+    return new PrismaWarnAppealRepository(context);
+  }
+
+  public async create(data: CreateWarnAppealData): Promise<WarnAppeal> {
+    const appeal = await this.prisma.warnAppeal.create({
+      data: {
+        warnId: data.warnId,
+        guildId: data.guildId,
+        userId: data.userId,
+        justification: data.justification,
+        messageId: data.messageId,
+      },
+    });
+
+    return this.toDomain(appeal);
+  }
+
+  public async existsForWarn(warnId: number): Promise<boolean> {
+    const count = await this.prisma.warnAppeal.count({ where: { warnId } });
+
+    return count > 0;
+  }
+
+  public async findByMessageId(messageId: bigint): Promise<WarnAppeal | null> {
+    const appeal = await this.prisma.warnAppeal.findUnique({ where: { messageId } });
+
+    return appeal ? this.toDomain(appeal) : null;
+  }
+
+  public async resolve(
+    id: number,
+    status: Exclude<WarnAppealStatus, WarnAppealStatus.PENDING>,
+    reviewerId: bigint,
+  ): Promise<boolean> {
+    const result = await this.prisma.warnAppeal.updateMany({
+      where: { id, status: WarnAppealStatus.PENDING },
+      data: { status, reviewerId, resolvedAt: new Date() },
+    });
+
+    return result.count > 0;
+  }
+
+  private toDomain(appeal: PrismaWarnAppealModel): WarnAppeal {
+    return {
+      id: appeal.id,
+      warnId: appeal.warnId,
+      guildId: appeal.guildId,
+      userId: appeal.userId,
+      justification: appeal.justification,
+      status: appeal.status as WarnAppealStatus,
+      messageId: appeal.messageId ?? null,
+      reviewerId: appeal.reviewerId ?? null,
+      createdAt: appeal.createdAt,
+      resolvedAt: appeal.resolvedAt ?? null,
+    };
+  }
+
+  private static isTransactionClient(value: TransactionContext): value is Prisma.TransactionClient {
+    return typeof value === 'object' && value !== null && 'warnAppeal' in value;
+  }
+}
@@ -0,0 +1,115 @@
+// ============================================================================
+// RUTA: src/infrastructure/repositories/PrismaWarnRepository.ts
+// ============================================================================
+
+import type { Prisma, PrismaClient } from '@prisma/client';
+
+import { Warn, WarnSeverity } from '@/domain/entities/Warn';
+import type { CreateWarnData, IWarnRepository } from '@/domain/repositories/IWarnRepository';
+import type { TransactionContext } from '@/domain/repositories/transaction';
+import type { WarnActivityWindows } from '@/domain/value-objects/WarnExpiryPolicy';
+
+type PrismaClientLike = PrismaClient | Prisma.TransactionClient;
+
+type PrismaWarnModel = Prisma.WarnGetPayload<Record<string, never>>;
+
+export class PrismaWarnRepository implements IWarnRepository {
+  public constructor(private readonly prisma: PrismaClientLike) {}
+
+  public withTransaction(context: TransactionContext): IWarnRepository {
+    if (!PrismaWarnRepository.isTransactionClient(context)) {
+      throw new Error('Invalid Prisma transaction context provided to warn repository.');
+    }
+
+    return new PrismaWarnRepository(context);
+  }
+
+  public async create(data: CreateWarnData): Promise<Warn> {
+    // La tabla `users` solo se alimenta de forma perezosa, por eso se garantiza la fila antes de enlazarla.
+    const warn = await this.prisma.warn.create({
+      data: {
+        severity: data.severity,
+        reason: data.reason ?? null,
+        user: {
+          connectOrCreate: { where: { id: data.userId }, create: { id: data.userId } },
+        },
+        moderator: data.moderatorId
+          ? { connectOrCreate: { where: { id: data.moderatorId }, create: { id: data.moderatorId } } }
+          : undefined,
+      },
+    });
+
+    return this.toDomain(warn);
+  }
+
+  public async findById(id: number): Promise<Warn | null> {
+    const warn = await this.prisma.warn.findUnique({ where: { id } });
+
+    return warn ? this.toDomain(warn) : null;
+  }
+
+  public async delete(id: number): Promise<void> {
+    await this.prisma.warn.delete({ where: { id } });
+  }
+
+  public async listByUser(userId: bigint): Promise<readonly Warn[]> {
+    const warns = await this.prisma.warn.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return warns.map((warn) => this.toDomain(warn));
+  }
+
+  public async listActiveByUser(userId: bigint, windows: WarnActivityWindows): Promise<readonly Warn[]> {
+    // Cada rama filtra por (user_id, created_at), así MySQL resuelve la consulta con idx_warns_user_created.
+    const warns = await this.prisma.warn.findMany({
+      where: {
+        userId,
+        OR: Object.values(WarnSeverity).map((severity) => {
+          const since = windows[severity];
+
+          return since ? { severity, createdAt: { gte: since } } : { severity };
+        }),
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return warns.map((warn) => this.toDomain(warn));
+  }
+
+  public async markExpired(windows: WarnActivityWindows, now: Date): Promise<number> {
+    const expiredBranches = Object.values(WarnSeverity).flatMap((severity) => {
+      const since = windows[severity];
+
+      return since ? [{ severity, createdAt: { lt: since } }] : [];
+    });
+
+    if (expiredBranches.length === 0) {
+      return 0;
+    }
+
+    const result = await this.prisma.warn.updateMany({
+      where: { expiredAt: null, OR: expiredBranches },
+      data: { expiredAt: now },
+    });
+
+    return result.count;
+  }
+
+  private toDomain(warn: PrismaWarnModel): Warn {
+    return new Warn(
+      warn.id,
+      warn.userId,
+      warn.moderatorId ?? null,
+      warn.severity as WarnSeverity,
+      warn.reason ?? null,
+      warn.createdAt,
+      warn.expiredAt ?? null,
+    );
+  }
+
+  private static isTransactionClient(value: TransactionContext): value is Prisma.TransactionClient {
+    return typeof value === 'object' && value !== null && 'warn' in value;
+  }
+}
@@ -0,0 +1,74 @@
+// ============================================================================
+// RUTA: src/infrastructure/repositories/PrismaWarnSanctionRepository.ts
+// ============================================================================
+
+import type { Prisma, PrismaClient } from '@prisma/client';
+
+import { type WarnSanctionAction, WarnSanctionStatus } from '@/domain/entities/Warn';
+import type {
+  CreateWarnSanctionData,
+  IWarnSanctionRepository,
+  ResolveWarnSanctionData,
+  WarnSanction,
+} from '@/domain/repositories/IWarnSanctionRepository';
+
+type PrismaClientLike = PrismaClient | Prisma.TransactionClient;
+
+type PrismaWarnSanctionModel = Prisma.WarnSanctionGetPayload<Record<string, never>>;
+
+export class PrismaWarnSanctionRepository implements IWarnSanctionRepository {
+  public constructor(private readonly prisma: PrismaClientLike) {}
+
+  public async create(data: CreateWarnSanctionData): Promise<WarnSanction> {
+    const sanction = await this.prisma.warnSanction.create({
+      data: {
+        warnId: data.warnId,
+        guildId: data.guildId,
+        userId: data.userId,
+        action: data.action,
+      },
+    });
+
+    return this.toDomain(sanction);
+  }
+
+  public async findByMessageId(messageId: bigint): Promise<WarnSanction | null> {
+    const sanction = await this.prisma.warnSanction.findUnique({ where: { messageId } });
+
+    return sanction ? this.toDomain(sanction) : null;
+  }
+
+  public async attachMessage(id: number, messageId: bigint): Promise<void> {
+    await this.prisma.warnSanction.update({ where: { id }, data: { messageId } });
+  }
+
+  public async resolve(id: number, data: ResolveWarnSanctionData): Promise<boolean> {
+    const result = await this.prisma.warnSanction.updateMany({
+      where: { id, status: WarnSanctionStatus.PENDING },
+      data: {
+        status: data.status,
+        resolvedById: data.resolvedById ?? null,
+        failure: data.failure ?? null,
+        resolvedAt: new Date(),
+      },
+    });
+
+    return result.count > 0;
+  }
+
+  private toDomain(sanction: PrismaWarnSanctionModel): WarnSanction {
+    return {
+      id: sanction.id,
+      warnId: sanction.warnId,
+      guildId: sanction.guildId,
+      userId: sanction.userId,
+      action: sanction.action as WarnSanctionAction,
+      status: sanction.status as WarnSanctionStatus,
+      messageId: sanction.messageId ?? null,
+      resolvedById: sanction.resolvedById ?? null,
+      failure: sanction.failure ?? null,
+      createdAt: sanction.createdAt,
+      resolvedAt: sanction.resolvedAt ?? null,
+    };
+  }
+}
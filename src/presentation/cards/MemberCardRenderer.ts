@@ -0,0 +1,94 @@
+// ============================================================================
+// RUTA: src/presentation/cards/MemberCardRenderer.ts
+// ============================================================================
+
+import { createCanvas } from '@napi-rs/canvas';
+
+import type { MemberStats, ReviewAggregate } from '@/domain/repositories/IMemberStatsRepository';
+import { CARD_PALETTE, drawCircularAvatar, fitText, toHexColor } from '@/presentation/cards/card.utils';
+import { COLORS } from '@/shared/config/constants';
+
+export interface MemberCardData {
+  readonly username: string;
+  readonly avatar: Buffer | null;
+  readonly stats: MemberStats;
+}
+
+const WIDTH = 1024;
+const HEIGHT = 400;
+const AVATAR_SIZE = 180;
+const AVATAR_X = 60;
+const AVATAR_Y = 60;
+const TEXT_X = AVATAR_X + AVATAR_SIZE + 50;
+const TEXT_MAX_WIDTH = WIDTH - TEXT_X - 50;
+const TILE_Y = 270;
+const TILE_HEIGHT = 90;
+const TILE_GAP = 16;
+
+const formatAverage = (aggregate: ReviewAggregate): string =>
+  aggregate.average === null ? '—' : `${aggregate.average.toFixed(2)} / 5`;
+
+const formatDate = (date: Date | null): string =>
+  date
+    ? date.toLocaleDateString('es-ES', { timeZone: 'UTC', day: '2-digit', month: '2-digit', year: '2-digit' })
+    : 'Nunca';
+
+/**
+ * Genera la tarjeta de estadísticas de un miembro: identidad de Roblox, trades completados y promedios de
+ * reseñas dadas y recibidas.
+ */
+export const renderMemberCard = async (data: MemberCardData): Promise<Buffer> => {
+  const canvas = createCanvas(WIDTH, HEIGHT);
+  const context = canvas.getContext('2d');
+  const { stats } = data;
+
+  context.fillStyle = CARD_PALETTE.background;
+  context.fillRect(0, 0, WIDTH, HEIGHT);
+  context.fillStyle = CARD_PALETTE.surface;
+  context.fillRect(20, 20, WIDTH - 40, HEIGHT - 40);
+  context.fillStyle = toHexColor(COLORS.primary);
+  context.fillRect(20, 20, 12, HEIGHT - 40);
+
+  await drawCircularAvatar(context, data.avatar, data.username, AVATAR_X, AVATAR_Y, AVATAR_SIZE);
+
+  context.textAlign = 'left';
+  context.textBaseline = 'alphabetic';
+
+  context.fillStyle = CARD_PALETTE.textPrimary;
+  context.font = 'bold 52px sans-serif';
+  context.fillText(fitText(context, data.username, TEXT_MAX_WIDTH), TEXT_X, 130);
+
+  context.fillStyle = CARD_PALETTE.textMuted;
+  context.font = '28px sans-serif';
+  const roblox = stats.robloxUsername ? `Roblox: ${stats.robloxUsername}` : 'Roblox: sin vincular';
+  context.fillText(fitText(context, roblox, TEXT_MAX_WIDTH), TEXT_X, 180);
+
+  if (stats.partnerTag) {
+    context.fillText(fitText(context, `Último socio: ${stats.partnerTag}`, TEXT_MAX_WIDTH), TEXT_X, 220);
+  }
+
+  const tiles: ReadonlyArray<readonly [string, string]> = [
+    ['Trades', stats.tradesCompleted.toLocaleString('es-ES')],
+    ['Último trade', formatDate(stats.lastTradeAt)],
+    ['Reseñas dadas', formatAverage(stats.reviewsGiven)],
+    ['Reseñas recibidas', formatAverage(stats.reviewsReceived)],
+  ];
+  const tileWidth = (WIDTH - AVATAR_X * 2 - TILE_GAP * (tiles.length - 1)) / tiles.length;
+
+  tiles.forEach(([label, value], index) => {
+    const x = AVATAR_X + index * (tileWidth + TILE_GAP);
+
+    context.fillStyle = CARD_PALETTE.background;
+    context.fillRect(x, TILE_Y, tileWidth, TILE_HEIGHT);
+
+    context.fillStyle = CARD_PALETTE.textMuted;
+    context.font = '18px sans-serif';
+    context.fillText(fitText(context, label, tileWidth - 32), x + 16, TILE_Y + 32);
+
+    context.fillStyle = toHexColor(COLORS.primary);
+    context.font = 'bold 28px sans-serif';
+    context.fillText(fitText(context, value, tileWidth - 32), x + 16, TILE_Y + 72);
+  });
+
+  return canvas.toBuffer('image/png');
+};
@@ -0,0 +1,62 @@
+// ============================================================================
+// RUTA: src/presentation/cards/WelcomeCardRenderer.ts
+// ============================================================================
+
+import { createCanvas } from '@napi-rs/canvas';
+
+import { CARD_PALETTE, drawCircularAvatar, fitText, toHexColor } from '@/presentation/cards/card.utils';
+import { COLORS } from '@/shared/config/constants';
+
+export interface WelcomeCardData {
+  readonly username: string;
+  readonly guildName: string;
+  readonly memberCount: number;
+  /** Avatar en PNG; sin él se dibuja la inicial del usuario. */
+  readonly avatar: Buffer | null;
+}
+
+const WIDTH = 1024;
+const HEIGHT = 360;
+const AVATAR_SIZE = 220;
+const AVATAR_X = 70;
+const AVATAR_Y = (HEIGHT - AVATAR_SIZE) / 2;
+const TEXT_X = AVATAR_X + AVATAR_SIZE + 60;
+const TEXT_MAX_WIDTH = WIDTH - TEXT_X - 50;
+
+/**
+ * Genera la tarjeta de bienvenida en PNG con los colores de marca del bot.
+ */
+export const renderWelcomeCard = async (data: WelcomeCardData): Promise<Buffer> => {
+  const canvas = createCanvas(WIDTH, HEIGHT);
+  const context = canvas.getContext('2d');
+
+  context.fillStyle = CARD_PALETTE.background;
+  context.fillRect(0, 0, WIDTH, HEIGHT);
+  context.fillStyle = CARD_PALETTE.surface;
+  context.fillRect(20, 20, WIDTH - 40, HEIGHT - 40);
+  context.fillStyle = toHexColor(COLORS.primary);
+  context.fillRect(20, HEIGHT - 32, WIDTH - 40, 12);
+
+  await drawCircularAvatar(context, data.avatar, data.username, AVATAR_X, AVATAR_Y, AVATAR_SIZE);
+
+  context.textAlign = 'left';
+  context.textBaseline = 'alphabetic';
+
+  context.fillStyle = toHexColor(COLORS.primary);
+  context.font = 'bold 40px sans-serif';
+  context.fillText('¡BIENVENIDO/A!', TEXT_X, 130);
+
+  context.fillStyle = CARD_PALETTE.textPrimary;
+  context.font = 'bold 56px sans-serif';
+  context.fillText(fitText(context, data.username, TEXT_MAX_WIDTH), TEXT_X, 200);
+
+  context.fillStyle = CARD_PALETTE.textMuted;
+  context.font = '30px sans-serif';
+  context.fillText(
+    fitText(context, `${data.guildName} · Miembro #${data.memberCount.toLocaleString('es-ES')}`, TEXT_MAX_WIDTH),
+    TEXT_X,
+    256,
+  );
+
+  return canvas.toBuffer('image/png');
+};
@@ -0,0 +1,85 @@
+// ============================================================================
+// RUTA: src/presentation/cards/card.utils.ts
+// ============================================================================
+
+import { loadImage, type SKRSContext2D } from '@napi-rs/canvas';
+
+import { COLORS } from '@/shared/config/constants';
+
+export const CARD_PALETTE = Object.freeze({
+  background: '#1e1f22',
+  surface: '#2b2d31',
+  textPrimary: '#f2f3f5',
+  textMuted: '#b5bac1',
+});
+
+export const toHexColor = (color: number): string => `#${color.toString(16).padStart(6, '0')}`;
+
+/** Recorta el texto con «…» hasta que quepa en `maxWidth` con la fuente actual del contexto. */
+export const fitText = (context: SKRSContext2D, text: string, maxWidth: number): string => {
+  if (context.measureText(text).width <= maxWidth) {
+    return text;
+  }
+
+  let truncated = text;
+  while (truncated.length > 0 && context.measureText(`${truncated}…`).width > maxWidth) {
+    truncated = truncated.slice(0, -1);
+  }
+
+  return `${truncated}…`;
+};
+
+/**
+ * Dibuja el avatar recortado en círculo con un aro del color principal. Si no hay imagen (o no se puede
+ * decodificar) se dibuja la inicial del usuario.
+ */
+export const drawCircularAvatar = async (
+  context: SKRSContext2D,
+  avatar: Buffer | null,
+  fallbackName: string,
+  x: number,
+  y: number,
+  size: number,
+): Promise<void> => {
+  const centerX = x + size / 2;
+  const centerY = y + size / 2;
+
+  context.save();
+  context.beginPath();
+  context.arc(centerX, centerY, size / 2, 0, Math.PI * 2);
+  context.closePath();
+  context.clip();
+
+  const image = avatar ? await loadImage(avatar).catch(() => null) : null;
+
+  if (image) {
+    context.drawImage(image, x, y, size, size);
+  } else {
+    context.fillStyle = CARD_PALETTE.surface;
+    context.fillRect(x, y, size, size);
+    context.fillStyle = toHexColor(COLORS.primary);
+    context.font = `bold ${Math.round(size * 0.44)}px sans-serif`;
+    context.textAlign = 'center';
+    context.textBaseline = 'middle';
+    context.fillText(fallbackName.charAt(0).toUpperCase() || '?', centerX, centerY);
+  }
+
+  context.restore();
+
+  context.beginPath();
+  context.arc(centerX, centerY, size / 2 + 4, 0, Math.PI * 2);
+  context.lineWidth = 8;
+  context.strokeStyle = toHexColor(COLORS.primary);
+  context.stroke();
+};
+
+/** Descarga el avatar en PNG; devuelve `null` ante cualquier fallo para que la tarjeta use la inicial. */
+export const fetchAvatar = async (url: string): Promise<Buffer | null> => {
+  try {
+    const response = await fetch(url);
+
+    return response.ok ? Buffer.from(await response.arrayBuffer()) : null;
+  } catch {
+    return null;
+  }
+};
@@ -0,0 +1,171 @@
+// ============================================================================
+// RUTA: src/presentation/commands/admin/welcome.ts
+// ============================================================================
+
+import {
+  AttachmentBuilder,
+  ChannelType,
+  type ChatInputCommandInteraction,
+  type Guild,
+  SlashCommandBuilder,
+} from 'discord.js';
+
+import { WelcomeService } from '@/application/services/WelcomeService';
+import type { WelcomeSettings } from '@/domain/repositories/IGuildSettingsRepository';
+import { prisma } from '@/infrastructure/db/prisma';
+import { PrismaGuildSettingsRepository } from '@/infrastructure/repositories/PrismaGuildSettingsRepository';
+import { fetchAvatar } from '@/presentation/cards/card.utils';
+import { renderWelcomeCard } from '@/presentation/cards/WelcomeCardRenderer';
+import type { Command } from '@/presentation/commands/types';
+import { embedFactory } from '@/presentation/embeds/EmbedFactory';
+import { notificationQueue } from '@/presentation/jobs/notificationQueue';
+import { WELCOME_DEFAULTS } from '@/shared/config/constants';
+import { env } from '@/shared/config/env';
+import { UnauthorizedActionError } from '@/shared/errors/domain.errors';
+import { logger } from '@/shared/logger/pino';
+import { hasPermissionGroup } from '@/shared/utils/discord.utils';
+
+const settingsRepo = new PrismaGuildSettingsRepository(prisma);
+const welcomeService = new WelcomeService(settingsRepo, notificationQueue, logger, renderWelcomeCard, fetchAvatar);
+
+const ensureAdminGuild = (interaction: ChatInputCommandInteraction, action: string): Guild => {
+  if (!interaction.guild) {
+    throw new UnauthorizedActionError('welcome:command:guild-only');
+  }
+
+  if (!hasPermissionGroup(interaction.memberPermissions, 'admin')) {
+    throw new UnauthorizedActionError(`welcome:${action}`);
+  }
+
+  return interaction.guild;
+};
+
+const describeSettings = (settings: WelcomeSettings): Record<string, string> => ({
+  'Mensaje directo': settings.dmEnabled ? 'Activado' : 'Desactivado',
+  Canal: settings.channelId ? `<#${settings.channelId}>` : 'Sin canal',
+  Plantilla: settings.template ?? `Por defecto: ${WELCOME_DEFAULTS.template}`,
+});
+
+const handleConfig = async (interaction: ChatInputCommandInteraction): Promise<void> => {
+  const guild = ensureAdminGuild(interaction, 'config');
+
+  const dmEnabled = interaction.options.getBoolean('dm');
+  const channel = interaction.options.getChannel('channel');
+  const clearChannel = interaction.options.getBoolean('clear_channel') ?? false;
+  const template = interaction.options.getString('template');
+  const resetTemplate = interaction.options.getBoolean('reset_template') ?? false;
+
+  const changes: { -readonly [K in keyof WelcomeSettings]?: WelcomeSettings[K] } = {};
+
+  if (dmEnabled !== null) {
+    changes.dmEnabled = dmEnabled;
+  }
+
+  if (clearChannel) {
+    changes.channelId = null;
+  } else if (channel) {
+    changes.channelId = BigInt(channel.id);
+  }
+
+  if (resetTemplate) {
+    changes.template = null;
+  } else if (template) {
+    changes.template = template;
+  }
+
+  const settings = await settingsRepo.updateWelcomeSettings(BigInt(guild.id), changes);
+
+  await interaction.reply({
+    embeds: [
+      embedFactory.success({
+        title: 'Configuración de bienvenida',
+        description: env.ENABLE_WELCOME
+          ? 'Usa `/welcome preview` para ver cómo lo recibirán los nuevos miembros.'
+          : 'La bienvenida está desactivada en el bot (`ENABLE_WELCOME`): la configuración se guarda, ' +
+            'pero no se enviará hasta activarla.',
+        fields: Object.entries(describeSettings(settings)).map(([name, value]) => ({ name, value })),
+      }),
+    ],
+    ephemeral: true,
+  });
+};
+
+const handlePreview = async (interaction: ChatInputCommandInteraction): Promise<void> => {
+  const guild = ensureAdminGuild(interaction, 'preview');
+
+  await interaction.deferReply({ ephemeral: true });
+
+  const settings = await settingsRepo.getWelcomeSettings(BigInt(guild.id));
+  const member = await guild.members.fetch(interaction.user.id);
+  const message = welcomeService.buildMessage(member, settings.template);
+  const card = await welcomeService.renderCard(message.card);
+
+  await interaction.editReply({
+    content: message.content,
+    files: [new AttachmentBuilder(card, { name: WELCOME_DEFAULTS.cardFileName })],
+    allowedMentions: { parse: [] },
+  });
+};
+
+export const welcomeCommand: Command = {
+  data: new SlashCommandBuilder()
+    .setName('welcome')
+    .setDescription('Configurar la bienvenida de nuevos miembros (solo administradores)')
+    .addSubcommand((sub) =>
+      sub
+        .setName('config')
+        .setDescription('Cambiar cómo y dónde se da la bienvenida')
+        .addBooleanOption((option) =>
+          option.setName('dm').setDescription('Enviar la tarjeta por mensaje directo'),
+        )
+        .addChannelOption((option) =>
+          option
+            .setName('channel')
+            .setDescription('Canal donde publicar la bienvenida')
+            .addChannelTypes(ChannelType.GuildText, ChannelType.GuildAnnouncement),
+        )
+        .addBooleanOption((option) =>
+          option.setName('clear_channel').setDescription('Dejar de publicar la bienvenida en un canal'),
+        )
+        .addStringOption((option) =>
+          option
+            .setName('template')
+            .setDescription('Mensaje con {user}, {username}, {server} y {memberCount}')
+            .setMaxLength(WELCOME_DEFAULTS.maxTemplateLength),
+        )
+        .addBooleanOption((option) =>
+          option.setName('reset_template').setDescription('Volver al mensaje por defecto'),
+        ),
+    )
+    .addSubcommand((sub) =>
+      sub.setName('preview').setDescription('Ver la bienvenida tal como la recibiría un nuevo miembro'),
+    ),
+  category: 'Administración',
+  examples: [
+    '/welcome config dm:true channel:#bienvenidas',
+    '/welcome config template:¡Hola {user}! Ya somos {memberCount} en {server}.',
+    '/welcome preview',
+  ],
+  async execute(interaction) {
+    const subcommand = interaction.options.getSubcommand();
+
+    switch (subcommand) {
+      case 'config':
+        await handleConfig(interaction);
+        break;
+      case 'preview':
+        await handlePreview(interaction);
+        break;
+      default:
+        await interaction.reply({
+          embeds: [
+            embedFactory.error({
+              title: 'Subcomando no disponible',
+              description: 'La acción solicitada no está implementada.',
+            }),
+          ],
+          ephemeral: true,
+        });
+    }
+  },
+};
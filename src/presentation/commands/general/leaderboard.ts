@@ -0,0 +1,194 @@
+// ============================================================================
+// RUTA: src/presentation/commands/general/leaderboard.ts
+// ============================================================================
+
+import {
+  ChannelType,
+  type ChatInputCommandInteraction,
+  SlashCommandBuilder,
+} from 'discord.js';
+
+import { LeaderboardBoard, LeaderboardPeriod } from '@/domain/entities/types';
+import { prisma } from '@/infrastructure/db/prisma';
+import { PrismaGuildSettingsRepository } from '@/infrastructure/repositories/PrismaGuildSettingsRepository';
+import type { Command } from '@/presentation/commands/types';
+import {
+  buildLeaderboardButtonRow,
+  leaderboardPageCustomId,
+} from '@/presentation/components/buttons/LeaderboardButtons';
+import { registerButtonRoute } from '@/presentation/components/registry';
+import { embedFactory } from '@/presentation/embeds/EmbedFactory';
+import { leaderboardService } from '@/presentation/jobs/leaderboard';
+import { LEADERBOARD_LIMITS, SCHEDULER_INTERVALS } from '@/shared/config/constants';
+import { UnauthorizedActionError, ValidationFailedError } from '@/shared/errors/domain.errors';
+import { hasPermissionGroup } from '@/shared/utils/discord.utils';
+
+const settingsRepo = new PrismaGuildSettingsRepository(prisma);
+
+const PERIOD_CHOICES = [
+  { name: 'Última semana', value: LeaderboardPeriod.WEEK },
+  { name: 'Último mes', value: LeaderboardPeriod.MONTH },
+  { name: 'Histórico', value: LeaderboardPeriod.ALL },
+];
+
+const BOARD_SUBCOMMANDS: Record<string, LeaderboardBoard> = {
+  trades: LeaderboardBoard.TRADES,
+  middlemen: LeaderboardBoard.MIDDLEMEN,
+  reviews: LeaderboardBoard.REVIEWS,
+};
+
+const isBoard = (value: string): value is LeaderboardBoard =>
+  (Object.values(LeaderboardBoard) as string[]).includes(value);
+
+const isPeriod = (value: string): value is LeaderboardPeriod =>
+  (Object.values(LeaderboardPeriod) as string[]).includes(value);
+
+const handleBoard = async (interaction: ChatInputCommandInteraction, board: LeaderboardBoard): Promise<void> => {
+  const period = (interaction.options.getString('period') as LeaderboardPeriod | null) ?? LeaderboardPeriod.WEEK;
+
+  await interaction.deferReply();
+
+  const page = await leaderboardService.getPage(board, period, 1);
+  await interaction.editReply({
+    embeds: [embedFactory.leaderboard(page)],
+    components:
+      page.totalPages > 1
+        ? [buildLeaderboardButtonRow({ board, period, ownerId: interaction.user.id }, page.page, page.totalPages)]
+        : [],
+  });
+};
+
+const handleConfig = async (interaction: ChatInputCommandInteraction): Promise<void> => {
+  if (!interaction.guildId) {
+    throw new UnauthorizedActionError('leaderboard:command:guild-only');
+  }
+
+  if (!hasPermissionGroup(interaction.memberPermissions, 'admin')) {
+    throw new UnauthorizedActionError('leaderboard:config');
+  }
+
+  const channel = interaction.options.getChannel('channel');
+  const period = (interaction.options.getString('period') as LeaderboardPeriod | null) ?? LeaderboardPeriod.WEEK;
+
+  await settingsRepo.setLeaderboardChannel(BigInt(interaction.guildId), channel ? BigInt(channel.id) : null, period);
+
+  if (channel) {
+    void leaderboardService.refreshChannels(interaction.client);
+  }
+
+  await interaction.reply({
+    embeds: [
+      embedFactory.success({
+        title: 'Leaderboard automático',
+        description: channel
+          ? `La tabla se publicará en <#${channel.id}> y se actualizará cada ${
+              SCHEDULER_INTERVALS.leaderboardRefresh / 60_000
+            } minutos.`
+          : 'Se desactivó la tabla automática. El mensaje anterior ya no se actualizará.',
+      }),
+    ],
+    ephemeral: true,
+  });
+};
+
+registerButtonRoute(leaderboardPageCustomId, async (interaction, params) => {
+  const { board, period, ownerId } = params;
+
+  if (!isBoard(board) || !isPeriod(period)) {
+    throw new ValidationFailedError({ board, period });
+  }
+
+  if (ownerId !== interaction.user.id) {
+    await interaction.reply({
+      embeds: [
+        embedFactory.warning({
+          title: 'Tabla de otro usuario',
+          description: 'Solo quien ejecutó el comando puede cambiar de página. Usa `/leaderboard` para abrir la tuya.',
+        }),
+      ],
+      ephemeral: true,
+    });
+    return;
+  }
+
+  const page = await leaderboardService.getPage(board, period, Number(params.page));
+
+  await interaction.update({
+    embeds: [embedFactory.leaderboard(page)],
+    components: [buildLeaderboardButtonRow({ board, period, ownerId }, page.page, page.totalPages)],
+  });
+});
+
+export const leaderboardCommand: Command = {
+  data: new SlashCommandBuilder()
+    .setName('leaderboard')
+    .setDescription('Clasificaciones de traders y middlemans')
+    .addSubcommand((sub) =>
+      sub
+        .setName('trades')
+        .setDescription('Miembros con más trades completados')
+        .addStringOption((option) =>
+          option.setName('period').setDescription('Periodo a considerar').addChoices(...PERIOD_CHOICES),
+        ),
+    )
+    .addSubcommand((sub) =>
+      sub
+        .setName('middlemen')
+        .setDescription('Middlemans con más tickets cerrados')
+        .addStringOption((option) =>
+          option.setName('period').setDescription('Periodo a considerar').addChoices(...PERIOD_CHOICES),
+        ),
+    )
+    .addSubcommand((sub) =>
+      sub
+        .setName('reviews')
+        .setDescription(`Middlemans mejor valorados (mínimo ${LEADERBOARD_LIMITS.minReviews} reseñas)`)
+        .addStringOption((option) =>
+          option.setName('period').setDescription('Periodo a considerar').addChoices(...PERIOD_CHOICES),
+        ),
+    )
+    .addSubcommand((sub) =>
+      sub
+        .setName('config')
+        .setDescription('Publicar una tabla que se actualiza sola (solo administradores)')
+        .addChannelOption((option) =>
+          option
+            .setName('channel')
+            .setDescription('Canal de la tabla; omítelo para desactivarla')
+            .addChannelTypes(ChannelType.GuildText, ChannelType.GuildAnnouncement),
+        )
+        .addStringOption((option) =>
+          option.setName('period').setDescription('Periodo de la tabla automática').addChoices(...PERIOD_CHOICES),
+        ),
+    ),
+  category: 'General',
+  examples: [
+    '/leaderboard trades period:Última semana',
+    '/leaderboard reviews period:Histórico',
+    '/leaderboard config channel:#ranking period:Último mes',
+  ],
+  async execute(interaction) {
+    const subcommand = interaction.options.getSubcommand();
+    const board = BOARD_SUBCOMMANDS[subcommand];
+
+    if (board) {
+      await handleBoard(interaction, board);
+      return;
+    }
+
+    if (subcommand === 'config') {
+      await handleConfig(interaction);
+      return;
+    }
+
+    await interaction.reply({
+      embeds: [
+        embedFactory.error({
+          title: 'Subcomando no disponible',
+          description: 'La acción solicitada no está implementada.',
+        }),
+      ],
+      ephemeral: true,
+    });
+  },
+};
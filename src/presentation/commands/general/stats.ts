@@ -0,0 +1,78 @@
+// ============================================================================
+// RUTA: src/presentation/commands/general/stats.ts
+// ============================================================================
+
+import { AttachmentBuilder, SlashCommandBuilder } from 'discord.js';
+
+import type { ReviewAggregate } from '@/domain/repositories/IMemberStatsRepository';
+import { prisma } from '@/infrastructure/db/prisma';
+import { PrismaMemberStatsRepository } from '@/infrastructure/repositories/PrismaMemberStatsRepository';
+import { fetchAvatar } from '@/presentation/cards/card.utils';
+import { renderMemberCard } from '@/presentation/cards/MemberCardRenderer';
+import type { Command } from '@/presentation/commands/types';
+import { embedFactory } from '@/presentation/embeds/EmbedFactory';
+import { logger } from '@/shared/logger/pino';
+
+const statsRepo = new PrismaMemberStatsRepository(prisma);
+
+const formatReviews = (aggregate: ReviewAggregate): string =>
+  aggregate.average === null ? 'Sin reseñas' : `${aggregate.average.toFixed(2)} ⭐ (${aggregate.count})`;
+
+export const statsCommand: Command = {
+  data: new SlashCommandBuilder()
+    .setName('stats')
+    .setDescription('Muestra las estadísticas de trades de un miembro.')
+    .addUserOption((option) =>
+      option.setName('user').setDescription('Miembro a consultar (por defecto, tú)'),
+    )
+    .addBooleanOption((option) =>
+      option.setName('card').setDescription('Adjuntar la tarjeta de estadísticas como imagen'),
+    ),
+  category: 'General',
+  examples: ['/stats', '/stats user:@usuario card:true'],
+  cooldownKey: 'stats',
+  async execute(interaction) {
+    const user = interaction.options.getUser('user') ?? interaction.user;
+    const withCard = interaction.options.getBoolean('card') ?? false;
+
+    await interaction.deferReply();
+
+    const stats = await statsRepo.getByUser(BigInt(user.id));
+
+    const embed = embedFactory.stats({
+      title: `📊 Estadísticas de ${user.username}`,
+      stats: {
+        'Trades completados': stats.tradesCompleted,
+        'Último trade': stats.lastTradeAt ? `<t:${Math.floor(stats.lastTradeAt.getTime() / 1000)}:R>` : 'Nunca',
+        Roblox: stats.robloxUsername
+          ? `${stats.robloxUsername}${stats.robloxUserId ? ` (${stats.robloxUserId})` : ''}`
+          : 'Sin vincular',
+        'Reseñas dadas': formatReviews(stats.reviewsGiven),
+        'Reseñas recibidas': formatReviews(stats.reviewsReceived),
+        'Último socio': stats.partnerTag ?? '—',
+      },
+    });
+
+    if (!withCard) {
+      await interaction.editReply({ embeds: [embed] });
+      return;
+    }
+
+    try {
+      const card = await renderMemberCard({
+        username: user.username,
+        avatar: await fetchAvatar(user.displayAvatarURL({ extension: 'png', size: 256 })),
+        stats,
+      });
+
+      await interaction.editReply({
+        embeds: [embed.setImage('attachment://stats.png')],
+        files: [new AttachmentBuilder(card, { name: 'stats.png' })],
+      });
+    } catch (error) {
+      // La tarjeta es opcional: si falla el render se responde solo con el embed.
+      logger.warn({ err: error, userId: user.id }, 'No se pudo generar la tarjeta de estadísticas.');
+      await interaction.editReply({ embeds: [embed] });
+    }
+  },
+};
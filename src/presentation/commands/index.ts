@@ -2,13 +2,33 @@
 // RUTA: src/presentation/commands/index.ts
 // ============================================================================
 
+import { welcomeCommand } from '@/presentation/commands/admin/welcome';
 import { commandRegistry, getRegisteredCommands, registerCommands, serializeCommands } from '@/presentation/commands/command-registry';
 import { helpCommand } from '@/presentation/commands/general/help';
+import { leaderboardCommand } from '@/presentation/commands/general/leaderboard';
 import { pingCommand } from '@/presentation/commands/general/ping';
+import { statsCommand } from '@/presentation/commands/general/stats';
 import { middlemanCommand } from '@/presentation/commands/middleman/middleman';
+import { reviewCommand } from '@/presentation/commands/middleman/review';
+import { appealCommand } from '@/presentation/commands/moderation/appeal';
+import { warnCommand } from '@/presentation/commands/moderation/warn';
+import { ticketCommand } from '@/presentation/commands/tickets/ticket';
+import { ticketsCommand } from '@/presentation/commands/tickets/tickets';
 import type { Command } from '@/presentation/commands/types';
 
-const commands: Command[] = [pingCommand, helpCommand, middlemanCommand];
+const commands: Command[] = [
+  pingCommand,
+  helpCommand,
+  statsCommand,
+  leaderboardCommand,
+  middlemanCommand,
+  reviewCommand,
+  ticketCommand,
+  ticketsCommand,
+  warnCommand,
+  appealCommand,
+  welcomeCommand,
+];
 
 registerCommands(commands);
 
@@ -3,51 +3,373 @@
 // ============================================================================
 
 import {
+  type ButtonInteraction,
   ChannelType,
   type ChatInputCommandInteraction,
+  type ModalSubmitInteraction,
   SlashCommandBuilder,
   type TextChannel,
 } from 'discord.js';
 
-import { reviewInviteStore } from '@/application/services/ReviewInviteStore';
+import { ReviewInviteStore } from '@/application/services/ReviewInviteStore';
+import { TradePanelService } from '@/application/services/TradePanelService';
+import { TranscriptService } from '@/application/services/TranscriptService';
+import { CancelTradeUseCase } from '@/application/usecases/middleman/CancelTradeUseCase';
 import { ClaimTradeUseCase } from '@/application/usecases/middleman/ClaimTradeUseCase';
 import { CloseTradeUseCase } from '@/application/usecases/middleman/CloseTradeUseCase';
-import { OpenMiddlemanChannelUseCase } from '@/application/usecases/middleman/OpenMiddlemanChannelUseCase';
+import { ConfirmTradeUseCase } from '@/application/usecases/middleman/ConfirmTradeUseCase';
+import { DeclareTradeUseCase } from '@/application/usecases/middleman/DeclareTradeUseCase';
+import { FinalizeTradeUseCase } from '@/application/usecases/middleman/FinalizeTradeUseCase';
+import { GetMiddlemanProfileUseCase } from '@/application/usecases/middleman/GetMiddlemanProfileUseCase';
+import { RemoveTradeItemUseCase } from '@/application/usecases/middleman/RemoveTradeItemUseCase';
+import { ReopenTicketUseCase } from '@/application/usecases/middleman/ReopenTicketUseCase';
+import { RequestFinalizationUseCase } from '@/application/usecases/middleman/RequestFinalizationUseCase';
 import { SubmitReviewUseCase } from '@/application/usecases/middleman/SubmitReviewUseCase';
+import { TransferClaimUseCase } from '@/application/usecases/middleman/TransferClaimUseCase';
+import { OpenTicketUseCase } from '@/application/usecases/tickets/OpenTicketUseCase';
+import type { Ticket } from '@/domain/entities/Ticket';
 import { prisma } from '@/infrastructure/db/prisma';
+import { FileTranscriptRepository } from '@/infrastructure/repositories/FileTranscriptRepository';
 import { PrismaMemberStatsRepository } from '@/infrastructure/repositories/PrismaMemberStatsRepository';
 import { PrismaMiddlemanRepository } from '@/infrastructure/repositories/PrismaMiddlemanRepository';
+import { PrismaMiddlemanStatsRepository } from '@/infrastructure/repositories/PrismaMiddlemanStatsRepository';
+import { PrismaReviewInviteRepository } from '@/infrastructure/repositories/PrismaReviewInviteRepository';
 import { PrismaReviewRepository } from '@/infrastructure/repositories/PrismaReviewRepository';
+import { PrismaTicketReminderRepository } from '@/infrastructure/repositories/PrismaTicketReminderRepository';
 import { PrismaTicketRepository } from '@/infrastructure/repositories/PrismaTicketRepository';
 import { PrismaTradeRepository } from '@/infrastructure/repositories/PrismaTradeRepository';
 import type { Command } from '@/presentation/commands/types';
-import { buildReviewButtonRow,REVIEW_BUTTON_CUSTOM_ID } from '@/presentation/components/buttons/ReviewButtons';
+import {
+  buildFinalizationButtonRow,
+  FINALIZE_TRADE_CUSTOM_ID,
+} from '@/presentation/components/buttons/FinalizationButtons';
+import {
+  buildReviewButtonRow,
+  REVIEW_BUTTON_CUSTOM_ID,
+  reviewReminderCustomId,
+} from '@/presentation/components/buttons/ReviewButtons';
+import {
+  buildTradePanelButtonRow,
+  TRADE_PANEL_ADD_ITEMS_CUSTOM_ID,
+  TRADE_PANEL_CANCEL_CUSTOM_ID,
+  TRADE_PANEL_CONFIRM_CUSTOM_ID,
+} from '@/presentation/components/buttons/TradePanelButtons';
+import {
+  CANCEL_TRADE_MODAL_CUSTOM_ID,
+  CancelTradeModal,
+} from '@/presentation/components/modals/CancelTradeModal';
 import { MiddlemanModal } from '@/presentation/components/modals/MiddlemanModal';
-import { ReviewModal } from '@/presentation/components/modals/ReviewModal';
-import { modalHandlers, registerButtonHandler, registerModalHandler } from '@/presentation/components/registry';
+import { ReviewModal, reviewModalCustomId } from '@/presentation/components/modals/ReviewModal';
+import { TRADE_MODAL_CUSTOM_ID, TradeModal } from '@/presentation/components/modals/TradeModal';
+import {
+  registerButtonHandler,
+  registerButtonRoute,
+  registerModalHandler,
+  registerModalRoute,
+} from '@/presentation/components/registry';
 import { embedFactory } from '@/presentation/embeds/EmbedFactory';
+import { ticketChannelLifecycle } from '@/presentation/jobs/ticketChannelLifecycle';
+import { renderTranscriptHtml } from '@/presentation/transcripts/TranscriptHtmlRenderer';
+import { MIDDLEMAN_PROFILE_LIMITS } from '@/shared/config/constants';
 import { env } from '@/shared/config/env';
+import { ratingService } from '@/shared/config/rating';
 import { mapErrorToDiscordResponse } from '@/shared/errors/discord-error-mapper';
-import { TicketNotFoundError, UnauthorizedActionError } from '@/shared/errors/domain.errors';
+import {
+  TicketClosedError,
+  TicketNotFoundError,
+  UnauthorizedActionError,
+} from '@/shared/errors/domain.errors';
 import { logger } from '@/shared/logger/pino';
+import { hasPermissionGroup } from '@/shared/utils/discord.utils';
 
 const ticketRepo = new PrismaTicketRepository(prisma);
 const tradeRepo = new PrismaTradeRepository(prisma);
 const statsRepo = new PrismaMemberStatsRepository(prisma);
+const middlemanStatsRepo = new PrismaMiddlemanStatsRepository(prisma);
 const middlemanRepo = new PrismaMiddlemanRepository(prisma);
 const reviewRepo = new PrismaReviewRepository(prisma);
-
-const openUseCase = new OpenMiddlemanChannelUseCase(ticketRepo, prisma, logger, embedFactory);
+const ticketReminderRepo = new PrismaTicketReminderRepository(prisma);
+const reviewInviteStore = new ReviewInviteStore(
+  new PrismaReviewInviteRepository(prisma),
+  logger,
+  env.REVIEW_INVITE_TTL_DAYS,
+);
+
+const openUseCase = new OpenTicketUseCase(ticketRepo, prisma, logger, embedFactory);
 const claimUseCase = new ClaimTradeUseCase(ticketRepo, middlemanRepo, logger, embedFactory);
-const closeUseCase = new CloseTradeUseCase(ticketRepo, tradeRepo, statsRepo, middlemanRepo, prisma, logger, embedFactory);
-const submitReviewUseCase = new SubmitReviewUseCase(reviewRepo, ticketRepo, embedFactory, logger);
+const closeUseCase = new CloseTradeUseCase(
+  ticketRepo,
+  tradeRepo,
+  statsRepo,
+  middlemanStatsRepo,
+  middlemanRepo,
+  prisma,
+  logger,
+  embedFactory,
+);
+const submitReviewUseCase = new SubmitReviewUseCase(reviewRepo, ticketRepo, embedFactory, logger, ratingService);
+const declareTradeUseCase = new DeclareTradeUseCase(ticketRepo, tradeRepo, prisma, logger);
+const removeTradeItemUseCase = new RemoveTradeItemUseCase(ticketRepo, tradeRepo, logger);
+const confirmTradeUseCase = new ConfirmTradeUseCase(ticketRepo, tradeRepo, logger);
+const requestFinalizationUseCase = new RequestFinalizationUseCase(
+  ticketRepo,
+  tradeRepo,
+  middlemanRepo,
+  logger,
+  buildFinalizationButtonRow,
+  embedFactory,
+);
+const finalizeTradeUseCase = new FinalizeTradeUseCase(ticketRepo, middlemanRepo, logger);
+const cancelTradeUseCase = new CancelTradeUseCase(
+  ticketRepo,
+  tradeRepo,
+  middlemanRepo,
+  prisma,
+  logger,
+  embedFactory,
+);
+const transferClaimUseCase = new TransferClaimUseCase(
+  ticketRepo,
+  middlemanRepo,
+  ticketReminderRepo,
+  prisma,
+  logger,
+  embedFactory,
+);
+const reopenUseCase = new ReopenTicketUseCase(
+  ticketRepo,
+  tradeRepo,
+  statsRepo,
+  middlemanStatsRepo,
+  middlemanRepo,
+  ticketReminderRepo,
+  prisma,
+  logger,
+  env.TICKET_REOPEN_WINDOW_HOURS,
+  embedFactory,
+);
+const profileUseCase = new GetMiddlemanProfileUseCase(
+  middlemanRepo,
+  middlemanStatsRepo,
+  reviewRepo,
+  MIDDLEMAN_PROFILE_LIMITS.reviewsPerPage,
+  ratingService,
+);
+const panelService = new TradePanelService(
+  ticketRepo,
+  tradeRepo,
+  middlemanRepo,
+  logger,
+  buildTradePanelButtonRow,
+  embedFactory,
+);
+const transcriptService = new TranscriptService(
+  new FileTranscriptRepository(env.TRANSCRIPTS_DIR),
+  logger,
+  renderTranscriptHtml,
+  env.STAFF_LOG_CHANNEL_ID,
+  embedFactory,
+);
+
+const ensureTextChannel = (
+  interaction: ChatInputCommandInteraction | ButtonInteraction | ModalSubmitInteraction,
+): TextChannel => {
+  if (!interaction.guild) {
+    throw new UnauthorizedActionError('middleman:command:guild-only');
+  }
+
+  const channel = interaction.channel;
+
+  if (!channel || channel.type !== ChannelType.GuildText) {
+    throw new UnauthorizedActionError('middleman:command:channel');
+  }
+
+  return channel;
+};
+
+const resolveTicket = async (channel: TextChannel): Promise<Ticket> => {
+  const ticket = await ticketRepo.findByChannelId(BigInt(channel.id));
+
+  if (!ticket) {
+    throw new TicketNotFoundError(channel.id);
+  }
+
+  return ticket;
+};
+
+const cancelTicket = async (
+  interaction: ChatInputCommandInteraction | ModalSubmitInteraction,
+  channel: TextChannel,
+  ticket: Ticket,
+  reason: string,
+): Promise<void> => {
+  await interaction.deferReply({ ephemeral: true });
+  await cancelTradeUseCase.execute(
+    {
+      ticketId: ticket.id,
+      actorId: interaction.user.id,
+      reason,
+      isStaff: hasPermissionGroup(interaction.memberPermissions, 'staff'),
+    },
+    channel,
+  );
+  await panelService.refresh(ticket.id, channel);
+  await transcriptService.archive(ticket.id, channel);
+  await ticketChannelLifecycle.schedule(ticket.id, BigInt(channel.id));
+
+  await interaction.editReply({
+    embeds: [
+      embedFactory.success({
+        title: 'Trade cancelado',
+        description: 'El ticket se cerró como cancelado. No se registraron estadísticas ni se solicitaron reseñas.',
+      }),
+    ],
+  });
+};
 
 registerModalHandler('middleman-open', async (interaction) => {
-  await MiddlemanModal.handleSubmit(interaction, openUseCase);
+  await MiddlemanModal.handleSubmit(interaction, openUseCase, panelService);
+});
+
+registerModalHandler(TRADE_MODAL_CUSTOM_ID, async (interaction) => {
+  const channel = ensureTextChannel(interaction);
+  const ticket = await resolveTicket(channel);
+  const { robloxUsername, items } = TradeModal.parseFields(interaction);
+
+  await interaction.deferReply({ ephemeral: true });
+  const trade = await declareTradeUseCase.execute({
+    ticketId: ticket.id,
+    userId: interaction.user.id,
+    robloxUsername,
+    items,
+  });
+
+  await panelService.refresh(ticket.id, channel);
+
+  await interaction.editReply({
+    embeds: [
+      embedFactory.tradeSummary({ ticketId: ticket.id, trades: [trade] }),
+    ],
+  });
+});
+
+registerButtonHandler(TRADE_PANEL_ADD_ITEMS_CUSTOM_ID, async (interaction) => {
+  const channel = ensureTextChannel(interaction);
+  await resolveTicket(channel);
+
+  await interaction.showModal(TradeModal.build());
+});
+
+registerButtonHandler(TRADE_PANEL_CONFIRM_CUSTOM_ID, async (interaction) => {
+  const channel = ensureTextChannel(interaction);
+  const ticket = await resolveTicket(channel);
+
+  const { allConfirmed } = await confirmTradeUseCase.execute({
+    ticketId: ticket.id,
+    userId: interaction.user.id,
+  });
+  await panelService.refresh(ticket.id, channel);
+
+  await interaction.reply({
+    embeds: [
+      embedFactory.success({
+        title: 'Trade confirmado',
+        description: 'Confirmaste los ítems que entregarás. El middleman continuará con el proceso.',
+      }),
+    ],
+    ephemeral: true,
+  });
+
+  if (allConfirmed) {
+    await channel.send({
+      content: ticket.assignedMiddlemanId ? `<@${ticket.assignedMiddlemanId}>` : undefined,
+      embeds: [
+        embedFactory.info({
+          title: 'Todos los participantes confirmaron',
+          description:
+            'El middleman puede realizar el intercambio y ejecutar `/middleman deliver` cuando haya entregado los ítems.',
+        }),
+      ],
+    });
+  }
+});
+
+registerButtonHandler(FINALIZE_TRADE_CUSTOM_ID, async (interaction) => {
+  const channel = ensureTextChannel(interaction);
+  const ticket = await resolveTicket(channel);
+
+  const { pending, completed } = await finalizeTradeUseCase.execute({
+    ticketId: ticket.id,
+    userId: interaction.user.id,
+  });
+  await panelService.refresh(ticket.id, channel);
+
+  await interaction.reply({
+    embeds: [
+      embedFactory.success({
+        title: 'Recepción confirmada',
+        description: completed
+          ? 'Todos los participantes confirmaron la recepción de sus ítems.'
+          : `Gracias. Falta la confirmación de ${pending.map((userId) => `<@${userId}>`).join(', ')}.`,
+      }),
+    ],
+    ephemeral: true,
+  });
+
+  if (completed) {
+    await channel.send({
+      content: ticket.assignedMiddlemanId ? `<@${ticket.assignedMiddlemanId}>` : undefined,
+      embeds: [
+        embedFactory.success({
+          title: 'Trade finalizado',
+          description: 'Ambas partes recibieron sus ítems. El middleman ya puede cerrar el ticket con `/middleman close`.',
+        }),
+      ],
+    });
+  }
+});
+
+registerButtonHandler(TRADE_PANEL_CANCEL_CUSTOM_ID, async (interaction) => {
+  const channel = ensureTextChannel(interaction);
+  const ticket = await resolveTicket(channel);
+
+  if (ticket.isClosed()) {
+    throw new TicketClosedError(ticket.id);
+  }
+
+  const userId = BigInt(interaction.user.id);
+  const isStaff = hasPermissionGroup(interaction.memberPermissions, 'staff');
+  if (isStaff || ticket.assignedMiddlemanId === userId) {
+    await interaction.showModal(CancelTradeModal.build());
+    return;
+  }
+
+  const isParticipant = await ticketRepo.isParticipant(ticket.id, userId);
+  if (!isParticipant && !ticket.isOwnedBy(userId)) {
+    throw new UnauthorizedActionError('middleman:panel:cancel');
+  }
+
+  await interaction.reply({
+    content: ticket.assignedMiddlemanId ? `<@${ticket.assignedMiddlemanId}>` : undefined,
+    embeds: [
+      embedFactory.warning({
+        title: 'Solicitud de cancelación',
+        description: `<@${interaction.user.id}> solicitó cancelar este trade. El middleman asignado o el staff pueden confirmarlo con el botón **Cancelar** o con \`/middleman cancel\`.`,
+      }),
+    ],
+  });
+});
+
+registerModalHandler(CANCEL_TRADE_MODAL_CUSTOM_ID, async (interaction) => {
+  const channel = ensureTextChannel(interaction);
+  const ticket = await resolveTicket(channel);
+  const { reason } = CancelTradeModal.parseFields(interaction);
+
+  await cancelTicket(interaction, channel, ticket, reason);
 });
 
 registerButtonHandler(REVIEW_BUTTON_CUSTOM_ID, async (interaction) => {
-  const invite = reviewInviteStore.get(interaction.message.id);
+  const invite = await reviewInviteStore.get(interaction.message.id);
 
   if (!invite) {
     await interaction.reply({
@@ -76,106 +398,103 @@ registerButtonHandler(REVIEW_BUTTON_CUSTOM_ID, async (interaction) => {
     return;
   }
 
-  const modalCustomId = `review:${invite.ticketId}:${invite.middlemanId}:${interaction.user.id}`;
-
-  if (modalHandlers.has(modalCustomId)) {
-    modalHandlers.delete(modalCustomId);
-  }
+  await interaction.showModal(ReviewModal.build(invite.ticketId, invite.middlemanId));
+});
 
-  registerModalHandler(modalCustomId, async (modalInteraction) => {
-    try {
-      const { rating, comment } = ReviewModal.parseFields(modalInteraction);
+registerButtonRoute(reviewReminderCustomId, async (interaction, params) => {
+  const ticketId = Number(params.ticketId);
 
-      if (!env.REVIEW_CHANNEL_ID) {
-        await modalInteraction.reply({
-          embeds: [
-            embedFactory.error({
-              title: 'Configuración incompleta',
-              description:
-                'No se pudo encontrar el canal de reseñas. Un administrador debe establecer `REVIEW_CHANNEL_ID` en el .env.',
-            }),
-          ],
-          ephemeral: true,
-        });
-        return;
-      }
+  if (await reviewRepo.existsForTicketAndReviewer(ticketId, BigInt(interaction.user.id))) {
+    await interaction.reply({
+      embeds: [
+        embedFactory.info({
+          title: 'Reseña ya enviada',
+          description: `Ya registramos tu reseña del ticket #${ticketId}. ¡Gracias!`,
+        }),
+      ],
+      ephemeral: true,
+    });
+    return;
+  }
 
-      const channel = await modalInteraction.client.channels.fetch(env.REVIEW_CHANNEL_ID);
+  await interaction.showModal(ReviewModal.build(ticketId, params.middlemanId));
+});
 
-      if (!channel || !channel.isTextBased()) {
-        await modalInteraction.reply({
-          embeds: [
-            embedFactory.error({
-              title: 'Canal inválido',
-              description: 'El canal de reseñas configurado no es un canal de texto válido.',
-            }),
-          ],
-          ephemeral: true,
-        });
-        return;
-      }
+registerModalRoute(reviewModalCustomId, async (interaction, params) => {
+  try {
+    const { rating, comment } = ReviewModal.parseFields(interaction);
 
-      await submitReviewUseCase.execute(
-        {
-          ticketId: invite.ticketId,
-          reviewerId: modalInteraction.user.id,
-          middlemanId: invite.middlemanId,
-          rating,
-          comment: comment ?? undefined,
-        },
-        channel as TextChannel,
-      );
-
-      await modalInteraction.reply({
+    if (!env.REVIEW_CHANNEL_ID) {
+      await interaction.reply({
         embeds: [
-          embedFactory.success({
-            title: '¡Gracias por tu reseña!',
-            description: 'Tu valoración se ha publicado correctamente en el canal de reseñas.',
+          embedFactory.error({
+            title: 'Configuración incompleta',
+            description:
+              'No se pudo encontrar el canal de reseñas. Un administrador debe establecer `REVIEW_CHANNEL_ID` en el .env.',
           }),
         ],
         ephemeral: true,
       });
-    } catch (error) {
-      const { shouldLogStack, referenceId, embeds, ...payload } = mapErrorToDiscordResponse(error);
+      return;
+    }
 
-      if (shouldLogStack) {
-        logger.error({ err: error, referenceId }, 'Error inesperado al registrar reseña de middleman.');
-      } else {
-        logger.warn({ err: error, referenceId }, 'Error controlado al registrar reseña de middleman.');
-      }
+    const channel = await interaction.client.channels.fetch(env.REVIEW_CHANNEL_ID);
 
-      await modalInteraction.reply({
-        ...payload,
-        embeds:
-          embeds ?? [
-            embedFactory.error({
-              title: 'No se pudo registrar la reseña',
-              description: 'Ocurrió un error al procesar tu reseña. Inténtalo nuevamente en unos minutos.',
-            }),
-          ],
+    if (!channel || !channel.isTextBased()) {
+      await interaction.reply({
+        embeds: [
+          embedFactory.error({
+            title: 'Canal inválido',
+            description: 'El canal de reseñas configurado no es un canal de texto válido.',
+          }),
+        ],
         ephemeral: true,
       });
-    } finally {
-      modalHandlers.delete(modalCustomId);
+      return;
     }
-  });
 
-  await interaction.showModal(ReviewModal.build(modalCustomId));
-});
+    await submitReviewUseCase.execute(
+      {
+        ticketId: Number(params.ticketId),
+        reviewerId: interaction.user.id,
+        middlemanId: params.middlemanId,
+        rating,
+        comment: comment ?? undefined,
+      },
+      channel as TextChannel,
+    );
 
-const ensureTextChannel = (interaction: ChatInputCommandInteraction): TextChannel => {
-  if (!interaction.guild) {
-    throw new UnauthorizedActionError('middleman:command:guild-only');
-  }
+    await interaction.reply({
+      embeds: [
+        embedFactory.success({
+          title: '¡Gracias por tu reseña!',
+          description: 'Tu valoración se ha publicado correctamente en el canal de reseñas.',
+        }),
+      ],
+      ephemeral: true,
+    });
+  } catch (error) {
+    const { shouldLogStack, referenceId, embeds, ...payload } = mapErrorToDiscordResponse(error);
 
-  const channel = interaction.channel;
+    if (shouldLogStack) {
+      logger.error({ err: error, referenceId }, 'Error inesperado al registrar reseña de middleman.');
+    } else {
+      logger.warn({ err: error, referenceId }, 'Error controlado al registrar reseña de middleman.');
+    }
 
-  if (!channel || channel.type !== ChannelType.GuildText) {
-    throw new UnauthorizedActionError('middleman:command:channel');
+    await interaction.reply({
+      ...payload,
+      embeds:
+        embeds ?? [
+          embedFactory.error({
+            title: 'No se pudo registrar la reseña',
+            description: 'Ocurrió un error al procesar tu reseña. Inténtalo nuevamente en unos minutos.',
+          }),
+        ],
+      ephemeral: true,
+    });
   }
-
-  return channel;
-};
+});
 
 const handleOpen = async (interaction: ChatInputCommandInteraction): Promise<void> => {
   if (!interaction.guild) {
@@ -196,14 +515,11 @@ const handleOpen = async (interaction: ChatInputCommandInteraction): Promise<voi
 
 const handleClaim = async (interaction: ChatInputCommandInteraction): Promise<void> => {
   const channel = ensureTextChannel(interaction);
-  const ticket = await ticketRepo.findByChannelId(BigInt(channel.id));
-
-  if (!ticket) {
-    throw new TicketNotFoundError(channel.id);
-  }
+  const ticket = await resolveTicket(channel);
 
   await interaction.deferReply({ ephemeral: true });
   await claimUseCase.execute({ ticketId: ticket.id, middlemanId: interaction.user.id }, channel);
+  await panelService.refresh(ticket.id, channel);
 
   await interaction.editReply({
     embeds: [
@@ -215,16 +531,198 @@ const handleClaim = async (interaction: ChatInputCommandInteraction): Promise<vo
   });
 };
 
-const handleClose = async (interaction: ChatInputCommandInteraction): Promise<void> => {
+const handleUnclaim = async (interaction: ChatInputCommandInteraction): Promise<void> => {
   const channel = ensureTextChannel(interaction);
-  const ticket = await ticketRepo.findByChannelId(BigInt(channel.id));
+  const ticket = await resolveTicket(channel);
+
+  await interaction.deferReply({ ephemeral: true });
+  await transferClaimUseCase.execute(
+    {
+      ticketId: ticket.id,
+      actorId: interaction.user.id,
+      targetId: null,
+      isStaff: hasPermissionGroup(interaction.memberPermissions, 'staff'),
+    },
+    channel,
+  );
+  await panelService.refresh(ticket.id, channel);
+
+  await interaction.editReply({
+    embeds: [
+      embedFactory.success({
+        title: 'Ticket liberado',
+        description: 'El ticket vuelve a estar disponible para que otro middleman lo reclame.',
+      }),
+    ],
+  });
+};
+
+const handleTransfer = async (interaction: ChatInputCommandInteraction): Promise<void> => {
+  const channel = ensureTextChannel(interaction);
+  const ticket = await resolveTicket(channel);
+  const target = interaction.options.getUser('to', true);
+
+  await interaction.deferReply({ ephemeral: true });
+  await transferClaimUseCase.execute(
+    {
+      ticketId: ticket.id,
+      actorId: interaction.user.id,
+      targetId: target.id,
+      isStaff: hasPermissionGroup(interaction.memberPermissions, 'staff'),
+    },
+    channel,
+  );
+  await panelService.refresh(ticket.id, channel);
+
+  await interaction.editReply({
+    embeds: [
+      embedFactory.success({
+        title: 'Ticket transferido',
+        description: `${target.toString()} ahora es el middleman asignado de este ticket.`,
+      }),
+    ],
+  });
+};
+
+const handleDeliver = async (interaction: ChatInputCommandInteraction): Promise<void> => {
+  const channel = ensureTextChannel(interaction);
+  const ticket = await resolveTicket(channel);
+
+  await interaction.deferReply({ ephemeral: true });
+  await requestFinalizationUseCase.execute(ticket.id, BigInt(interaction.user.id), channel);
+  await panelService.refresh(ticket.id, channel);
+
+  await interaction.editReply({
+    embeds: [
+      embedFactory.success({
+        title: 'Entrega registrada',
+        description: 'Se pidió a los participantes que confirmen la recepción de sus ítems.',
+      }),
+    ],
+  });
+};
+
+const handleCancel = async (interaction: ChatInputCommandInteraction): Promise<void> => {
+  const channel = ensureTextChannel(interaction);
+  const ticket = await resolveTicket(channel);
+
+  await cancelTicket(interaction, channel, ticket, interaction.options.getString('reason', true));
+};
+
+const handleReopen = async (interaction: ChatInputCommandInteraction): Promise<void> => {
+  if (!interaction.guild) {
+    throw new UnauthorizedActionError('middleman:command:guild-only');
+  }
+
+  const ticketId = interaction.options.getInteger('ticket');
+  const ticket = ticketId ? await ticketRepo.findById(ticketId) : await resolveTicket(ensureTextChannel(interaction));
 
   if (!ticket) {
-    throw new TicketNotFoundError(channel.id);
+    throw new TicketNotFoundError(String(ticketId));
   }
 
   await interaction.deferReply({ ephemeral: true });
-  await closeUseCase.execute(ticket.id, BigInt(interaction.user.id), channel);
+  const { channel, recreated } = await reopenUseCase.execute(
+    {
+      ticketId: ticket.id,
+      actorId: interaction.user.id,
+      reason: interaction.options.getString('reason', true),
+      isStaff: hasPermissionGroup(interaction.memberPermissions, 'staff'),
+      categoryId: env.MIDDLEMAN_CATEGORY_ID,
+    },
+    interaction.guild,
+  );
+  await ticketChannelLifecycle.cancel(ticket.id);
+  await panelService.refresh(ticket.id, channel);
+
+  await interaction.editReply({
+    embeds: [
+      embedFactory.success({
+        title: 'Ticket reabierto',
+        description: recreated
+          ? `El canal original ya no existía, así que se creó ${channel.toString()}.`
+          : `El ticket volvió a abrirse en ${channel.toString()}.`,
+      }),
+    ],
+  });
+};
+
+const handleProfile = async (interaction: ChatInputCommandInteraction): Promise<void> => {
+  const target = interaction.options.getUser('user') ?? interaction.user;
+
+  await interaction.deferReply();
+  const profile = await profileUseCase.execute({
+    middlemanId: target.id,
+    page: interaction.options.getInteger('page') ?? 1,
+  });
+
+  await interaction.editReply({
+    embeds: [
+      embedFactory.middlemanProfile({
+        ...profile,
+        reviews: profile.reviews.map((review) => ({
+          reviewerId: review.reviewerId,
+          rating: review.rating.getValue(),
+          comment: review.comment,
+          createdAt: review.createdAt,
+        })),
+      }),
+    ],
+  });
+};
+
+const handleTradeAdd = async (interaction: ChatInputCommandInteraction): Promise<void> => {
+  const channel = ensureTextChannel(interaction);
+  await resolveTicket(channel);
+
+  await interaction.showModal(TradeModal.build());
+};
+
+const handleTradeRemove = async (interaction: ChatInputCommandInteraction): Promise<void> => {
+  const channel = ensureTextChannel(interaction);
+  const ticket = await resolveTicket(channel);
+
+  await interaction.deferReply({ ephemeral: true });
+  const { removed, remaining } = await removeTradeItemUseCase.execute({
+    ticketId: ticket.id,
+    userId: interaction.user.id,
+    position: interaction.options.getInteger('item', true),
+  });
+  await panelService.refresh(ticket.id, channel);
+
+  await interaction.editReply({
+    embeds: [
+      embedFactory.success({
+        title: 'Ítem eliminado',
+        description:
+          remaining > 0
+            ? `Se eliminó **${removed}** de tu declaración. Te quedan ${remaining} ítems.`
+            : `Se eliminó **${removed}**. Ya no tienes ítems declarados en este ticket.`,
+      }),
+    ],
+  });
+};
+
+const handleTradeList = async (interaction: ChatInputCommandInteraction): Promise<void> => {
+  const channel = ensureTextChannel(interaction);
+  const ticket = await resolveTicket(channel);
+
+  const trades = await tradeRepo.findByTicketId(ticket.id);
+
+  await interaction.reply({
+    embeds: [embedFactory.tradeSummary({ ticketId: ticket.id, trades })],
+  });
+};
+
+const handleClose = async (interaction: ChatInputCommandInteraction): Promise<void> => {
+  const channel = ensureTextChannel(interaction);
+  const ticket = await resolveTicket(channel);
+
+  await interaction.deferReply({ ephemeral: true });
+  await closeUseCase.execute(ticket.id, BigInt(interaction.user.id), channel, {
+    force: interaction.options.getBoolean('force') ?? false,
+  });
+  await panelService.refresh(ticket.id, channel);
 
   const participants = await ticketRepo.listParticipants(ticket.id);
   const reviewerIds = new Set(
@@ -251,7 +749,9 @@ const handleClose = async (interaction: ChatInputCommandInteraction): Promise<vo
     components: [buildReviewButtonRow()],
   });
 
-  reviewInviteStore.set(inviteMessage.id, { ticketId: ticket.id, middlemanId: interaction.user.id });
+  await reviewInviteStore.set(inviteMessage.id, { ticketId: ticket.id, middlemanId: interaction.user.id });
+  await transcriptService.archive(ticket.id, channel);
+  await ticketChannelLifecycle.schedule(ticket.id, BigInt(channel.id));
 
   await interaction.editReply({
     embeds: [
@@ -270,12 +770,122 @@ export const middlemanCommand: Command = {
     .setDescription('Sistema de middleman del servidor')
     .addSubcommand((sub) => sub.setName('open').setDescription('Abrir ticket de middleman'))
     .addSubcommand((sub) => sub.setName('claim').setDescription('Reclamar ticket (solo middlemen)'))
-    .addSubcommand((sub) => sub.setName('close').setDescription('Cerrar ticket (solo middleman asignado)')),
+    .addSubcommand((sub) =>
+      sub.setName('unclaim').setDescription('Liberar el ticket para otro middleman (middleman asignado o staff)'),
+    )
+    .addSubcommand((sub) =>
+      sub
+        .setName('transfer')
+        .setDescription('Transferir el ticket a otro middleman (middleman asignado o staff)')
+        .addUserOption((option) =>
+          option.setName('to').setDescription('Middleman que recibirá el ticket').setRequired(true),
+        ),
+    )
+    .addSubcommand((sub) =>
+      sub.setName('deliver').setDescription('Marcar los ítems como entregados (solo middleman asignado)'),
+    )
+    .addSubcommand((sub) =>
+      sub
+        .setName('close')
+        .setDescription('Cerrar ticket (solo middleman asignado)')
+        .addBooleanOption((option) =>
+          option
+            .setName('force')
+            .setDescription('Cerrar aunque no todos hayan confirmado la recepción de sus ítems'),
+        ),
+    )
+    .addSubcommand((sub) =>
+      sub
+        .setName('cancel')
+        .setDescription('Cancelar el trade y cerrar el ticket (middleman asignado o staff)')
+        .addStringOption((option) =>
+          option
+            .setName('reason')
+            .setDescription('Motivo de la cancelación')
+            .setRequired(true)
+            .setMinLength(3)
+            .setMaxLength(500),
+        ),
+    )
+    .addSubcommand((sub) =>
+      sub
+        .setName('reopen')
+        .setDescription('Reabrir un ticket cerrado recientemente (solo staff)')
+        .addStringOption((option) =>
+          option
+            .setName('reason')
+            .setDescription('Motivo de la reapertura')
+            .setRequired(true)
+            .setMinLength(3)
+            .setMaxLength(500),
+        )
+        .addIntegerOption((option) =>
+          option
+            .setName('ticket')
+            .setDescription('ID del ticket (por defecto, el del canal actual)')
+            .setMinValue(1),
+        ),
+    )
+    .addSubcommand((sub) =>
+      sub
+        .setName('profile')
+        .setDescription('Ver la valoración y el historial de reseñas de un middleman')
+        .addUserOption((option) => option.setName('user').setDescription('Middleman a consultar (por defecto, tú)'))
+        .addIntegerOption((option) =>
+          option.setName('page').setDescription('Página de reseñas').setMinValue(1),
+        ),
+    )
+    .addSubcommandGroup((group) =>
+      group
+        .setName('trade')
+        .setDescription('Gestiona los ítems que entregas en el trade')
+        .addSubcommand((sub) => sub.setName('add').setDescription('Declarar tu usuario de Roblox e ítems'))
+        .addSubcommand((sub) =>
+          sub
+            .setName('remove')
+            .setDescription('Eliminar uno de tus ítems declarados')
+            .addIntegerOption((option) =>
+              option
+                .setName('item')
+                .setDescription('Posición del ítem según /middleman trade list')
+                .setRequired(true)
+                .setMinValue(1),
+            ),
+        )
+        .addSubcommand((sub) => sub.setName('list').setDescription('Ver los ítems declarados en el ticket')),
+    ),
   category: 'Middleman',
-  examples: ['/middleman open', '/middleman claim', '/middleman close'],
+  examples: [
+    '/middleman open',
+    '/middleman claim',
+    '/middleman transfer to:@middleman',
+    '/middleman trade add',
+    '/middleman deliver',
+    '/middleman close',
+    '/middleman cancel reason:Participante inactivo',
+    '/middleman reopen reason:Cerrado por error',
+    '/middleman profile user:@middleman page:2',
+  ],
   async execute(interaction) {
+    const group = interaction.options.getSubcommandGroup(false);
     const subcommand = interaction.options.getSubcommand();
 
+    if (group === 'trade') {
+      switch (subcommand) {
+        case 'add':
+          await handleTradeAdd(interaction);
+          return;
+        case 'remove':
+          await handleTradeRemove(interaction);
+          return;
+        case 'list':
+          await handleTradeList(interaction);
+          return;
+        default:
+          break;
+      }
+    }
+
     switch (subcommand) {
       case 'open':
         await handleOpen(interaction);
@@ -283,9 +893,27 @@ export const middlemanCommand: Command = {
       case 'claim':
         await handleClaim(interaction);
         break;
+      case 'unclaim':
+        await handleUnclaim(interaction);
+        break;
+      case 'transfer':
+        await handleTransfer(interaction);
+        break;
+      case 'deliver':
+        await handleDeliver(interaction);
+        break;
       case 'close':
         await handleClose(interaction);
         break;
+      case 'cancel':
+        await handleCancel(interaction);
+        break;
+      case 'reopen':
+        await handleReopen(interaction);
+        break;
+      case 'profile':
+        await handleProfile(interaction);
+        break;
       default:
         await interaction.reply({
           embeds: [
@@ -0,0 +1,165 @@
+// ============================================================================
+// RUTA: src/presentation/commands/middleman/review.ts
+// ============================================================================
+
+import { type ChatInputCommandInteraction, SlashCommandBuilder } from 'discord.js';
+
+import { EditReviewUseCase } from '@/application/usecases/middleman/EditReviewUseCase';
+import { ModerateReviewUseCase } from '@/application/usecases/middleman/ModerateReviewUseCase';
+import { prisma } from '@/infrastructure/db/prisma';
+import { PrismaReviewRepository } from '@/infrastructure/repositories/PrismaReviewRepository';
+import type { Command } from '@/presentation/commands/types';
+import { embedFactory } from '@/presentation/embeds/EmbedFactory';
+import { REVIEW_LIMITS } from '@/shared/config/constants';
+import { ratingService } from '@/shared/config/rating';
+import { UnauthorizedActionError } from '@/shared/errors/domain.errors';
+import { logger } from '@/shared/logger/pino';
+import { hasPermissionGroup } from '@/shared/utils/discord.utils';
+
+const reviewRepo = new PrismaReviewRepository(prisma);
+
+const editUseCase = new EditReviewUseCase(
+  reviewRepo,
+  logger,
+  REVIEW_LIMITS.editWindowMs,
+  embedFactory,
+  ratingService,
+);
+const moderateUseCase = new ModerateReviewUseCase(reviewRepo, logger);
+
+const handleEdit = async (interaction: ChatInputCommandInteraction): Promise<void> => {
+  await interaction.deferReply({ ephemeral: true });
+
+  const review = await editUseCase.execute(
+    {
+      reviewId: interaction.options.getInteger('id', true),
+      reviewerId: interaction.user.id,
+      rating: interaction.options.getInteger('rating', true),
+      comment: interaction.options.getString('comment') ?? undefined,
+    },
+    interaction.client,
+  );
+
+  await interaction.editReply({
+    embeds: [
+      embedFactory.success({
+        title: 'Reseña actualizada',
+        description: `Tu reseña #${review.id} ahora tiene ${'⭐'.repeat(review.rating.getValue())} y se actualizó en el canal de reseñas.`,
+      }),
+    ],
+  });
+};
+
+const handleModeration = async (interaction: ChatInputCommandInteraction, action: 'hide' | 'delete'): Promise<void> => {
+  if (!hasPermissionGroup(interaction.memberPermissions, 'staff')) {
+    throw new UnauthorizedActionError(`review:${action}`);
+  }
+
+  await interaction.deferReply({ ephemeral: true });
+
+  const review = await moderateUseCase.execute(
+    {
+      reviewId: interaction.options.getInteger('id', true),
+      moderatorId: interaction.user.id,
+      action,
+      reason: interaction.options.getString('reason', true),
+    },
+    interaction.client,
+  );
+
+  await interaction.editReply({
+    embeds: [
+      embedFactory.success({
+        title: action === 'hide' ? 'Reseña oculta' : 'Reseña eliminada',
+        description:
+          action === 'hide'
+            ? `La reseña #${review.id} para <@${review.middlemanId}> ya no es pública ni cuenta en su promedio.`
+            : `Se borró el texto de la reseña #${review.id} para <@${review.middlemanId}>; su autor no podrá volver a reseñar el ticket.`,
+      }),
+    ],
+  });
+};
+
+export const reviewCommand: Command = {
+  data: new SlashCommandBuilder()
+    .setName('review')
+    .setDescription('Gestiona las reseñas de middleman')
+    .addSubcommand((sub) =>
+      sub
+        .setName('edit')
+        .setDescription(`Editar tu reseña (durante las primeras ${REVIEW_LIMITS.editWindowMs / 3_600_000} horas)`)
+        .addIntegerOption((option) =>
+          option.setName('id').setDescription('Número de la reseña (ver pie del mensaje)').setRequired(true).setMinValue(1),
+        )
+        .addIntegerOption((option) =>
+          option.setName('rating').setDescription('Nueva calificación').setRequired(true).setMinValue(1).setMaxValue(5),
+        )
+        .addStringOption((option) =>
+          option
+            .setName('comment')
+            .setDescription('Nuevo comentario; omítelo para dejar la reseña sin comentario')
+            .setMaxLength(REVIEW_LIMITS.commentMaxLength),
+        ),
+    )
+    .addSubcommand((sub) =>
+      sub
+        .setName('hide')
+        .setDescription('Ocultar una reseña y excluirla de los promedios (solo staff)')
+        .addIntegerOption((option) =>
+          option.setName('id').setDescription('Número de la reseña').setRequired(true).setMinValue(1),
+        )
+        .addStringOption((option) =>
+          option
+            .setName('reason')
+            .setDescription('Motivo de la moderación')
+            .setRequired(true)
+            .setMinLength(3)
+            .setMaxLength(REVIEW_LIMITS.moderationReasonMaxLength),
+        ),
+    )
+    .addSubcommand((sub) =>
+      sub
+        .setName('delete')
+        .setDescription('Eliminar una reseña y bloquear que se vuelva a enviar (solo staff)')
+        .addIntegerOption((option) =>
+          option.setName('id').setDescription('Número de la reseña').setRequired(true).setMinValue(1),
+        )
+        .addStringOption((option) =>
+          option
+            .setName('reason')
+            .setDescription('Motivo de la eliminación')
+            .setRequired(true)
+            .setMinLength(3)
+            .setMaxLength(REVIEW_LIMITS.moderationReasonMaxLength),
+        ),
+    ),
+  category: 'Middleman',
+  examples: [
+    '/review edit id:12 rating:4 comment:Todo correcto, algo lento',
+    '/review hide id:12 reason:Lenguaje ofensivo',
+    '/review delete id:12 reason:Reseña de prueba',
+  ],
+  async execute(interaction) {
+    const subcommand = interaction.options.getSubcommand();
+
+    switch (subcommand) {
+      case 'edit':
+        await handleEdit(interaction);
+        break;
+      case 'hide':
+      case 'delete':
+        await handleModeration(interaction, subcommand);
+        break;
+      default:
+        await interaction.reply({
+          embeds: [
+            embedFactory.error({
+              title: 'Subcomando no disponible',
+              description: 'La acción solicitada no está implementada.',
+            }),
+          ],
+          ephemeral: true,
+        });
+    }
+  },
+};
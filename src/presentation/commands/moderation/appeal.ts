@@ -0,0 +1,198 @@
+// ============================================================================
+// RUTA: src/presentation/commands/moderation/appeal.ts
+// ============================================================================
+
+import {
+  type ButtonInteraction,
+  type ChatInputCommandInteraction,
+  type Client,
+  SlashCommandBuilder,
+  type TextChannel,
+} from 'discord.js';
+
+import { ResolveWarnAppealUseCase } from '@/application/usecases/warn/ResolveWarnAppealUseCase';
+import { SubmitWarnAppealUseCase } from '@/application/usecases/warn/SubmitWarnAppealUseCase';
+import { prisma } from '@/infrastructure/db/prisma';
+import { PrismaWarnAppealRepository } from '@/infrastructure/repositories/PrismaWarnAppealRepository';
+import { PrismaWarnRepository } from '@/infrastructure/repositories/PrismaWarnRepository';
+import type { Command } from '@/presentation/commands/types';
+import {
+  buildWarnAppealButtonRow,
+  WARN_APPEAL_ACCEPT_CUSTOM_ID,
+  WARN_APPEAL_REJECT_CUSTOM_ID,
+} from '@/presentation/components/buttons/WarnAppealButtons';
+import { WarnAppealModal, warnAppealModalCustomId } from '@/presentation/components/modals/WarnAppealModal';
+import { registerButtonHandler, registerModalRoute } from '@/presentation/components/registry';
+import { embedFactory } from '@/presentation/embeds/EmbedFactory';
+import { notificationQueue } from '@/presentation/jobs/notificationQueue';
+import { env } from '@/shared/config/env';
+import { warnExpiryPolicy } from '@/shared/config/warn-expiry';
+import { mapErrorToDiscordResponse } from '@/shared/errors/discord-error-mapper';
+import { UnauthorizedActionError } from '@/shared/errors/domain.errors';
+import { logger } from '@/shared/logger/pino';
+import { hasPermissionGroup } from '@/shared/utils/discord.utils';
+
+const warnRepo = new PrismaWarnRepository(prisma);
+const appealRepo = new PrismaWarnAppealRepository(prisma);
+
+const submitAppealUseCase = new SubmitWarnAppealUseCase(
+  warnRepo,
+  appealRepo,
+  logger,
+  buildWarnAppealButtonRow,
+  embedFactory,
+);
+const resolveAppealUseCase = new ResolveWarnAppealUseCase(appealRepo, warnRepo, prisma, logger, warnExpiryPolicy);
+
+const fetchAppealsChannel = async (client: Client): Promise<TextChannel | null> => {
+  if (!env.APPEALS_CHANNEL_ID) {
+    return null;
+  }
+
+  const channel = await client.channels.fetch(env.APPEALS_CHANNEL_ID).catch(() => null);
+
+  return channel && channel.isTextBased() ? (channel as TextChannel) : null;
+};
+
+const appealsChannelMissingEmbed = () =>
+  embedFactory.error({
+    title: 'Apelaciones no disponibles',
+    description:
+      'No hay un canal de apelaciones configurado. Un administrador debe establecer `APPEALS_CHANNEL_ID` en el .env.',
+  });
+
+const handleWarnAppeal = async (interaction: ChatInputCommandInteraction): Promise<void> => {
+  if (!interaction.guildId) {
+    throw new UnauthorizedActionError('appeal:command:guild-only');
+  }
+
+  const warnId = interaction.options.getInteger('id', true);
+
+  if (!(await fetchAppealsChannel(interaction.client))) {
+    await interaction.reply({ embeds: [appealsChannelMissingEmbed()], ephemeral: true });
+    return;
+  }
+
+  await submitAppealUseCase.assertCanAppeal(warnId, interaction.user.id);
+
+  await interaction.showModal(WarnAppealModal.build(warnId));
+};
+
+registerModalRoute(warnAppealModalCustomId, async (interaction, params) => {
+  if (!interaction.guildId) {
+    throw new UnauthorizedActionError('appeal:command:guild-only');
+  }
+
+  const warnId = Number(params.warnId);
+
+  try {
+    const channel = await fetchAppealsChannel(interaction.client);
+    if (!channel) {
+      await interaction.reply({ embeds: [appealsChannelMissingEmbed()], ephemeral: true });
+      return;
+    }
+
+    const { justification } = WarnAppealModal.parseFields(interaction);
+    await submitAppealUseCase.execute(
+      { warnId, userId: interaction.user.id, guildId: interaction.guildId, justification },
+      channel,
+    );
+
+    await interaction.reply({
+      embeds: [
+        embedFactory.success({
+          title: 'Apelación enviada',
+          description: `El staff revisará tu apelación de la advertencia #${warnId}. Te avisaremos por mensaje directo.`,
+        }),
+      ],
+      ephemeral: true,
+    });
+  } catch (error) {
+    const { shouldLogStack, referenceId, ...payload } = mapErrorToDiscordResponse(error);
+
+    if (shouldLogStack) {
+      logger.error({ err: error, referenceId }, 'Error inesperado al registrar apelación de advertencia.');
+    } else {
+      logger.warn({ err: error, referenceId }, 'Error controlado al registrar apelación de advertencia.');
+    }
+
+    await interaction.reply({ ...payload, ephemeral: true });
+  }
+});
+
+const resolveAppeal = async (interaction: ButtonInteraction, accept: boolean): Promise<void> => {
+  if (!hasPermissionGroup(interaction.memberPermissions, 'staff')) {
+    throw new UnauthorizedActionError(accept ? 'appeal:accept' : 'appeal:reject');
+  }
+
+  await interaction.deferUpdate();
+
+  const { appeal, summary } = await resolveAppealUseCase.execute({
+    messageId: interaction.message.id,
+    reviewerId: interaction.user.id,
+    accept,
+  });
+
+  await interaction.editReply({
+    embeds: [
+      ...interaction.message.embeds.slice(0, 1),
+      embedFactory.warnAppealResolution({
+        warnId: appeal.warnId,
+        accepted: accept,
+        reviewerId: interaction.user.id,
+        totalPoints: summary.totalPoints,
+      }),
+    ],
+    components: [],
+  });
+
+  const notice = accept
+    ? embedFactory.success({
+        title: 'Tu apelación fue aceptada',
+        description: `El staff retiró la advertencia #${appeal.warnId}. Tus puntos vigentes ahora son ${summary.totalPoints}.`,
+      })
+    : embedFactory.error({
+        title: 'Tu apelación fue rechazada',
+        description: `El staff revisó tu apelación y la advertencia #${appeal.warnId} se mantiene.`,
+      });
+
+  await notificationQueue.enqueue(appeal.userId.toString(), 'warn-appeal-outcome', { embeds: [notice] });
+};
+
+registerButtonHandler(WARN_APPEAL_ACCEPT_CUSTOM_ID, async (interaction) => resolveAppeal(interaction, true));
+registerButtonHandler(WARN_APPEAL_REJECT_CUSTOM_ID, async (interaction) => resolveAppeal(interaction, false));
+
+export const appealCommand: Command = {
+  data: new SlashCommandBuilder()
+    .setName('appeal')
+    .setDescription('Apelar sanciones recibidas')
+    .addSubcommand((sub) =>
+      sub
+        .setName('warn')
+        .setDescription('Apelar una de tus advertencias')
+        .addIntegerOption((option) =>
+          option.setName('id').setDescription('ID de la advertencia').setRequired(true).setMinValue(1),
+        ),
+    ),
+  category: 'Moderación',
+  examples: ['/appeal warn id:12'],
+  async execute(interaction) {
+    const subcommand = interaction.options.getSubcommand();
+
+    switch (subcommand) {
+      case 'warn':
+        await handleWarnAppeal(interaction);
+        break;
+      default:
+        await interaction.reply({
+          embeds: [
+            embedFactory.error({
+              title: 'Subcomando no disponible',
+              description: 'La acción solicitada no está implementada.',
+            }),
+          ],
+          ephemeral: true,
+        });
+    }
+  },
+};
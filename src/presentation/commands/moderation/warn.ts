@@ -0,0 +1,371 @@
+// ============================================================================
+// RUTA: src/presentation/commands/moderation/warn.ts
+// ============================================================================
+
+import { type ButtonInteraction, type ChatInputCommandInteraction, type Guild, SlashCommandBuilder } from 'discord.js';
+
+import { WarnEnforcementService } from '@/application/services/WarnEnforcementService';
+import { AddWarnUseCase, summarizeWarns } from '@/application/usecases/warn/AddWarnUseCase';
+import { ListWarnsUseCase } from '@/application/usecases/warn/ListWarnsUseCase';
+import { RemoveWarnUseCase } from '@/application/usecases/warn/RemoveWarnUseCase';
+import { WarnEnforcementMode, WarnSeverity } from '@/domain/entities/Warn';
+import { prisma } from '@/infrastructure/db/prisma';
+import { PrismaGuildSettingsRepository } from '@/infrastructure/repositories/PrismaGuildSettingsRepository';
+import { PrismaWarnRepository } from '@/infrastructure/repositories/PrismaWarnRepository';
+import { PrismaWarnSanctionRepository } from '@/infrastructure/repositories/PrismaWarnSanctionRepository';
+import type { Command } from '@/presentation/commands/types';
+import {
+  buildWarnSanctionButtonRow,
+  WARN_SANCTION_APPLY_CUSTOM_ID,
+  WARN_SANCTION_DISMISS_CUSTOM_ID,
+} from '@/presentation/components/buttons/WarnSanctionButtons';
+import { registerButtonHandler } from '@/presentation/components/registry';
+import { embedFactory } from '@/presentation/embeds/EmbedFactory';
+import { notificationQueue } from '@/presentation/jobs/notificationQueue';
+import { warnExpiryPolicy } from '@/shared/config/warn-expiry';
+import { UnauthorizedActionError } from '@/shared/errors/domain.errors';
+import { logger } from '@/shared/logger/pino';
+import { hasPermissionGroup } from '@/shared/utils/discord.utils';
+
+const warnRepo = new PrismaWarnRepository(prisma);
+const settingsRepo = new PrismaGuildSettingsRepository(prisma);
+
+const addWarnUseCase = new AddWarnUseCase(warnRepo, logger, warnExpiryPolicy);
+const removeWarnUseCase = new RemoveWarnUseCase(warnRepo, logger, warnExpiryPolicy);
+const listWarnsUseCase = new ListWarnsUseCase(warnRepo, warnExpiryPolicy);
+const enforcementService = new WarnEnforcementService(
+  new PrismaWarnSanctionRepository(prisma),
+  settingsRepo,
+  logger,
+  embedFactory,
+);
+
+const SEVERITY_CHOICES = [
+  { name: 'Leve (1 punto)', value: WarnSeverity.MINOR },
+  { name: 'Grave (2 puntos)', value: WarnSeverity.MAJOR },
+  { name: 'Crítica (3 puntos)', value: WarnSeverity.CRITICAL },
+];
+
+const ENFORCEMENT_MODE_CHOICES = [
+  { name: 'Aplicar automáticamente', value: WarnEnforcementMode.AUTO },
+  { name: 'Sugerir y confirmar', value: WarnEnforcementMode.CONFIRM },
+];
+
+const ensureStaff = (interaction: ChatInputCommandInteraction | ButtonInteraction, action: string): void => {
+  if (!hasPermissionGroup(interaction.memberPermissions, 'staff')) {
+    throw new UnauthorizedActionError(`warn:${action}`);
+  }
+};
+
+const ensureGuild = (interaction: ChatInputCommandInteraction | ButtonInteraction): Guild => {
+  if (!interaction.guild) {
+    throw new UnauthorizedActionError('warn:command:guild-only');
+  }
+
+  return interaction.guild;
+};
+
+const handleAdd = async (interaction: ChatInputCommandInteraction): Promise<void> => {
+  ensureStaff(interaction, 'add');
+  const guild = ensureGuild(interaction);
+
+  const target = interaction.options.getUser('user', true);
+  const severity = interaction.options.getString('severity', true) as WarnSeverity;
+  const reason = interaction.options.getString('reason', true);
+
+  await interaction.deferReply({ ephemeral: true });
+
+  const { warn, summary } = await addWarnUseCase.execute({
+    userId: target.id,
+    moderatorId: interaction.user.id,
+    severity,
+    reason,
+  });
+
+  const outcome = await enforcementService.enforce(guild, { warn, summary, moderatorId: interaction.user.id });
+
+  const message = await interaction.editReply({
+    embeds: [
+      embedFactory.warnRecorded({
+        warnId: warn.id,
+        userTag: `<@${target.id}>`,
+        moderatorTag: `<@${interaction.user.id}>`,
+        severity: warn.severity,
+        reason: warn.reason,
+        totalPoints: summary.totalPoints,
+        recommendedAction: summary.recommendedAction,
+      }),
+      ...(outcome.kind === 'none' ? [] : [outcome.embed]),
+    ],
+    components: outcome.kind === 'pending' ? [buildWarnSanctionButtonRow()] : [],
+  });
+
+  if (outcome.kind === 'pending') {
+    await enforcementService.bindMessage(outcome.sanction.id, message.id);
+  }
+
+  await notificationQueue.enqueue(target.id, 'warn-notice', {
+    embeds: [
+      embedFactory.warning({
+        title: `Recibiste una advertencia en ${guild.name}`,
+        description: [
+          `**Motivo:** ${warn.reason ?? 'Sin motivo especificado.'}`,
+          `**Puntos vigentes:** ${summary.totalPoints}`,
+          '',
+          `Si crees que es un error puedes usar \`/appeal warn id:${warn.id}\` en el servidor.`,
+        ].join('\n'),
+      }),
+    ],
+  });
+};
+
+const handleRemove = async (interaction: ChatInputCommandInteraction): Promise<void> => {
+  ensureStaff(interaction, 'remove');
+
+  const warnId = interaction.options.getInteger('id', true);
+
+  await interaction.deferReply({ ephemeral: true });
+
+  const { warn, summary } = await removeWarnUseCase.execute({
+    warnId,
+    moderatorId: interaction.user.id,
+  });
+
+  await interaction.editReply({
+    embeds: [
+      embedFactory.success({
+        title: `Advertencia #${warn.id} eliminada`,
+        description: `La advertencia de <@${warn.userId.toString()}> ya no cuenta para su historial.`,
+        fields: [
+          { name: 'Puntos acumulados', value: String(summary.totalPoints), inline: true },
+          {
+            name: 'Acción recomendada',
+            value: embedFactory.recommendedActionLabel(summary.recommendedAction),
+            inline: true,
+          },
+        ],
+      }),
+    ],
+  });
+};
+
+const handleList = async (interaction: ChatInputCommandInteraction): Promise<void> => {
+  ensureStaff(interaction, 'list');
+
+  const target = interaction.options.getUser('user', true);
+  const page = interaction.options.getInteger('page') ?? 1;
+
+  await interaction.deferReply({ ephemeral: true });
+
+  const result = await listWarnsUseCase.execute({ userId: target.id, page });
+
+  await interaction.editReply({
+    embeds: [
+      embedFactory.warnList({
+        userTag: target.tag,
+        warns: result.warns.map(({ warn, active, expiresAt }) => ({
+          id: warn.id,
+          severity: warn.severity,
+          reason: warn.reason,
+          moderatorId: warn.moderatorId?.toString() ?? null,
+          createdAt: warn.createdAt,
+          active,
+          expiresAt,
+        })),
+        page: result.page,
+        totalPages: result.totalPages,
+        totalWarns: result.totalWarns,
+        activeWarns: result.activeWarns,
+        totalPoints: result.summary.totalPoints,
+        recommendedAction: result.summary.recommendedAction,
+      }),
+    ],
+  });
+};
+
+const handleHistory = async (interaction: ChatInputCommandInteraction): Promise<void> => {
+  ensureStaff(interaction, 'history');
+
+  const target = interaction.options.getUser('user', true);
+
+  await interaction.deferReply({ ephemeral: true });
+
+  const warns = await warnRepo.listByUser(BigInt(target.id));
+  const activeWarns = warns.filter((warn) => warnExpiryPolicy.isActive(warn));
+  const summary = summarizeWarns(activeWarns);
+  const countBySeverity = (severity: WarnSeverity): number =>
+    warns.filter((warn) => warn.severity === severity).length;
+  const formatDate = (date: Date | undefined): string =>
+    date ? `<t:${Math.floor(date.getTime() / 1000)}:R>` : '—';
+
+  await interaction.editReply({
+    embeds: [
+      embedFactory.stats({
+        title: `Historial disciplinario de ${target.tag}`,
+        stats: {
+          'Advertencias totales': warns.length,
+          Vigentes: activeWarns.length,
+          Expiradas: warns.length - activeWarns.length,
+          Leves: countBySeverity(WarnSeverity.MINOR),
+          Graves: countBySeverity(WarnSeverity.MAJOR),
+          Críticas: countBySeverity(WarnSeverity.CRITICAL),
+          'Puntos acumulados': summary.totalPoints,
+          'Acción recomendada': embedFactory.recommendedActionLabel(summary.recommendedAction),
+          'Primera advertencia': formatDate(warns.at(-1)?.createdAt),
+          'Última advertencia': formatDate(warns.at(0)?.createdAt),
+        },
+      }),
+    ],
+  });
+};
+
+const handleConfig = async (interaction: ChatInputCommandInteraction): Promise<void> => {
+  if (!hasPermissionGroup(interaction.memberPermissions, 'admin')) {
+    throw new UnauthorizedActionError('warn:config');
+  }
+
+  const guild = ensureGuild(interaction);
+  const mode = interaction.options.getString('mode', true) as WarnEnforcementMode;
+
+  await settingsRepo.setWarnEnforcementMode(BigInt(guild.id), mode);
+
+  await interaction.reply({
+    embeds: [
+      embedFactory.success({
+        title: 'Configuración de sanciones actualizada',
+        description:
+          mode === WarnEnforcementMode.AUTO
+            ? 'Las sanciones recomendadas se aplicarán automáticamente al registrar una advertencia.'
+            : 'Las sanciones recomendadas se sugerirán al staff y requerirán confirmación manual.',
+      }),
+    ],
+    ephemeral: true,
+  });
+};
+
+registerButtonHandler(WARN_SANCTION_APPLY_CUSTOM_ID, async (interaction) => {
+  ensureStaff(interaction, 'sanction:apply');
+  const guild = ensureGuild(interaction);
+
+  await interaction.deferUpdate();
+  const outcome = await enforcementService.confirm(guild, interaction.message.id, interaction.user.id);
+
+  await interaction.editReply({
+    embeds: [...interaction.message.embeds.slice(0, 1), ...(outcome.kind === 'none' ? [] : [outcome.embed])],
+    components: [],
+  });
+});
+
+registerButtonHandler(WARN_SANCTION_DISMISS_CUSTOM_ID, async (interaction) => {
+  ensureStaff(interaction, 'sanction:dismiss');
+
+  await interaction.deferUpdate();
+  const embed = await enforcementService.dismiss(interaction.message.id, interaction.user.id);
+
+  await interaction.editReply({
+    embeds: [...interaction.message.embeds.slice(0, 1), embed],
+    components: [],
+  });
+});
+
+export const warnCommand: Command = {
+  data: new SlashCommandBuilder()
+    .setName('warn')
+    .setDescription('Gestiona las advertencias de los miembros (solo staff)')
+    .addSubcommand((sub) =>
+      sub
+        .setName('add')
+        .setDescription('Registrar una advertencia para un miembro')
+        .addUserOption((option) =>
+          option.setName('user').setDescription('Miembro a advertir').setRequired(true),
+        )
+        .addStringOption((option) =>
+          option
+            .setName('severity')
+            .setDescription('Gravedad de la falta')
+            .setRequired(true)
+            .addChoices(...SEVERITY_CHOICES),
+        )
+        .addStringOption((option) =>
+          option.setName('reason').setDescription('Motivo de la advertencia').setRequired(true).setMaxLength(500),
+        ),
+    )
+    .addSubcommand((sub) =>
+      sub
+        .setName('remove')
+        .setDescription('Eliminar una advertencia por su ID')
+        .addIntegerOption((option) =>
+          option.setName('id').setDescription('ID de la advertencia').setRequired(true).setMinValue(1),
+        ),
+    )
+    .addSubcommand((sub) =>
+      sub
+        .setName('list')
+        .setDescription('Listar las advertencias de un miembro')
+        .addUserOption((option) =>
+          option.setName('user').setDescription('Miembro a consultar').setRequired(true),
+        )
+        .addIntegerOption((option) =>
+          option.setName('page').setDescription('Página a mostrar').setMinValue(1),
+        ),
+    )
+    .addSubcommand((sub) =>
+      sub
+        .setName('history')
+        .setDescription('Ver el resumen disciplinario de un miembro')
+        .addUserOption((option) =>
+          option.setName('user').setDescription('Miembro a consultar').setRequired(true),
+        ),
+    )
+    .addSubcommand((sub) =>
+      sub
+        .setName('config')
+        .setDescription('Elegir cómo se aplican las sanciones recomendadas (solo administradores)')
+        .addStringOption((option) =>
+          option
+            .setName('mode')
+            .setDescription('Modo de aplicación de sanciones')
+            .setRequired(true)
+            .addChoices(...ENFORCEMENT_MODE_CHOICES),
+        ),
+    ),
+  category: 'Moderación',
+  examples: [
+    '/warn add user:@usuario severity:Leve reason:Spam en #general',
+    '/warn remove id:12',
+    '/warn list user:@usuario page:2',
+    '/warn history user:@usuario',
+    '/warn config mode:Sugerir y confirmar',
+  ],
+  async execute(interaction) {
+    const subcommand = interaction.options.getSubcommand();
+
+    switch (subcommand) {
+      case 'add':
+        await handleAdd(interaction);
+        break;
+      case 'remove':
+        await handleRemove(interaction);
+        break;
+      case 'list':
+        await handleList(interaction);
+        break;
+      case 'history':
+        await handleHistory(interaction);
+        break;
+      case 'config':
+        await handleConfig(interaction);
+        break;
+      default:
+        await interaction.reply({
+          embeds: [
+            embedFactory.error({
+              title: 'Subcomando no disponible',
+              description: 'La acción solicitada no está implementada.',
+            }),
+          ],
+          ephemeral: true,
+        });
+    }
+  },
+};
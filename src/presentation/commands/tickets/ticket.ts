@@ -0,0 +1,131 @@
+// ============================================================================
+// RUTA: src/presentation/commands/tickets/ticket.ts
+// ============================================================================
+
+import { ChannelType, type ChatInputCommandInteraction, SlashCommandBuilder } from 'discord.js';
+
+import { TranscriptService } from '@/application/services/TranscriptService';
+import { CloseTicketUseCase } from '@/application/usecases/tickets/CloseTicketUseCase';
+import { prisma } from '@/infrastructure/db/prisma';
+import { FileTranscriptRepository } from '@/infrastructure/repositories/FileTranscriptRepository';
+import { PrismaTicketRepository } from '@/infrastructure/repositories/PrismaTicketRepository';
+import type { Command } from '@/presentation/commands/types';
+import { embedFactory } from '@/presentation/embeds/EmbedFactory';
+import { ticketChannelLifecycle } from '@/presentation/jobs/ticketChannelLifecycle';
+import { renderTranscriptHtml } from '@/presentation/transcripts/TranscriptHtmlRenderer';
+import { env } from '@/shared/config/env';
+import { TicketNotFoundError, UnauthorizedActionError } from '@/shared/errors/domain.errors';
+import { logger } from '@/shared/logger/pino';
+import { hasPermissionGroup } from '@/shared/utils/discord.utils';
+
+const transcriptService = new TranscriptService(
+  new FileTranscriptRepository(env.TRANSCRIPTS_DIR),
+  logger,
+  renderTranscriptHtml,
+  env.STAFF_LOG_CHANNEL_ID,
+  embedFactory,
+);
+const ticketRepo = new PrismaTicketRepository(prisma);
+const closeUseCase = new CloseTicketUseCase(ticketRepo, logger, embedFactory);
+
+const handleClose = async (interaction: ChatInputCommandInteraction): Promise<void> => {
+  const channel = interaction.channel;
+
+  if (!interaction.guild || !channel || channel.type !== ChannelType.GuildText) {
+    throw new UnauthorizedActionError('ticket:close:channel');
+  }
+
+  const ticket = await ticketRepo.findByChannelId(BigInt(channel.id));
+  if (!ticket) {
+    throw new TicketNotFoundError(channel.id);
+  }
+
+  await interaction.deferReply({ ephemeral: true });
+  await closeUseCase.execute(
+    {
+      ticketId: ticket.id,
+      actorId: interaction.user.id,
+      reason: interaction.options.getString('reason') ?? undefined,
+      isStaff: hasPermissionGroup(interaction.memberPermissions, 'staff'),
+    },
+    channel,
+  );
+  await transcriptService.archive(ticket.id, channel);
+  await ticketChannelLifecycle.schedule(ticket.id, BigInt(channel.id));
+
+  await interaction.editReply({
+    embeds: [
+      embedFactory.success({
+        title: 'Ticket cerrado',
+        description: 'El transcript quedó archivado y el canal se archivará automáticamente.',
+      }),
+    ],
+  });
+};
+
+const handleTranscript = async (interaction: ChatInputCommandInteraction): Promise<void> => {
+  if (!hasPermissionGroup(interaction.memberPermissions, 'staff')) {
+    throw new UnauthorizedActionError('ticket:transcript');
+  }
+
+  const ticketId = interaction.options.getInteger('id', true);
+
+  await interaction.deferReply({ ephemeral: true });
+  const transcript = await transcriptService.load(ticketId);
+
+  await interaction.editReply({
+    embeds: [
+      embedFactory.info({
+        title: `Transcript · Ticket #${ticketId}`,
+        description: 'Adjuntamos el historial archivado del canal en formato HTML y JSON.',
+      }),
+    ],
+    files: transcriptService.buildAttachments(ticketId, transcript),
+  });
+};
+
+export const ticketCommand: Command = {
+  data: new SlashCommandBuilder()
+    .setName('ticket')
+    .setDescription('Herramientas de gestión de tickets')
+    .addSubcommand((sub) =>
+      sub
+        .setName('close')
+        .setDescription('Cerrar el ticket general de este canal (staff o autor del ticket)')
+        .addStringOption((option) =>
+          option.setName('reason').setDescription('Motivo del cierre').setMinLength(3).setMaxLength(500),
+        ),
+    )
+    .addSubcommand((sub) =>
+      sub
+        .setName('transcript')
+        .setDescription('Reenviar el transcript archivado de un ticket (solo staff)')
+        .addIntegerOption((option) =>
+          option.setName('id').setDescription('ID del ticket').setRequired(true).setMinValue(1),
+        ),
+    ),
+  category: 'Tickets',
+  examples: ['/ticket close reason:Compra completada', '/ticket transcript id:42'],
+  async execute(interaction) {
+    const subcommand = interaction.options.getSubcommand();
+
+    switch (subcommand) {
+      case 'close':
+        await handleClose(interaction);
+        break;
+      case 'transcript':
+        await handleTranscript(interaction);
+        break;
+      default:
+        await interaction.reply({
+          embeds: [
+            embedFactory.error({
+              title: 'Subcomando no disponible',
+              description: 'La acción solicitada no está implementada.',
+            }),
+          ],
+          ephemeral: true,
+        });
+    }
+  },
+};
@@ -0,0 +1,144 @@
+// ============================================================================
+// RUTA: src/presentation/commands/tickets/tickets.ts
+// ============================================================================
+
+import { type ChatInputCommandInteraction, type ModalSubmitInteraction, SlashCommandBuilder } from 'discord.js';
+
+import { OpenTicketUseCase } from '@/application/usecases/tickets/OpenTicketUseCase';
+import { TicketType } from '@/domain/entities/types';
+import { prisma } from '@/infrastructure/db/prisma';
+import { PrismaTicketRepository } from '@/infrastructure/repositories/PrismaTicketRepository';
+import type { Command } from '@/presentation/commands/types';
+import { buildTicketPanelMenuRow, TICKET_PANEL_MENU_CUSTOM_ID } from '@/presentation/components/menus/TicketPanelMenu';
+import { TicketModal, ticketModalCustomId } from '@/presentation/components/modals/TicketModal';
+import { registerModalHandler, registerSelectMenuHandler } from '@/presentation/components/registry';
+import { embedFactory } from '@/presentation/embeds/EmbedFactory';
+import { env } from '@/shared/config/env';
+import { GENERAL_TICKET_TYPES, type GeneralTicketType, isGeneralTicketType } from '@/shared/config/ticket-types';
+import { UnauthorizedActionError, ValidationFailedError } from '@/shared/errors/domain.errors';
+import { logger } from '@/shared/logger/pino';
+import { hasPermissionGroup } from '@/shared/utils/discord.utils';
+
+const ticketRepo = new PrismaTicketRepository(prisma);
+const openTicketUseCase = new OpenTicketUseCase(ticketRepo, prisma, logger, embedFactory);
+
+/** Categoría y rol de staff por tipo; si no hay valor específico se usan los globales. */
+const resolveTicketRouting = (type: GeneralTicketType): { categoryId?: string; staffRoleId?: string } => {
+  const routing: Record<GeneralTicketType, { categoryId?: string; staffRoleId?: string }> = {
+    [TicketType.BUY]: { categoryId: env.TICKET_BUY_CATEGORY_ID, staffRoleId: env.TICKET_BUY_ROLE_ID },
+    [TicketType.SELL]: { categoryId: env.TICKET_SELL_CATEGORY_ID, staffRoleId: env.TICKET_SELL_ROLE_ID },
+    [TicketType.ROBUX]: { categoryId: env.TICKET_ROBUX_CATEGORY_ID, staffRoleId: env.TICKET_ROBUX_ROLE_ID },
+    [TicketType.NITRO]: { categoryId: env.TICKET_NITRO_CATEGORY_ID, staffRoleId: env.TICKET_NITRO_ROLE_ID },
+    [TicketType.DECOR]: { categoryId: env.TICKET_DECOR_CATEGORY_ID, staffRoleId: env.TICKET_DECOR_ROLE_ID },
+  };
+
+  return {
+    categoryId: routing[type].categoryId ?? env.TICKETS_CATEGORY_ID,
+    staffRoleId: routing[type].staffRoleId ?? env.STAFF_ROLE_ID,
+  };
+};
+
+const handleOpenTicket = async (interaction: ModalSubmitInteraction, type: GeneralTicketType): Promise<void> => {
+  if (!interaction.guild) {
+    throw new UnauthorizedActionError('tickets:open:guild-only');
+  }
+
+  await interaction.deferReply({ ephemeral: true });
+  const { ticket, channel } = await openTicketUseCase.execute(
+    {
+      userId: interaction.user.id,
+      guildId: interaction.guild.id,
+      type,
+      answers: TicketModal.parseAnswers(interaction, type),
+      ...resolveTicketRouting(type),
+    },
+    interaction.guild,
+  );
+
+  await interaction.editReply({
+    embeds: [
+      embedFactory.success({
+        title: 'Ticket creado',
+        description: `Tu ticket #${ticket.id} fue creado correctamente en ${channel.toString()}.`,
+      }),
+    ],
+  });
+};
+
+registerSelectMenuHandler(TICKET_PANEL_MENU_CUSTOM_ID, async (interaction) => {
+  const [selected] = interaction.values;
+
+  if (!selected || !isGeneralTicketType(selected)) {
+    throw new ValidationFailedError({ type: selected });
+  }
+
+  await interaction.showModal(TicketModal.build(selected));
+});
+
+for (const type of GENERAL_TICKET_TYPES) {
+  registerModalHandler(ticketModalCustomId(type), async (interaction) => {
+    await handleOpenTicket(interaction, type);
+  });
+}
+
+const handlePanel = async (interaction: ChatInputCommandInteraction): Promise<void> => {
+  if (!hasPermissionGroup(interaction.memberPermissions, 'staff')) {
+    throw new UnauthorizedActionError('tickets:panel');
+  }
+
+  const channel = interaction.channel;
+  if (!interaction.inGuild() || !channel?.isSendable()) {
+    throw new UnauthorizedActionError('tickets:panel:channel');
+  }
+
+  await channel.send({
+    embeds: [
+      embedFactory.info({
+        title: 'Centro de tickets',
+        description:
+          'Selecciona en el menú el tipo de ticket que necesitas. Se abrirá un formulario y crearemos un canal privado con el staff.',
+      }),
+    ],
+    components: [buildTicketPanelMenuRow()],
+  });
+
+  await interaction.reply({
+    embeds: [
+      embedFactory.success({
+        title: 'Panel publicado',
+        description: 'El panel de tickets quedó publicado en este canal.',
+      }),
+    ],
+    ephemeral: true,
+  });
+};
+
+export const ticketsCommand: Command = {
+  data: new SlashCommandBuilder()
+    .setName('tickets')
+    .setDescription('Sistema de tickets generales de la tienda')
+    .addSubcommand((sub) =>
+      sub.setName('panel').setDescription('Publicar el panel de apertura de tickets (solo staff)'),
+    ),
+  category: 'Tickets',
+  examples: ['/tickets panel'],
+  async execute(interaction) {
+    const subcommand = interaction.options.getSubcommand();
+
+    switch (subcommand) {
+      case 'panel':
+        await handlePanel(interaction);
+        break;
+      default:
+        await interaction.reply({
+          embeds: [
+            embedFactory.error({
+              title: 'Subcomando no disponible',
+              description: 'La acción solicitada no está implementada.',
+            }),
+          ],
+          ephemeral: true,
+        });
+    }
+  },
+};
@@ -5,12 +5,13 @@
 import type {
   ChatInputCommandInteraction,
   SlashCommandBuilder,
+  SlashCommandOptionsOnlyBuilder,
   SlashCommandSubcommandsOnlyBuilder,
 } from 'discord.js';
 
 import type { CommandCooldownKey } from '@/shared/config/constants';
 
-type SlashBuilder = SlashCommandBuilder | SlashCommandSubcommandsOnlyBuilder;
+type SlashBuilder = SlashCommandBuilder | SlashCommandOptionsOnlyBuilder | SlashCommandSubcommandsOnlyBuilder;
 
 type CommandCategory =
   | 'General'
@@ -0,0 +1,17 @@
+// =============================================================================
+// RUTA: src/presentation/components/buttons/FinalizationButtons.ts
+// =============================================================================
+
+import { ActionRowBuilder, ButtonBuilder, ButtonStyle } from 'discord.js';
+
+export const FINALIZE_TRADE_CUSTOM_ID = 'middleman-finalize';
+
+export const buildFinalizationButtonRow = (disabled = false): ActionRowBuilder<ButtonBuilder> =>
+  new ActionRowBuilder<ButtonBuilder>().addComponents(
+    new ButtonBuilder()
+      .setCustomId(FINALIZE_TRADE_CUSTOM_ID)
+      .setLabel('Recibí mis ítems')
+      .setEmoji('📥')
+      .setStyle(ButtonStyle.Success)
+      .setDisabled(disabled),
+  );
@@ -0,0 +1,37 @@
+// =============================================================================
+// RUTA: src/presentation/components/buttons/LeaderboardButtons.ts
+// =============================================================================
+
+import { ActionRowBuilder, ButtonBuilder, ButtonStyle } from 'discord.js';
+
+import type { LeaderboardBoard, LeaderboardPeriod } from '@/domain/entities/types';
+import { defineCustomId } from '@/presentation/components/registry';
+
+/** Cada botón lleva la página de destino y el autor del comando, así la navegación no depende de memoria. */
+export const leaderboardPageCustomId = defineCustomId('leaderboard', ['board', 'period', 'page', 'ownerId']);
+
+export interface LeaderboardButtonTarget {
+  readonly board: LeaderboardBoard;
+  readonly period: LeaderboardPeriod;
+  readonly ownerId: string;
+}
+
+export const buildLeaderboardButtonRow = (
+  target: LeaderboardButtonTarget,
+  page: number,
+  totalPages: number,
+): ActionRowBuilder<ButtonBuilder> =>
+  new ActionRowBuilder<ButtonBuilder>().addComponents(
+    new ButtonBuilder()
+      .setCustomId(leaderboardPageCustomId.build({ ...target, page: page - 1 }))
+      .setLabel('Anterior')
+      .setEmoji('◀️')
+      .setStyle(ButtonStyle.Secondary)
+      .setDisabled(page <= 1),
+    new ButtonBuilder()
+      .setCustomId(leaderboardPageCustomId.build({ ...target, page: page + 1 }))
+      .setLabel('Siguiente')
+      .setEmoji('▶️')
+      .setStyle(ButtonStyle.Secondary)
+      .setDisabled(page >= totalPages),
+  );
@@ -4,8 +4,13 @@
 
 import { ActionRowBuilder, ButtonBuilder, ButtonStyle } from 'discord.js';
 
+import { defineCustomId } from '@/presentation/components/registry';
+
 export const REVIEW_BUTTON_CUSTOM_ID = 'middleman-review';
 
+/** Botón de los recordatorios por DM: lleva ticket y middleman porque fuera del canal no hay invitación. */
+export const reviewReminderCustomId = defineCustomId('review-reminder', ['ticketId', 'middlemanId']);
+
 export const buildReviewButtonRow = (): ActionRowBuilder<ButtonBuilder> =>
   new ActionRowBuilder<ButtonBuilder>().addComponents(
     new ButtonBuilder()
@@ -14,3 +19,12 @@ export const buildReviewButtonRow = (): ActionRowBuilder<ButtonBuilder> =>
       .setEmoji('⭐')
       .setStyle(ButtonStyle.Primary),
   );
+
+export const buildReviewReminderButtonRow = (ticketId: number, middlemanId: bigint): ActionRowBuilder<ButtonBuilder> =>
+  new ActionRowBuilder<ButtonBuilder>().addComponents(
+    new ButtonBuilder()
+      .setCustomId(reviewReminderCustomId.build({ ticketId, middlemanId }))
+      .setLabel('Enviar reseña')
+      .setEmoji('⭐')
+      .setStyle(ButtonStyle.Primary),
+  );
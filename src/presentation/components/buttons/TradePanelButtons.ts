@@ -0,0 +1,31 @@
+// =============================================================================
+// RUTA: src/presentation/components/buttons/TradePanelButtons.ts
+// =============================================================================
+
+import { ActionRowBuilder, ButtonBuilder, ButtonStyle } from 'discord.js';
+
+export const TRADE_PANEL_CONFIRM_CUSTOM_ID = 'middleman-panel:confirm';
+export const TRADE_PANEL_ADD_ITEMS_CUSTOM_ID = 'middleman-panel:add-items';
+export const TRADE_PANEL_CANCEL_CUSTOM_ID = 'middleman-panel:cancel';
+
+export const buildTradePanelButtonRow = (disabled = false): ActionRowBuilder<ButtonBuilder> =>
+  new ActionRowBuilder<ButtonBuilder>().addComponents(
+    new ButtonBuilder()
+      .setCustomId(TRADE_PANEL_CONFIRM_CUSTOM_ID)
+      .setLabel('Confirmar')
+      .setEmoji('✅')
+      .setStyle(ButtonStyle.Success)
+      .setDisabled(disabled),
+    new ButtonBuilder()
+      .setCustomId(TRADE_PANEL_ADD_ITEMS_CUSTOM_ID)
+      .setLabel('Agregar ítems')
+      .setEmoji('📦')
+      .setStyle(ButtonStyle.Primary)
+      .setDisabled(disabled),
+    new ButtonBuilder()
+      .setCustomId(TRADE_PANEL_CANCEL_CUSTOM_ID)
+      .setLabel('Cancelar')
+      .setEmoji('✖️')
+      .setStyle(ButtonStyle.Danger)
+      .setDisabled(disabled),
+  );
@@ -0,0 +1,22 @@
+// =============================================================================
+// RUTA: src/presentation/components/buttons/WarnAppealButtons.ts
+// =============================================================================
+
+import { ActionRowBuilder, ButtonBuilder, ButtonStyle } from 'discord.js';
+
+export const WARN_APPEAL_ACCEPT_CUSTOM_ID = 'warn-appeal:accept';
+export const WARN_APPEAL_REJECT_CUSTOM_ID = 'warn-appeal:reject';
+
+export const buildWarnAppealButtonRow = (): ActionRowBuilder<ButtonBuilder> =>
+  new ActionRowBuilder<ButtonBuilder>().addComponents(
+    new ButtonBuilder()
+      .setCustomId(WARN_APPEAL_ACCEPT_CUSTOM_ID)
+      .setLabel('Aceptar apelación')
+      .setEmoji('✅')
+      .setStyle(ButtonStyle.Success),
+    new ButtonBuilder()
+      .setCustomId(WARN_APPEAL_REJECT_CUSTOM_ID)
+      .setLabel('Rechazar')
+      .setEmoji('❌')
+      .setStyle(ButtonStyle.Danger),
+  );
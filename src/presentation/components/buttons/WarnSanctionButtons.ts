@@ -0,0 +1,21 @@
+// =============================================================================
+// RUTA: src/presentation/components/buttons/WarnSanctionButtons.ts
+// =============================================================================
+
+import { ActionRowBuilder, ButtonBuilder, ButtonStyle } from 'discord.js';
+
+export const WARN_SANCTION_APPLY_CUSTOM_ID = 'warn-sanction:apply';
+export const WARN_SANCTION_DISMISS_CUSTOM_ID = 'warn-sanction:dismiss';
+
+export const buildWarnSanctionButtonRow = (): ActionRowBuilder<ButtonBuilder> =>
+  new ActionRowBuilder<ButtonBuilder>().addComponents(
+    new ButtonBuilder()
+      .setCustomId(WARN_SANCTION_APPLY_CUSTOM_ID)
+      .setLabel('Aplicar sanción')
+      .setEmoji('🔨')
+      .setStyle(ButtonStyle.Danger),
+    new ButtonBuilder()
+      .setCustomId(WARN_SANCTION_DISMISS_CUSTOM_ID)
+      .setLabel('Descartar')
+      .setStyle(ButtonStyle.Secondary),
+  );
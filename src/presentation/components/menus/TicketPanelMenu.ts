@@ -0,0 +1,24 @@
+// =============================================================================
+// RUTA: src/presentation/components/menus/TicketPanelMenu.ts
+// =============================================================================
+
+import { ActionRowBuilder, StringSelectMenuBuilder } from 'discord.js';
+
+import { GENERAL_TICKET_TYPES, TICKET_TYPE_DEFINITIONS } from '@/shared/config/ticket-types';
+
+export const TICKET_PANEL_MENU_CUSTOM_ID = 'ticket-panel:open';
+
+export const buildTicketPanelMenuRow = (): ActionRowBuilder<StringSelectMenuBuilder> =>
+  new ActionRowBuilder<StringSelectMenuBuilder>().addComponents(
+    new StringSelectMenuBuilder()
+      .setCustomId(TICKET_PANEL_MENU_CUSTOM_ID)
+      .setPlaceholder('Selecciona el tipo de ticket')
+      .addOptions(
+        GENERAL_TICKET_TYPES.map((type) => ({
+          label: TICKET_TYPE_DEFINITIONS[type].label,
+          description: TICKET_TYPE_DEFINITIONS[type].description,
+          emoji: TICKET_TYPE_DEFINITIONS[type].emoji,
+          value: type,
+        })),
+      ),
+  );
@@ -0,0 +1,39 @@
+// =============================================================================
+// RUTA: src/presentation/components/modals/CancelTradeModal.ts
+// =============================================================================
+
+import {
+  ActionRowBuilder,
+  ModalBuilder,
+  TextInputBuilder,
+  TextInputStyle,
+} from 'discord.js';
+
+export const CANCEL_TRADE_MODAL_CUSTOM_ID = 'middleman-cancel';
+
+const REASON_ID = 'reason';
+
+export class CancelTradeModal {
+  public static build(): ModalBuilder {
+    return new ModalBuilder()
+      .setCustomId(CANCEL_TRADE_MODAL_CUSTOM_ID)
+      .setTitle('Cancelar trade')
+      .addComponents(
+        new ActionRowBuilder<TextInputBuilder>().addComponents(
+          new TextInputBuilder()
+            .setCustomId(REASON_ID)
+            .setLabel('Motivo de la cancelación')
+            .setStyle(TextInputStyle.Paragraph)
+            .setRequired(true)
+            .setMinLength(3)
+            .setMaxLength(500),
+        ),
+      );
+  }
+
+  public static parseFields(interaction: { fields: { getTextInputValue(id: string): string } }): {
+    reason: string;
+  } {
+    return { reason: interaction.fields.getTextInputValue(REASON_ID).trim() };
+  }
+}
@@ -10,7 +10,8 @@ import {
   TextInputStyle,
 } from 'discord.js';
 
-import type { OpenMiddlemanChannelUseCase } from '@/application/usecases/middleman/OpenMiddlemanChannelUseCase';
+import type { TradePanelService } from '@/application/services/TradePanelService';
+import type { OpenTicketUseCase } from '@/application/usecases/tickets/OpenTicketUseCase';
 import { embedFactory } from '@/presentation/embeds/EmbedFactory';
 import { env } from '@/shared/config/env';
 import { mapErrorToDiscordResponse } from '@/shared/errors/discord-error-mapper';
@@ -57,7 +58,8 @@ export class MiddlemanModal {
 
   public static async handleSubmit(
     interaction: ModalSubmitInteraction,
-    useCase: OpenMiddlemanChannelUseCase,
+    useCase: OpenTicketUseCase,
+    panels: TradePanelService,
   ): Promise<void> {
     if (!interaction.guild) {
       await interaction.reply({
@@ -106,6 +108,8 @@ export class MiddlemanModal {
         interaction.guild,
       );
 
+      await panels.refresh(ticket.id, channel);
+
       await interaction.editReply({
         embeds: [
           embedFactory.success({
@@ -9,13 +9,17 @@ import {
   TextInputStyle,
 } from 'discord.js';
 
+import { defineCustomId } from '@/presentation/components/registry';
+
+export const reviewModalCustomId = defineCustomId('review', ['ticketId', 'middlemanId']);
+
 const RATING_ID = 'rating';
 const COMMENT_ID = 'comment';
 
 export class ReviewModal {
-  public static build(customId: string): ModalBuilder {
+  public static build(ticketId: number, middlemanId: string): ModalBuilder {
     return new ModalBuilder()
-      .setCustomId(customId)
+      .setCustomId(reviewModalCustomId.build({ ticketId, middlemanId }))
       .setTitle('Califica al middleman')
       .addComponents(
         new ActionRowBuilder<TextInputBuilder>().addComponents(
@@ -0,0 +1,53 @@
+// ============================================================================
+// RUTA: src/presentation/components/modals/TicketModal.ts
+// ============================================================================
+
+import {
+  ActionRowBuilder,
+  ModalBuilder,
+  type ModalSubmitInteraction,
+  TextInputBuilder,
+  TextInputStyle,
+} from 'discord.js';
+
+import { type GeneralTicketType, TICKET_TYPE_DEFINITIONS } from '@/shared/config/ticket-types';
+
+const CUSTOM_ID_PREFIX = 'ticket-open:';
+
+export const ticketModalCustomId = (type: GeneralTicketType): string => `${CUSTOM_ID_PREFIX}${type}`;
+
+export class TicketModal {
+  public static build(type: GeneralTicketType): ModalBuilder {
+    const definition = TICKET_TYPE_DEFINITIONS[type];
+
+    return new ModalBuilder()
+      .setCustomId(ticketModalCustomId(type))
+      .setTitle(`Ticket de ${definition.label}`)
+      .addComponents(
+        definition.questions.map((question) => {
+          const input = new TextInputBuilder()
+            .setCustomId(question.id)
+            .setLabel(question.label)
+            .setStyle(question.paragraph ? TextInputStyle.Paragraph : TextInputStyle.Short)
+            .setRequired(question.required ?? true)
+            .setMaxLength(question.paragraph ? 1000 : 200);
+
+          if (question.placeholder) {
+            input.setPlaceholder(question.placeholder);
+          }
+
+          return new ActionRowBuilder<TextInputBuilder>().addComponents(input);
+        }),
+      );
+  }
+
+  public static parseAnswers(
+    interaction: ModalSubmitInteraction,
+    type: GeneralTicketType,
+  ): { question: string; answer: string }[] {
+    return TICKET_TYPE_DEFINITIONS[type].questions.map((question) => ({
+      question: question.label,
+      answer: interaction.fields.getTextInputValue(question.id).trim(),
+    }));
+  }
+}
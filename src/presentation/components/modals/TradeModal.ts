@@ -0,0 +1,101 @@
+// =============================================================================
+// RUTA: src/presentation/components/modals/TradeModal.ts
+// =============================================================================
+
+import {
+  ActionRowBuilder,
+  ModalBuilder,
+  TextInputBuilder,
+  TextInputStyle,
+} from 'discord.js';
+
+import { TRADE_LIMITS } from '@/shared/config/constants';
+import { InvalidTradeItemsError, TooManyTradeItemsError } from '@/shared/errors/domain.errors';
+
+export const TRADE_MODAL_CUSTOM_ID = 'middleman-trade';
+
+const ROBLOX_ID = 'roblox';
+const ITEMS_ID = 'items';
+
+const LEADING_QUANTITY = /^(\d+)\s*[x×]\s*(.+)$/iu;
+const TRAILING_QUANTITY = /^(.+?)\s*[x×]\s*(\d+)$/iu;
+
+interface ParsedTradeItem {
+  readonly name: string;
+  readonly quantity: number;
+}
+
+const parseItemLine = (line: string): ParsedTradeItem => {
+  const leading = line.match(LEADING_QUANTITY);
+  const trailing = leading ? null : line.match(TRAILING_QUANTITY);
+  const [quantityRaw, name] = leading
+    ? [leading[1], leading[2]]
+    : trailing
+      ? [trailing[2], trailing[1]]
+      : ['1', line];
+
+  const quantity = Number.parseInt(quantityRaw ?? '', 10);
+  const trimmedName = name?.trim() ?? '';
+
+  if (
+    !Number.isFinite(quantity) ||
+    quantity < 1 ||
+    quantity > TRADE_LIMITS.maxItemQuantity ||
+    trimmedName.length === 0 ||
+    trimmedName.length > TRADE_LIMITS.itemName
+  ) {
+    throw new InvalidTradeItemsError(line);
+  }
+
+  return { name: trimmedName, quantity };
+};
+
+export class TradeModal {
+  public static build(): ModalBuilder {
+    return new ModalBuilder()
+      .setCustomId(TRADE_MODAL_CUSTOM_ID)
+      .setTitle('Declarar ítems del trade')
+      .addComponents(
+        new ActionRowBuilder<TextInputBuilder>().addComponents(
+          new TextInputBuilder()
+            .setCustomId(ROBLOX_ID)
+            .setLabel('Tu usuario de Roblox')
+            .setStyle(TextInputStyle.Short)
+            .setRequired(true)
+            .setMinLength(3)
+            .setMaxLength(50),
+        ),
+        new ActionRowBuilder<TextInputBuilder>().addComponents(
+          new TextInputBuilder()
+            .setCustomId(ITEMS_ID)
+            .setLabel('Ítems que entregas (uno por línea)')
+            .setStyle(TextInputStyle.Paragraph)
+            .setRequired(true)
+            .setMaxLength(1000)
+            .setPlaceholder('2x Dragon Egg\nShadow Dragon'),
+        ),
+      );
+  }
+
+  public static parseFields(interaction: { fields: { getTextInputValue(id: string): string } }): {
+    robloxUsername: string;
+    items: ParsedTradeItem[];
+  } {
+    const robloxUsername = interaction.fields.getTextInputValue(ROBLOX_ID).trim();
+    const lines = interaction.fields
+      .getTextInputValue(ITEMS_ID)
+      .split(/\r?\n|,/u)
+      .map((line) => line.trim())
+      .filter((line) => line.length > 0);
+
+    if (lines.length === 0) {
+      throw new InvalidTradeItemsError('');
+    }
+
+    if (lines.length > TRADE_LIMITS.maxItemsPerTrade) {
+      throw new TooManyTradeItemsError(TRADE_LIMITS.maxItemsPerTrade);
+    }
+
+    return { robloxUsername, items: lines.map(parseItemLine) };
+  }
+}
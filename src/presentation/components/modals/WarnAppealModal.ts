@@ -0,0 +1,42 @@
+// =============================================================================
+// RUTA: src/presentation/components/modals/WarnAppealModal.ts
+// =============================================================================
+
+import {
+  ActionRowBuilder,
+  ModalBuilder,
+  TextInputBuilder,
+  TextInputStyle,
+} from 'discord.js';
+
+import { defineCustomId } from '@/presentation/components/registry';
+
+const JUSTIFICATION_ID = 'justification';
+
+// El usuario no viaja en el id: Discord solo entrega el modal a quien lo abrió.
+export const warnAppealModalCustomId = defineCustomId('warn-appeal', ['warnId']);
+
+export class WarnAppealModal {
+  public static build(warnId: number): ModalBuilder {
+    return new ModalBuilder()
+      .setCustomId(warnAppealModalCustomId.build({ warnId }))
+      .setTitle(`Apelar advertencia #${warnId}`)
+      .addComponents(
+        new ActionRowBuilder<TextInputBuilder>().addComponents(
+          new TextInputBuilder()
+            .setCustomId(JUSTIFICATION_ID)
+            .setLabel('¿Por qué crees que la advertencia es injusta?')
+            .setStyle(TextInputStyle.Paragraph)
+            .setRequired(true)
+            .setMinLength(20)
+            .setMaxLength(1000),
+        ),
+      );
+  }
+
+  public static parseFields(interaction: { fields: { getTextInputValue(id: string): string } }): {
+    justification: string;
+  } {
+    return { justification: interaction.fields.getTextInputValue(JUSTIFICATION_ID).trim() };
+  }
+}
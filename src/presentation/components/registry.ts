@@ -2,14 +2,50 @@
 // RUTA: src/presentation/components/registry.ts
 // ============================================================================
 
-import type { ButtonInteraction, ModalSubmitInteraction } from 'discord.js';
+import type { ButtonInteraction, ModalSubmitInteraction, StringSelectMenuInteraction } from 'discord.js';
 import { Collection } from 'discord.js';
 
+import { env } from '@/shared/config/env';
+import {
+  createCustomIdCodec,
+  type CustomIdCodec,
+  type CustomIdParams,
+  customIdPrefix,
+} from '@/shared/utils/customId';
+
 type ButtonHandler = (interaction: ButtonInteraction) => Promise<void>;
 type ModalHandler = (interaction: ModalSubmitInteraction) => Promise<void>;
+type SelectMenuHandler = (interaction: StringSelectMenuInteraction) => Promise<void>;
+
+type RouteHandler<TInteraction, TKey extends string> = (
+  interaction: TInteraction,
+  params: CustomIdParams<TKey>,
+) => Promise<void>;
+
+/** Ruta por prefijo: valida el `customId` firmado y devuelve el handler con los parámetros ya resueltos. */
+type Route<TInteraction> = (customId: string) => ((interaction: TInteraction) => Promise<void>) | null;
 
 export const buttonHandlers = new Collection<string, ButtonHandler>();
 export const modalHandlers = new Collection<string, ModalHandler>();
+export const selectMenuHandlers = new Collection<string, SelectMenuHandler>();
+
+const buttonRoutes = new Collection<string, Route<ButtonInteraction>>();
+const modalRoutes = new Collection<string, Route<ModalSubmitInteraction>>();
+
+const createRoute =
+  <TInteraction, TKey extends string>(
+    codec: CustomIdCodec<TKey>,
+    handler: RouteHandler<TInteraction, TKey>,
+  ): Route<TInteraction> =>
+  (customId) => {
+    const params = codec.parse(customId);
+
+    return params ? async (interaction) => handler(interaction, params) : null;
+  };
+
+/** Declara un `customId` firmado con el secreto del bot; se usa junto a `registerButtonRoute`/`registerModalRoute`. */
+export const defineCustomId = <const TKey extends string>(prefix: string, keys: readonly TKey[]): CustomIdCodec<TKey> =>
+  createCustomIdCodec(prefix, keys, env.CUSTOM_ID_SECRET ?? env.DISCORD_TOKEN);
 
 export const registerButtonHandler = (customId: string, handler: ButtonHandler): void => {
   if (buttonHandlers.has(customId)) {
@@ -24,3 +60,37 @@ export const registerModalHandler = (customId: string, handler: ModalHandler): v
   }
   modalHandlers.set(customId, handler);
 };
+
+export const registerSelectMenuHandler = (customId: string, handler: SelectMenuHandler): void => {
+  if (selectMenuHandlers.has(customId)) {
+    throw new Error(`El menú con customId ${customId} ya está registrado.`);
+  }
+  selectMenuHandlers.set(customId, handler);
+};
+
+export const registerButtonRoute = <TKey extends string>(
+  codec: CustomIdCodec<TKey>,
+  handler: RouteHandler<ButtonInteraction, TKey>,
+): void => {
+  if (buttonRoutes.has(codec.prefix)) {
+    throw new Error(`La ruta de botones ${codec.prefix} ya está registrada.`);
+  }
+  buttonRoutes.set(codec.prefix, createRoute(codec, handler));
+};
+
+export const registerModalRoute = <TKey extends string>(
+  codec: CustomIdCodec<TKey>,
+  handler: RouteHandler<ModalSubmitInteraction, TKey>,
+): void => {
+  if (modalRoutes.has(codec.prefix)) {
+    throw new Error(`La ruta de modales ${codec.prefix} ya está registrada.`);
+  }
+  modalRoutes.set(codec.prefix, createRoute(codec, handler));
+};
+
+/** Busca primero un handler con `customId` exacto y, si no existe, una ruta por prefijo con firma válida. */
+export const resolveButtonHandler = (customId: string): ButtonHandler | null =>
+  buttonHandlers.get(customId) ?? buttonRoutes.get(customIdPrefix(customId))?.(customId) ?? null;
+
+export const resolveModalHandler = (customId: string): ModalHandler | null =>
+  modalHandlers.get(customId) ?? modalRoutes.get(customIdPrefix(customId))?.(customId) ?? null;
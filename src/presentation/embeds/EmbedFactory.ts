@@ -5,6 +5,8 @@
 import type { APIEmbedField } from 'discord.js';
 import { EmbedBuilder } from 'discord.js';
 
+import { LeaderboardBoard, LeaderboardPeriod } from '@/domain/entities/types';
+import { WarnSanctionStatus } from '@/domain/entities/Warn';
 import { COLORS, EMBED_LIMITS } from '@/shared/config/constants';
 import { clampEmbedField, splitIntoEmbedFields, truncateText } from '@/shared/utils/discord.utils';
 
@@ -23,26 +25,56 @@ interface TicketEmbedData {
   readonly description: string;
 }
 
+interface TradeSummaryItem {
+  readonly name: string;
+  readonly quantity: number;
+}
+
+interface TradeSummaryEntry {
+  readonly userId: bigint | string;
+  readonly robloxUsername: string;
+  readonly confirmed: boolean;
+  readonly items: ReadonlyArray<TradeSummaryItem>;
+}
+
 interface MiddlemanPanelData {
   readonly ticketId: string | number;
   readonly buyerTag: string;
   readonly sellerTag: string;
   readonly status: string;
+  readonly middlemanTag?: string;
+  readonly trades?: ReadonlyArray<TradeSummaryEntry>;
   readonly notes?: string;
 }
 
+interface TradeSummaryData {
+  readonly ticketId: string | number;
+  readonly trades: ReadonlyArray<TradeSummaryEntry>;
+}
+
+interface TradeCancelledData {
+  readonly ticketId: string | number;
+  readonly actorTag: string;
+  readonly reason: string;
+}
+
 interface ReviewRequestData {
   readonly middlemanTag: string;
   readonly tradeSummary: string;
 }
 
 interface ReviewPublishedData {
+  readonly reviewId: number;
   readonly ticketId: number;
   readonly middlemanTag: string;
   readonly reviewerTag: string;
   readonly rating: number;
   readonly comment: string | null;
+  /** Media simple de las reseñas visibles. */
   readonly averageRating: number;
+  /** Media bayesiana; es la que se usa para ordenar el leaderboard. */
+  readonly weightedRating: number;
+  readonly edited?: boolean;
 }
 
 interface StatsEmbedData {
@@ -50,6 +82,134 @@ interface StatsEmbedData {
   readonly stats: Record<string, string | number>;
 }
 
+interface WarnRecordedData {
+  readonly warnId: number;
+  readonly userTag: string;
+  readonly moderatorTag: string;
+  readonly severity: string;
+  readonly reason: string | null;
+  readonly totalPoints: number;
+  readonly recommendedAction: string;
+}
+
+interface WarnListEntry {
+  readonly id: number;
+  readonly severity: string;
+  readonly reason: string | null;
+  readonly moderatorId: string | null;
+  readonly createdAt: Date;
+  readonly active: boolean;
+  readonly expiresAt: Date | null;
+}
+
+interface WarnListData {
+  readonly userTag: string;
+  readonly warns: ReadonlyArray<WarnListEntry>;
+  readonly page: number;
+  readonly totalPages: number;
+  readonly totalWarns: number;
+  readonly activeWarns: number;
+  readonly totalPoints: number;
+  readonly recommendedAction: string;
+}
+
+interface WarnSanctionData {
+  readonly warnId: number;
+  readonly userId: string;
+  readonly action: string;
+  readonly status: WarnSanctionStatus;
+  readonly actorId?: string;
+  readonly failure?: string | null;
+}
+
+interface WarnAppealData {
+  readonly warnId: number;
+  readonly userId: string;
+  readonly severity: string;
+  readonly warnReason: string | null;
+  readonly warnedAt: Date;
+  readonly justification: string;
+}
+
+interface WarnAppealResolutionData {
+  readonly warnId: number;
+  readonly accepted: boolean;
+  readonly reviewerId: string;
+  readonly totalPoints: number;
+}
+
+interface LeaderboardEmbedEntry {
+  readonly rank: number;
+  readonly userId: bigint;
+  readonly score: number;
+  readonly count: number;
+  readonly rawScore?: number;
+}
+
+interface LeaderboardEmbedData {
+  readonly board: LeaderboardBoard;
+  readonly period: LeaderboardPeriod;
+  readonly entries: ReadonlyArray<LeaderboardEmbedEntry>;
+  readonly page: number;
+  readonly totalPages: number;
+  readonly generatedAt: Date;
+  /** Las tablas fijas del canal no tienen botones, así que no muestran la página. */
+  readonly paginated?: boolean;
+}
+
+interface MiddlemanProfileReview {
+  readonly reviewerId: bigint;
+  readonly rating: number;
+  readonly comment: string | null;
+  readonly createdAt: Date;
+}
+
+interface MiddlemanProfileData {
+  readonly middlemanId: bigint;
+  readonly averageRating: number | null;
+  readonly weightedRating: number;
+  readonly totalReviews: number;
+  /** Índice 0 = reseñas de 1 estrella. */
+  readonly distribution: ReadonlyArray<number>;
+  readonly closedClaims: number;
+  readonly completedClaims: number;
+  readonly forcedCloses: number;
+  readonly completionRate: number | null;
+  readonly medianCloseMs: number | null;
+  readonly reviews: ReadonlyArray<MiddlemanProfileReview>;
+  readonly page: number;
+  readonly totalPages: number;
+}
+
+const HISTOGRAM_WIDTH = 10;
+
+const LEADERBOARD_TITLES: Record<LeaderboardBoard, string> = {
+  [LeaderboardBoard.TRADES]: '🏆 Top traders',
+  [LeaderboardBoard.MIDDLEMEN]: '🛡️ Middlemans más activos',
+  [LeaderboardBoard.REVIEWS]: '⭐ Middlemans mejor valorados',
+};
+
+const LEADERBOARD_PERIOD_LABELS: Record<LeaderboardPeriod, string> = {
+  [LeaderboardPeriod.WEEK]: 'Últimos 7 días',
+  [LeaderboardPeriod.MONTH]: 'Últimos 30 días',
+  [LeaderboardPeriod.ALL]: 'Histórico',
+};
+
+const LEADERBOARD_MEDALS = ['🥇', '🥈', '🥉'];
+
+const WARN_SEVERITY_LABELS: Record<string, string> = {
+  MINOR: 'Leve (1 pt)',
+  MAJOR: 'Grave (2 pts)',
+  CRITICAL: 'Crítica (3 pts)',
+};
+
+const RECOMMENDED_ACTION_LABELS: Record<string, string> = {
+  NONE: 'Ninguna',
+  TIMEOUT_1H: 'Timeout de 1 hora',
+  TIMEOUT_24H: 'Timeout de 24 horas',
+  BAN: 'Baneo',
+};
+
 export class EmbedFactory {
   public success(payload: BaseEmbed): EmbedBuilder {
     return this.base({
@@ -116,6 +276,39 @@ export class EmbedFactory {
         { name: 'Comprador', value: clampEmbedField(data.buyerTag), inline: true },
         { name: 'Vendedor', value: clampEmbedField(data.sellerTag), inline: true },
         { name: 'Estado', value: clampEmbedField(data.status), inline: true },
+        {
+          name: 'Middleman',
+          value: clampEmbedField(data.middlemanTag ?? 'Pendiente de asignar'),
+          inline: true,
+        },
+        ...this.tradeFields(data.trades ?? []),
+      ],
+    });
+  }
+
+  public tradeSummary(data: TradeSummaryData): EmbedBuilder {
+    const fields = this.tradeFields(data.trades);
+
+    return this.base({
+      color: COLORS.primary,
+      title: `Ítems declarados · Ticket #${data.ticketId}`,
+      description:
+        fields.length > 0
+          ? undefined
+          : 'Aún no hay ítems declarados. Usa `/middleman trade add` para registrar los tuyos.',
+      fields,
+    });
+  }
+
+  public tradeCancelled(data: TradeCancelledData): EmbedBuilder {
+    return this.base({
+      color: COLORS.danger,
+      title: `Trade cancelado · Ticket #${data.ticketId}`,
+      description:
+        'La transacción fue cancelada y el ticket quedó cerrado. No se registrarán estadísticas ni reseñas para este trade.',
+      fields: [
+        { name: 'Cancelado por', value: clampEmbedField(data.actorTag), inline: true },
+        { name: 'Motivo', value: clampEmbedField(data.reason) },
       ],
     });
   }
@@ -132,7 +325,7 @@ export class EmbedFactory {
   public reviewPublished(data: ReviewPublishedData): EmbedBuilder {
     const fullStars = '⭐'.repeat(data.rating);
     const emptyStars = '☆'.repeat(Math.max(0, 5 - data.rating));
-    const formattedAverage = data.averageRating.toFixed(2);
+    const formattedRating = `${data.weightedRating.toFixed(2)} ⭐ (media ${data.averageRating.toFixed(2)})`;
 
     const commentBlock = data.comment
       ? `\n\n${truncateText(data.comment, EMBED_LIMITS.description)}`
@@ -154,12 +347,18 @@ export class EmbedFactory {
           inline: true,
         },
         {
-          name: 'Promedio actualizado',
-          value: clampEmbedField(`${formattedAverage} ⭐`),
+          name: 'Valoración actualizada',
+          value: clampEmbedField(formattedRating),
           inline: true,
         },
       ],
-      footer: data.comment ? undefined : 'Sin comentarios adicionales.',
+      footer: [
+        `Reseña #${data.reviewId}`,
+        data.edited ? 'Editada' : null,
+        data.comment ? null : 'Sin comentarios adicionales.',
+      ]
+        .filter((part) => part !== null)
+        .join(' · '),
     });
   }
 
@@ -177,6 +376,251 @@ export class EmbedFactory {
     });
   }
 
+  public warnRecorded(data: WarnRecordedData): EmbedBuilder {
+    return this.base({
+      color: data.recommendedAction === 'NONE' ? COLORS.warning : COLORS.danger,
+      title: `Advertencia #${data.warnId} registrada`,
+      description: data.reason ?? 'Sin motivo especificado.',
+      fields: [
+        { name: 'Usuario', value: clampEmbedField(data.userTag), inline: true },
+        { name: 'Moderador', value: clampEmbedField(data.moderatorTag), inline: true },
+        { name: 'Severidad', value: clampEmbedField(this.warnSeverityLabel(data.severity)), inline: true },
+        { name: 'Puntos vigentes', value: clampEmbedField(String(data.totalPoints)), inline: true },
+        {
+          name: 'Acción recomendada',
+          value: clampEmbedField(this.recommendedActionLabel(data.recommendedAction)),
+          inline: true,
+        },
+      ],
+    });
+  }
+
+  public warnList(data: WarnListData): EmbedBuilder {
+    const fields = data.warns.map((warn) => ({
+      name: `${warn.active ? '🟠' : '⚪'} #${warn.id} · ${this.warnSeverityLabel(warn.severity)}`,
+      value: clampEmbedField(
+        [
+          warn.reason ?? 'Sin motivo especificado.',
+          `Moderador: ${warn.moderatorId ? `<@${warn.moderatorId}>` : 'Desconocido'}`,
+          `Fecha: <t:${Math.floor(warn.createdAt.getTime() / 1000)}:f>`,
+          this.warnExpiryLine(warn),
+        ].join('\n'),
+      ),
+    }));
+
+    return this.base({
+      color: COLORS.info,
+      title: `Advertencias de ${data.userTag}`,
+      description: [
+        `**Puntos vigentes:** ${data.totalPoints}`,
+        `**Advertencias vigentes:** ${data.activeWarns} de ${data.totalWarns}`,
+        `**Acción recomendada:** ${this.recommendedActionLabel(data.recommendedAction)}`,
+        fields.length > 0 ? undefined : '\nEl usuario no tiene advertencias registradas.',
+      ]
+        .filter(Boolean)
+        .join('\n'),
+      fields,
+      footer: `Página ${data.page}/${data.totalPages} · ${data.totalWarns} advertencia(s) en total`,
+    });
+  }
+
+  public warnSanction(data: WarnSanctionData): EmbedBuilder {
+    const action = this.recommendedActionLabel(data.action);
+    const presentation: Record<WarnSanctionStatus, { color: number; title: string; description: string }> = {
+      [WarnSanctionStatus.PENDING]: {
+        color: COLORS.warning,
+        title: 'Sanción sugerida',
+        description: `Los puntos acumulados recomiendan aplicar **${action}**. Confirma o descarta la sanción.`,
+      },
+      [WarnSanctionStatus.APPLIED]: {
+        color: COLORS.success,
+        title: 'Sanción aplicada',
+        description: `Se aplicó **${action}** al miembro.`,
+      },
+      [WarnSanctionStatus.DISMISSED]: {
+        color: COLORS.info,
+        title: 'Sanción descartada',
+        description: `El staff decidió no aplicar **${action}**.`,
+      },
+      [WarnSanctionStatus.FAILED]: {
+        color: COLORS.danger,
+        title: 'No se pudo aplicar la sanción',
+        description: data.failure ?? 'Discord rechazó la sanción.',
+      },
+    };
+    const view = presentation[data.status];
+
+    return this.base({
+      color: view.color,
+      title: view.title,
+      description: view.description,
+      fields: [
+        { name: 'Miembro', value: clampEmbedField(`<@${data.userId}>`), inline: true },
+        { name: 'Advertencia', value: clampEmbedField(`#${data.warnId}`), inline: true },
+        ...(data.actorId
+          ? [{ name: 'Resuelta por', value: clampEmbedField(`<@${data.actorId}>`), inline: true }]
+          : []),
+      ],
+    });
+  }
+
+  public warnAppeal(data: WarnAppealData): EmbedBuilder {
+    return this.base({
+      color: COLORS.warning,
+      title: `Apelación · Advertencia #${data.warnId}`,
+      description: data.justification,
+      fields: [
+        { name: 'Miembro', value: clampEmbedField(`<@${data.userId}>`), inline: true },
+        { name: 'Severidad', value: clampEmbedField(this.warnSeverityLabel(data.severity)), inline: true },
+        {
+          name: 'Fecha de la advertencia',
+          value: clampEmbedField(`<t:${Math.floor(data.warnedAt.getTime() / 1000)}:f>`),
+          inline: true,
+        },
+        { name: 'Motivo original', value: clampEmbedField(data.warnReason ?? 'Sin motivo especificado.') },
+      ],
+    });
+  }
+
+  public warnAppealResolution(data: WarnAppealResolutionData): EmbedBuilder {
+    return this.base({
+      color: data.accepted ? COLORS.success : COLORS.danger,
+      title: data.accepted
+        ? `Apelación aceptada · Advertencia #${data.warnId}`
+        : `Apelación rechazada · Advertencia #${data.warnId}`,
+      description: data.accepted
+        ? 'La advertencia fue retirada y ya no cuenta para el historial del miembro.'
+        : 'La advertencia se mantiene sin cambios.',
+      fields: [
+        { name: 'Revisada por', value: clampEmbedField(`<@${data.reviewerId}>`), inline: true },
+        { name: 'Puntos vigentes', value: clampEmbedField(String(data.totalPoints)), inline: true },
+      ],
+    });
+  }
+
+  public leaderboard(data: LeaderboardEmbedData): EmbedBuilder {
+    const lines = data.entries.map(
+      (entry) =>
+        `${LEADERBOARD_MEDALS[entry.rank - 1] ?? `**${entry.rank}.**`} <@${entry.userId}> · ${this.leaderboardValue(data.board, entry)}`,
+    );
+
+    return this.base({
+      color: COLORS.primary,
+      title: `${LEADERBOARD_TITLES[data.board]} · ${LEADERBOARD_PERIOD_LABELS[data.period]}`,
+      description: lines.length > 0 ? lines.join('\n') : 'Todavía no hay actividad registrada en este periodo.',
+      footer: data.paginated === false ? 'Actualizado' : `Página ${data.page}/${data.totalPages} · Actualizado`,
+      timestamp: data.generatedAt,
+    });
+  }
+
+  public middlemanProfile(data: MiddlemanProfileData): EmbedBuilder {
+    const maxCount = Math.max(...data.distribution, 0);
+    const histogram = [5, 4, 3, 2, 1]
+      .map((stars) => {
+        const count = data.distribution[stars - 1] ?? 0;
+        const filled = maxCount > 0 ? Math.round((count / maxCount) * HISTOGRAM_WIDTH) : 0;
+
+        return `${stars} ⭐ \`${'█'.repeat(filled)}${'░'.repeat(HISTOGRAM_WIDTH - filled)}\` ${count}`;
+      })
+      .join('\n');
+
+    const reviewFields = data.reviews.map((review) => ({
+      name: `${'⭐'.repeat(review.rating)} · <t:${Math.floor(review.createdAt.getTime() / 1000)}:d>`,
+      value: clampEmbedField(`${review.comment ?? 'Sin comentario.'}\n— <@${review.reviewerId}>`),
+    }));
+
+    const rating =
+      data.averageRating === null
+        ? 'Sin reseñas'
+        : `${data.weightedRating.toFixed(2)} ⭐ (media ${data.averageRating.toFixed(2)} · ${data.totalReviews} reseñas)`;
+    const completion =
+      data.completionRate === null
+        ? '—'
+        : `${Math.round(data.completionRate * 100)}% (${data.completedClaims} completados · ${data.forcedCloses} forzados)`;
+
+    return this.base({
+      color: COLORS.primary,
+      title: 'Perfil de middleman',
+      description: [
+        `<@${data.middlemanId}>`,
+        `**Valoración:** ${rating}`,
+        '',
+        histogram,
+      ].join('\n'),
+      fields: [
+        { name: 'Claims cerrados', value: String(data.closedClaims), inline: true },
+        { name: 'Tasa de cierre', value: completion, inline: true },
+        {
+          name: 'Mediana hasta el cierre',
+          value: data.medianCloseMs === null ? '—' : this.formatDuration(data.medianCloseMs),
+          inline: true,
+        },
+        ...reviewFields,
+      ],
+      footer:
+        data.totalReviews > 0
+          ? `Reseñas · página ${data.page}/${data.totalPages}`
+          : 'Este middleman todavía no tiene reseñas.',
+    });
+  }
+
+  public recommendedActionLabel(action: string): string {
+    return RECOMMENDED_ACTION_LABELS[action] ?? action;
+  }
+
+  private warnExpiryLine(warn: WarnListEntry): string {
+    if (!warn.expiresAt) {
+      return 'Estado: vigente (no expira)';
+    }
+
+    const timestamp = `<t:${Math.floor(warn.expiresAt.getTime() / 1000)}:R>`;
+
+    return warn.active ? `Estado: vigente, expira ${timestamp}` : `Estado: expirada ${timestamp}`;
+  }
+
+  private leaderboardValue(board: LeaderboardBoard, entry: LeaderboardEmbedEntry): string {
+    switch (board) {
+      case LeaderboardBoard.TRADES:
+        return `**${entry.score}** trade(s)`;
+      case LeaderboardBoard.MIDDLEMEN:
+        return `**${entry.score}** ticket(s) cerrados`;
+      case LeaderboardBoard.REVIEWS:
+        return entry.rawScore === undefined
+          ? `**${entry.score.toFixed(2)}** ⭐ (${entry.count} reseñas)`
+          : `**${entry.score.toFixed(2)}** ⭐ (media ${entry.rawScore.toFixed(2)} · ${entry.count} reseñas)`;
+    }
+  }
+
+  private formatDuration(ms: number): string {
+    const totalMinutes = Math.max(1, Math.round(ms / 60_000));
+    const days = Math.floor(totalMinutes / 1440);
+    const hours = Math.floor((totalMinutes % 1440) / 60);
+    const minutes = totalMinutes % 60;
+
+    if (days > 0) {
+      return `${days} d ${hours} h`;
+    }
+
+    return hours > 0 ? `${hours} h ${minutes} min` : `${minutes} min`;
+  }
+
+  private warnSeverityLabel(severity: string): string {
+    return WARN_SEVERITY_LABELS[severity] ?? severity;
+  }
+
+  private tradeFields(trades: ReadonlyArray<TradeSummaryEntry>): APIEmbedField[] {
+    return trades.map((trade) => {
+      const items = trade.items
+        .map((item, index) => `${index + 1}. ${item.quantity}x ${item.name}`)
+        .join('\n');
+
+      return {
+        name: `${trade.confirmed ? '✅' : '⏳'} ${trade.robloxUsername}`,
+        value: clampEmbedField(`<@${trade.userId}>\n${items || 'Sin ítems declarados.'}`),
+      };
+    });
+  }
+
   private base(options: {
     readonly color: number;
     readonly title: string;
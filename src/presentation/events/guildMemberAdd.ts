@@ -0,0 +1,31 @@
+// ============================================================================
+// RUTA: src/presentation/events/guildMemberAdd.ts
+// ============================================================================
+
+import type { GuildMember } from 'discord.js';
+import { Events } from 'discord.js';
+
+import { WelcomeService } from '@/application/services/WelcomeService';
+import { prisma } from '@/infrastructure/db/prisma';
+import { PrismaGuildSettingsRepository } from '@/infrastructure/repositories/PrismaGuildSettingsRepository';
+import { fetchAvatar } from '@/presentation/cards/card.utils';
+import { renderWelcomeCard } from '@/presentation/cards/WelcomeCardRenderer';
+import type { EventDescriptor } from '@/presentation/events/types';
+import { notificationQueue } from '@/presentation/jobs/notificationQueue';
+import { logger } from '@/shared/logger/pino';
+
+const welcomeService = new WelcomeService(
+  new PrismaGuildSettingsRepository(prisma),
+  notificationQueue,
+  logger,
+  renderWelcomeCard,
+  fetchAvatar,
+);
+
+export const guildMemberAddEvent: EventDescriptor<typeof Events.GuildMemberAdd> = {
+  name: Events.GuildMemberAdd,
+  once: false,
+  async execute(member: GuildMember): Promise<void> {
+    await welcomeService.greet(member);
+  },
+};
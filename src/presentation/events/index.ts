@@ -2,9 +2,10 @@
 // RUTA: src/presentation/events/index.ts
 // ============================================================================
 
+import { guildMemberAddEvent } from '@/presentation/events/guildMemberAdd';
 import { interactionCreateEvent } from '@/presentation/events/interactionCreate';
 import { readyEvent } from '@/presentation/events/ready';
 
-export const events = [readyEvent, interactionCreateEvent] as const;
+export const events = [readyEvent, interactionCreateEvent, guildMemberAddEvent] as const;
 
 export type AnyEventDescriptor = (typeof events)[number];
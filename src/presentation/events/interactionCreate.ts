@@ -7,11 +7,16 @@ import type {
   ChatInputCommandInteraction,
   Interaction,
   ModalSubmitInteraction,
+  StringSelectMenuInteraction,
 } from 'discord.js';
 import { Events } from 'discord.js';
 
 import { commandRegistry } from '@/presentation/commands';
-import { buttonHandlers, modalHandlers } from '@/presentation/components/registry';
+import {
+  resolveButtonHandler,
+  resolveModalHandler,
+  selectMenuHandlers,
+} from '@/presentation/components/registry';
 import { embedFactory } from '@/presentation/embeds/EmbedFactory';
 import type { EventDescriptor } from '@/presentation/events/types';
 import { mapErrorToDiscordResponse } from '@/shared/errors/discord-error-mapper';
@@ -38,7 +43,7 @@ const handleChatInput = async (interaction: ChatInputCommandInteraction): Promis
 };
 
 const handleButton = async (interaction: ButtonInteraction): Promise<void> => {
-  const handler = buttonHandlers.get(interaction.customId);
+  const handler = resolveButtonHandler(interaction.customId);
 
   if (!handler) {
     logger.warn({ customId: interaction.customId }, 'No existe handler registrado para el botón.');
@@ -59,7 +64,7 @@ const handleButton = async (interaction: ButtonInteraction): Promise<void> => {
 };
 
 const handleModal = async (interaction: ModalSubmitInteraction): Promise<void> => {
-  const handler = modalHandlers.get(interaction.customId);
+  const handler = resolveModalHandler(interaction.customId);
 
   if (!handler) {
     logger.warn({ customId: interaction.customId }, 'No existe handler registrado para el modal.');
@@ -78,6 +83,26 @@ const handleModal = async (interaction: ModalSubmitInteraction): Promise<void> =
   await handler(interaction);
 };
 
+const handleSelectMenu = async (interaction: StringSelectMenuInteraction): Promise<void> => {
+  const handler = selectMenuHandlers.get(interaction.customId);
+
+  if (!handler) {
+    logger.warn({ customId: interaction.customId }, 'No existe handler registrado para el menú.');
+    await interaction.reply({
+      embeds: [
+        embedFactory.warning({
+          title: 'Menú no disponible',
+          description: 'Este menú ya no está activo. Pide al staff que publique nuevamente el panel.',
+        }),
+      ],
+      ephemeral: true,
+    });
+    return;
+  }
+
+  await handler(interaction);
+};
+
 export const interactionCreateEvent: EventDescriptor<typeof Events.InteractionCreate> = {
   name: Events.InteractionCreate,
   once: false,
@@ -97,6 +122,11 @@ export const interactionCreateEvent: EventDescriptor<typeof Events.InteractionCr
         await handleModal(interaction);
         return;
       }
+
+      if (interaction.isStringSelectMenu()) {
+        await handleSelectMenu(interaction);
+        return;
+      }
     } catch (error) {
       const { shouldLogStack, referenceId, ...response } = mapErrorToDiscordResponse(error);
       const baseLog = {
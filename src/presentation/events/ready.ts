@@ -7,6 +7,7 @@ import { Events } from 'discord.js';
 
 import { prisma } from '@/infrastructure/db/prisma';
 import type { EventDescriptor } from '@/presentation/events/types';
+import { startJobs } from '@/presentation/jobs';
 import { DatabaseUnavailableError } from '@/shared/errors/domain.errors';
 import { logger } from '@/shared/logger/pino';
 
@@ -21,5 +22,7 @@ export const readyEvent: EventDescriptor<typeof Events.ClientReady> = {
       logger.error({ err: error }, 'Error verificando el estado de la base de datos.');
       throw new DatabaseUnavailableError();
     }
+
+    startJobs(client);
   },
 };
@@ -0,0 +1,30 @@
+// ============================================================================
+// RUTA: src/presentation/jobs/index.ts
+// ============================================================================
+
+import type { Client } from 'discord.js';
+
+import { leaderboardService } from '@/presentation/jobs/leaderboard';
+import { notificationQueue } from '@/presentation/jobs/notificationQueue';
+import { reviewReminders } from '@/presentation/jobs/reviewReminders';
+import { ticketChannelLifecycle } from '@/presentation/jobs/ticketChannelLifecycle';
+import { ticketInactivity } from '@/presentation/jobs/ticketInactivity';
+import { warnExpiry } from '@/presentation/jobs/warnExpiry';
+
+export const startJobs = (client: Client): void => {
+  ticketChannelLifecycle.start(client);
+  ticketInactivity.start(client);
+  warnExpiry.start();
+  notificationQueue.start(client);
+  leaderboardService.start(client);
+  reviewReminders.start();
+};
+
+export const stopJobs = (): void => {
+  ticketChannelLifecycle.stop();
+  ticketInactivity.stop();
+  warnExpiry.stop();
+  notificationQueue.stop();
+  leaderboardService.stop();
+  reviewReminders.stop();
+};
@@ -0,0 +1,20 @@
+// ============================================================================
+// RUTA: src/presentation/jobs/leaderboard.ts
+// ============================================================================
+
+import { LeaderboardService } from '@/application/services/LeaderboardService';
+import { prisma } from '@/infrastructure/db/prisma';
+import { PrismaGuildSettingsRepository } from '@/infrastructure/repositories/PrismaGuildSettingsRepository';
+import { PrismaLeaderboardRepository } from '@/infrastructure/repositories/PrismaLeaderboardRepository';
+import { embedFactory } from '@/presentation/embeds/EmbedFactory';
+import { ratingService } from '@/shared/config/rating';
+import { logger } from '@/shared/logger/pino';
+
+export const leaderboardService = new LeaderboardService(
+  new PrismaLeaderboardRepository(prisma),
+  new PrismaGuildSettingsRepository(prisma),
+  logger,
+  embedFactory,
+  {},
+  ratingService,
+);
@@ -0,0 +1,10 @@
+// ============================================================================
+// RUTA: src/presentation/jobs/notificationQueue.ts
+// ============================================================================
+
+import { NotificationQueue } from '@/application/services/NotificationQueue';
+import { prisma } from '@/infrastructure/db/prisma';
+import { PrismaNotificationRepository } from '@/infrastructure/repositories/PrismaNotificationRepository';
+import { logger } from '@/shared/logger/pino';
+
+export const notificationQueue = new NotificationQueue(new PrismaNotificationRepository(prisma), logger);
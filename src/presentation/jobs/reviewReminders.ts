@@ -0,0 +1,21 @@
+// ============================================================================
+// RUTA: src/presentation/jobs/reviewReminders.ts
+// ============================================================================
+
+import { ReviewReminderService } from '@/application/services/ReviewReminderService';
+import { prisma } from '@/infrastructure/db/prisma';
+import { PrismaReviewReminderRepository } from '@/infrastructure/repositories/PrismaReviewReminderRepository';
+import { buildReviewReminderButtonRow } from '@/presentation/components/buttons/ReviewButtons';
+import { embedFactory } from '@/presentation/embeds/EmbedFactory';
+import { notificationQueue } from '@/presentation/jobs/notificationQueue';
+import { env } from '@/shared/config/env';
+import { logger } from '@/shared/logger/pino';
+
+export const reviewReminders = new ReviewReminderService(
+  new PrismaReviewReminderRepository(prisma),
+  notificationQueue,
+  logger,
+  { delayHours: env.REVIEW_REMINDER_DELAY_HOURS, maxReminders: env.REVIEW_REMINDER_MAX },
+  buildReviewReminderButtonRow,
+  embedFactory,
+);
@@ -0,0 +1,23 @@
+// ============================================================================
+// RUTA: src/presentation/jobs/ticketChannelLifecycle.ts
+// ============================================================================
+
+import { TicketChannelLifecycleService } from '@/application/services/TicketChannelLifecycleService';
+import { prisma } from '@/infrastructure/db/prisma';
+import { PrismaReviewInviteRepository } from '@/infrastructure/repositories/PrismaReviewInviteRepository';
+import { PrismaTicketChannelScheduleRepository } from '@/infrastructure/repositories/PrismaTicketChannelScheduleRepository';
+import { PrismaTicketRepository } from '@/infrastructure/repositories/PrismaTicketRepository';
+import { env } from '@/shared/config/env';
+import { logger } from '@/shared/logger/pino';
+
+export const ticketChannelLifecycle = new TicketChannelLifecycleService(
+  new PrismaTicketChannelScheduleRepository(prisma),
+  new PrismaTicketRepository(prisma),
+  new PrismaReviewInviteRepository(prisma),
+  logger,
+  {
+    archiveAfterHours: env.TICKET_ARCHIVE_AFTER_HOURS,
+    deleteAfterHours: env.TICKET_DELETE_AFTER_HOURS,
+    archiveCategoryId: env.ARCHIVE_CATEGORY_ID,
+  },
+);
@@ -0,0 +1,55 @@
+// ============================================================================
+// RUTA: src/presentation/jobs/ticketInactivity.ts
+// ============================================================================
+
+import { TicketInactivityService } from '@/application/services/TicketInactivityService';
+import { TradePanelService } from '@/application/services/TradePanelService';
+import { TranscriptService } from '@/application/services/TranscriptService';
+import { CancelTradeUseCase } from '@/application/usecases/middleman/CancelTradeUseCase';
+import { prisma } from '@/infrastructure/db/prisma';
+import { FileTranscriptRepository } from '@/infrastructure/repositories/FileTranscriptRepository';
+import { PrismaMiddlemanRepository } from '@/infrastructure/repositories/PrismaMiddlemanRepository';
+import { PrismaTicketReminderRepository } from '@/infrastructure/repositories/PrismaTicketReminderRepository';
+import { PrismaTicketRepository } from '@/infrastructure/repositories/PrismaTicketRepository';
+import { PrismaTradeRepository } from '@/infrastructure/repositories/PrismaTradeRepository';
+import { buildTradePanelButtonRow } from '@/presentation/components/buttons/TradePanelButtons';
+import { embedFactory } from '@/presentation/embeds/EmbedFactory';
+import { ticketChannelLifecycle } from '@/presentation/jobs/ticketChannelLifecycle';
+import { renderTranscriptHtml } from '@/presentation/transcripts/TranscriptHtmlRenderer';
+import { env } from '@/shared/config/env';
+import { logger } from '@/shared/logger/pino';
+
+const ticketRepo = new PrismaTicketRepository(prisma);
+const tradeRepo = new PrismaTradeRepository(prisma);
+const middlemanRepo = new PrismaMiddlemanRepository(prisma);
+
+export const ticketInactivity = new TicketInactivityService(
+  new PrismaTicketReminderRepository(prisma),
+  ticketRepo,
+  new CancelTradeUseCase(
+    ticketRepo,
+    tradeRepo,
+    middlemanRepo,
+    prisma,
+    logger,
+    embedFactory,
+  ),
+  new TradePanelService(ticketRepo, tradeRepo, middlemanRepo, logger, buildTradePanelButtonRow, embedFactory),
+  new TranscriptService(
+    new FileTranscriptRepository(env.TRANSCRIPTS_DIR),
+    logger,
+    renderTranscriptHtml,
+    env.STAFF_LOG_CHANNEL_ID,
+    embedFactory,
+  ),
+  ticketChannelLifecycle,
+  logger,
+  {
+    reminderMinutes: env.TICKET_REMINDER_MINUTES,
+    escalationMinutes: env.TICKET_ESCALATION_MINUTES,
+    autoCloseHours: env.TICKET_AUTO_CLOSE_HOURS,
+    middlemanRoleId: env.MIDDLEMAN_ROLE_ID,
+    staffRoleId: env.STAFF_ROLE_ID,
+  },
+  embedFactory,
+);
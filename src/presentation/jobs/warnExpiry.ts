@@ -0,0 +1,14 @@
+// ============================================================================
+// RUTA: src/presentation/jobs/warnExpiry.ts
+// ============================================================================
+
+import { WarnExpiryService } from '@/application/services/WarnExpiryService';
+import { prisma } from '@/infrastructure/db/prisma';
+import { PrismaWarnRepository } from '@/infrastructure/repositories/PrismaWarnRepository';
+import { env } from '@/shared/config/env';
+import { warnExpiryPolicy } from '@/shared/config/warn-expiry';
+import { logger } from '@/shared/logger/pino';
+
+export const warnExpiry = new WarnExpiryService(new PrismaWarnRepository(prisma), warnExpiryPolicy, logger, {
+  runHourUtc: env.WARN_EXPIRY_RUN_HOUR_UTC,
+});
@@ -0,0 +1,123 @@
+// ============================================================================
+// RUTA: src/presentation/transcripts/TranscriptHtmlRenderer.ts
+// ============================================================================
+
+import type {
+  TranscriptAttachment,
+  TranscriptDocument,
+  TranscriptEmbed,
+  TranscriptMessage,
+} from '@/domain/repositories/ITranscriptRepository';
+import { COLORS } from '@/shared/config/constants';
+
+const HTML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+};
+
+const STYLES = `
+  body { margin: 0; background: #313338; color: #dbdee1; font-family: 'gg sans', 'Segoe UI', Roboto, sans-serif; font-size: 15px; }
+  header { padding: 16px 24px; background: #2b2d31; border-bottom: 1px solid #1e1f22; }
+  header h1 { margin: 0 0 4px; font-size: 20px; color: #f2f3f5; }
+  header p { margin: 0; color: #949ba4; font-size: 13px; }
+  main { padding: 16px 24px; }
+  .message { display: flex; gap: 16px; padding: 6px 0; }
+  .avatar { width: 40px; height: 40px; border-radius: 50%; flex-shrink: 0; }
+  .meta { display: flex; gap: 8px; align-items: baseline; }
+  .author { color: #f2f3f5; font-weight: 600; }
+  .bot { background: #5865f2; color: #fff; border-radius: 3px; padding: 0 4px; font-size: 11px; }
+  .timestamp { color: #949ba4; font-size: 12px; }
+  .content { white-space: pre-wrap; word-break: break-word; }
+  .attachment { display: block; color: #00a8fc; }
+  .embed { margin-top: 4px; max-width: 520px; background: #2b2d31; border-left: 4px solid; border-radius: 4px; padding: 8px 12px; }
+  .embed-title { color: #f2f3f5; font-weight: 600; }
+  .embed-field { margin-top: 6px; }
+  .embed-field-name { font-weight: 600; color: #f2f3f5; }
+  .embed-footer { margin-top: 6px; color: #949ba4; font-size: 12px; }
+  .embed img { max-width: 100%; margin-top: 6px; border-radius: 4px; }
+`;
+
+const escapeHtml = (value: string): string => value.replace(/[&<>"']/gu, (char) => HTML_ESCAPES[char] ?? char);
+
+const formatTimestamp = (value: string): string => new Date(value).toLocaleString('es-ES', { timeZone: 'UTC' });
+
+const toHexColor = (color: number | null): string => `#${(color ?? COLORS.primary).toString(16).padStart(6, '0')}`;
+
+const renderAttachment = (attachment: TranscriptAttachment): string =>
+  `<a class="attachment" href="${escapeHtml(attachment.url)}" target="_blank" rel="noopener noreferrer">📎 ${escapeHtml(
+    attachment.name,
+  )} (${Math.ceil(attachment.size / 1024)} KB)</a>`;
+
+const renderEmbed = (embed: TranscriptEmbed): string => {
+  const parts: string[] = [];
+
+  if (embed.title) {
+    const title = escapeHtml(embed.title);
+    parts.push(
+      `<div class="embed-title">${
+        embed.url ? `<a href="${escapeHtml(embed.url)}" target="_blank" rel="noopener noreferrer">${title}</a>` : title
+      }</div>`,
+    );
+  }
+
+  if (embed.description) {
+    parts.push(`<div class="content">${escapeHtml(embed.description)}</div>`);
+  }
+
+  for (const field of embed.fields) {
+    parts.push(
+      `<div class="embed-field"><div class="embed-field-name">${escapeHtml(field.name)}</div><div class="content">${escapeHtml(
+        field.value,
+      )}</div></div>`,
+    );
+  }
+
+  if (embed.imageUrl) {
+    parts.push(`<img src="${escapeHtml(embed.imageUrl)}" alt="" loading="lazy">`);
+  }
+
+  if (embed.footer) {
+    parts.push(`<div class="embed-footer">${escapeHtml(embed.footer)}</div>`);
+  }
+
+  return `<div class="embed" style="border-color: ${toHexColor(embed.color)}">${parts.join('')}</div>`;
+};
+
+const renderMessage = (message: TranscriptMessage): string => {
+  const edited = message.editedAt ? ' <span class="timestamp">(editado)</span>' : '';
+  const badge = message.bot ? ' <span class="bot">BOT</span>' : '';
+
+  return `<div class="message" id="m-${message.id}">
+  <img class="avatar" src="${escapeHtml(message.authorAvatarUrl)}" alt="">
+  <div>
+    <div class="meta"><span class="author" title="${message.authorId}">${escapeHtml(
+      message.authorTag,
+    )}</span>${badge}<span class="timestamp">${formatTimestamp(message.createdAt)}</span>${edited}</div>
+    ${message.content ? `<div class="content">${escapeHtml(message.content)}</div>` : ''}
+    ${message.attachments.map(renderAttachment).join('')}
+    ${message.embeds.map(renderEmbed).join('')}
+  </div>
+</div>`;
+};
+
+export const renderTranscriptHtml = (document: TranscriptDocument): string => `<!DOCTYPE html>
+<html lang="es">
+<head>
+<meta charset="utf-8">
+<title>Transcript · Ticket #${document.ticketId}</title>
+<style>${STYLES}</style>
+</head>
+<body>
+<header>
+  <h1>Ticket #${document.ticketId} · #${escapeHtml(document.channelName)}</h1>
+  <p>${document.messages.length} mensajes · Generado el ${formatTimestamp(document.generatedAt)} (UTC)</p>
+</header>
+<main>
+${document.messages.map(renderMessage).join('\n')}
+</main>
+</body>
+</html>
+`;
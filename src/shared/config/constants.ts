@@ -28,9 +28,87 @@ export const MODAL_LIMITS = Object.freeze({
   maxComponents: 5,
 });
 
+export const TRADE_LIMITS = Object.freeze({
+  maxItemsPerTrade: 20,
+  maxItemQuantity: 10_000,
+  itemName: 100,
+});
+
+export const TRANSCRIPT_LIMITS = Object.freeze({
+  maxMessages: 5_000,
+});
+
+export const SCHEDULER_INTERVALS = Object.freeze({
+  channelLifecycle: 60_000,
+  ticketInactivity: 60_000,
+  notificationQueue: 5_000,
+  notificationPurge: 60 * 60 * 1000,
+  notificationMetrics: 5 * 60 * 1000,
+  leaderboardRefresh: 10 * 60 * 1000,
+  reviewReminders: 15 * 60 * 1000,
+});
+
+export const NOTIFICATION_LIMITS = Object.freeze({
+  batchSize: 25,
+  globalPerMinute: 30,
+  perUserIntervalMs: 10_000,
+  maxAttempts: 5,
+  baseBackoffMs: 30_000,
+  maxBackoffMs: 60 * 60 * 1000,
+  leaseMs: 2 * 60 * 1000,
+  deadLetterDays: 7,
+  retentionDays: 14,
+});
+
+export const WELCOME_DEFAULTS = Object.freeze({
+  template: '¡Hola {user}! Te damos la bienvenida a **{server}**. Eres el miembro número {memberCount}.',
+  maxTemplateLength: 1_000,
+  cardFileName: 'bienvenida.png',
+});
+
+export const TICKET_LIMITS = Object.freeze({
+  maxOpenPerUser: 3,
+});
+
+export const LEADERBOARD_LIMITS = Object.freeze({
+  size: 50,
+  pageSize: 10,
+  cacheTtlMs: 5 * 60 * 1000,
+  minReviews: 3,
+});
+
+export const REVIEW_LIMITS = Object.freeze({
+  editWindowMs: 24 * 60 * 60 * 1000,
+  commentMaxLength: 500,
+  moderationReasonMaxLength: 255,
+});
+
+export const RATING_DEFAULTS = Object.freeze({
+  /** Valoración que se asume antes de tener reseñas (media del prior bayesiano). */
+  priorMean: 3.5,
+  /** Cuántas reseñas "virtuales" con `priorMean` pesa el prior. */
+  priorWeight: 5,
+  /** Vida media en días del peso de una reseña; `0` desactiva el decaimiento. */
+  halfLifeDays: 0,
+});
+
+export const MIDDLEMAN_PROFILE_LIMITS = Object.freeze({
+  reviewsPerPage: 5,
+});
+
+export const WARN_LIMITS = Object.freeze({
+  pageSize: 5,
+});
+
+export const WARN_TIMEOUT_DURATIONS = Object.freeze({
+  TIMEOUT_1H: 60 * 60 * 1000,
+  TIMEOUT_24H: 24 * 60 * 60 * 1000,
+});
+
 export const COOLDOWNS = Object.freeze({
   ping: 5_000,
   help: 10_000,
+  stats: 10_000,
   middlemanRequest: 60_000,
 });
 
@@ -39,6 +117,21 @@ export const PERMISSIONS = Object.freeze({
   admin: [PermissionFlagsBits.Administrator] as const,
 });
 
+export const PARTICIPANT_CHANNEL_PERMISSIONS = Object.freeze({
+  ViewChannel: true,
+  SendMessages: true,
+  ReadMessageHistory: true,
+  AttachFiles: true,
+});
+
+export const MIDDLEMAN_CHANNEL_PERMISSIONS = Object.freeze({
+  ViewChannel: true,
+  SendMessages: true,
+  ReadMessageHistory: true,
+  ManageMessages: false,
+  ManageChannels: false,
+});
+
 export type CommandCooldownKey = keyof typeof COOLDOWNS;
 export type PermissionGroupKey = keyof typeof PERMISSIONS;
 export type PermissionGroup = readonly PermissionResolvable[];
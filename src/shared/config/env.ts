@@ -22,6 +22,14 @@ const booleanLike = z
     throw new Error(`Valor booleano inválido: ${value}`);
   });
 
+const optionalSnowflake = (name: string) =>
+  z
+    .string()
+    .regex(/^\d{17,20}$/u, `${name} debe ser un snowflake de Discord`)
+    .or(z.literal(''))
+    .transform((value) => (value === '' ? undefined : value))
+    .optional();
+
 const optionalUrl = z
   .string()
   .url()
@@ -33,6 +41,13 @@ export const EnvSchema = z.object({
   DISCORD_CLIENT_ID: z
     .string()
     .regex(/^\d{17,20}$/u, 'DISCORD_CLIENT_ID debe ser un snowflake de Discord'),
+  /** Secreto para firmar los `customId` de componentes; si falta se usa el token del bot. */
+  CUSTOM_ID_SECRET: z
+    .string()
+    .min(16, 'CUSTOM_ID_SECRET debe tener al menos 16 caracteres')
+    .or(z.literal(''))
+    .transform((value) => (value === '' ? undefined : value))
+    .optional(),
   DISCORD_GUILD_ID: z
     .string()
     .regex(/^\d{17,20}$/u, 'DISCORD_GUILD_ID debe ser un snowflake de Discord')
@@ -46,13 +61,68 @@ export const EnvSchema = z.object({
     .string()
     .regex(/^\d{17,20}$/u, 'REVIEW_CHANNEL_ID debe ser un snowflake de Discord')
     .optional(),
+  STAFF_LOG_CHANNEL_ID: z
+    .string()
+    .regex(/^\d{17,20}$/u, 'STAFF_LOG_CHANNEL_ID debe ser un snowflake de Discord')
+    .optional(),
+  TRANSCRIPTS_DIR: z.string().min(1).default('./data/transcripts'),
+  TICKET_REOPEN_WINDOW_HOURS: z.coerce.number().int().positive().default(24),
+  ARCHIVE_CATEGORY_ID: z
+    .string()
+    .regex(/^\d{17,20}$/u, 'ARCHIVE_CATEGORY_ID debe ser un snowflake de Discord')
+    .optional(),
+  MIDDLEMAN_ROLE_ID: z
+    .string()
+    .regex(/^\d{17,20}$/u, 'MIDDLEMAN_ROLE_ID debe ser un snowflake de Discord')
+    .optional(),
+  STAFF_ROLE_ID: z
+    .string()
+    .regex(/^\d{17,20}$/u, 'STAFF_ROLE_ID debe ser un snowflake de Discord')
+    .optional(),
+  TICKETS_CATEGORY_ID: optionalSnowflake('TICKETS_CATEGORY_ID'),
+  TICKET_BUY_CATEGORY_ID: optionalSnowflake('TICKET_BUY_CATEGORY_ID'),
+  TICKET_BUY_ROLE_ID: optionalSnowflake('TICKET_BUY_ROLE_ID'),
+  TICKET_SELL_CATEGORY_ID: optionalSnowflake('TICKET_SELL_CATEGORY_ID'),
+  TICKET_SELL_ROLE_ID: optionalSnowflake('TICKET_SELL_ROLE_ID'),
+  TICKET_ROBUX_CATEGORY_ID: optionalSnowflake('TICKET_ROBUX_CATEGORY_ID'),
+  TICKET_ROBUX_ROLE_ID: optionalSnowflake('TICKET_ROBUX_ROLE_ID'),
+  TICKET_NITRO_CATEGORY_ID: optionalSnowflake('TICKET_NITRO_CATEGORY_ID'),
+  TICKET_NITRO_ROLE_ID: optionalSnowflake('TICKET_NITRO_ROLE_ID'),
+  TICKET_DECOR_CATEGORY_ID: optionalSnowflake('TICKET_DECOR_CATEGORY_ID'),
+  TICKET_DECOR_ROLE_ID: optionalSnowflake('TICKET_DECOR_ROLE_ID'),
+  TICKET_REMINDER_MINUTES: z.coerce.number().positive().default(15),
+  TICKET_ESCALATION_MINUTES: z.coerce.number().positive().default(60),
+  TICKET_AUTO_CLOSE_HOURS: z.coerce.number().positive().default(24),
+  TICKET_ARCHIVE_AFTER_HOURS: z.coerce.number().positive().default(1),
+  TICKET_DELETE_AFTER_HOURS: z.coerce.number().positive().default(72),
+  APPEALS_CHANNEL_ID: optionalSnowflake('APPEALS_CHANNEL_ID'),
+  WARN_EXPIRY_DAYS_MINOR: z.coerce.number().int().nonnegative().default(30),
+  WARN_EXPIRY_DAYS_MAJOR: z.coerce.number().int().nonnegative().default(90),
+  WARN_EXPIRY_DAYS_CRITICAL: z.coerce.number().int().nonnegative().default(180),
+  WARN_EXPIRY_RUN_HOUR_UTC: z.coerce.number().int().min(0).max(23).default(3),
+  REVIEW_INVITE_TTL_DAYS: z.coerce.number().int().positive().default(3),
+  REVIEW_REMINDER_DELAY_HOURS: z.coerce.number().positive().default(24),
+  REVIEW_REMINDER_MAX: z.coerce.number().int().nonnegative().default(2),
+  RATING_PRIOR_MEAN: z.coerce.number().min(1).max(5).default(3.5),
+  RATING_PRIOR_WEIGHT: z.coerce.number().nonnegative().default(5),
+  RATING_HALF_LIFE_DAYS: z.coerce.number().nonnegative().default(0),
   REDIS_URL: optionalUrl.optional(),
   NODE_ENV: z.enum(['development', 'production', 'test']).default('development'),
   LOG_LEVEL: z.enum(['debug', 'info', 'warn', 'error']).default('info'),
   ENABLE_CACHE: booleanLike.default(false),
   ENABLE_SHARDING: booleanLike.default(false),
+  ENABLE_WELCOME: booleanLike.default(false),
   SENTRY_DSN: optionalUrl.optional(),
   OTEL_EXPORTER_OTLP_ENDPOINT: optionalUrl.optional(),
+}).superRefine((value, context) => {
+  // El botón de reseña vive en el canal del ticket: no puede seguir vigente después de borrarlo.
+  if (value.REVIEW_INVITE_TTL_DAYS * 24 > value.TICKET_DELETE_AFTER_HOURS) {
+    context.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['REVIEW_INVITE_TTL_DAYS'],
+      message: 'REVIEW_INVITE_TTL_DAYS no puede superar TICKET_DELETE_AFTER_HOURS (el canal se borra antes).',
+    });
+  }
 });
 
 export type Env = z.infer<typeof EnvSchema>;
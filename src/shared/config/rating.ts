@@ -0,0 +1,13 @@
+// ============================================================================
+// RUTA: src/shared/config/rating.ts
+// ============================================================================
+
+import { RatingService } from '@/application/services/RatingService';
+import { env } from '@/shared/config/env';
+
+/** Valoración de middlemans con el prior y el decaimiento del entorno; la comparten reseñas, perfil y tablas. */
+export const ratingService = new RatingService({
+  priorMean: env.RATING_PRIOR_MEAN,
+  priorWeight: env.RATING_PRIOR_WEIGHT,
+  halfLifeDays: env.RATING_HALF_LIFE_DAYS,
+});
@@ -0,0 +1,84 @@
+// ============================================================================
+// RUTA: src/shared/config/ticket-types.ts
+// ============================================================================
+
+import { TicketType } from '@/domain/entities/types';
+
+export type GeneralTicketType = Exclude<TicketType, TicketType.MM>;
+
+export interface TicketQuestion {
+  readonly id: string;
+  readonly label: string;
+  readonly placeholder?: string;
+  readonly paragraph?: boolean;
+  readonly required?: boolean;
+}
+
+export interface TicketTypeDefinition {
+  readonly label: string;
+  readonly emoji: string;
+  readonly description: string;
+  readonly questions: readonly TicketQuestion[];
+}
+
+export const GENERAL_TICKET_TYPES: readonly GeneralTicketType[] = [
+  TicketType.BUY,
+  TicketType.SELL,
+  TicketType.ROBUX,
+  TicketType.NITRO,
+  TicketType.DECOR,
+];
+
+export const TICKET_TYPE_DEFINITIONS: Readonly<Record<GeneralTicketType, TicketTypeDefinition>> = Object.freeze({
+  [TicketType.BUY]: {
+    label: 'Compra',
+    emoji: '🛒',
+    description: 'Quiero comprar un producto de la tienda',
+    questions: [
+      { id: 'product', label: '¿Qué quieres comprar?', placeholder: 'Producto y cantidad' },
+      { id: 'payment', label: 'Método de pago', placeholder: 'PayPal, transferencia, Robux...' },
+      { id: 'details', label: 'Detalles adicionales', paragraph: true, required: false },
+    ],
+  },
+  [TicketType.SELL]: {
+    label: 'Venta',
+    emoji: '💰',
+    description: 'Quiero vender algo a la tienda',
+    questions: [
+      { id: 'product', label: '¿Qué quieres vender?', placeholder: 'Ítem, cuenta, servicio...' },
+      { id: 'price', label: 'Precio esperado' },
+      { id: 'details', label: 'Detalles adicionales', paragraph: true, required: false },
+    ],
+  },
+  [TicketType.ROBUX]: {
+    label: 'Robux',
+    emoji: '💎',
+    description: 'Comprar Robux',
+    questions: [
+      { id: 'amount', label: 'Cantidad de Robux', placeholder: 'Ej. 1000' },
+      { id: 'roblox', label: 'Usuario de Roblox' },
+      { id: 'payment', label: 'Método de pago' },
+    ],
+  },
+  [TicketType.NITRO]: {
+    label: 'Nitro',
+    emoji: '🚀',
+    description: 'Comprar Discord Nitro',
+    questions: [
+      { id: 'plan', label: 'Plan de Nitro', placeholder: 'Basic / Nitro, mensual o anual' },
+      { id: 'payment', label: 'Método de pago' },
+    ],
+  },
+  [TicketType.DECOR]: {
+    label: 'Decoraciones',
+    emoji: '🎨',
+    description: 'Decoraciones de perfil de Discord',
+    questions: [
+      { id: 'decoration', label: '¿Qué decoración quieres?', paragraph: true },
+      { id: 'payment', label: 'Método de pago' },
+    ],
+  },
+});
+
+export const isGeneralTicketType = (value: string): value is GeneralTicketType =>
+  (GENERAL_TICKET_TYPES as readonly string[]).includes(value);
@@ -0,0 +1,14 @@
+// ============================================================================
+// RUTA: src/shared/config/warn-expiry.ts
+// ============================================================================
+
+import { WarnSeverity } from '@/domain/entities/Warn';
+import { WarnExpiryPolicy } from '@/domain/value-objects/WarnExpiryPolicy';
+import { env } from '@/shared/config/env';
+
+/** Política de vigencia de advertencias configurada por entorno; la comparten comandos y el job de expiración. */
+export const warnExpiryPolicy = WarnExpiryPolicy.create({
+  [WarnSeverity.MINOR]: env.WARN_EXPIRY_DAYS_MINOR,
+  [WarnSeverity.MAJOR]: env.WARN_EXPIRY_DAYS_MAJOR,
+  [WarnSeverity.CRITICAL]: env.WARN_EXPIRY_DAYS_CRITICAL,
+});
@@ -63,7 +63,8 @@ export class TicketAlreadyClaimedError extends DedosError {
   public constructor(ticketId: number) {
     super({
       code: 'TICKET_ALREADY_CLAIMED',
-      message: 'Este ticket ya fue reclamado por otro middleman.',
+      message:
+        'Este ticket ya fue reclamado por otro middleman. El middleman asignado o el staff pueden liberarlo con `/middleman unclaim` o `/middleman transfer`.',
       metadata: { ticketId },
       exposeMessage: true,
     });
@@ -103,6 +104,50 @@ export class TradesNotConfirmedError extends DedosError {
   }
 }
 
+export class TradesNotFinalizedError extends DedosError {
+  public constructor(ticketId: number, pending: ReadonlyArray<string>) {
+    super({
+      code: 'TRADES_NOT_FINALIZED',
+      message: 'Hay participantes que aún no confirman haber recibido sus ítems.',
+      metadata: { ticketId, pending },
+      exposeMessage: true,
+    });
+  }
+}
+
+export class InvalidTradeItemsError extends DedosError {
+  public constructor(line: string) {
+    super({
+      code: 'INVALID_TRADE_ITEMS',
+      message: `No se pudo interpretar el ítem "${line}". Usa el formato \`2x Nombre del ítem\`, uno por línea.`,
+      metadata: { line },
+      exposeMessage: true,
+    });
+  }
+}
+
+export class TooManyTradeItemsError extends DedosError {
+  public constructor(limit: number) {
+    super({
+      code: 'TOO_MANY_TRADE_ITEMS',
+      message: `Solo puedes declarar hasta ${limit} ítems por trade.`,
+      metadata: { limit },
+      exposeMessage: true,
+    });
+  }
+}
+
+export class TradeAlreadyExistsError extends DedosError {
+  public constructor(ticketId: number, userId: bigint) {
+    super({
+      code: 'TRADE_ALREADY_EXISTS',
+      message: 'Ya hay un trade tuyo registrado en este ticket.',
+      metadata: { ticketId, userId: userId.toString() },
+      exposeMessage: true,
+    });
+  }
+}
+
 export class ChannelCreationError extends DedosError {
   public constructor(reason?: string) {
     super({
@@ -137,6 +182,116 @@ export class TicketClosedError extends DedosError {
   }
 }
 
+export class ReopenWindowExpiredError extends DedosError {
+  public constructor(ticketId: number, windowHours: number) {
+    super({
+      code: 'REOPEN_WINDOW_EXPIRED',
+      message: `Solo se pueden reabrir tickets cerrados hace menos de ${windowHours} horas.`,
+      metadata: { ticketId, windowHours },
+      exposeMessage: true,
+    });
+  }
+}
+
+export class NotMiddlemanTicketError extends DedosError {
+  public constructor(ticketId: number, ticketType: string) {
+    super({
+      code: 'NOT_MIDDLEMAN_TICKET',
+      message: 'Esta acción solo está disponible en tickets de middleman.',
+      metadata: { ticketId, ticketType },
+      exposeMessage: true,
+    });
+  }
+}
+
+export class MiddlemanFlowRequiredError extends DedosError {
+  public constructor(ticketId: number) {
+    super({
+      code: 'MIDDLEMAN_FLOW_REQUIRED',
+      message: 'Los tickets de middleman se cierran con `/middleman close` o `/middleman cancel`.',
+      metadata: { ticketId },
+      exposeMessage: true,
+    });
+  }
+}
+
+export class TranscriptNotFoundError extends DedosError {
+  public constructor(ticketId: number) {
+    super({
+      code: 'TRANSCRIPT_NOT_FOUND',
+      message: 'No hay un transcript guardado para este ticket.',
+      metadata: { ticketId },
+      exposeMessage: true,
+    });
+  }
+}
+
+export class WarnNotFoundError extends DedosError {
+  public constructor(warnId: number) {
+    super({
+      code: 'WARN_NOT_FOUND',
+      message: 'No existe una advertencia con ese identificador.',
+      metadata: { warnId },
+      exposeMessage: true,
+    });
+  }
+}
+
+export class WarnSanctionNotFoundError extends DedosError {
+  public constructor(messageId: string) {
+    super({
+      code: 'WARN_SANCTION_NOT_FOUND',
+      message: 'No hay una sanción pendiente asociada a este mensaje.',
+      metadata: { messageId },
+      exposeMessage: true,
+    });
+  }
+}
+
+export class WarnSanctionAlreadyResolvedError extends DedosError {
+  public constructor(sanctionId: number) {
+    super({
+      code: 'WARN_SANCTION_ALREADY_RESOLVED',
+      message: 'Otro miembro del staff ya resolvió esta sanción.',
+      metadata: { sanctionId },
+      exposeMessage: true,
+    });
+  }
+}
+
+export class WarnAppealAlreadyExistsError extends DedosError {
+  public constructor(warnId: number) {
+    super({
+      code: 'WARN_APPEAL_ALREADY_EXISTS',
+      message: 'Ya enviaste una apelación para esta advertencia.',
+      metadata: { warnId },
+      exposeMessage: true,
+    });
+  }
+}
+
+export class WarnAppealNotFoundError extends DedosError {
+  public constructor(messageId: string) {
+    super({
+      code: 'WARN_APPEAL_NOT_FOUND',
+      message: 'No hay una apelación asociada a este mensaje.',
+      metadata: { messageId },
+      exposeMessage: true,
+    });
+  }
+}
+
+export class WarnAppealAlreadyResolvedError extends DedosError {
+  public constructor(appealId: number) {
+    super({
+      code: 'WARN_APPEAL_ALREADY_RESOLVED',
+      message: 'Otro miembro del staff ya resolvió esta apelación.',
+      metadata: { appealId },
+      exposeMessage: true,
+    });
+  }
+}
+
 export class MiddlemanNotFoundError extends DedosError {
   public constructor(userId: string) {
     super({
@@ -170,6 +325,28 @@ export class DuplicateReviewError extends DedosError {
   }
 }
 
+export class ReviewNotFoundError extends DedosError {
+  public constructor(reviewId: number) {
+    super({
+      code: 'REVIEW_NOT_FOUND',
+      message: 'No existe una reseña con ese identificador.',
+      metadata: { reviewId },
+      exposeMessage: true,
+    });
+  }
+}
+
+export class ReviewEditWindowExpiredError extends DedosError {
+  public constructor(reviewId: number, windowHours: number) {
+    super({
+      code: 'REVIEW_EDIT_WINDOW_EXPIRED',
+      message: `Solo puedes editar tu reseña durante las primeras ${windowHours} horas.`,
+      metadata: { reviewId, windowHours },
+      exposeMessage: true,
+    });
+  }
+}
+
 export class DiscordEntityCreationError extends DedosError {
   public constructor(entity: string, cause?: unknown) {
     super({
@@ -0,0 +1,82 @@
+// ============================================================================
+// RUTA: src/shared/utils/customId.ts
+// ============================================================================
+
+import { createHmac, timingSafeEqual } from 'node:crypto';
+
+const SEPARATOR = ':';
+const SIGNATURE_LENGTH = 16;
+/** Límite de Discord para el `customId` de botones, menús y modales. */
+const MAX_CUSTOM_ID_LENGTH = 100;
+
+export type CustomIdParams<TKey extends string> = Readonly<Record<TKey, string>>;
+
+/**
+ * Codifica y verifica `customId` con el formato `<prefijo>:<valor>:...:<firma>`. La firma es un HMAC de
+ * prefijo y valores, de modo que el handler puede confiar en los parámetros sin guardar estado en memoria.
+ */
+export interface CustomIdCodec<TKey extends string> {
+  readonly prefix: string;
+  build(params: Readonly<Record<TKey, string | number | bigint>>): string;
+  /** Devuelve `null` si el id no pertenece al prefijo, está mal formado o la firma no coincide. */
+  parse(customId: string): CustomIdParams<TKey> | null;
+}
+
+export const customIdPrefix = (customId: string): string => {
+  const index = customId.indexOf(SEPARATOR);
+
+  return index === -1 ? customId : customId.slice(0, index);
+};
+
+export const createCustomIdCodec = <const TKey extends string>(
+  prefix: string,
+  keys: readonly TKey[],
+  secret: string,
+): CustomIdCodec<TKey> => {
+  if (prefix.length === 0 || prefix.includes(SEPARATOR)) {
+    throw new Error(`Prefijo de customId inválido: ${prefix}`);
+  }
+
+  const sign = (values: readonly string[]): string =>
+    createHmac('sha256', secret)
+      .update([prefix, ...values].join(SEPARATOR))
+      .digest('base64url')
+      .slice(0, SIGNATURE_LENGTH);
+
+  return {
+    prefix,
+    build(params) {
+      const values = keys.map((key) => {
+        const value = String(params[key]);
+        if (value.length === 0 || value.includes(SEPARATOR)) {
+          throw new Error(`Valor inválido para ${prefix}.${key}: ${value}`);
+        }
+
+        return value;
+      });
+
+      const customId = [prefix, ...values, sign(values)].join(SEPARATOR);
+      if (customId.length > MAX_CUSTOM_ID_LENGTH) {
+        throw new Error(`El customId ${prefix} supera los ${MAX_CUSTOM_ID_LENGTH} caracteres.`);
+      }
+
+      return customId;
+    },
+    parse(customId) {
+      const [head, ...rest] = customId.split(SEPARATOR);
+      const signature = rest.pop();
+
+      if (head !== prefix || signature === undefined || rest.length !== keys.length) {
+        return null;
+      }
+
+      const expected = Buffer.from(sign(rest));
+      const received = Buffer.from(signature);
+      if (expected.length !== received.length || !timingSafeEqual(expected, received)) {
+        return null;
+      }
+
+      return Object.fromEntries(keys.map((key, index) => [key, rest[index]!])) as CustomIdParams<TKey>;
+    },
+  };
+};
@@ -2,7 +2,9 @@
 // RUTA: src/shared/utils/discord.utils.ts
 // ============================================================================
 
-import { EMBED_LIMITS } from '@/shared/config/constants';
+import type { PermissionsBitField } from 'discord.js';
+
+import { EMBED_LIMITS, type PermissionGroupKey,PERMISSIONS } from '@/shared/config/constants';
 
 const CHANNEL_NAME_REGEX = /[^a-z0-9-]+/gu;
 const MULTIPLE_DASH_REGEX = /-{2,}/gu;
@@ -20,6 +22,11 @@ export const clampEmbedField = (value: string): string =>
 
 export const isValidSnowflake = (value: string): boolean => /^\d{17,20}$/u.test(value);
 
+export const hasPermissionGroup = (
+  permissions: Readonly<PermissionsBitField> | null,
+  group: PermissionGroupKey,
+): boolean => permissions?.any([...PERMISSIONS[group]]) ?? false;
+
 export const sanitizeChannelName = (value: string): string => {
   const lower = value.toLowerCase().replace(CHANNEL_NAME_REGEX, '-');
   const collapsed = lower.replace(MULTIPLE_DASH_REGEX, '-');
@@ -0,0 +1,110 @@
+import type { Logger } from 'pino';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { LeaderboardService } from '@/application/services/LeaderboardService';
+import { RatingService } from '@/application/services/RatingService';
+import { LeaderboardBoard, LeaderboardPeriod } from '@/domain/entities/types';
+import type { IGuildSettingsRepository } from '@/domain/repositories/IGuildSettingsRepository';
+import type { ILeaderboardRepository, LeaderboardEntry } from '@/domain/repositories/ILeaderboardRepository';
+
+const createMockLogger = (): Logger =>
+  ({
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    child: vi.fn().mockReturnThis(),
+    level: 'silent',
+  }) as unknown as Logger;
+
+const buildEntries = (count: number): LeaderboardEntry[] =>
+  Array.from({ length: count }, (_, index) => ({ userId: BigInt(index + 1), score: count - index, count: count - index }));
+
+describe('LeaderboardService', () => {
+  const now = new Date('2025-03-10T12:00:00Z');
+
+  let repository: ILeaderboardRepository;
+  let service: LeaderboardService;
+
+  beforeEach(() => {
+    repository = {
+      topTraders: vi.fn().mockResolvedValue(buildEntries(12)),
+      topMiddlemen: vi.fn().mockResolvedValue([]),
+      ratingSamples: vi.fn().mockResolvedValue([]),
+      ratingTotals: vi.fn().mockResolvedValue([]),
+    };
+    service = new LeaderboardService(
+      repository,
+      {} as IGuildSettingsRepository,
+      createMockLogger(),
+      undefined,
+      { pageSize: 5, cacheTtlMs: 60_000, minReviews: 2 },
+      new RatingService(),
+    );
+  });
+
+  it('queries the requested window and ranks entries across pages', async () => {
+    const page = await service.getPage(LeaderboardBoard.TRADES, LeaderboardPeriod.WEEK, 2, now);
+
+    expect(repository.topTraders).toHaveBeenCalledWith(new Date('2025-03-03T12:00:00Z'), 50);
+    expect(page.totalPages).toBe(3);
+    expect(page.entries.map((entry) => entry.rank)).toEqual([6, 7, 8, 9, 10]);
+  });
+
+  it('clamps out of range pages', async () => {
+    const page = await service.getPage(LeaderboardBoard.TRADES, LeaderboardPeriod.ALL, 9, now);
+
+    expect(repository.topTraders).toHaveBeenCalledWith(null, 50);
+    expect(page.page).toBe(3);
+    expect(page.entries).toHaveLength(2);
+  });
+
+  it('serves cached boards until the TTL expires', async () => {
+    await service.getPage(LeaderboardBoard.REVIEWS, LeaderboardPeriod.MONTH, 1, now);
+    await service.getPage(LeaderboardBoard.REVIEWS, LeaderboardPeriod.MONTH, 1, new Date(now.getTime() + 30_000));
+    expect(repository.ratingTotals).toHaveBeenCalledTimes(1);
+    expect(repository.ratingTotals).toHaveBeenCalledWith(new Date('2025-02-08T12:00:00Z'));
+
+    await service.getPage(LeaderboardBoard.REVIEWS, LeaderboardPeriod.MONTH, 1, new Date(now.getTime() + 61_000));
+    expect(repository.ratingTotals).toHaveBeenCalledTimes(2);
+    expect(repository.ratingSamples).not.toHaveBeenCalled();
+  });
+
+  it('ranks reviewed middlemen by weighted rating and skips those below the minimum', async () => {
+    const totals = (middlemanId: bigint, sum: number, count: number) => ({ middlemanId, sum, count });
+    vi.mocked(repository.ratingTotals).mockResolvedValue([totals(1n, 10, 2), totals(2n, 54, 11), totals(3n, 5, 1)]);
+
+    const page = await service.getPage(LeaderboardBoard.REVIEWS, LeaderboardPeriod.ALL, 1, now);
+
+    expect(page.entries.map((entry) => entry.userId)).toEqual([2n, 1n]);
+    expect(page.entries[0]).toMatchObject({ count: 11, rawScore: 54 / 11 });
+    expect(page.entries[1]).toMatchObject({ count: 2, rawScore: 5 });
+    expect(page.entries[0]!.score).toBeCloseTo((3.5 * 5 + 54) / 16);
+  });
+
+  it('groups individual reviews per middleman when decay is enabled', async () => {
+    service = new LeaderboardService(
+      repository,
+      {} as IGuildSettingsRepository,
+      createMockLogger(),
+      undefined,
+      { minReviews: 2 },
+      new RatingService({ priorWeight: 0, halfLifeDays: 30 }),
+    );
+    const daysAgo = (days: number) => new Date(now.getTime() - days * 24 * 60 * 60 * 1000);
+    vi.mocked(repository.ratingSamples).mockResolvedValue([
+      { middlemanId: 1n, rating: 5, createdAt: daysAgo(0) },
+      { middlemanId: 1n, rating: 1, createdAt: daysAgo(30) },
+      { middlemanId: 2n, rating: 4, createdAt: daysAgo(0) },
+      { middlemanId: 2n, rating: 4, createdAt: daysAgo(0) },
+      { middlemanId: 3n, rating: 5, createdAt: daysAgo(0) },
+    ]);
+
+    const page = await service.getPage(LeaderboardBoard.REVIEWS, LeaderboardPeriod.ALL, 1, now);
+
+    expect(repository.ratingTotals).not.toHaveBeenCalled();
+    expect(page.entries.map((entry) => entry.userId)).toEqual([2n, 1n]);
+    expect(page.entries[1]).toMatchObject({ count: 2, rawScore: 3 });
+    expect(page.entries[1]!.score).toBeCloseTo((5 + 0.5) / 1.5);
+  });
+});
@@ -0,0 +1,161 @@
+import { type Client, DiscordAPIError, RESTJSONErrorCodes } from 'discord.js';
+import type { Logger } from 'pino';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { NotificationQueue } from '@/application/services/NotificationQueue';
+import { NotificationStatus } from '@/domain/entities/types';
+import type { INotificationRepository, QueuedNotification } from '@/domain/repositories/INotificationRepository';
+
+const createMockLogger = (): Logger =>
+  ({
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    child: vi.fn().mockReturnThis(),
+    level: 'silent',
+  }) as unknown as Logger;
+
+const buildNotification = (id: number, userId: bigint, attempts = 0): QueuedNotification => ({
+  id,
+  userId,
+  kind: 'test',
+  payload: { content: 'Hola' },
+  attempts,
+  availableAt: new Date(0),
+});
+
+const discordError = (code: number): DiscordAPIError =>
+  new DiscordAPIError({ code, message: 'error' }, code, 403, 'POST', '/users/@me/channels', {});
+
+describe('NotificationQueue', () => {
+  const now = new Date('2025-01-01T00:00:00Z');
+
+  let repository: INotificationRepository;
+  let send: ReturnType<typeof vi.fn>;
+  let client: Client;
+  let queue: NotificationQueue;
+
+  beforeEach(() => {
+    repository = {
+      enqueue: vi.fn(async (data) => ({ ...buildNotification(1, data.userId), availableAt: data.availableAt })),
+      claimDue: vi.fn().mockResolvedValue([]),
+      markSent: vi.fn(),
+      reschedule: vi.fn(),
+      markDead: vi.fn(),
+      deadLetterUser: vi.fn().mockResolvedValue(2),
+      isDeadLettered: vi.fn().mockResolvedValue(false),
+      purgeFinished: vi.fn().mockResolvedValue(0),
+      countByStatus: vi.fn().mockResolvedValue({
+        [NotificationStatus.PENDING]: 0,
+        [NotificationStatus.SENT]: 0,
+        [NotificationStatus.DEAD]: 0,
+      }),
+    };
+    send = vi.fn();
+    client = { users: { fetch: vi.fn().mockResolvedValue({ send }) } } as unknown as Client;
+    queue = new NotificationQueue(repository, createMockLogger(), { globalPerMinute: 2, perUserIntervalMs: 10_000 });
+  });
+
+  it('skips users that are dead-lettered', async () => {
+    vi.mocked(repository.isDeadLettered).mockResolvedValue(true);
+
+    const queued = await queue.enqueue('123', 'test', { content: 'Hola' }, {}, now);
+
+    expect(queued).toBe(false);
+    expect(repository.enqueue).not.toHaveBeenCalled();
+  });
+
+  it('sends due notifications and respects the per-user interval', async () => {
+    vi.mocked(repository.claimDue).mockResolvedValue([buildNotification(1, 5n), buildNotification(2, 5n)]);
+
+    await queue.runDue(client, now);
+
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(repository.markSent).toHaveBeenCalledWith(1, now);
+    expect(repository.reschedule).toHaveBeenCalledWith(2, new Date(now.getTime() + 10_000), 0);
+  });
+
+  it('stops claiming once the global budget is spent', async () => {
+    vi.mocked(repository.claimDue).mockResolvedValue([buildNotification(1, 5n), buildNotification(2, 6n)]);
+    await queue.runDue(client, now);
+
+    await queue.runDue(client, new Date(now.getTime() + 20_000));
+
+    expect(repository.claimDue).toHaveBeenCalledTimes(1);
+  });
+
+  it('retries failures with exponential backoff', async () => {
+    vi.mocked(repository.claimDue).mockResolvedValue([buildNotification(1, 5n, 2)]);
+    send.mockRejectedValue(new Error('timeout'));
+
+    await queue.runDue(client, now);
+
+    expect(repository.reschedule).toHaveBeenCalledWith(1, new Date(now.getTime() + 120_000), 3, 'timeout');
+  });
+
+  it('dead-letters users with closed DMs', async () => {
+    vi.mocked(repository.claimDue).mockResolvedValue([buildNotification(1, 5n)]);
+    send.mockRejectedValue(discordError(RESTJSONErrorCodes.CannotSendMessagesToThisUser));
+
+    await queue.runDue(client, now);
+
+    expect(repository.deadLetterUser).toHaveBeenCalledWith(5n, 'error', new Date(now.getTime() + 7 * 24 * 60 * 60 * 1000));
+    expect(repository.reschedule).not.toHaveBeenCalled();
+  });
+
+  it('purges finished notifications at most once per interval', async () => {
+    await queue.runDue(client, now);
+    await queue.runDue(client, new Date(now.getTime() + 5_000));
+
+    expect(repository.purgeFinished).toHaveBeenCalledTimes(1);
+    expect(repository.purgeFinished).toHaveBeenCalledWith(new Date(now.getTime() - 14 * 24 * 60 * 60 * 1000));
+
+    await queue.runDue(client, new Date(now.getTime() + 60 * 60 * 1000));
+
+    expect(repository.purgeFinished).toHaveBeenCalledTimes(2);
+  });
+
+  it('logs queue depth, retries and failures once per metrics interval', async () => {
+    const logger = createMockLogger();
+    queue = new NotificationQueue(repository, logger);
+    vi.mocked(repository.countByStatus).mockResolvedValue({
+      [NotificationStatus.PENDING]: 4,
+      [NotificationStatus.SENT]: 10,
+      [NotificationStatus.DEAD]: 1,
+    });
+    vi.mocked(repository.claimDue).mockResolvedValueOnce([buildNotification(1, 5n), buildNotification(2, 6n, 4)]);
+    send.mockRejectedValue(new Error('timeout'));
+
+    await queue.runDue(client, now);
+    await queue.runDue(client, new Date(now.getTime() + 5_000));
+
+    expect(repository.countByStatus).toHaveBeenCalledTimes(1);
+    expect(logger.info).toHaveBeenCalledWith(
+      { pending: 4, sent: 10, dead: 1, sentThisMinute: 0, retried: 1, failed: 1 },
+      'Estado de la cola de DMs.',
+    );
+
+    await queue.runDue(client, new Date(now.getTime() + 5 * 60 * 1000));
+
+    expect(repository.countByStatus).toHaveBeenCalledTimes(2);
+    expect(logger.info).toHaveBeenLastCalledWith(expect.objectContaining({ retried: 0, failed: 0 }), 'Estado de la cola de DMs.');
+  });
+
+  it('renders deferred attachments when the notification is sent', async () => {
+    const render = vi.fn().mockResolvedValue(Buffer.from('png'));
+    queue.registerFileRenderer('card', render);
+    vi.mocked(repository.claimDue).mockResolvedValue([
+      {
+        ...buildNotification(1, 5n),
+        payload: { content: 'Hola', renderedFiles: [{ name: 'card.png', renderer: 'card', data: { id: 1 } }] },
+      },
+    ]);
+
+    await queue.runDue(client, now);
+
+    expect(render).toHaveBeenCalledWith({ id: 1 });
+    expect(send).toHaveBeenCalledWith(expect.objectContaining({ files: [expect.objectContaining({ name: 'card.png' })] }));
+    expect(repository.markSent).toHaveBeenCalledWith(1, now);
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { RatingService } from '@/application/services/RatingService';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('RatingService', () => {
+  const now = new Date('2025-03-10T12:00:00Z');
+  const daysAgo = (days: number): Date => new Date(now.getTime() - days * DAY_MS);
+
+  it('returns the prior mean when there are no reviews', () => {
+    const score = new RatingService({ priorMean: 3.5, priorWeight: 5 }).score([], now);
+
+    expect(score).toEqual({ raw: null, weighted: 3.5, count: 0 });
+  });
+
+  it('pulls small samples towards the prior', () => {
+    const service = new RatingService({ priorMean: 3, priorWeight: 4 });
+
+    const few = service.score([{ rating: 5, createdAt: now }], now);
+    const many = service.score(
+      Array.from({ length: 20 }, () => ({ rating: 5, createdAt: now })),
+      now,
+    );
+
+    expect(few.raw).toBe(5);
+    expect(few.weighted).toBeCloseTo(17 / 5);
+    expect(many.weighted).toBeCloseTo(112 / 24);
+    expect(many.weighted).toBeGreaterThan(few.weighted);
+  });
+
+  it('halves the weight of reviews every half-life when decay is enabled', () => {
+    const service = new RatingService({ priorMean: 3, priorWeight: 0, halfLifeDays: 30 });
+
+    const score = service.score(
+      [
+        { rating: 5, createdAt: daysAgo(0) },
+        { rating: 1, createdAt: daysAgo(30) },
+      ],
+      now,
+    );
+
+    expect(score.raw).toBe(3);
+    expect(score.weighted).toBeCloseTo((5 + 0.5) / 1.5);
+  });
+
+  it('ignores review age when decay is disabled', () => {
+    const service = new RatingService({ priorMean: 3, priorWeight: 0, halfLifeDays: 0 });
+
+    const score = service.score(
+      [
+        { rating: 5, createdAt: daysAgo(0) },
+        { rating: 1, createdAt: daysAgo(365) },
+      ],
+      now,
+    );
+
+    expect(score.weighted).toBe(3);
+  });
+
+  it('scores aggregated totals like the individual reviews when decay is disabled', () => {
+    const service = new RatingService({ priorMean: 3, priorWeight: 4 });
+    const samples = [5, 4, 2].map((rating) => ({ rating, createdAt: now }));
+
+    expect(service.scoreTotals({ sum: 11, count: 3 })).toEqual(service.score(samples, now));
+    expect(service.scoreTotals({ sum: 0, count: 0 })).toEqual({ raw: null, weighted: 3, count: 0 });
+  });
+
+  it('only loads individual reviews when decay needs them', async () => {
+    const source = {
+      ratingTotals: vi.fn().mockResolvedValue({ sum: 10, count: 2 }),
+      ratingSamples: vi.fn().mockResolvedValue([{ rating: 5, createdAt: daysAgo(30) }]),
+    };
+
+    await new RatingService({ halfLifeDays: 0 }).scoreMiddleman(source, 1n, now);
+    expect(source.ratingTotals).toHaveBeenCalledWith(1n);
+    expect(source.ratingSamples).not.toHaveBeenCalled();
+
+    const decayed = await new RatingService({ priorWeight: 0, halfLifeDays: 30 }).scoreMiddleman(source, 1n, now);
+    expect(source.ratingSamples).toHaveBeenCalledWith(1n);
+    expect(decayed).toEqual({ raw: 5, weighted: 5, count: 1 });
+  });
+});
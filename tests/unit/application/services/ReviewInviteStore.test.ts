@@ -0,0 +1,62 @@
+import type { Logger } from 'pino';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { ReviewInviteStore } from '@/application/services/ReviewInviteStore';
+import type { IReviewInviteRepository } from '@/domain/repositories/IReviewInviteRepository';
+
+const MESSAGE_ID = '555555555555555555';
+const MIDDLEMAN_ID = '333333333333333333';
+
+const createMockLogger = (): Logger =>
+  ({
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    child: vi.fn().mockReturnThis(),
+    level: 'silent',
+  }) as unknown as Logger;
+
+describe('ReviewInviteStore', () => {
+  const now = new Date('2025-03-10T12:00:00Z');
+
+  let repository: IReviewInviteRepository;
+  let store: ReviewInviteStore;
+
+  beforeEach(() => {
+    repository = {
+      save: vi.fn(),
+      findByMessageId: vi.fn().mockResolvedValue(null),
+      delete: vi.fn(),
+      deleteExpired: vi.fn().mockResolvedValue(0),
+    };
+    store = new ReviewInviteStore(repository, createMockLogger(), 7);
+  });
+
+  it('persists invites with an expiry measured in days', async () => {
+    await store.set(MESSAGE_ID, { ticketId: 12, middlemanId: MIDDLEMAN_ID }, now);
+
+    expect(repository.save).toHaveBeenCalledWith({
+      messageId: BigInt(MESSAGE_ID),
+      ticketId: 12,
+      middlemanId: BigInt(MIDDLEMAN_ID),
+      expiresAt: new Date('2025-03-17T12:00:00Z'),
+    });
+    expect(repository.deleteExpired).toHaveBeenCalledWith(now);
+  });
+
+  it('resolves stored invites until they expire', async () => {
+    vi.mocked(repository.findByMessageId).mockResolvedValue({
+      messageId: BigInt(MESSAGE_ID),
+      ticketId: 12,
+      middlemanId: BigInt(MIDDLEMAN_ID),
+      createdAt: now,
+      expiresAt: new Date('2025-03-17T12:00:00Z'),
+    });
+
+    await expect(store.get(MESSAGE_ID, now)).resolves.toEqual({ ticketId: 12, middlemanId: MIDDLEMAN_ID });
+
+    await expect(store.get(MESSAGE_ID, new Date('2025-03-18T00:00:00Z'))).resolves.toBeNull();
+    expect(repository.delete).toHaveBeenCalledWith(BigInt(MESSAGE_ID));
+  });
+});
@@ -0,0 +1,92 @@
+import { ActionRowBuilder, type ButtonBuilder } from 'discord.js';
+import type { Logger } from 'pino';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import type { NotificationQueue } from '@/application/services/NotificationQueue';
+import { ReviewReminderService } from '@/application/services/ReviewReminderService';
+import type { IReviewReminderRepository } from '@/domain/repositories/IReviewReminderRepository';
+import { embedFactory } from '@/presentation/embeds/EmbedFactory';
+
+const USER_ID = 111111111111111111n;
+const MIDDLEMAN_ID = 333333333333333333n;
+
+const createMockLogger = (): Logger =>
+  ({
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    child: vi.fn().mockReturnThis(),
+    level: 'silent',
+  }) as unknown as Logger;
+
+describe('ReviewReminderService', () => {
+  const now = new Date('2025-03-10T12:00:00Z');
+
+  let reminderRepo: IReviewReminderRepository;
+  let notifications: NotificationQueue;
+  let buildButtonRow: ReturnType<typeof vi.fn>;
+  let service: ReviewReminderService;
+
+  beforeEach(() => {
+    reminderRepo = {
+      findPending: vi.fn().mockResolvedValue([
+        { ticketId: 9, userId: USER_ID, middlemanId: MIDDLEMAN_ID, remindersSent: 0 },
+      ]),
+      record: vi.fn(),
+    };
+    notifications = { enqueue: vi.fn().mockResolvedValue(true) } as unknown as NotificationQueue;
+    buildButtonRow = vi.fn(() => new ActionRowBuilder<ButtonBuilder>());
+
+    service = new ReviewReminderService(
+      reminderRepo,
+      notifications,
+      createMockLogger(),
+      { delayHours: 24, maxReminders: 2 },
+      buildButtonRow,
+      embedFactory,
+    );
+  });
+
+  it('queries the reminder window and enqueues a DM with the review button', async () => {
+    await service.runDue(now);
+
+    expect(reminderRepo.findPending).toHaveBeenCalledWith({
+      requestedAfter: new Date('2025-03-07T12:00:00Z'),
+      requestedBefore: new Date('2025-03-09T12:00:00Z'),
+      remindedBefore: new Date('2025-03-09T12:00:00Z'),
+      maxReminders: 2,
+      limit: 50,
+    });
+    expect(buildButtonRow).toHaveBeenCalledWith(9, MIDDLEMAN_ID);
+    expect(notifications.enqueue).toHaveBeenCalledWith(
+      USER_ID.toString(),
+      'review-reminder',
+      expect.objectContaining({ components: [expect.any(ActionRowBuilder)] }),
+    );
+    expect(reminderRepo.record).toHaveBeenCalledWith(9, USER_ID, now);
+  });
+
+  it('does nothing when reminders are disabled', async () => {
+    service = new ReviewReminderService(
+      reminderRepo,
+      notifications,
+      createMockLogger(),
+      { delayHours: 24, maxReminders: 0 },
+      buildButtonRow,
+      embedFactory,
+    );
+
+    await service.runDue(now);
+
+    expect(reminderRepo.findPending).not.toHaveBeenCalled();
+  });
+
+  it('does not record a reminder that could not be queued', async () => {
+    vi.mocked(notifications.enqueue).mockRejectedValue(new Error('db down'));
+
+    await service.runDue(now);
+
+    expect(reminderRepo.record).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,114 @@
+import { ChannelType, type Client, OverwriteType } from 'discord.js';
+import type { Logger } from 'pino';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { TicketChannelLifecycleService } from '@/application/services/TicketChannelLifecycleService';
+import { Ticket } from '@/domain/entities/Ticket';
+import { TicketStatus, TicketType } from '@/domain/entities/types';
+import type { IReviewInviteRepository } from '@/domain/repositories/IReviewInviteRepository';
+import type { ITicketChannelScheduleRepository } from '@/domain/repositories/ITicketChannelScheduleRepository';
+import type { ITicketRepository } from '@/domain/repositories/ITicketRepository';
+
+const BOT_ID = '999';
+const OWNER_ID = '111';
+const ARCHIVE_CATEGORY_ID = '555';
+
+const createMockLogger = (): Logger =>
+  ({
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    child: vi.fn().mockReturnThis(),
+    level: 'silent',
+  }) as unknown as Logger;
+
+describe('TicketChannelLifecycleService', () => {
+  const entry = {
+    ticketId: 1,
+    channelId: 2n,
+    archiveAt: new Date(0),
+    deleteAt: new Date(0),
+    archivedAt: null,
+    deletedAt: null,
+  };
+
+  let ticket: Ticket;
+  let scheduleRepo: ITicketChannelScheduleRepository;
+  let reviewInviteRepo: IReviewInviteRepository;
+  let channel: {
+    type: ChannelType;
+    parentId: string;
+    permissionOverwrites: { cache: Map<string, { id: string; type: OverwriteType }>; edit: ReturnType<typeof vi.fn> };
+    setParent: ReturnType<typeof vi.fn>;
+    delete: ReturnType<typeof vi.fn>;
+  };
+  let client: Client;
+  let service: TicketChannelLifecycleService;
+
+  beforeEach(() => {
+    ticket = new Ticket(1, 1n, 2n, 111n, TicketType.MM, TicketStatus.CLOSED, new Date(), new Date());
+    scheduleRepo = {
+      upsert: vi.fn(),
+      remove: vi.fn(),
+      findDueForArchive: vi.fn().mockResolvedValue([entry]),
+      findDueForDeletion: vi.fn().mockResolvedValue([]),
+      markArchived: vi.fn(),
+      markDeleted: vi.fn(),
+    };
+    channel = {
+      type: ChannelType.GuildText,
+      parentId: '444',
+      permissionOverwrites: {
+        cache: new Map([
+          [OWNER_ID, { id: OWNER_ID, type: OverwriteType.Member }],
+          [BOT_ID, { id: BOT_ID, type: OverwriteType.Member }],
+        ]),
+        edit: vi.fn(),
+      },
+      setParent: vi.fn(),
+      delete: vi.fn(),
+    };
+    client = {
+      user: { id: BOT_ID },
+      channels: { fetch: vi.fn().mockResolvedValue(channel) },
+    } as unknown as Client;
+
+    const ticketRepo = { findById: vi.fn().mockResolvedValue(ticket) } as unknown as ITicketRepository;
+    reviewInviteRepo = { deleteByTicket: vi.fn().mockResolvedValue(1) } as unknown as IReviewInviteRepository;
+    service = new TicketChannelLifecycleService(scheduleRepo, ticketRepo, reviewInviteRepo, createMockLogger(), {
+      archiveAfterHours: 1,
+      deleteAfterHours: 72,
+      archiveCategoryId: ARCHIVE_CATEGORY_ID,
+    });
+  });
+
+  it('locks member overwrites and moves due channels to the archive category', async () => {
+    const now = new Date();
+    await service.runDue(client, now);
+
+    expect(channel.permissionOverwrites.edit).toHaveBeenCalledTimes(1);
+    expect(channel.permissionOverwrites.edit).toHaveBeenCalledWith(OWNER_ID, { SendMessages: false });
+    expect(channel.setParent).toHaveBeenCalledWith(ARCHIVE_CATEGORY_ID, { lockPermissions: false });
+    expect(scheduleRepo.markArchived).toHaveBeenCalledWith(1, now);
+  });
+
+  it('drops the schedule when the ticket was reopened', async () => {
+    ticket.reopen();
+    await service.runDue(client);
+
+    expect(scheduleRepo.remove).toHaveBeenCalledWith(1);
+    expect(channel.setParent).not.toHaveBeenCalled();
+  });
+
+  it('deletes channels whose deletion is due', async () => {
+    vi.mocked(scheduleRepo.findDueForArchive).mockResolvedValue([]);
+    vi.mocked(scheduleRepo.findDueForDeletion).mockResolvedValue([entry]);
+
+    await service.runDue(client);
+
+    expect(channel.delete).toHaveBeenCalled();
+    expect(scheduleRepo.markDeleted).toHaveBeenCalledWith(1, expect.any(Date));
+    expect(reviewInviteRepo.deleteByTicket).toHaveBeenCalledWith(1);
+  });
+});
@@ -0,0 +1,116 @@
+import { ChannelType, type Client, Collection } from 'discord.js';
+import type { Logger } from 'pino';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import type { TicketChannelLifecycleService } from '@/application/services/TicketChannelLifecycleService';
+import { TicketInactivityService } from '@/application/services/TicketInactivityService';
+import type { TradePanelService } from '@/application/services/TradePanelService';
+import type { TranscriptService } from '@/application/services/TranscriptService';
+import type { CancelTradeUseCase } from '@/application/usecases/middleman/CancelTradeUseCase';
+import { TicketReminderKind } from '@/domain/entities/types';
+import type { ITicketReminderRepository } from '@/domain/repositories/ITicketReminderRepository';
+import type { ITicketRepository } from '@/domain/repositories/ITicketRepository';
+import { embedFactory } from '@/presentation/embeds/EmbedFactory';
+
+const GUILD_ID = '100';
+const OWNER_ID = 111n;
+const MIDDLEMAN_ROLE_ID = '700';
+
+const createMockLogger = (): Logger =>
+  ({
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    child: vi.fn().mockReturnThis(),
+    level: 'silent',
+  }) as unknown as Logger;
+
+describe('TicketInactivityService', () => {
+  const pending = { ticketId: 1, channelId: 2n, ownerId: OWNER_ID, unclaimedSince: new Date(0) };
+
+  let reminderRepo: ITicketReminderRepository;
+  let cancelUseCase: CancelTradeUseCase;
+  let panels: TradePanelService;
+  let channel: { type: ChannelType; send: ReturnType<typeof vi.fn>; messages: { fetch: ReturnType<typeof vi.fn> } };
+  let client: Client;
+  let service: TicketInactivityService;
+
+  const pendingFor = (kind: TicketReminderKind) =>
+    vi.mocked(reminderRepo.findPending).mockImplementation(async (_guildId, requested) =>
+      requested === kind ? [pending] : [],
+    );
+
+  beforeEach(() => {
+    reminderRepo = {
+      withTransaction: vi.fn().mockReturnThis(),
+      findPending: vi.fn().mockResolvedValue([]),
+      record: vi.fn(),
+      reset: vi.fn(),
+    };
+    cancelUseCase = { execute: vi.fn() } as unknown as CancelTradeUseCase;
+    panels = { refresh: vi.fn() } as unknown as TradePanelService;
+    channel = {
+      type: ChannelType.GuildText,
+      send: vi.fn(),
+      messages: { fetch: vi.fn().mockResolvedValue(new Collection()) },
+    };
+    client = {
+      user: { id: '999' },
+      guilds: { cache: new Map([[GUILD_ID, {}]]) },
+      channels: { fetch: vi.fn().mockResolvedValue(channel) },
+    } as unknown as Client;
+
+    const ticketRepo = {
+      listParticipants: vi.fn().mockResolvedValue([{ userId: OWNER_ID, role: 'OWNER' }]),
+    } as unknown as ITicketRepository;
+
+    service = new TicketInactivityService(
+      reminderRepo,
+      ticketRepo,
+      cancelUseCase,
+      panels,
+      { archive: vi.fn() } as unknown as TranscriptService,
+      { schedule: vi.fn() } as unknown as TicketChannelLifecycleService,
+      createMockLogger(),
+      { reminderMinutes: 15, escalationMinutes: 60, autoCloseHours: 24, middlemanRoleId: MIDDLEMAN_ROLE_ID },
+      embedFactory,
+    );
+  });
+
+  it('pings the middleman role once and records the reminder', async () => {
+    pendingFor(TicketReminderKind.MIDDLEMAN_PING);
+    const now = new Date();
+
+    await service.runDue(client, now);
+
+    expect(channel.send).toHaveBeenCalledWith(
+      expect.objectContaining({ content: `<@&${MIDDLEMAN_ROLE_ID}>`, allowedMentions: { roles: [MIDDLEMAN_ROLE_ID] } }),
+    );
+    expect(reminderRepo.record).toHaveBeenCalledWith(1, TicketReminderKind.MIDDLEMAN_PING, now);
+  });
+
+  it('auto-closes tickets where no participant has written', async () => {
+    pendingFor(TicketReminderKind.AUTO_CLOSE);
+
+    await service.runDue(client);
+
+    expect(cancelUseCase.execute).toHaveBeenCalledWith(
+      expect.objectContaining({ ticketId: 1, actorId: '999', isStaff: true }),
+      channel,
+    );
+    expect(panels.refresh).toHaveBeenCalledWith(1, channel);
+    expect(reminderRepo.record).toHaveBeenCalledWith(1, TicketReminderKind.AUTO_CLOSE, expect.any(Date));
+  });
+
+  it('keeps tickets open when a participant has written', async () => {
+    pendingFor(TicketReminderKind.AUTO_CLOSE);
+    channel.messages.fetch.mockResolvedValue(new Collection([['1', { author: { id: OWNER_ID.toString() } }]]));
+
+    await service.runDue(client);
+
+    expect(cancelUseCase.execute).not.toHaveBeenCalled();
+    expect(panels.refresh).not.toHaveBeenCalled();
+    expect(reminderRepo.record).toHaveBeenCalledWith(1, TicketReminderKind.AUTO_CLOSE, expect.any(Date));
+  });
+});
@@ -0,0 +1,109 @@
+import { ActionRowBuilder, type ButtonBuilder, type TextChannel } from 'discord.js';
+import type { Logger } from 'pino';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { TradePanelService } from '@/application/services/TradePanelService';
+import { Ticket } from '@/domain/entities/Ticket';
+import { TicketStatus, TicketType } from '@/domain/entities/types';
+import type { IMiddlemanRepository } from '@/domain/repositories/IMiddlemanRepository';
+import type { ITicketRepository } from '@/domain/repositories/ITicketRepository';
+import type { ITradeRepository } from '@/domain/repositories/ITradeRepository';
+import { embedFactory } from '@/presentation/embeds/EmbedFactory';
+
+const OWNER_ID = 111111111111111111n;
+const PARTNER_ID = 222222222222222222n;
+const PANEL_MESSAGE_ID = 555555555555555555n;
+
+const createMockLogger = (): Logger =>
+  ({
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    child: vi.fn().mockReturnThis(),
+    level: 'silent',
+  }) as unknown as Logger;
+
+describe('TradePanelService', () => {
+  let ticket: Ticket;
+  let middlemanRepo: IMiddlemanRepository;
+  let messages: { fetch: ReturnType<typeof vi.fn> };
+  let channel: TextChannel;
+  let buildButtonRow: ReturnType<typeof vi.fn>;
+  let service: TradePanelService;
+
+  beforeEach(() => {
+    ticket = new Ticket(1, 1n, 2n, OWNER_ID, TicketType.MM, TicketStatus.OPEN, new Date());
+
+    const ticketRepo = {
+      findById: vi.fn().mockResolvedValue(ticket),
+      listParticipants: vi.fn().mockResolvedValue([{ userId: PARTNER_ID, role: 'PARTNER' }]),
+    } as unknown as ITicketRepository;
+    const tradeRepo = { findByTicketId: vi.fn().mockResolvedValue([]) } as unknown as ITradeRepository;
+    middlemanRepo = {
+      getClaimByTicket: vi.fn().mockResolvedValue(null),
+      listFinalizations: vi.fn().mockResolvedValue([]),
+      savePanelMessage: vi.fn(),
+    } as unknown as IMiddlemanRepository;
+
+    messages = { fetch: vi.fn() };
+    channel = {
+      id: '2',
+      send: vi.fn().mockResolvedValue({ id: '666666666666666666' }),
+      messages,
+    } as unknown as TextChannel;
+    buildButtonRow = vi.fn(() => new ActionRowBuilder<ButtonBuilder>());
+
+    service = new TradePanelService(ticketRepo, tradeRepo, middlemanRepo, createMockLogger(), buildButtonRow, embedFactory);
+  });
+
+  it('publishes the panel and stores its message id in mm_claims on first render', async () => {
+    await service.refresh(1, channel);
+
+    expect(channel.send).toHaveBeenCalledTimes(1);
+    expect(buildButtonRow).toHaveBeenCalledWith(false);
+    expect(middlemanRepo.savePanelMessage).toHaveBeenCalledWith(1, 666666666666666666n);
+    expect(messages.fetch).not.toHaveBeenCalled();
+  });
+
+  it('edits the stored panel message when it still exists', async () => {
+    const message = { edit: vi.fn() };
+    vi.mocked(middlemanRepo.getClaimByTicket).mockResolvedValue({
+      ticketId: 1,
+      middlemanId: null,
+      claimedAt: new Date(),
+      panelMessageId: PANEL_MESSAGE_ID,
+    });
+    messages.fetch.mockResolvedValue(message);
+
+    await service.refresh(1, channel);
+
+    expect(messages.fetch).toHaveBeenCalledWith(PANEL_MESSAGE_ID.toString());
+    expect(message.edit).toHaveBeenCalledTimes(1);
+    expect(channel.send).not.toHaveBeenCalled();
+    expect(middlemanRepo.savePanelMessage).not.toHaveBeenCalled();
+  });
+
+  it('recreates the panel when the stored message was deleted', async () => {
+    vi.mocked(middlemanRepo.getClaimByTicket).mockResolvedValue({
+      ticketId: 1,
+      middlemanId: null,
+      claimedAt: new Date(),
+      panelMessageId: PANEL_MESSAGE_ID,
+    });
+    messages.fetch.mockRejectedValue(new Error('Unknown Message'));
+
+    await service.refresh(1, channel);
+
+    expect(channel.send).toHaveBeenCalledTimes(1);
+    expect(middlemanRepo.savePanelMessage).toHaveBeenCalledWith(1, 666666666666666666n);
+  });
+
+  it('disables the buttons once the ticket is closed', async () => {
+    ticket.status = TicketStatus.CLOSED;
+
+    await service.refresh(1, channel);
+
+    expect(buildButtonRow).toHaveBeenCalledWith(true);
+  });
+});
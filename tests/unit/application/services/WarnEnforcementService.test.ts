@@ -0,0 +1,156 @@
+import { type Guild, PermissionFlagsBits } from 'discord.js';
+import type { Logger } from 'pino';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { WarnEnforcementService } from '@/application/services/WarnEnforcementService';
+import {
+  Warn,
+  WarnEnforcementMode,
+  WarnSanctionAction,
+  WarnSanctionStatus,
+  WarnSeverity,
+} from '@/domain/entities/Warn';
+import type { IGuildSettingsRepository } from '@/domain/repositories/IGuildSettingsRepository';
+import type { IWarnSanctionRepository, WarnSanction } from '@/domain/repositories/IWarnSanctionRepository';
+import { WarnSanctionAlreadyResolvedError } from '@/shared/errors/domain.errors';
+
+const USER_ID = '123456789012345678';
+
+const createMockLogger = (): Logger =>
+  ({
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    child: vi.fn().mockReturnThis(),
+    level: 'silent',
+  }) as unknown as Logger;
+
+const buildSanction = (action: WarnSanctionAction, status = WarnSanctionStatus.PENDING): WarnSanction => ({
+  id: 7,
+  warnId: 3,
+  guildId: 1n,
+  userId: BigInt(USER_ID),
+  action,
+  status,
+  messageId: null,
+  resolvedById: null,
+  failure: null,
+  createdAt: new Date(),
+  resolvedAt: null,
+});
+
+describe('WarnEnforcementService', () => {
+  const warn = new Warn(3, BigInt(USER_ID), 42n, WarnSeverity.CRITICAL, 'Estafa', new Date());
+
+  let sanctionRepo: IWarnSanctionRepository;
+  let settingsRepo: IGuildSettingsRepository;
+  let member: { moderatable: boolean; bannable: boolean; timeout: ReturnType<typeof vi.fn> };
+  let me: { permissions: { has: ReturnType<typeof vi.fn> } };
+  let guild: Guild;
+  let service: WarnEnforcementService;
+
+  beforeEach(() => {
+    sanctionRepo = {
+      create: vi.fn(async (data) => buildSanction(data.action)),
+      findByMessageId: vi.fn(),
+      attachMessage: vi.fn(),
+      resolve: vi.fn().mockResolvedValue(true),
+    };
+    settingsRepo = {
+      getWarnEnforcementMode: vi.fn().mockResolvedValue(WarnEnforcementMode.AUTO),
+      setWarnEnforcementMode: vi.fn(),
+    };
+    member = { moderatable: true, bannable: true, timeout: vi.fn() };
+    me = { permissions: { has: vi.fn().mockReturnValue(true) } };
+    guild = {
+      id: '1',
+      members: {
+        me,
+        fetch: vi.fn().mockResolvedValue(member),
+        ban: vi.fn(),
+      },
+    } as unknown as Guild;
+    service = new WarnEnforcementService(sanctionRepo, settingsRepo, createMockLogger());
+  });
+
+  it('does nothing when no sanction is recommended', async () => {
+    const outcome = await service.enforce(guild, {
+      warn,
+      summary: { totalPoints: 1, recommendedAction: 'NONE' },
+      moderatorId: '42',
+    });
+
+    expect(outcome.kind).toBe('none');
+    expect(sanctionRepo.create).not.toHaveBeenCalled();
+  });
+
+  it('applies a timeout automatically and records it', async () => {
+    const outcome = await service.enforce(guild, {
+      warn,
+      summary: { totalPoints: 3, recommendedAction: 'TIMEOUT_1H' },
+      moderatorId: '42',
+    });
+
+    expect(outcome.kind).toBe('applied');
+    expect(member.timeout).toHaveBeenCalledWith(60 * 60 * 1000, 'Advertencia #3: Estafa');
+    expect(sanctionRepo.resolve).toHaveBeenCalledWith(7, {
+      status: WarnSanctionStatus.APPLIED,
+      resolvedById: 42n,
+      failure: null,
+    });
+  });
+
+  it('only suggests the sanction when the guild requires confirmation', async () => {
+    vi.mocked(settingsRepo.getWarnEnforcementMode).mockResolvedValue(WarnEnforcementMode.CONFIRM);
+
+    const outcome = await service.enforce(guild, {
+      warn,
+      summary: { totalPoints: 7, recommendedAction: 'BAN' },
+      moderatorId: '42',
+    });
+
+    expect(outcome.kind).toBe('pending');
+    expect(guild.members.ban).not.toHaveBeenCalled();
+    expect(sanctionRepo.resolve).not.toHaveBeenCalled();
+  });
+
+  it('records a failure when the bot lacks the required permission', async () => {
+    me.permissions.has.mockImplementation((flag: bigint) => flag !== PermissionFlagsBits.BanMembers);
+
+    const outcome = await service.enforce(guild, {
+      warn,
+      summary: { totalPoints: 7, recommendedAction: 'BAN' },
+      moderatorId: '42',
+    });
+
+    expect(outcome.kind).toBe('failed');
+    expect(guild.members.ban).not.toHaveBeenCalled();
+    expect(sanctionRepo.resolve).toHaveBeenCalledWith(
+      7,
+      expect.objectContaining({ status: WarnSanctionStatus.FAILED, failure: expect.stringContaining('Banear') }),
+    );
+  });
+
+  it('records a failure when the member is above the bot in the role hierarchy', async () => {
+    member.moderatable = false;
+
+    const outcome = await service.enforce(guild, {
+      warn,
+      summary: { totalPoints: 5, recommendedAction: 'TIMEOUT_24H' },
+      moderatorId: '42',
+    });
+
+    expect(outcome.kind).toBe('failed');
+    expect(member.timeout).not.toHaveBeenCalled();
+  });
+
+  it('rejects confirming a sanction that was already resolved', async () => {
+    vi.mocked(sanctionRepo.findByMessageId).mockResolvedValue(
+      buildSanction(WarnSanctionAction.BAN, WarnSanctionStatus.DISMISSED),
+    );
+
+    await expect(service.confirm(guild, '555', '42')).rejects.toBeInstanceOf(WarnSanctionAlreadyResolvedError);
+    expect(guild.members.ban).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,123 @@
+import type { GuildMember } from 'discord.js';
+import type { Logger } from 'pino';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import type { NotificationQueue } from '@/application/services/NotificationQueue';
+import {
+  formatWelcomeTemplate,
+  WELCOME_CARD_RENDERER,
+  WelcomeService,
+} from '@/application/services/WelcomeService';
+import type { IGuildSettingsRepository, WelcomeSettings } from '@/domain/repositories/IGuildSettingsRepository';
+import { WELCOME_DEFAULTS } from '@/shared/config/constants';
+
+const createMockLogger = (): Logger =>
+  ({
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    child: vi.fn().mockReturnThis(),
+    level: 'silent',
+  }) as unknown as Logger;
+
+describe('formatWelcomeTemplate', () => {
+  it('replaces the supported placeholders and keeps unknown ones', () => {
+    const text = formatWelcomeTemplate('{user} · {username} · {server} · {memberCount} · {otro}', {
+      user: '<@1>',
+      username: 'Ana',
+      server: 'Dedos',
+      memberCount: 42,
+    });
+
+    expect(text).toBe('<@1> · Ana · Dedos · 42 · {otro}');
+  });
+});
+
+describe('WelcomeService', () => {
+  const card = Buffer.from('png');
+
+  let settings: WelcomeSettings;
+  let settingsRepo: IGuildSettingsRepository;
+  let notifications: NotificationQueue;
+  let channel: { isTextBased: () => boolean; send: ReturnType<typeof vi.fn> };
+  let member: GuildMember;
+  let renderCard: ReturnType<typeof vi.fn>;
+  let fetchAvatar: ReturnType<typeof vi.fn>;
+  let service: WelcomeService;
+
+  beforeEach(() => {
+    settings = { dmEnabled: true, channelId: null, template: null };
+    settingsRepo = {
+      getWarnEnforcementMode: vi.fn(),
+      setWarnEnforcementMode: vi.fn(),
+      getWelcomeSettings: vi.fn(async () => settings),
+      updateWelcomeSettings: vi.fn(),
+    };
+    notifications = {
+      enqueue: vi.fn().mockResolvedValue(true),
+      registerFileRenderer: vi.fn(),
+    } as unknown as NotificationQueue;
+    channel = { isTextBased: () => true, send: vi.fn() };
+    member = {
+      id: '10',
+      displayName: 'Ana',
+      user: { bot: false },
+      guild: { id: '1', name: 'Dedos', memberCount: 42, channels: { fetch: vi.fn().mockResolvedValue(channel) } },
+      displayAvatarURL: () => 'https://cdn.example/avatar.png',
+      toString: () => '<@10>',
+    } as unknown as GuildMember;
+    renderCard = vi.fn().mockResolvedValue(card);
+    fetchAvatar = vi.fn().mockResolvedValue(null);
+    service = new WelcomeService(settingsRepo, notifications, createMockLogger(), renderCard, fetchAvatar);
+  });
+
+  it('queues the card data by DM using the default template without rendering it', async () => {
+    const outcome = await service.greet(member);
+
+    expect(outcome).toEqual({ dmQueued: true, channelPosted: false });
+    expect(renderCard).not.toHaveBeenCalled();
+    expect(notifications.enqueue).toHaveBeenCalledWith('10', 'welcome', {
+      content: expect.stringContaining('<@10>'),
+      renderedFiles: [
+        {
+          name: WELCOME_DEFAULTS.cardFileName,
+          renderer: WELCOME_CARD_RENDERER,
+          data: { username: 'Ana', guildName: 'Dedos', memberCount: 42, avatarUrl: 'https://cdn.example/avatar.png' },
+        },
+      ],
+    });
+  });
+
+  it('renders queued cards when the DM is sent', async () => {
+    const [name, render] = vi.mocked(notifications.registerFileRenderer).mock.calls[0]!;
+
+    const image = await render({ username: 'Ana', guildName: 'Dedos', memberCount: 42, avatarUrl: 'https://cdn.example/a.png' });
+
+    expect(name).toBe(WELCOME_CARD_RENDERER);
+    expect(image).toBe(card);
+    expect(fetchAvatar).toHaveBeenCalledWith('https://cdn.example/a.png');
+    expect(renderCard).toHaveBeenCalledWith({ username: 'Ana', guildName: 'Dedos', memberCount: 42, avatar: null });
+  });
+
+  it('posts to the configured channel with the guild template', async () => {
+    settings = { dmEnabled: false, channelId: 99n, template: 'Hola {username}' };
+
+    const outcome = await service.greet(member);
+
+    expect(outcome).toEqual({ dmQueued: false, channelPosted: true });
+    expect(notifications.enqueue).not.toHaveBeenCalled();
+    expect(channel.send).toHaveBeenCalledWith(expect.objectContaining({ content: 'Hola Ana' }));
+    expect(renderCard).toHaveBeenCalledTimes(1);
+  });
+
+  it('skips bots and guilds with the welcome turned off', async () => {
+    settings = { dmEnabled: false, channelId: null, template: null };
+    await service.greet(member);
+
+    await service.greet({ ...member, user: { bot: true } } as unknown as GuildMember);
+
+    expect(renderCard).not.toHaveBeenCalled();
+    expect(settingsRepo.getWelcomeSettings).toHaveBeenCalledTimes(1);
+  });
+});
@@ -2,8 +2,12 @@ import type { Logger } from 'pino';
 import { beforeEach, describe, expect, it, vi } from 'vitest';
 
 import { AddWarnUseCase } from '@/application/usecases/warn/AddWarnUseCase';
+import { ListWarnsUseCase } from '@/application/usecases/warn/ListWarnsUseCase';
+import { RemoveWarnUseCase } from '@/application/usecases/warn/RemoveWarnUseCase';
 import { Warn, WarnSeverity } from '@/domain/entities/Warn';
 import type { CreateWarnData, IWarnRepository } from '@/domain/repositories/IWarnRepository';
+import { type WarnActivityWindows, WarnExpiryPolicy } from '@/domain/value-objects/WarnExpiryPolicy';
+import { WarnNotFoundError } from '@/shared/errors/domain.errors';
 
 class InMemoryWarnRepository implements IWarnRepository {
   private sequence = 1;
@@ -31,9 +35,29 @@ class InMemoryWarnRepository implements IWarnRepository {
     return warn;
   }
 
+  public async findById(id: number): Promise<Warn | null> {
+    return this.warns.find((warn) => warn.id === id) ?? null;
+  }
+
+  public async delete(id: number): Promise<void> {
+    this.warns = this.warns.filter((warn) => warn.id !== id);
+  }
+
   public async listByUser(userId: bigint): Promise<readonly Warn[]> {
     return this.warns.filter((warn) => warn.userId.toBigInt() === userId);
   }
+
+  public async listActiveByUser(userId: bigint, windows: WarnActivityWindows): Promise<readonly Warn[]> {
+    return (await this.listByUser(userId)).filter((warn) => {
+      const since = windows[warn.severity];
+
+      return since === null || warn.createdAt >= since;
+    });
+  }
+
+  public async markExpired(): Promise<number> {
+    return 0;
+  }
 }
 
 const createMockLogger = (): Logger =>
@@ -73,4 +97,99 @@ describe('AddWarnUseCase', () => {
     expect(result.summary.recommendedAction).toBe('BAN');
     expect(result.warn.severity).toBe(WarnSeverity.CRITICAL);
   });
+
+  it('ignores expired warns when computing the summary', async () => {
+    const policy = WarnExpiryPolicy.create({
+      [WarnSeverity.MINOR]: 30,
+      [WarnSeverity.MAJOR]: 90,
+      [WarnSeverity.CRITICAL]: 0,
+    });
+    repository = new InMemoryWarnRepository();
+    useCase = new AddWarnUseCase(repository, createMockLogger(), policy);
+    const longAgo = new Date(Date.now() - 400 * 24 * 60 * 60 * 1000);
+    repository.preload(new Warn(100, BigInt('123456789012345678'), null, WarnSeverity.MAJOR, null, longAgo));
+    repository.preload(new Warn(101, BigInt('123456789012345678'), null, WarnSeverity.CRITICAL, null, longAgo));
+
+    const result = await useCase.execute({
+      userId: '123456789012345678',
+      severity: WarnSeverity.MINOR,
+    });
+
+    expect(result.summary).toEqual({ totalPoints: 4, recommendedAction: 'TIMEOUT_1H' });
+  });
+});
+
+describe('RemoveWarnUseCase', () => {
+  const userId = '123456789012345678';
+  let repository: InMemoryWarnRepository;
+  let useCase: RemoveWarnUseCase;
+
+  beforeEach(() => {
+    repository = new InMemoryWarnRepository();
+    useCase = new RemoveWarnUseCase(repository, createMockLogger());
+
+    repository.preload(new Warn(1, BigInt(userId), null, WarnSeverity.CRITICAL, null, new Date()));
+    repository.preload(new Warn(2, BigInt(userId), null, WarnSeverity.MAJOR, null, new Date()));
+  });
+
+  it('removes the warn and recalculates the summary', async () => {
+    const result = await useCase.execute({ warnId: 1, moderatorId: '987654321098765432' });
+
+    expect(result.warn.id).toBe(1);
+    expect(result.summary).toEqual({ totalPoints: 2, recommendedAction: 'NONE' });
+    expect(await repository.findById(1)).toBeNull();
+  });
+
+  it('throws when the warn does not exist', async () => {
+    await expect(useCase.execute({ warnId: 99, moderatorId: '987654321098765432' })).rejects.toBeInstanceOf(
+      WarnNotFoundError,
+    );
+  });
+});
+
+describe('ListWarnsUseCase', () => {
+  const userId = '123456789012345678';
+  let repository: InMemoryWarnRepository;
+  let useCase: ListWarnsUseCase;
+
+  beforeEach(() => {
+    repository = new InMemoryWarnRepository();
+    useCase = new ListWarnsUseCase(repository, WarnExpiryPolicy.never(), 2);
+
+    for (let id = 1; id <= 5; id += 1) {
+      repository.preload(new Warn(id, BigInt(userId), null, WarnSeverity.MINOR, null, new Date()));
+    }
+  });
+
+  it('paginates warns and summarises every page', async () => {
+    const result = await useCase.execute({ userId, page: 2 });
+
+    expect(result.warns.map(({ warn }) => warn.id)).toEqual([3, 4]);
+    expect(result.totalPages).toBe(3);
+    expect(result.totalWarns).toBe(5);
+    expect(result.summary).toEqual({ totalPoints: 5, recommendedAction: 'TIMEOUT_24H' });
+  });
+
+  it('flags expired warns and leaves them out of the points total', async () => {
+    const policy = WarnExpiryPolicy.create({
+      [WarnSeverity.MINOR]: 30,
+      [WarnSeverity.MAJOR]: 90,
+      [WarnSeverity.CRITICAL]: 180,
+    });
+    repository.preload(new Warn(6, BigInt(userId), null, WarnSeverity.MINOR, null, new Date('2024-01-01T00:00:00Z')));
+    useCase = new ListWarnsUseCase(repository, policy, 10);
+
+    const result = await useCase.execute({ userId });
+
+    expect(result.activeWarns).toBe(5);
+    expect(result.summary.totalPoints).toBe(5);
+    expect(result.warns.find(({ warn }) => warn.id === 6)?.active).toBe(false);
+  });
+
+  it('clamps out of range pages to the last one', async () => {
+    const result = await useCase.execute({ userId, page: 10 });
+
+    expect(result.page).toBe(3);
+    expect(result.warns.map(({ warn }) => warn.id)).toEqual([5]);
+  });
 });
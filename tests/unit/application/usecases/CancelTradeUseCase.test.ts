@@ -0,0 +1,129 @@
+import type { PrismaClient } from '@prisma/client';
+import type { TextChannel } from 'discord.js';
+import type { Logger } from 'pino';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { CancelTradeUseCase } from '@/application/usecases/middleman/CancelTradeUseCase';
+import { Ticket } from '@/domain/entities/Ticket';
+import { Trade } from '@/domain/entities/Trade';
+import { TicketStatus, TicketType } from '@/domain/entities/types';
+import type { IMiddlemanRepository } from '@/domain/repositories/IMiddlemanRepository';
+import type { ITicketRepository } from '@/domain/repositories/ITicketRepository';
+import type { ITradeRepository } from '@/domain/repositories/ITradeRepository';
+import { TradeStatus } from '@/domain/value-objects/TradeStatus';
+import { embedFactory } from '@/presentation/embeds/EmbedFactory';
+import {
+  NotMiddlemanTicketError,
+  TicketClosedError,
+  UnauthorizedActionError,
+} from '@/shared/errors/domain.errors';
+
+const OWNER_ID = 111111111111111111n;
+const PARTNER_ID = 222222222222222222n;
+const MIDDLEMAN_ID = 333333333333333333n;
+
+const createMockLogger = (): Logger =>
+  ({
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    child: vi.fn().mockReturnThis(),
+    level: 'silent',
+  }) as unknown as Logger;
+
+const buildTrade = (id: number, userId: bigint, status: TradeStatus, confirmed: boolean): Trade =>
+  new Trade(id, 1, userId, `Roblox${id}`, null, status, confirmed, [{ name: 'Dragon Egg', quantity: 1 }], new Date());
+
+describe('CancelTradeUseCase', () => {
+  let ticket: Ticket;
+  let trades: Trade[];
+  let ticketRepo: ITicketRepository;
+  let tradeRepo: ITradeRepository;
+  let middlemanRepo: IMiddlemanRepository;
+  let channel: TextChannel;
+  let useCase: CancelTradeUseCase;
+
+  beforeEach(() => {
+    ticket = new Ticket(1, 1n, 2n, OWNER_ID, TicketType.MM, TicketStatus.CLAIMED, new Date(), undefined, MIDDLEMAN_ID);
+    trades = [
+      buildTrade(1, OWNER_ID, TradeStatus.ACTIVE, true),
+      buildTrade(2, PARTNER_ID, TradeStatus.CANCELLED, false),
+    ];
+
+    ticketRepo = {
+      withTransaction: vi.fn().mockReturnThis(),
+      findById: vi.fn().mockResolvedValue(ticket),
+      update: vi.fn(),
+    } as unknown as ITicketRepository;
+    tradeRepo = {
+      withTransaction: vi.fn().mockReturnThis(),
+      findByTicketId: vi.fn().mockResolvedValue(trades),
+      update: vi.fn(),
+    } as unknown as ITradeRepository;
+    middlemanRepo = {
+      withTransaction: vi.fn().mockReturnThis(),
+      getClaimByTicket: vi.fn().mockResolvedValue({ ticketId: 1, middlemanId: MIDDLEMAN_ID, claimedAt: new Date() }),
+      markClosed: vi.fn(),
+    } as unknown as IMiddlemanRepository;
+    channel = { id: '2', send: vi.fn().mockResolvedValue(undefined) } as unknown as TextChannel;
+
+    const prisma = {
+      $transaction: vi.fn(async (fn: (tx: unknown) => Promise<unknown>) => fn({})),
+    } as unknown as PrismaClient;
+
+    useCase = new CancelTradeUseCase(ticketRepo, tradeRepo, middlemanRepo, prisma, createMockLogger(), embedFactory);
+  });
+
+  it('cancels pending trades, closes the ticket and marks the claim as a forced close', async () => {
+    await useCase.execute(
+      { ticketId: 1, actorId: MIDDLEMAN_ID.toString(), reason: 'Trader abandonó el ticket', isStaff: false },
+      channel,
+    );
+
+    expect(trades.map((trade) => trade.status)).toEqual([TradeStatus.CANCELLED, TradeStatus.CANCELLED]);
+    expect(tradeRepo.update).toHaveBeenCalledTimes(1);
+    expect(tradeRepo.update).toHaveBeenCalledWith(trades[0]);
+    expect(ticket.status).toBe(TicketStatus.CLOSED);
+    expect(ticketRepo.update).toHaveBeenCalledWith(ticket);
+    expect(middlemanRepo.markClosed).toHaveBeenCalledWith(1, { closedAt: ticket.closedAt, forcedClose: true });
+    expect(channel.send).toHaveBeenCalledTimes(1);
+  });
+
+  it('lets staff cancel tickets claimed by someone else', async () => {
+    await useCase.execute(
+      { ticketId: 1, actorId: '999999999999999999', reason: 'Cierre administrativo', isStaff: true },
+      channel,
+    );
+
+    expect(ticket.status).toBe(TicketStatus.CLOSED);
+  });
+
+  it('rejects members that are neither staff nor the assigned middleman', async () => {
+    await expect(
+      useCase.execute({ ticketId: 1, actorId: OWNER_ID.toString(), reason: 'Ya no quiero', isStaff: false }, channel),
+    ).rejects.toBeInstanceOf(UnauthorizedActionError);
+
+    expect(ticket.status).toBe(TicketStatus.CLAIMED);
+    expect(middlemanRepo.markClosed).not.toHaveBeenCalled();
+  });
+
+  it('rejects tickets that are already closed', async () => {
+    ticket.close();
+
+    await expect(
+      useCase.execute({ ticketId: 1, actorId: MIDDLEMAN_ID.toString(), reason: 'Duplicado', isStaff: false }, channel),
+    ).rejects.toBeInstanceOf(TicketClosedError);
+  });
+
+  it('rejects tickets that are not middleman tickets', async () => {
+    const shopTicket = new Ticket(1, 1n, 2n, OWNER_ID, TicketType.SELL, TicketStatus.OPEN, new Date());
+    vi.mocked(ticketRepo.findById).mockResolvedValue(shopTicket);
+
+    await expect(
+      useCase.execute({ ticketId: 1, actorId: '999999999999999999', reason: 'Cierre', isStaff: true }, channel),
+    ).rejects.toBeInstanceOf(NotMiddlemanTicketError);
+
+    expect(shopTicket.status).toBe(TicketStatus.OPEN);
+  });
+});
@@ -0,0 +1,83 @@
+import type { TextChannel } from 'discord.js';
+import type { Logger } from 'pino';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { CloseTicketUseCase } from '@/application/usecases/tickets/CloseTicketUseCase';
+import { Ticket } from '@/domain/entities/Ticket';
+import { TicketStatus, TicketType } from '@/domain/entities/types';
+import type { ITicketRepository } from '@/domain/repositories/ITicketRepository';
+import { embedFactory } from '@/presentation/embeds/EmbedFactory';
+import {
+  MiddlemanFlowRequiredError,
+  TicketClosedError,
+  UnauthorizedActionError,
+} from '@/shared/errors/domain.errors';
+
+const OWNER_ID = '111111111111111111';
+const STAFF_ID = '222222222222222222';
+
+const createMockLogger = (): Logger =>
+  ({
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    child: vi.fn().mockReturnThis(),
+    level: 'silent',
+  }) as unknown as Logger;
+
+const buildTicket = (type: TicketType = TicketType.ROBUX, status: TicketStatus = TicketStatus.OPEN): Ticket =>
+  new Ticket(7, 1n, 2n, BigInt(OWNER_ID), type, status, new Date('2025-03-10T12:00:00Z'));
+
+describe('CloseTicketUseCase', () => {
+  let ticketRepo: ITicketRepository;
+  let channel: TextChannel;
+  let useCase: CloseTicketUseCase;
+
+  beforeEach(() => {
+    ticketRepo = {
+      findById: vi.fn().mockResolvedValue(buildTicket()),
+      update: vi.fn().mockResolvedValue(undefined),
+    } as unknown as ITicketRepository;
+    channel = { send: vi.fn().mockResolvedValue(undefined) } as unknown as TextChannel;
+    useCase = new CloseTicketUseCase(ticketRepo, createMockLogger(), embedFactory);
+  });
+
+  it('lets staff close an unclaimed general ticket', async () => {
+    const ticket = await useCase.execute({ ticketId: 7, actorId: STAFF_ID, reason: 'Resuelto', isStaff: true }, channel);
+
+    expect(ticket.status).toBe(TicketStatus.CLOSED);
+    expect(ticket.closedAt).toBeInstanceOf(Date);
+    expect(ticketRepo.update).toHaveBeenCalledWith(ticket);
+    expect(channel.send).toHaveBeenCalled();
+  });
+
+  it('lets the owner close their own ticket', async () => {
+    const ticket = await useCase.execute({ ticketId: 7, actorId: OWNER_ID, isStaff: false }, channel);
+
+    expect(ticket.status).toBe(TicketStatus.CLOSED);
+  });
+
+  it('rejects other members', async () => {
+    await expect(
+      useCase.execute({ ticketId: 7, actorId: '333333333333333333', isStaff: false }, channel),
+    ).rejects.toBeInstanceOf(UnauthorizedActionError);
+    expect(ticketRepo.update).not.toHaveBeenCalled();
+  });
+
+  it('sends middleman tickets to their own flow', async () => {
+    vi.mocked(ticketRepo.findById).mockResolvedValue(buildTicket(TicketType.MM, TicketStatus.CLAIMED));
+
+    await expect(
+      useCase.execute({ ticketId: 7, actorId: STAFF_ID, isStaff: true }, channel),
+    ).rejects.toBeInstanceOf(MiddlemanFlowRequiredError);
+  });
+
+  it('rejects tickets that are already closed', async () => {
+    vi.mocked(ticketRepo.findById).mockResolvedValue(buildTicket(TicketType.ROBUX, TicketStatus.CLOSED));
+
+    await expect(
+      useCase.execute({ ticketId: 7, actorId: STAFF_ID, isStaff: true }, channel),
+    ).rejects.toBeInstanceOf(TicketClosedError);
+  });
+});
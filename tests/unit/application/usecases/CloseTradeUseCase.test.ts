@@ -0,0 +1,137 @@
+import type { PrismaClient } from '@prisma/client';
+import type { TextChannel } from 'discord.js';
+import type { Logger } from 'pino';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { CloseTradeUseCase } from '@/application/usecases/middleman/CloseTradeUseCase';
+import { Ticket } from '@/domain/entities/Ticket';
+import { Trade } from '@/domain/entities/Trade';
+import { TicketStatus, TicketType } from '@/domain/entities/types';
+import type { IMemberStatsRepository } from '@/domain/repositories/IMemberStatsRepository';
+import type { IMiddlemanRepository } from '@/domain/repositories/IMiddlemanRepository';
+import type { IMiddlemanStatsRepository } from '@/domain/repositories/IMiddlemanStatsRepository';
+import type { ITicketRepository } from '@/domain/repositories/ITicketRepository';
+import type { ITradeRepository } from '@/domain/repositories/ITradeRepository';
+import { TradeStatus } from '@/domain/value-objects/TradeStatus';
+import { embedFactory } from '@/presentation/embeds/EmbedFactory';
+import { TradesNotFinalizedError } from '@/shared/errors/domain.errors';
+
+const OWNER_ID = 111111111111111111n;
+const PARTNER_ID = 222222222222222222n;
+const MIDDLEMAN_ID = 333333333333333333n;
+
+const createMockLogger = (): Logger =>
+  ({
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    child: vi.fn().mockReturnThis(),
+    level: 'silent',
+  }) as unknown as Logger;
+
+describe('CloseTradeUseCase', () => {
+  let ticket: Ticket;
+  let ticketRepo: ITicketRepository;
+  let tradeRepo: ITradeRepository;
+  let statsRepo: IMemberStatsRepository;
+  let middlemanStatsRepo: IMiddlemanStatsRepository;
+  let middlemanRepo: IMiddlemanRepository & { listFinalizations: ReturnType<typeof vi.fn> };
+  let channel: TextChannel;
+  let useCase: CloseTradeUseCase;
+
+  beforeEach(() => {
+    ticket = new Ticket(1, 1n, 2n, OWNER_ID, TicketType.MM, TicketStatus.CLAIMED, new Date(), undefined, MIDDLEMAN_ID);
+    const trades = [OWNER_ID, PARTNER_ID].map(
+      (userId, index) =>
+        new Trade(index + 1, 1, userId, `roblox-${index}`, null, TradeStatus.ACTIVE, true, [], new Date()),
+    );
+
+    ticketRepo = {
+      withTransaction: vi.fn().mockReturnThis(),
+      findById: vi.fn().mockResolvedValue(ticket),
+      update: vi.fn(),
+      listParticipants: vi.fn().mockResolvedValue([
+        { userId: OWNER_ID, role: 'OWNER' },
+        { userId: PARTNER_ID, role: 'PARTNER' },
+      ]),
+    } as unknown as ITicketRepository;
+    tradeRepo = {
+      withTransaction: vi.fn().mockReturnThis(),
+      findByTicketId: vi.fn().mockResolvedValue(trades),
+      update: vi.fn(),
+    } as unknown as ITradeRepository;
+    statsRepo = {
+      withTransaction: vi.fn().mockReturnThis(),
+      recordCompletedTrade: vi.fn(),
+    } as unknown as IMemberStatsRepository;
+    middlemanStatsRepo = {
+      withTransaction: vi.fn().mockReturnThis(),
+      recordClosedClaim: vi.fn(),
+    } as unknown as IMiddlemanStatsRepository;
+    middlemanRepo = {
+      withTransaction: vi.fn().mockReturnThis(),
+      getClaimByTicket: vi.fn().mockResolvedValue({ ticketId: 1, middlemanId: MIDDLEMAN_ID, claimedAt: new Date() }),
+      listFinalizations: vi.fn().mockResolvedValue([OWNER_ID]),
+      markClosed: vi.fn(),
+      markReviewRequested: vi.fn(),
+    } as unknown as IMiddlemanRepository & { listFinalizations: ReturnType<typeof vi.fn> };
+    channel = { id: '2', send: vi.fn().mockResolvedValue(undefined) } as unknown as TextChannel;
+
+    const prisma = {
+      $transaction: vi.fn(async (fn: (tx: unknown) => Promise<unknown>) => fn({})),
+    } as unknown as PrismaClient;
+
+    useCase = new CloseTradeUseCase(
+      ticketRepo,
+      tradeRepo,
+      statsRepo,
+      middlemanStatsRepo,
+      middlemanRepo,
+      prisma,
+      createMockLogger(),
+      embedFactory,
+    );
+  });
+
+  it('refuses to close while participants have not finalized', async () => {
+    await expect(useCase.execute(1, MIDDLEMAN_ID, channel)).rejects.toBeInstanceOf(TradesNotFinalizedError);
+    expect(ticket.status).toBe(TicketStatus.CLAIMED);
+  });
+
+  it('closes once every participant finalized', async () => {
+    middlemanRepo.listFinalizations.mockResolvedValue([OWNER_ID, PARTNER_ID]);
+
+    await useCase.execute(1, MIDDLEMAN_ID, channel);
+
+    expect(ticket.status).toBe(TicketStatus.CLOSED);
+    expect(middlemanRepo.markClosed).toHaveBeenCalledWith(1, expect.objectContaining({ forcedClose: false }));
+  });
+
+  it('credits every trader and the middleman separately', async () => {
+    middlemanRepo.listFinalizations.mockResolvedValue([OWNER_ID, PARTNER_ID]);
+
+    await useCase.execute(1, MIDDLEMAN_ID, channel);
+
+    expect(statsRepo.recordCompletedTrade).toHaveBeenCalledTimes(2);
+    expect(statsRepo.recordCompletedTrade).toHaveBeenCalledWith(
+      expect.objectContaining({ userId: OWNER_ID, robloxUsername: 'roblox-0', partnerTag: 'roblox-1' }),
+    );
+    expect(statsRepo.recordCompletedTrade).toHaveBeenCalledWith(
+      expect.objectContaining({ userId: PARTNER_ID, robloxUsername: 'roblox-1', partnerTag: 'roblox-0' }),
+    );
+    expect(statsRepo.recordCompletedTrade).not.toHaveBeenCalledWith(
+      expect.objectContaining({ userId: MIDDLEMAN_ID }),
+    );
+    expect(middlemanStatsRepo.recordClosedClaim).toHaveBeenCalledWith(
+      expect.objectContaining({ middlemanId: MIDDLEMAN_ID, forced: false }),
+    );
+  });
+
+  it('allows the middleman to force the close', async () => {
+    await useCase.execute(1, MIDDLEMAN_ID, channel, { force: true });
+
+    expect(ticket.status).toBe(TicketStatus.CLOSED);
+    expect(middlemanRepo.markClosed).toHaveBeenCalledWith(1, expect.objectContaining({ forcedClose: true }));
+  });
+});
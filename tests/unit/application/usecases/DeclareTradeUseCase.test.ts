@@ -0,0 +1,194 @@
+import type { Logger } from 'pino';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { DeclareTradeUseCase } from '@/application/usecases/middleman/DeclareTradeUseCase';
+import { Ticket } from '@/domain/entities/Ticket';
+import { Trade } from '@/domain/entities/Trade';
+import { TicketStatus, TicketType, type TradeItem } from '@/domain/entities/types';
+import type { ITicketRepository } from '@/domain/repositories/ITicketRepository';
+import type { CreateTradeData, ITradeRepository } from '@/domain/repositories/ITradeRepository';
+import { TradeStatus } from '@/domain/value-objects/TradeStatus';
+import {
+  InvalidTradeStateError,
+  TicketClosedError,
+  TradeAlreadyExistsError,
+  UnauthorizedActionError,
+} from '@/shared/errors/domain.errors';
+
+const OWNER_ID = 111111111111111111n;
+const PARTNER_ID = 222222222222222222n;
+
+class InMemoryTradeRepository implements ITradeRepository {
+  public trades: Trade[] = [];
+  private sequence = 1;
+
+  public withTransaction(): ITradeRepository {
+    return this;
+  }
+
+  public async create(data: CreateTradeData): Promise<Trade> {
+    const trade = new Trade(
+      this.sequence++,
+      data.ticketId,
+      data.userId,
+      data.robloxUsername,
+      data.robloxUserId ?? null,
+      data.status ?? TradeStatus.PENDING,
+      data.confirmed ?? false,
+      [...(data.items ?? [])],
+      new Date(),
+    );
+    this.trades.push(trade);
+    return trade;
+  }
+
+  public async findById(id: number): Promise<Trade | null> {
+    return this.trades.find((trade) => trade.id === id) ?? null;
+  }
+
+  public async findByTicketId(ticketId: number): Promise<readonly Trade[]> {
+    return this.trades.filter((trade) => trade.ticketId === ticketId);
+  }
+
+  public async findByUserId(userId: bigint): Promise<readonly Trade[]> {
+    return this.trades.filter((trade) => trade.userId === userId);
+  }
+
+  public async findByTicketAndUser(ticketId: number, userId: bigint): Promise<Trade | null> {
+    return this.trades.find((trade) => trade.ticketId === ticketId && trade.userId === userId) ?? null;
+  }
+
+  public async addItems(tradeId: number, items: ReadonlyArray<TradeItem>): Promise<void> {
+    const trade = await this.findById(tradeId);
+    items.forEach((item) => trade?.addItem(item));
+  }
+
+  public async removeItem(): Promise<void> {}
+
+  public async update(): Promise<void> {}
+
+  public async delete(): Promise<void> {}
+}
+
+const createTicketRepository = (ticket: Ticket): ITicketRepository =>
+  ({
+    withTransaction: vi.fn().mockReturnThis(),
+    findById: vi.fn(async (id: number) => (id === ticket.id ? ticket : null)),
+    isParticipant: vi.fn(async (_ticketId: number, userId: bigint) => userId === PARTNER_ID),
+  }) as unknown as ITicketRepository;
+
+const createMockLogger = (): Logger =>
+  ({
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    child: vi.fn().mockReturnThis(),
+    level: 'silent',
+  }) as unknown as Logger;
+
+describe('DeclareTradeUseCase', () => {
+  let ticket: Ticket;
+  let tradeRepo: InMemoryTradeRepository;
+  let useCase: DeclareTradeUseCase;
+
+  beforeEach(() => {
+    ticket = new Ticket(1, 1n, 2n, OWNER_ID, TicketType.MM, TicketStatus.OPEN, new Date());
+    tradeRepo = new InMemoryTradeRepository();
+    useCase = new DeclareTradeUseCase(
+      createTicketRepository(ticket),
+      tradeRepo,
+      { $transaction: async (fn) => fn({}) },
+      createMockLogger(),
+    );
+  });
+
+  it('creates a trade with the declared items', async () => {
+    const trade = await useCase.execute({
+      ticketId: 1,
+      userId: OWNER_ID.toString(),
+      robloxUsername: 'DedosBuyer',
+      items: [{ name: 'Dragon Egg', quantity: 2 }],
+    });
+
+    expect(trade.robloxUsername).toBe('DedosBuyer');
+    expect(trade.items).toEqual([{ name: 'Dragon Egg', quantity: 2 }]);
+  });
+
+  it('appends items to an existing pending trade', async () => {
+    await useCase.execute({
+      ticketId: 1,
+      userId: PARTNER_ID.toString(),
+      robloxUsername: 'DedosSeller',
+      items: [{ name: 'Shadow Dragon', quantity: 1 }],
+    });
+
+    const trade = await useCase.execute({
+      ticketId: 1,
+      userId: PARTNER_ID.toString(),
+      robloxUsername: 'DedosSeller',
+      items: [{ name: 'Frost Dragon', quantity: 3 }],
+    });
+
+    expect(tradeRepo.trades).toHaveLength(1);
+    expect(trade.items.map((item) => item.name)).toEqual(['Shadow Dragon', 'Frost Dragon']);
+  });
+
+  it('rejects users that are not part of the ticket', async () => {
+    await expect(
+      useCase.execute({
+        ticketId: 1,
+        userId: '333333333333333333',
+        robloxUsername: 'Intruder',
+        items: [{ name: 'Dragon Egg', quantity: 1 }],
+      }),
+    ).rejects.toBeInstanceOf(UnauthorizedActionError);
+  });
+
+  it('rejects changes once the trade was confirmed', async () => {
+    const trade = await tradeRepo.create({ ticketId: 1, userId: OWNER_ID, robloxUsername: 'DedosBuyer' });
+    trade.confirm();
+
+    await expect(
+      useCase.execute({
+        ticketId: 1,
+        userId: OWNER_ID.toString(),
+        robloxUsername: 'DedosBuyer',
+        items: [{ name: 'Dragon Egg', quantity: 1 }],
+      }),
+    ).rejects.toBeInstanceOf(InvalidTradeStateError);
+  });
+
+  it('adds to the trade created by a concurrent declaration when the insert hits the unique index', async () => {
+    const create = tradeRepo.create.bind(tradeRepo);
+    vi.spyOn(tradeRepo, 'create').mockImplementationOnce(async (data) => {
+      // La otra declaración gana la carrera: su fila existe cuando este insert falla.
+      await create({ ...data, items: [{ name: 'Shadow Dragon', quantity: 1 }] });
+      throw new TradeAlreadyExistsError(data.ticketId, data.userId);
+    });
+
+    const trade = await useCase.execute({
+      ticketId: 1,
+      userId: OWNER_ID.toString(),
+      robloxUsername: 'DedosBuyer',
+      items: [{ name: 'Dragon Egg', quantity: 1 }],
+    });
+
+    expect(tradeRepo.trades).toHaveLength(1);
+    expect(trade.id).toBe(tradeRepo.trades[0]!.id);
+    expect(trade.items.map((item) => item.name)).toEqual(['Shadow Dragon', 'Dragon Egg']);
+  });
+
+  it('rejects declarations on closed tickets', async () => {
+    ticket.status = TicketStatus.CLOSED;
+
+    await expect(
+      useCase.execute({
+        ticketId: 1,
+        userId: OWNER_ID.toString(),
+        robloxUsername: 'DedosBuyer',
+        items: [{ name: 'Dragon Egg', quantity: 1 }],
+      }),
+    ).rejects.toBeInstanceOf(TicketClosedError);
+  });
+});
@@ -0,0 +1,122 @@
+import type { Client } from 'discord.js';
+import type { Logger } from 'pino';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { RatingService } from '@/application/services/RatingService';
+import { EditReviewUseCase } from '@/application/usecases/middleman/EditReviewUseCase';
+import { Review } from '@/domain/entities/Review';
+import type { IReviewRepository } from '@/domain/repositories/IReviewRepository';
+import { Rating } from '@/domain/value-objects/Rating';
+import { embedFactory } from '@/presentation/embeds/EmbedFactory';
+import {
+  ReviewEditWindowExpiredError,
+  ReviewNotFoundError,
+  UnauthorizedActionError,
+} from '@/shared/errors/domain.errors';
+
+const REVIEWER_ID = 111111111111111111n;
+const MIDDLEMAN_ID = 333333333333333333n;
+const CHANNEL_ID = 444444444444444444n;
+const MESSAGE_ID = 555555555555555555n;
+const HOUR_MS = 60 * 60 * 1000;
+
+const createMockLogger = (): Logger =>
+  ({
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    child: vi.fn().mockReturnThis(),
+    level: 'silent',
+  }) as unknown as Logger;
+
+const buildReview = (overrides: { stars?: number; hiddenAt?: Date | null } = {}): Review =>
+  new Review(
+    7,
+    21,
+    REVIEWER_ID,
+    MIDDLEMAN_ID,
+    Rating.create(overrides.stars ?? 2).unwrap(),
+    'Tardó bastante',
+    new Date('2025-03-10T12:00:00Z'),
+    CHANNEL_ID,
+    MESSAGE_ID,
+    null,
+    overrides.hiddenAt ?? null,
+  );
+
+describe('EditReviewUseCase', () => {
+  const now = new Date('2025-03-10T20:00:00Z');
+
+  let reviewRepo: IReviewRepository;
+  let message: { edit: ReturnType<typeof vi.fn> };
+  let client: Client;
+  let useCase: EditReviewUseCase;
+
+  beforeEach(() => {
+    reviewRepo = {
+      findById: vi.fn().mockResolvedValue(buildReview()),
+      update: vi.fn().mockResolvedValue(buildReview({ stars: 4 })),
+      ratingTotals: vi.fn().mockResolvedValue({ sum: 4, count: 1 }),
+      ratingSamples: vi.fn().mockResolvedValue([]),
+    } as unknown as IReviewRepository;
+
+    message = { edit: vi.fn() };
+    client = {
+      channels: {
+        fetch: vi.fn().mockResolvedValue({
+          isTextBased: () => true,
+          messages: { fetch: vi.fn().mockResolvedValue(message) },
+        }),
+      },
+    } as unknown as Client;
+
+    useCase = new EditReviewUseCase(
+      reviewRepo,
+      createMockLogger(),
+      24 * HOUR_MS,
+      embedFactory,
+      new RatingService(),
+    );
+  });
+
+  it('updates the review and its published message inside the window', async () => {
+    await useCase.execute(
+      { reviewId: 7, reviewerId: REVIEWER_ID.toString(), rating: 4, comment: '  Al final todo bien  ' },
+      client,
+      now,
+    );
+
+    expect(reviewRepo.update).toHaveBeenCalledWith(7, {
+      rating: expect.any(Rating),
+      comment: 'Al final todo bien',
+      editedAt: now,
+    });
+    expect(message.edit).toHaveBeenCalledTimes(1);
+    expect(reviewRepo.ratingTotals).toHaveBeenCalledWith(MIDDLEMAN_ID);
+    expect(reviewRepo.ratingSamples).not.toHaveBeenCalled();
+  });
+
+  it('only lets the author edit', async () => {
+    await expect(
+      useCase.execute({ reviewId: 7, reviewerId: '999999999999999999', rating: 4 }, client, now),
+    ).rejects.toBeInstanceOf(UnauthorizedActionError);
+    expect(reviewRepo.update).not.toHaveBeenCalled();
+  });
+
+  it('rejects edits once the window has passed', async () => {
+    const later = new Date(now.getTime() + 24 * HOUR_MS);
+
+    await expect(
+      useCase.execute({ reviewId: 7, reviewerId: REVIEWER_ID.toString(), rating: 4 }, client, later),
+    ).rejects.toBeInstanceOf(ReviewEditWindowExpiredError);
+  });
+
+  it('treats hidden reviews as missing', async () => {
+    vi.mocked(reviewRepo.findById).mockResolvedValue(buildReview({ hiddenAt: now }));
+
+    await expect(
+      useCase.execute({ reviewId: 7, reviewerId: REVIEWER_ID.toString(), rating: 4 }, client, now),
+    ).rejects.toBeInstanceOf(ReviewNotFoundError);
+  });
+});
@@ -0,0 +1,126 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { RatingService } from '@/application/services/RatingService';
+import { GetMiddlemanProfileUseCase } from '@/application/usecases/middleman/GetMiddlemanProfileUseCase';
+import { Review } from '@/domain/entities/Review';
+import type { IMiddlemanRepository } from '@/domain/repositories/IMiddlemanRepository';
+import type { IMiddlemanStatsRepository } from '@/domain/repositories/IMiddlemanStatsRepository';
+import type { IReviewRepository } from '@/domain/repositories/IReviewRepository';
+import { Rating } from '@/domain/value-objects/Rating';
+import { MiddlemanNotFoundError } from '@/shared/errors/domain.errors';
+
+const MIDDLEMAN_ID = 333333333333333333n;
+const HOUR_MS = 60 * 60 * 1000;
+
+const CLAIMED_AT = new Date('2025-01-10T12:00:00Z');
+
+const closedAfter = (...hours: number[]) =>
+  hours.map((duration, index) => ({
+    ticketId: index + 1,
+    middlemanId: MIDDLEMAN_ID,
+    claimedAt: CLAIMED_AT,
+    reviewRequestedAt: new Date(CLAIMED_AT.getTime() + duration * HOUR_MS),
+    closedAt: new Date(CLAIMED_AT.getTime() + duration * HOUR_MS),
+    forcedClose: false,
+  }));
+
+const buildReview = (id: number, stars: number): Review =>
+  new Review(id, id, BigInt(id), MIDDLEMAN_ID, Rating.create(stars).unwrap(), null, new Date(2025, 0, id));
+
+describe('GetMiddlemanProfileUseCase', () => {
+  let middlemanRepo: IMiddlemanRepository;
+  let middlemanStatsRepo: IMiddlemanStatsRepository;
+  let reviewRepo: IReviewRepository;
+  let useCase: GetMiddlemanProfileUseCase;
+
+  beforeEach(() => {
+    middlemanRepo = {
+      isMiddleman: vi.fn().mockResolvedValue(true),
+      listCompletedClaims: vi.fn().mockResolvedValue(closedAfter(5, 1, 3)),
+    } as unknown as IMiddlemanRepository;
+
+    middlemanStatsRepo = {
+      getByMiddleman: vi.fn().mockResolvedValue({
+        middlemanId: MIDDLEMAN_ID,
+        claimsHandled: 4,
+        forcedCloses: 1,
+        averageCloseMs: 2 * HOUR_MS,
+        lastClosedAt: new Date('2025-02-01T12:00:00Z'),
+      }),
+    } as unknown as IMiddlemanStatsRepository;
+
+    reviewRepo = {
+      findByMiddlemanId: vi
+        .fn()
+        .mockResolvedValue([5, 5, 4, 1, 5, 3, 4].map((stars, index) => buildReview(index + 1, stars))),
+    } as unknown as IReviewRepository;
+
+    useCase = new GetMiddlemanProfileUseCase(
+      middlemanRepo,
+      middlemanStatsRepo,
+      reviewRepo,
+      3,
+      new RatingService(),
+    );
+  });
+
+  it('aggregates ratings, completion rate and median close time', async () => {
+    const profile = await useCase.execute({ middlemanId: MIDDLEMAN_ID.toString() });
+
+    expect(profile.totalReviews).toBe(7);
+    expect(profile.averageRating).toBeCloseTo(27 / 7);
+    expect(profile.weightedRating).toBeCloseTo((3.5 * 5 + 27) / 12);
+    expect(profile.distribution).toEqual([1, 0, 1, 2, 3]);
+    expect(profile.closedClaims).toBe(4);
+    expect(profile.completedClaims).toBe(3);
+    expect(profile.forcedCloses).toBe(1);
+    expect(profile.completionRate).toBe(0.75);
+    expect(profile.medianCloseMs).toBe(3 * HOUR_MS);
+    expect(profile.totalPages).toBe(3);
+    expect(profile.reviews.map((review) => review.id)).toEqual([1, 2, 3]);
+  });
+
+  it('has no completion rate until a claim is closed', async () => {
+    vi.mocked(middlemanStatsRepo.getByMiddleman).mockResolvedValue({
+      middlemanId: MIDDLEMAN_ID,
+      claimsHandled: 0,
+      forcedCloses: 0,
+      averageCloseMs: null,
+      lastClosedAt: null,
+    });
+
+    const profile = await useCase.execute({ middlemanId: MIDDLEMAN_ID.toString() });
+
+    expect(profile.completionRate).toBeNull();
+  });
+
+  it('averages the two middle close times when the count is even', async () => {
+    vi.mocked(middlemanRepo.listCompletedClaims).mockResolvedValue(closedAfter(8, 1, 2, 4));
+
+    const profile = await useCase.execute({ middlemanId: MIDDLEMAN_ID.toString() });
+
+    expect(profile.medianCloseMs).toBe(3 * HOUR_MS);
+  });
+
+  it('has no median close time without completed claims', async () => {
+    vi.mocked(middlemanRepo.listCompletedClaims).mockResolvedValue([]);
+
+    const profile = await useCase.execute({ middlemanId: MIDDLEMAN_ID.toString() });
+
+    expect(profile.medianCloseMs).toBeNull();
+  });
+
+  it('clamps the requested page to the last available one', async () => {
+    const profile = await useCase.execute({ middlemanId: MIDDLEMAN_ID.toString(), page: 9 });
+
+    expect(profile.page).toBe(3);
+    expect(profile.reviews.map((review) => review.id)).toEqual([7]);
+  });
+
+  it('rejects users that are not registered middlemen', async () => {
+    vi.mocked(middlemanRepo.isMiddleman).mockResolvedValue(false);
+
+    await expect(useCase.execute({ middlemanId: '42' })).rejects.toBeInstanceOf(MiddlemanNotFoundError);
+    expect(reviewRepo.findByMiddlemanId).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,120 @@
+import type { Client } from 'discord.js';
+import type { Logger } from 'pino';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { ModerateReviewUseCase } from '@/application/usecases/middleman/ModerateReviewUseCase';
+import { Review } from '@/domain/entities/Review';
+import type { IReviewRepository } from '@/domain/repositories/IReviewRepository';
+import { Rating } from '@/domain/value-objects/Rating';
+import { ReviewNotFoundError } from '@/shared/errors/domain.errors';
+
+const REVIEWER_ID = 111111111111111111n;
+const MIDDLEMAN_ID = 333333333333333333n;
+const CHANNEL_ID = 444444444444444444n;
+const MESSAGE_ID = 555555555555555555n;
+
+const createMockLogger = (): Logger =>
+  ({
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    child: vi.fn().mockReturnThis(),
+    level: 'silent',
+  }) as unknown as Logger;
+
+const buildReview = (hiddenAt: Date | null = null, deletedAt: Date | null = null): Review =>
+  new Review(
+    7,
+    21,
+    REVIEWER_ID,
+    MIDDLEMAN_ID,
+    Rating.create(2).unwrap(),
+    'Tardó bastante',
+    new Date('2025-03-10T12:00:00Z'),
+    CHANNEL_ID,
+    MESSAGE_ID,
+    null,
+    hiddenAt,
+    deletedAt,
+  );
+
+describe('ModerateReviewUseCase', () => {
+  const now = new Date('2025-03-10T20:00:00Z');
+
+  let reviewRepo: IReviewRepository;
+  let message: { delete: ReturnType<typeof vi.fn> };
+  let client: Client;
+  let useCase: ModerateReviewUseCase;
+
+  beforeEach(() => {
+    reviewRepo = {
+      findById: vi.fn().mockResolvedValue(buildReview()),
+      hide: vi.fn(),
+      delete: vi.fn(),
+    } as unknown as IReviewRepository;
+
+    message = { delete: vi.fn() };
+    client = {
+      channels: {
+        fetch: vi.fn().mockResolvedValue({
+          isTextBased: () => true,
+          messages: { fetch: vi.fn().mockResolvedValue(message) },
+        }),
+      },
+    } as unknown as Client;
+
+    useCase = new ModerateReviewUseCase(reviewRepo, createMockLogger());
+  });
+
+  it('hides the review with the moderator and reason and removes the published message', async () => {
+    await useCase.execute(
+      { reviewId: 7, moderatorId: '222222222222222222', action: 'hide', reason: 'Lenguaje ofensivo' },
+      client,
+      now,
+    );
+
+    expect(reviewRepo.hide).toHaveBeenCalledWith(7, {
+      hiddenBy: 222222222222222222n,
+      reason: 'Lenguaje ofensivo',
+      hiddenAt: now,
+    });
+    expect(reviewRepo.delete).not.toHaveBeenCalled();
+    expect(message.delete).toHaveBeenCalledTimes(1);
+  });
+
+  it('soft-deletes the review even if the published message is gone', async () => {
+    message.delete.mockRejectedValue(new Error('Unknown Message'));
+
+    await useCase.execute(
+      { reviewId: 7, moderatorId: '222222222222222222', action: 'delete', reason: 'Reseña de prueba' },
+      client,
+      now,
+    );
+
+    expect(reviewRepo.delete).toHaveBeenCalledWith(7, {
+      hiddenBy: 222222222222222222n,
+      reason: 'Reseña de prueba',
+      hiddenAt: now,
+    });
+  });
+
+  it('can delete a hidden review but not a deleted one', async () => {
+    vi.mocked(reviewRepo.findById).mockResolvedValue(buildReview(now));
+    await useCase.execute({ reviewId: 7, moderatorId: '222222222222222222', action: 'delete', reason: 'Spam' }, client, now);
+
+    vi.mocked(reviewRepo.findById).mockResolvedValue(buildReview(now, now));
+    await expect(
+      useCase.execute({ reviewId: 7, moderatorId: '222222222222222222', action: 'delete', reason: 'Spam' }, client, now),
+    ).rejects.toBeInstanceOf(ReviewNotFoundError);
+    expect(reviewRepo.delete).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not hide a review twice', async () => {
+    vi.mocked(reviewRepo.findById).mockResolvedValue(buildReview(now));
+
+    await expect(
+      useCase.execute({ reviewId: 7, moderatorId: '222222222222222222', action: 'hide', reason: 'Duplicada' }, client, now),
+    ).rejects.toBeInstanceOf(ReviewNotFoundError);
+  });
+});
@@ -2,7 +2,7 @@ import type { Guild, TextChannel } from 'discord.js';
 import type { Logger } from 'pino';
 import { beforeEach, describe, expect, it, vi } from 'vitest';
 
-import { OpenMiddlemanChannelUseCase } from '@/application/usecases/middleman/OpenMiddlemanChannelUseCase';
+import { OpenTicketUseCase } from '@/application/usecases/tickets/OpenTicketUseCase';
 import { Ticket } from '@/domain/entities/Ticket';
 import { TicketStatus } from '@/domain/entities/types';
 import type {
@@ -94,9 +94,9 @@ const createMockGuild = (channel: TextChannel): Guild =>
     },
   } as unknown as Guild);
 
-describe('OpenMiddlemanChannelUseCase', () => {
+describe('OpenTicketUseCase (middleman)', () => {
   let repo: MockTicketRepository;
-  let useCase: OpenMiddlemanChannelUseCase;
+  let useCase: OpenTicketUseCase;
   let logger: Logger;
   let guild: Guild;
   let channel: TextChannel & { delete: ReturnType<typeof vi.fn>; send: ReturnType<typeof vi.fn> };
@@ -115,7 +115,7 @@ describe('OpenMiddlemanChannelUseCase', () => {
     transactions = {
       $transaction: vi.fn(async (fn: (context: unknown) => Promise<unknown>) => fn({})),
     };
-    useCase = new OpenMiddlemanChannelUseCase(repo, transactions, logger, embedFactory);
+    useCase = new OpenTicketUseCase(repo, transactions, logger, embedFactory);
   });
 
   it('should create ticket and channel successfully', async () => {
@@ -0,0 +1,97 @@
+import type { Guild, TextChannel } from 'discord.js';
+import type { Logger } from 'pino';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import type { CreateTicketDTO } from '@/application/dto/ticket.dto';
+import { OpenTicketUseCase } from '@/application/usecases/tickets/OpenTicketUseCase';
+import { Ticket } from '@/domain/entities/Ticket';
+import { TicketStatus, TicketType } from '@/domain/entities/types';
+import type { CreateTicketData, ITicketRepository } from '@/domain/repositories/ITicketRepository';
+import { embedFactory } from '@/presentation/embeds/EmbedFactory';
+import { TooManyOpenTicketsError } from '@/shared/errors/domain.errors';
+
+const createMockLogger = (): Logger =>
+  ({
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    child: vi.fn().mockReturnThis(),
+    level: 'silent',
+  }) as unknown as Logger;
+
+const buildDto = (overrides: Partial<CreateTicketDTO> = {}): CreateTicketDTO => ({
+  userId: '123',
+  guildId: '456',
+  type: 'ROBUX',
+  answers: [
+    { question: 'Cantidad de Robux', answer: '1000' },
+    { question: 'Usuario de Roblox', answer: 'builderman' },
+  ],
+  categoryId: '999999999999999999',
+  staffRoleId: '888888888888888888',
+  ...overrides,
+});
+
+describe('OpenTicketUseCase', () => {
+  let repo: ITicketRepository;
+  let guild: Guild;
+  let channel: TextChannel & { delete: ReturnType<typeof vi.fn>; send: ReturnType<typeof vi.fn> };
+  let useCase: OpenTicketUseCase;
+
+  beforeEach(() => {
+    repo = {
+      withTransaction: vi.fn().mockReturnThis(),
+      countOpenByOwner: vi.fn().mockResolvedValue(0),
+      create: vi.fn(
+        async (data: CreateTicketData) =>
+          new Ticket(1, data.guildId, data.channelId, data.ownerId, data.type, TicketStatus.OPEN, new Date()),
+      ),
+    } as unknown as ITicketRepository;
+    channel = {
+      id: '999',
+      send: vi.fn().mockResolvedValue(undefined),
+      delete: vi.fn().mockResolvedValue(undefined),
+    } as unknown as TextChannel & { delete: ReturnType<typeof vi.fn>; send: ReturnType<typeof vi.fn> };
+    guild = {
+      id: '456',
+      roles: { everyone: { id: 'everyone' } },
+      members: { me: { id: 'bot-id' } },
+      channels: { create: vi.fn().mockResolvedValue(channel) },
+    } as unknown as Guild;
+
+    const transactions = {
+      $transaction: vi.fn(async (fn: (context: unknown) => Promise<unknown>) => fn({})),
+    };
+    useCase = new OpenTicketUseCase(repo, transactions, createMockLogger(), embedFactory);
+  });
+
+  it('creates a typed ticket in the configured category with the staff role', async () => {
+    const result = await useCase.execute(buildDto(), guild);
+
+    expect(result.ticket.type).toBe(TicketType.ROBUX);
+    const createArgs = vi.mocked(guild.channels.create).mock.calls[0]?.[0];
+    expect(createArgs).toMatchObject({ name: 'robux-123', parent: '999999999999999999' });
+    expect(createArgs?.permissionOverwrites).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({ id: '123' }),
+        expect.objectContaining({ id: '888888888888888888' }),
+      ]),
+    );
+    expect(channel.send).toHaveBeenCalled();
+  });
+
+  it('shares the open tickets limit with middleman tickets', async () => {
+    vi.mocked(repo.countOpenByOwner).mockResolvedValue(3);
+
+    await expect(useCase.execute(buildDto(), guild)).rejects.toBeInstanceOf(TooManyOpenTicketsError);
+    expect(guild.channels.create).not.toHaveBeenCalled();
+  });
+
+  it('deletes the channel when persisting the ticket fails', async () => {
+    vi.mocked(repo.create).mockRejectedValue(new Error('DB Error'));
+
+    await expect(useCase.execute(buildDto(), guild)).rejects.toThrow('DB Error');
+    expect(channel.delete).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,196 @@
+import type { PrismaClient } from '@prisma/client';
+import { ChannelType, type Guild, type TextChannel } from 'discord.js';
+import type { Logger } from 'pino';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { ReopenTicketUseCase } from '@/application/usecases/middleman/ReopenTicketUseCase';
+import { Ticket } from '@/domain/entities/Ticket';
+import { Trade } from '@/domain/entities/Trade';
+import { TicketStatus, TicketType } from '@/domain/entities/types';
+import type { IMemberStatsRepository } from '@/domain/repositories/IMemberStatsRepository';
+import type { IMiddlemanRepository } from '@/domain/repositories/IMiddlemanRepository';
+import type { IMiddlemanStatsRepository } from '@/domain/repositories/IMiddlemanStatsRepository';
+import type { ITicketReminderRepository } from '@/domain/repositories/ITicketReminderRepository';
+import type { ITicketRepository } from '@/domain/repositories/ITicketRepository';
+import type { ITradeRepository } from '@/domain/repositories/ITradeRepository';
+import { TradeStatus } from '@/domain/value-objects/TradeStatus';
+import { embedFactory } from '@/presentation/embeds/EmbedFactory';
+import {
+  NotMiddlemanTicketError,
+  ReopenWindowExpiredError,
+  UnauthorizedActionError,
+} from '@/shared/errors/domain.errors';
+
+const OWNER_ID = 111111111111111111n;
+const PARTNER_ID = 222222222222222222n;
+const MIDDLEMAN_ID = 333333333333333333n;
+const HOUR_MS = 60 * 60 * 1000;
+
+const createMockLogger = (): Logger =>
+  ({
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    child: vi.fn().mockReturnThis(),
+    level: 'silent',
+  }) as unknown as Logger;
+
+describe('ReopenTicketUseCase', () => {
+  let ticket: Ticket;
+  let trade: Trade;
+  let ticketRepo: ITicketRepository;
+  let tradeRepo: ITradeRepository;
+  let statsRepo: IMemberStatsRepository;
+  let middlemanStatsRepo: IMiddlemanStatsRepository;
+  let middlemanRepo: IMiddlemanRepository;
+  let reminderRepo: ITicketReminderRepository;
+  let channel: TextChannel;
+  let guild: Guild;
+  let useCase: ReopenTicketUseCase;
+
+  beforeEach(() => {
+    ticket = new Ticket(
+      1,
+      1n,
+      2n,
+      OWNER_ID,
+      TicketType.MM,
+      TicketStatus.CLOSED,
+      new Date(),
+      new Date(Date.now() - HOUR_MS),
+      MIDDLEMAN_ID,
+    );
+    trade = new Trade(1, 1, OWNER_ID, 'roblox-owner', null, TradeStatus.COMPLETED, true, [], new Date());
+
+    ticketRepo = {
+      withTransaction: vi.fn().mockReturnThis(),
+      findById: vi.fn().mockResolvedValue(ticket),
+      update: vi.fn(),
+      listParticipants: vi.fn().mockResolvedValue([
+        { userId: OWNER_ID, role: 'OWNER' },
+        { userId: PARTNER_ID, role: 'PARTNER' },
+      ]),
+    } as unknown as ITicketRepository;
+    tradeRepo = {
+      withTransaction: vi.fn().mockReturnThis(),
+      findByTicketId: vi.fn().mockResolvedValue([trade]),
+      update: vi.fn(),
+    } as unknown as ITradeRepository;
+    statsRepo = {
+      withTransaction: vi.fn().mockReturnThis(),
+      revertCompletedTrade: vi.fn(),
+    } as unknown as IMemberStatsRepository;
+    middlemanStatsRepo = {
+      withTransaction: vi.fn().mockReturnThis(),
+      revertClosedClaim: vi.fn(),
+    } as unknown as IMiddlemanStatsRepository;
+    middlemanRepo = {
+      withTransaction: vi.fn().mockReturnThis(),
+      getClaimByTicket: vi.fn().mockResolvedValue({
+        ticketId: 1,
+        middlemanId: MIDDLEMAN_ID,
+        claimedAt: new Date(),
+        reviewRequestedAt: new Date(),
+      }),
+      resetClaim: vi.fn(),
+    } as unknown as IMiddlemanRepository;
+    reminderRepo = {
+      withTransaction: vi.fn().mockReturnThis(),
+      reset: vi.fn(),
+    } as unknown as ITicketReminderRepository;
+    channel = {
+      id: '2',
+      type: ChannelType.GuildText,
+      send: vi.fn().mockResolvedValue(undefined),
+      permissionOverwrites: { edit: vi.fn(), delete: vi.fn() },
+    } as unknown as TextChannel;
+    guild = {
+      channels: { fetch: vi.fn().mockResolvedValue(channel), create: vi.fn() },
+    } as unknown as Guild;
+
+    const prisma = {
+      $transaction: vi.fn(async (fn: (tx: unknown) => Promise<unknown>) => fn({})),
+    } as unknown as PrismaClient;
+
+    useCase = new ReopenTicketUseCase(
+      ticketRepo,
+      tradeRepo,
+      statsRepo,
+      middlemanStatsRepo,
+      middlemanRepo,
+      reminderRepo,
+      prisma,
+      createMockLogger(),
+      24,
+      embedFactory,
+    );
+  });
+
+  it('reopens the ticket and reverts the counted trade', async () => {
+    const result = await useCase.execute(
+      { ticketId: 1, actorId: '999', reason: 'Cerrado por error', isStaff: true },
+      guild,
+    );
+
+    expect(result.recreated).toBe(false);
+    expect(ticket.status).toBe(TicketStatus.OPEN);
+    expect(trade.status).toBe(TradeStatus.PENDING);
+    expect(trade.confirmed).toBe(false);
+    expect(middlemanRepo.resetClaim).toHaveBeenCalledWith(1);
+    expect(reminderRepo.reset).toHaveBeenCalledWith(1, expect.any(Date));
+    expect(statsRepo.revertCompletedTrade).toHaveBeenCalledWith(OWNER_ID);
+    expect(middlemanStatsRepo.revertClosedClaim).toHaveBeenCalledWith(
+      expect.objectContaining({ ticketId: 1, middlemanId: MIDDLEMAN_ID, forced: false }),
+    );
+    expect(channel.permissionOverwrites.edit).toHaveBeenCalledTimes(2);
+    expect(channel.permissionOverwrites.delete).toHaveBeenCalledWith(MIDDLEMAN_ID.toString());
+  });
+
+  it('recreates a deleted channel with the same participant permissions as an existing one', async () => {
+    guild = {
+      members: { me: { id: '9' } },
+      roles: { everyone: { id: '1' } },
+      channels: { fetch: vi.fn().mockResolvedValue(null), create: vi.fn().mockResolvedValue(channel) },
+    } as unknown as Guild;
+
+    const result = await useCase.execute(
+      { ticketId: 1, actorId: '999', reason: 'Canal borrado', isStaff: true },
+      guild,
+    );
+
+    expect(result.recreated).toBe(true);
+    const { permissionOverwrites } = vi.mocked(guild.channels.create).mock.calls[0]![0];
+    expect(permissionOverwrites).toContainEqual({
+      id: PARTNER_ID.toString(),
+      allow: ['ViewChannel', 'SendMessages', 'ReadMessageHistory', 'AttachFiles'],
+    });
+  });
+
+  it('refuses tickets closed outside the grace window', async () => {
+    ticket.closedAt = new Date(Date.now() - 48 * HOUR_MS);
+
+    await expect(
+      useCase.execute({ ticketId: 1, actorId: '999', reason: 'Cerrado por error', isStaff: true }, guild),
+    ).rejects.toBeInstanceOf(ReopenWindowExpiredError);
+  });
+
+  it('only allows staff to reopen tickets', async () => {
+    await expect(
+      useCase.execute({ ticketId: 1, actorId: '999', reason: 'Cerrado por error', isStaff: false }, guild),
+    ).rejects.toBeInstanceOf(UnauthorizedActionError);
+
+    expect(ticketRepo.update).not.toHaveBeenCalled();
+  });
+
+  it('rejects tickets that are not middleman tickets', async () => {
+    const shopTicket = new Ticket(1, 1n, 2n, OWNER_ID, TicketType.BUY, TicketStatus.CLOSED, new Date(), new Date());
+    vi.mocked(ticketRepo.findById).mockResolvedValue(shopTicket);
+
+    await expect(
+      useCase.execute({ ticketId: 1, actorId: '999', reason: 'Cerrado por error', isStaff: true }, guild),
+    ).rejects.toBeInstanceOf(NotMiddlemanTicketError);
+
+    expect(middlemanRepo.resetClaim).not.toHaveBeenCalled();
+  });
+});
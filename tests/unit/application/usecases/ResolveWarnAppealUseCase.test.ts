@@ -0,0 +1,101 @@
+import type { Logger } from 'pino';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { ResolveWarnAppealUseCase } from '@/application/usecases/warn/ResolveWarnAppealUseCase';
+import { Warn, WarnAppealStatus, WarnSeverity } from '@/domain/entities/Warn';
+import type { IWarnAppealRepository, WarnAppeal } from '@/domain/repositories/IWarnAppealRepository';
+import type { IWarnRepository } from '@/domain/repositories/IWarnRepository';
+import { WarnAppealAlreadyResolvedError, WarnAppealNotFoundError } from '@/shared/errors/domain.errors';
+
+const USER_ID = 123456789012345678n;
+
+const createMockLogger = (): Logger =>
+  ({
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    child: vi.fn().mockReturnThis(),
+    level: 'silent',
+  }) as unknown as Logger;
+
+const buildAppeal = (status = WarnAppealStatus.PENDING): WarnAppeal => ({
+  id: 4,
+  warnId: 10,
+  guildId: 1n,
+  userId: USER_ID,
+  justification: 'No fui yo quien envió esos mensajes.',
+  status,
+  messageId: 555n,
+  reviewerId: null,
+  createdAt: new Date(),
+  resolvedAt: null,
+});
+
+describe('ResolveWarnAppealUseCase', () => {
+  const appealedWarn = new Warn(10, USER_ID, null, WarnSeverity.MAJOR, 'Spam', new Date());
+  const otherWarn = new Warn(11, USER_ID, null, WarnSeverity.MINOR, null, new Date());
+
+  let appealRepo: IWarnAppealRepository;
+  let warnRepo: IWarnRepository;
+  let useCase: ResolveWarnAppealUseCase;
+
+  beforeEach(() => {
+    appealRepo = {
+      withTransaction: vi.fn(() => appealRepo),
+      create: vi.fn(),
+      existsForWarn: vi.fn(),
+      findByMessageId: vi.fn().mockResolvedValue(buildAppeal()),
+      resolve: vi.fn().mockResolvedValue(true),
+    } as unknown as IWarnAppealRepository;
+    warnRepo = {
+      withTransaction: vi.fn(() => warnRepo),
+      create: vi.fn(),
+      findById: vi.fn().mockResolvedValue(appealedWarn),
+      delete: vi.fn(),
+      listByUser: vi.fn(),
+      listActiveByUser: vi.fn().mockResolvedValue([otherWarn]),
+      markExpired: vi.fn(),
+    } as unknown as IWarnRepository;
+
+    useCase = new ResolveWarnAppealUseCase(
+      appealRepo,
+      warnRepo,
+      { $transaction: vi.fn(async (fn) => fn({})) },
+      createMockLogger(),
+    );
+  });
+
+  it('removes the warn and recalculates points when the appeal is accepted', async () => {
+    const result = await useCase.execute({ messageId: '555', reviewerId: '42', accept: true });
+
+    expect(appealRepo.resolve).toHaveBeenCalledWith(4, WarnAppealStatus.ACCEPTED, 42n);
+    expect(warnRepo.delete).toHaveBeenCalledWith(10);
+    expect(result.removedWarn).toBe(appealedWarn);
+    expect(result.summary).toEqual({ totalPoints: 1, recommendedAction: 'NONE' });
+  });
+
+  it('keeps the warn when the appeal is rejected', async () => {
+    const result = await useCase.execute({ messageId: '555', reviewerId: '42', accept: false });
+
+    expect(appealRepo.resolve).toHaveBeenCalledWith(4, WarnAppealStatus.REJECTED, 42n);
+    expect(warnRepo.delete).not.toHaveBeenCalled();
+    expect(result.removedWarn).toBeNull();
+  });
+
+  it('rejects appeals that were already resolved', async () => {
+    vi.mocked(appealRepo.findByMessageId).mockResolvedValue(buildAppeal(WarnAppealStatus.REJECTED));
+
+    await expect(useCase.execute({ messageId: '555', reviewerId: '42', accept: true })).rejects.toBeInstanceOf(
+      WarnAppealAlreadyResolvedError,
+    );
+  });
+
+  it('fails when no appeal is linked to the message', async () => {
+    vi.mocked(appealRepo.findByMessageId).mockResolvedValue(null);
+
+    await expect(useCase.execute({ messageId: '1', reviewerId: '42', accept: true })).rejects.toBeInstanceOf(
+      WarnAppealNotFoundError,
+    );
+  });
+});
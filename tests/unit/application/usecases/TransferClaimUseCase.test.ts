@@ -0,0 +1,130 @@
+import type { PrismaClient } from '@prisma/client';
+import type { TextChannel } from 'discord.js';
+import type { Logger } from 'pino';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { TransferClaimUseCase } from '@/application/usecases/middleman/TransferClaimUseCase';
+import { Ticket } from '@/domain/entities/Ticket';
+import { TicketStatus, TicketType } from '@/domain/entities/types';
+import type { IMiddlemanRepository } from '@/domain/repositories/IMiddlemanRepository';
+import type { ITicketReminderRepository } from '@/domain/repositories/ITicketReminderRepository';
+import type { ITicketRepository } from '@/domain/repositories/ITicketRepository';
+import { embedFactory } from '@/presentation/embeds/EmbedFactory';
+import { UnauthorizedActionError } from '@/shared/errors/domain.errors';
+
+const OWNER_ID = 111111111111111111n;
+const MIDDLEMAN_ID = 333333333333333333n;
+const OTHER_MIDDLEMAN_ID = 444444444444444444n;
+
+const createMockLogger = (): Logger =>
+  ({
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    child: vi.fn().mockReturnThis(),
+    level: 'silent',
+  }) as unknown as Logger;
+
+describe('TransferClaimUseCase', () => {
+  let ticket: Ticket;
+  let ticketRepo: ITicketRepository;
+  let middlemanRepo: IMiddlemanRepository;
+  let reminderRepo: ITicketReminderRepository;
+  let permissionOverwrites: { edit: ReturnType<typeof vi.fn>; delete: ReturnType<typeof vi.fn> };
+  let channel: TextChannel;
+  let useCase: TransferClaimUseCase;
+
+  beforeEach(() => {
+    ticket = new Ticket(1, 1n, 2n, OWNER_ID, TicketType.MM, TicketStatus.CLAIMED, new Date(), undefined, MIDDLEMAN_ID);
+
+    ticketRepo = {
+      withTransaction: vi.fn().mockReturnThis(),
+      findById: vi.fn().mockResolvedValue(ticket),
+      isParticipant: vi.fn().mockResolvedValue(false),
+      update: vi.fn(),
+    } as unknown as ITicketRepository;
+    middlemanRepo = {
+      withTransaction: vi.fn().mockReturnThis(),
+      isMiddleman: vi.fn().mockResolvedValue(true),
+      getClaimByTicket: vi.fn().mockResolvedValue({ ticketId: 1, middlemanId: MIDDLEMAN_ID, claimedAt: new Date() }),
+      createClaim: vi.fn(),
+      transferClaim: vi.fn(),
+      releaseClaim: vi.fn(),
+      recordTransfer: vi.fn(),
+    } as unknown as IMiddlemanRepository;
+    reminderRepo = {
+      withTransaction: vi.fn().mockReturnThis(),
+      reset: vi.fn(),
+    } as unknown as ITicketReminderRepository;
+    permissionOverwrites = { edit: vi.fn(), delete: vi.fn() };
+    channel = {
+      id: '2',
+      send: vi.fn().mockResolvedValue(undefined),
+      permissionOverwrites,
+    } as unknown as TextChannel;
+
+    const prisma = {
+      $transaction: vi.fn(async (fn: (tx: unknown) => Promise<unknown>) => fn({})),
+    } as unknown as PrismaClient;
+
+    useCase = new TransferClaimUseCase(
+      ticketRepo,
+      middlemanRepo,
+      reminderRepo,
+      prisma,
+      createMockLogger(),
+      embedFactory,
+    );
+  });
+
+  it('releases the claim and reopens the ticket', async () => {
+    await useCase.execute(
+      { ticketId: 1, actorId: MIDDLEMAN_ID.toString(), targetId: null, isStaff: false },
+      channel,
+    );
+
+    expect(ticket.status).toBe(TicketStatus.OPEN);
+    expect(ticket.assignedMiddlemanId).toBeUndefined();
+    expect(middlemanRepo.releaseClaim).toHaveBeenCalledWith(1);
+    expect(reminderRepo.reset).toHaveBeenCalledWith(1, expect.any(Date));
+    expect(middlemanRepo.recordTransfer).toHaveBeenCalledWith({
+      ticketId: 1,
+      fromMiddlemanId: MIDDLEMAN_ID,
+      toMiddlemanId: null,
+      actorId: MIDDLEMAN_ID,
+    });
+    expect(permissionOverwrites.delete).toHaveBeenCalledWith(MIDDLEMAN_ID.toString());
+    expect(permissionOverwrites.edit).not.toHaveBeenCalled();
+  });
+
+  it('transfers the claim and swaps channel overwrites', async () => {
+    await useCase.execute(
+      { ticketId: 1, actorId: '999', targetId: OTHER_MIDDLEMAN_ID.toString(), isStaff: true },
+      channel,
+    );
+
+    expect(ticket.status).toBe(TicketStatus.CLAIMED);
+    expect(ticket.assignedMiddlemanId).toBe(OTHER_MIDDLEMAN_ID);
+    // El claim conserva su hora original para que la duración incluya el tramo anterior a la transferencia.
+    expect(middlemanRepo.transferClaim).toHaveBeenCalledWith(1, OTHER_MIDDLEMAN_ID);
+    expect(middlemanRepo.createClaim).not.toHaveBeenCalled();
+    expect(reminderRepo.reset).not.toHaveBeenCalled();
+    expect(middlemanRepo.recordTransfer).toHaveBeenCalledWith(
+      expect.objectContaining({ fromMiddlemanId: MIDDLEMAN_ID, toMiddlemanId: OTHER_MIDDLEMAN_ID, actorId: 999n }),
+    );
+    expect(permissionOverwrites.delete).toHaveBeenCalledWith(MIDDLEMAN_ID.toString());
+    expect(permissionOverwrites.edit).toHaveBeenCalledWith(OTHER_MIDDLEMAN_ID.toString(), expect.any(Object));
+  });
+
+  it('rejects actors that are neither staff nor the assigned middleman', async () => {
+    await expect(
+      useCase.execute(
+        { ticketId: 1, actorId: '999', targetId: OTHER_MIDDLEMAN_ID.toString(), isStaff: false },
+        channel,
+      ),
+    ).rejects.toBeInstanceOf(UnauthorizedActionError);
+
+    expect(middlemanRepo.recordTransfer).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+
+import { Ticket } from '@/domain/entities/Ticket';
+import { TicketStatus, TicketType } from '@/domain/entities/types';
+import { InvalidTicketStateError } from '@/shared/errors/domain.errors';
+
+const buildTicket = (status: TicketStatus, type: TicketType = TicketType.MM): Ticket =>
+  new Ticket(1, 1n, 2n, 111111111111111111n, type, status, new Date('2025-03-10T12:00:00Z'));
+
+describe('Ticket entity', () => {
+  const closedAt = new Date('2025-03-11T12:00:00Z');
+
+  it('only closes claimed or confirmed tickets', () => {
+    const claimed = buildTicket(TicketStatus.CLAIMED);
+    claimed.close(closedAt);
+
+    expect(claimed.status).toBe(TicketStatus.CLOSED);
+    expect(claimed.closedAt).toBe(closedAt);
+    expect(() => buildTicket(TicketStatus.OPEN).close()).toThrow(InvalidTicketStateError);
+  });
+
+  it('cancels from any open state but not twice', () => {
+    const open = buildTicket(TicketStatus.OPEN);
+    open.cancel(closedAt);
+
+    expect(open.status).toBe(TicketStatus.CLOSED);
+    expect(open.closedAt).toBe(closedAt);
+    expect(() => open.cancel()).toThrow(InvalidTicketStateError);
+  });
+
+  it('closes general tickets without a claim', () => {
+    const general = buildTicket(TicketStatus.OPEN, TicketType.ROBUX);
+    general.close(closedAt);
+
+    expect(general.status).toBe(TicketStatus.CLOSED);
+    expect(() => general.close()).toThrow(InvalidTicketStateError);
+  });
+});
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+
+import { Warn, WarnSeverity } from '@/domain/entities/Warn';
+import { WarnExpiryPolicy } from '@/domain/value-objects/WarnExpiryPolicy';
+
+describe('WarnExpiryPolicy', () => {
+  const policy = WarnExpiryPolicy.create({
+    [WarnSeverity.MINOR]: 30,
+    [WarnSeverity.MAJOR]: 90,
+    [WarnSeverity.CRITICAL]: 0,
+  });
+  const now = new Date('2025-06-01T00:00:00Z');
+  const createdAt = new Date('2025-04-01T00:00:00Z');
+
+  it('expires warns once their severity window has passed', () => {
+    const minor = new Warn(1, 1n, null, WarnSeverity.MINOR, null, createdAt);
+    const major = new Warn(2, 1n, null, WarnSeverity.MAJOR, null, createdAt);
+
+    expect(policy.expiresAt(minor)).toEqual(new Date('2025-05-01T00:00:00Z'));
+    expect(policy.isActive(minor, now)).toBe(false);
+    expect(policy.isActive(major, now)).toBe(true);
+  });
+
+  it('never expires severities configured with zero days', () => {
+    const critical = new Warn(3, 1n, null, WarnSeverity.CRITICAL, null, new Date('2020-01-01T00:00:00Z'));
+
+    expect(policy.expiresAt(critical)).toBeNull();
+    expect(policy.isActive(critical, now)).toBe(true);
+  });
+
+  it('builds created_at lower bounds for each severity', () => {
+    expect(policy.windows(now)).toEqual({
+      [WarnSeverity.MINOR]: new Date('2025-05-02T00:00:00Z'),
+      [WarnSeverity.MAJOR]: new Date('2025-03-03T00:00:00Z'),
+      [WarnSeverity.CRITICAL]: null,
+    });
+  });
+});
@@ -0,0 +1,92 @@
+import type { PrismaClient } from '@prisma/client';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { TradeStatus } from '@/domain/value-objects/TradeStatus';
+import { PrismaLeaderboardRepository } from '@/infrastructure/repositories/PrismaLeaderboardRepository';
+
+const MIDDLEMAN_ID = 333333333333333333n;
+const TRADER_ID = 111111111111111111n;
+
+interface ClaimRow {
+  readonly ticketId: number;
+  readonly middlemanId: bigint | null;
+  readonly closedAt: Date | null;
+  readonly forcedClose: boolean;
+}
+
+interface ClaimFilter {
+  readonly middlemanId?: { not: null };
+  readonly forcedClose?: boolean;
+  readonly closedAt: { gte: Date } | { not: null };
+}
+
+const matchesClaim = (claim: ClaimRow, where: ClaimFilter): boolean =>
+  (where.middlemanId === undefined || claim.middlemanId !== null) &&
+  (where.forcedClose === undefined || claim.forcedClose === where.forcedClose) &&
+  claim.closedAt !== null &&
+  (!('gte' in where.closedAt) || claim.closedAt >= where.closedAt.gte);
+
+const countBy = <T>(rows: readonly T[], key: (row: T) => bigint | null) => {
+  const counts = new Map<bigint | null, number>();
+  rows.forEach((row) => counts.set(key(row), (counts.get(key(row)) ?? 0) + 1));
+
+  return [...counts];
+};
+
+describe('PrismaLeaderboardRepository', () => {
+  const closedAt = new Date('2025-03-05T12:00:00Z');
+
+  let claims: ClaimRow[];
+  let repository: PrismaLeaderboardRepository;
+
+  beforeEach(() => {
+    claims = [
+      { ticketId: 1, middlemanId: MIDDLEMAN_ID, closedAt, forcedClose: false },
+      { ticketId: 2, middlemanId: MIDDLEMAN_ID, closedAt, forcedClose: false },
+      // Ticket cancelado: el claim se cerró a la fuerza y no cuenta como cierre completado.
+      { ticketId: 3, middlemanId: MIDDLEMAN_ID, closedAt, forcedClose: true },
+    ];
+    const trades = claims.map((claim) => ({ ticketId: claim.ticketId, userId: TRADER_ID, status: TradeStatus.COMPLETED }));
+
+    const prisma = {
+      middlemanClaim: {
+        groupBy: vi.fn(async ({ where }: { where: ClaimFilter }) =>
+          countBy(
+            claims.filter((claim) => matchesClaim(claim, where)),
+            (claim) => claim.middlemanId,
+          ).map(([middlemanId, count]) => ({ middlemanId, _count: { middlemanId: count } })),
+        ),
+      },
+      middlemanTrade: {
+        groupBy: vi.fn(
+          async ({ where }: { where: { status: TradeStatus; ticket: { middlemanClaim: { is: ClaimFilter } } } }) =>
+            countBy(
+              trades.filter((trade) => {
+                const claim = claims.find((candidate) => candidate.ticketId === trade.ticketId);
+
+                return (
+                  trade.status === where.status && claim !== undefined && matchesClaim(claim, where.ticket.middlemanClaim.is)
+                );
+              }),
+              (trade) => trade.userId,
+            ).map(([userId, count]) => ({ userId, _count: { userId: count } })),
+        ),
+      },
+    };
+    repository = new PrismaLeaderboardRepository(prisma as unknown as PrismaClient);
+  });
+
+  it('counts only completed closes on the all-time middleman board, like mm_stats', async () => {
+    const entries = await repository.topMiddlemen(null, 10);
+
+    expect(entries).toEqual([{ userId: MIDDLEMAN_ID, score: 2, count: 2 }]);
+  });
+
+  it('ignores trades from cancelled tickets on the trader boards', async () => {
+    const allTime = await repository.topTraders(null, 10);
+    const weekly = await repository.topTraders(new Date('2025-03-01T00:00:00Z'), 10);
+
+    expect(allTime).toEqual([{ userId: TRADER_ID, score: 2, count: 2 }]);
+    expect(weekly).toEqual(allTime);
+  });
+});
@@ -0,0 +1,83 @@
+import type { PrismaClient } from '@prisma/client';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { PrismaMemberStatsRepository } from '@/infrastructure/repositories/PrismaMemberStatsRepository';
+
+const USER_ID = 111111111111111111n;
+
+const aggregateResult = (count: number, average: number | null) => ({
+  _count: { _all: count },
+  _avg: { rating: average },
+});
+
+describe('PrismaMemberStatsRepository.getByUser', () => {
+  let prisma: {
+    memberTradeStats: { findUnique: ReturnType<typeof vi.fn> };
+    middlemanReview: { aggregate: ReturnType<typeof vi.fn> };
+  };
+  let repository: PrismaMemberStatsRepository;
+
+  beforeEach(() => {
+    prisma = {
+      memberTradeStats: { findUnique: vi.fn().mockResolvedValue(null) },
+      middlemanReview: {
+        aggregate: vi.fn(async ({ where }: { where: { reviewerId?: bigint } }) =>
+          where.reviewerId !== undefined ? aggregateResult(2, 4.5) : aggregateResult(3, 3),
+        ),
+      },
+    };
+    repository = new PrismaMemberStatsRepository(prisma as unknown as PrismaClient);
+  });
+
+  it('returns empty stats when the member has no stats row', async () => {
+    prisma.middlemanReview.aggregate.mockResolvedValue(aggregateResult(0, null));
+
+    const stats = await repository.getByUser(USER_ID);
+
+    expect(stats).toEqual({
+      userId: USER_ID,
+      tradesCompleted: 0,
+      lastTradeAt: null,
+      robloxUsername: null,
+      robloxUserId: null,
+      partnerTag: null,
+      reviewsGiven: { count: 0, average: null },
+      reviewsReceived: { count: 0, average: null },
+    });
+  });
+
+  it('maps the stats row and the given and received review averages', async () => {
+    const lastTradeAt = new Date('2025-03-01T12:00:00Z');
+    prisma.memberTradeStats.findUnique.mockResolvedValue({
+      userId: USER_ID,
+      tradesCompleted: 4,
+      lastTradeAt,
+      robloxUsername: 'builderman',
+      robloxUserId: 156n,
+      partnerTag: 'roblox-partner',
+    });
+
+    const stats = await repository.getByUser(USER_ID);
+
+    expect(stats).toMatchObject({
+      tradesCompleted: 4,
+      lastTradeAt,
+      robloxUsername: 'builderman',
+      robloxUserId: 156n,
+      partnerTag: 'roblox-partner',
+      reviewsGiven: { count: 2, average: 4.5 },
+      reviewsReceived: { count: 3, average: 3 },
+    });
+  });
+
+  it('leaves hidden reviews out of both averages', async () => {
+    await repository.getByUser(USER_ID);
+
+    expect(prisma.middlemanReview.aggregate).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { reviewerId: USER_ID, hiddenAt: null } }),
+    );
+    expect(prisma.middlemanReview.aggregate).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { middlemanId: USER_ID, hiddenAt: null } }),
+    );
+  });
+});
@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+
+import { renderMemberCard } from '@/presentation/cards/MemberCardRenderer';
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+describe('renderMemberCard', () => {
+  it('renders the /stats card to a PNG buffer without an avatar', async () => {
+    const card = await renderMemberCard({
+      username: 'Ana',
+      avatar: null,
+      stats: {
+        userId: 111n,
+        tradesCompleted: 12,
+        lastTradeAt: new Date('2025-03-01T12:00:00Z'),
+        robloxUsername: 'builderman',
+        robloxUserId: 156n,
+        partnerTag: null,
+        reviewsGiven: { count: 2, average: 4.5 },
+        reviewsReceived: { count: 0, average: null },
+      },
+    });
+
+    expect(card.subarray(0, PNG_SIGNATURE.length).equals(PNG_SIGNATURE)).toBe(true);
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+
+import type { TranscriptDocument } from '@/domain/repositories/ITranscriptRepository';
+import { renderTranscriptHtml } from '@/presentation/transcripts/TranscriptHtmlRenderer';
+
+const buildDocument = (): TranscriptDocument => ({
+  ticketId: 7,
+  guildId: '1',
+  channelId: '2',
+  channelName: 'mm-owner',
+  generatedAt: '2024-01-01T00:00:00.000Z',
+  messages: [
+    {
+      id: '10',
+      authorId: '111',
+      authorTag: 'owner',
+      authorAvatarUrl: 'https://cdn.discordapp.com/avatars/111/a.png',
+      bot: false,
+      content: '<script>alert(1)</script>',
+      createdAt: '2024-01-01T00:00:00.000Z',
+      editedAt: null,
+      attachments: [{ name: 'proof.png', url: 'https://cdn.discordapp.com/proof.png', size: 2048 }],
+      embeds: [
+        {
+          title: 'Ticket reclamado',
+          description: null,
+          url: null,
+          color: 0x3498db,
+          fields: [{ name: 'Middleman', value: '<@333>', inline: true }],
+          footer: null,
+          imageUrl: null,
+        },
+      ],
+    },
+  ],
+});
+
+describe('renderTranscriptHtml', () => {
+  it('escapes message content', () => {
+    const html = renderTranscriptHtml(buildDocument());
+
+    expect(html).not.toContain('<script>alert(1)</script>');
+    expect(html).toContain('&lt;script&gt;alert(1)&lt;/script&gt;');
+  });
+
+  it('renders avatars, attachments as links and embeds', () => {
+    const html = renderTranscriptHtml(buildDocument());
+
+    expect(html).toContain('src="https://cdn.discordapp.com/avatars/111/a.png"');
+    expect(html).toContain('href="https://cdn.discordapp.com/proof.png"');
+    expect(html).toContain('Ticket reclamado');
+    expect(html).toContain('border-color: #3498db');
+  });
+});
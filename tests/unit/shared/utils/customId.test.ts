@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+
+import { createCustomIdCodec, customIdPrefix } from '@/shared/utils/customId';
+
+const SECRET = 'test-secret-with-enough-entropy';
+
+describe('createCustomIdCodec', () => {
+  const codec = createCustomIdCodec('review', ['ticketId', 'middlemanId'], SECRET);
+
+  it('round-trips signed params', () => {
+    const customId = codec.build({ ticketId: 42, middlemanId: 333333333333333333n });
+
+    expect(customId.startsWith('review:42:333333333333333333:')).toBe(true);
+    expect(customIdPrefix(customId)).toBe('review');
+    expect(codec.parse(customId)).toEqual({ ticketId: '42', middlemanId: '333333333333333333' });
+  });
+
+  it('rejects tampered, foreign or malformed ids', () => {
+    const customId = codec.build({ ticketId: 42, middlemanId: '333333333333333333' });
+    const otherSecret = createCustomIdCodec('review', ['ticketId', 'middlemanId'], 'another-secret-value');
+
+    expect(codec.parse(customId.replace('review:42:', 'review:43:'))).toBeNull();
+    expect(otherSecret.parse(customId)).toBeNull();
+    expect(codec.parse('review:42')).toBeNull();
+    expect(codec.parse('middleman-review')).toBeNull();
+  });
+
+  it('refuses values that would break the format', () => {
+    expect(() => codec.build({ ticketId: 1, middlemanId: 'a:b' })).toThrow();
+    expect(() => codec.build({ ticketId: 1, middlemanId: 'x'.repeat(100) })).toThrow();
+  });
+});